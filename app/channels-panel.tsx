@@ -0,0 +1,117 @@
+"use client";
+
+import { useRef } from "react";
+import {
+  BUILTIN_TEXTURES,
+  CHANNEL_FILTERS,
+  CHANNEL_WRAPS,
+  type BuiltinTexture,
+  type ChannelFilter,
+  type ChannelWrap,
+  type TextureChannel,
+} from "./texture-channels";
+
+export type ChannelSourceChoice = { kind: "empty" } | { kind: "builtin"; texture: BuiltinTexture } | { kind: "webcam" };
+
+interface ChannelsPanelProps {
+  channels: TextureChannel[];
+  // False when the connected renderer has no texture channels
+  supported: boolean;
+  onSourceChange: (index: number, source: ChannelSourceChoice) => void;
+  onUpload: (index: number, file: File) => void;
+  onSamplerChange: (index: number, sampler: { filter: ChannelFilter; wrap: ChannelWrap }) => void;
+}
+
+function sourceValue(channel: TextureChannel): string {
+  switch (channel.source.kind) {
+    case "builtin":
+      return `builtin:${channel.source.texture}`;
+    default:
+      return channel.source.kind;
+  }
+}
+
+function ChannelSlot({ index, channel, onSourceChange, onUpload, onSamplerChange }: Omit<ChannelsPanelProps, "channels" | "supported"> & {
+  index: number;
+  channel: TextureChannel;
+}) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const selectClass = "bg-black border border-[#2a2a2e] rounded text-[#8a8a8e] text-xs min-w-0";
+
+  const handleSource = (value: string) => {
+    if (value === "upload") {
+      fileInputRef.current?.click();
+    } else if (value.startsWith("builtin:")) {
+      onSourceChange(index, { kind: "builtin", texture: value.slice("builtin:".length) as BuiltinTexture });
+    } else {
+      onSourceChange(index, { kind: value as "empty" | "webcam" });
+    }
+  };
+
+  return (
+    <div className="flex items-center gap-2 min-w-0">
+      {channel.preview ? (
+        <img src={channel.preview} alt="" className="w-10 h-10 rounded border border-[#2a2a2e] object-cover shrink-0" />
+      ) : (
+        <div className="w-10 h-10 rounded border border-[#2a2a2e] bg-black shrink-0" />
+      )}
+      <div className="flex flex-col gap-1 min-w-0">
+        <div className="flex items-center gap-1 min-w-0">
+          <span className="font-mono text-xs text-[#8a8a8e] shrink-0" title={`texture(${index}), sampler(${index})`}>channel{index}</span>
+          <select value={sourceValue(channel)} onChange={e => handleSource(e.target.value)} className={selectClass}>
+            <option value="empty">Empty</option>
+            <option value="upload">{channel.source.kind === "upload" ? channel.source.name : "Upload image..."}</option>
+            {BUILTIN_TEXTURES.map(texture => (
+              <option key={texture.id} value={`builtin:${texture.id}`}>{texture.label}</option>
+            ))}
+            <option value="webcam">Webcam</option>
+          </select>
+        </div>
+        <div className="flex items-center gap-1">
+          <select
+            value={channel.filter}
+            onChange={e => onSamplerChange(index, { filter: e.target.value as ChannelFilter, wrap: channel.wrap })}
+            className={selectClass}
+          >
+            {CHANNEL_FILTERS.map(filter => <option key={filter.id} value={filter.id}>{filter.label}</option>)}
+          </select>
+          <select
+            value={channel.wrap}
+            onChange={e => onSamplerChange(index, { filter: channel.filter, wrap: e.target.value as ChannelWrap })}
+            className={selectClass}
+          >
+            {CHANNEL_WRAPS.map(wrap => <option key={wrap.id} value={wrap.id}>{wrap.label}</option>)}
+          </select>
+        </div>
+      </div>
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept="image/*"
+        className="hidden"
+        onChange={e => {
+          const file = e.target.files?.[0];
+          if (file) onUpload(index, file);
+          e.target.value = "";
+        }}
+      />
+    </div>
+  );
+}
+
+export default function ChannelsPanel({ channels, supported, ...handlers }: ChannelsPanelProps) {
+  return (
+    <div className="border-t border-[#1f1f23] px-4 py-2 text-sm">
+      <div className="mb-2 text-xs text-[#5a5a5e]">
+        <span className="uppercase tracking-wide">Channels</span>
+        <span className="ml-2 font-mono normal-case text-[#4a4a4e]">texture2d&lt;float&gt; channelN [[texture(N)]], sampler channelNSampler [[sampler(N)]]</span>
+        {!supported && <span className="ml-2 text-[#fb923c]">not supported by the connected renderer</span>}
+      </div>
+      <fieldset disabled={!supported} className="grid grid-cols-4 gap-4 disabled:opacity-40">
+        {channels.map((channel, index) => (
+          <ChannelSlot key={index} index={index} channel={channel} {...handlers} />
+        ))}
+      </fieldset>
+    </div>
+  );
+}
@@ -0,0 +1,36 @@
+"use client";
+
+import type { ConnectionStatus } from "./renderer-connection";
+
+const STATUS_STYLES: Record<ConnectionStatus, { label: string; dot: string; text: string }> = {
+  idle: { label: "Disconnected", dot: "bg-[#3a3a3e]", text: "text-[#4a4a4e]" },
+  connecting: { label: "Connecting", dot: "bg-[#facc15] animate-pulse", text: "text-[#8a8a8e]" },
+  connected: { label: "Connected", dot: "bg-[#4ade80]", text: "text-[#8a8a8e]" },
+  reconnecting: { label: "Reconnecting", dot: "bg-[#fb923c] animate-pulse", text: "text-[#fb923c]" },
+  failed: { label: "Connection failed", dot: "bg-[#f87171]", text: "text-[#f87171]" },
+};
+
+interface ConnectionStatusBadgeProps {
+  status: ConnectionStatus;
+  detail: string | null;
+  // Shown while connected, e.g. for a renderer on another protocol version
+  warning: string | null;
+  endpoint: string;
+}
+
+export default function ConnectionStatusBadge({ status, detail, warning, endpoint }: ConnectionStatusBadgeProps) {
+  const style = STATUS_STYLES[status];
+
+  return (
+    <div className={`flex items-center gap-2 text-xs ${style.text}`} title={detail ? `${endpoint} - ${detail}` : endpoint}>
+      <span className={`w-2 h-2 rounded-full ${style.dot}`} />
+      {style.label}
+      {status === "connected" && detail && <span className="text-[#4a4a4e]">{detail}</span>}
+      {status === "connected" && warning && (
+        <span title={warning} className="text-[#fb923c]">
+          Protocol mismatch
+        </span>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,71 @@
+import { sameSources, type ShaderSources } from "./shader-includes";
+
+export type SnapshotStatus = "pending" | "ok" | "error";
+
+export interface HistorySnapshot extends ShaderSources {
+  id: number;
+  takenAt: number;
+  // Id of the last shader message that sent this code, matched against the server's reply
+  compileId: number;
+  status: SnapshotStatus;
+  // JPEG data URL of the last frame rendered from this code
+  thumbnail: string | null;
+}
+
+// Oldest snapshots are dropped first, but the newest compiling one is always kept
+const MAX_SNAPSHOTS = 100;
+
+const THUMBNAIL_WIDTH = 96;
+
+let nextSnapshotId = 1;
+
+// Sending the same code again (a re-run or a reconnect) refreshes the newest snapshot instead of adding one
+export function recordSnapshot(snapshots: HistorySnapshot[], sources: ShaderSources, compileId: number): HistorySnapshot[] {
+  const latest = snapshots.at(-1);
+  if (latest && sameSources(latest, sources)) {
+    return [...snapshots.slice(0, -1), { ...latest, compileId, takenAt: Date.now() }];
+  }
+
+  const { code, passes, files } = sources;
+  const next = [
+    ...snapshots,
+    { id: nextSnapshotId++, code, passes, files, takenAt: Date.now(), compileId, status: "pending" as const, thumbnail: null },
+  ];
+  if (next.length <= MAX_SNAPSHOTS) return next;
+
+  const keep = lastCompiling(next);
+  const overflow = next.length - MAX_SNAPSHOTS;
+  return next.filter((snapshot, index) => index >= overflow || snapshot === keep);
+}
+
+export function updateSnapshot(
+  snapshots: HistorySnapshot[],
+  id: number,
+  changes: Partial<Pick<HistorySnapshot, "status" | "thumbnail">>,
+): HistorySnapshot[] {
+  return snapshots.map(snapshot => (snapshot.id === id ? { ...snapshot, ...changes } : snapshot));
+}
+
+export function snapshotForCompile(snapshots: HistorySnapshot[], compileId: number): HistorySnapshot | undefined {
+  return snapshots.find(snapshot => snapshot.compileId === compileId);
+}
+
+export function lastCompiling(snapshots: HistorySnapshot[]): HistorySnapshot | null {
+  for (let i = snapshots.length - 1; i >= 0; i--) {
+    if (snapshots[i].status === "ok") return snapshots[i];
+  }
+  return null;
+}
+
+export function captureThumbnail(source: HTMLCanvasElement, width = THUMBNAIL_WIDTH): string | null {
+  if (source.width === 0 || source.height === 0) return null;
+
+  const canvas = document.createElement("canvas");
+  canvas.width = width;
+  canvas.height = Math.max(1, Math.round((source.height / source.width) * width));
+  const ctx = canvas.getContext("2d");
+  if (!ctx) return null;
+
+  ctx.drawImage(source, 0, 0, canvas.width, canvas.height);
+  return canvas.toDataURL("image/jpeg", 0.7);
+}
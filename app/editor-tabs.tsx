@@ -0,0 +1,195 @@
+"use client";
+
+import { useState } from "react";
+import { Library, Lock, Plus, X } from "lucide-react";
+import { BUFFER_NAMES, BUFFER_SCALES, bufferTextureIndex, passLabel, passPath, pathPass, type BufferName, type BufferPass, type PassName } from "./shader-passes";
+import type { ShaderFile } from "./shader-includes";
+import { LIBRARY_FILES, isLibraryPath } from "./shader-library";
+
+interface EditorTabsProps {
+  passes: BufferPass[];
+  files: ShaderFile[];
+  // Path of the open document: a pass, a project file or a library header
+  active: string;
+  // Documents with errors, marked on their tab
+  failing: string[];
+  onSelect: (path: string) => void;
+  onAddPass: () => void;
+  // False when the connected renderer cannot run buffer passes
+  canAddPass: boolean;
+  onRemovePass: (name: BufferName) => void;
+  onScaleChange: (name: BufferName, scale: number) => void;
+  onAddFile: () => void;
+  // Returns false when the name is taken or not a valid file name, which keeps the old one
+  onRenameFile: (file: ShaderFile, name: string) => boolean;
+  onRemoveFile: (file: ShaderFile) => void;
+}
+
+const TAB_CLASS = "group flex items-center gap-1 rounded shrink-0";
+
+function tabClass(active: boolean) {
+  return `${TAB_CLASS} ${active ? "bg-[#2a2a3e] text-[#8a8aff]" : "text-[#5a5a5e] hover:text-[#8a8a8e]"}`;
+}
+
+export default function EditorTabs({
+  passes,
+  files,
+  active,
+  failing,
+  onSelect,
+  onAddPass,
+  canAddPass,
+  onRemovePass,
+  onScaleChange,
+  onAddFile,
+  onRenameFile,
+  onRemoveFile,
+}: EditorTabsProps) {
+  const [renaming, setRenaming] = useState<string | null>(null);
+  const [draftName, setDraftName] = useState("");
+
+  const passNames: PassName[] = ["image", ...passes.map(pass => pass.name)];
+  const activeBuffer = passes.find(pass => passPath(pass.name) === active);
+  const activePass = pathPass(active);
+
+  const commitRename = (file: ShaderFile) => {
+    const name = draftName.trim();
+    if (!name || name === file.name || onRenameFile(file, name)) setRenaming(null);
+  };
+
+  const failingDot = (path: string) => failing.includes(path) && <span className="w-1.5 h-1.5 rounded-full bg-[#f87171]" />;
+
+  return (
+    <div className="h-8 flex items-center gap-1 px-2 border-b border-[#1f1f23] text-xs shrink-0 overflow-x-auto">
+      {passNames.map(name => (
+        <div key={name} className={tabClass(name === activePass)}>
+          <button
+            onClick={() => onSelect(passPath(name))}
+            title={name === "image" ? "The pass shown on screen, rendered after every buffer" : `Rendered before the image pass; every pass reads it at texture(${bufferTextureIndex(name)})`}
+            className="flex items-center gap-1.5 px-2 py-1"
+          >
+            {failingDot(passPath(name))}
+            {passLabel(name)}
+          </button>
+          {name !== "image" && (
+            <button
+              onClick={() => onRemovePass(name)}
+              title={`Remove ${passLabel(name)}`}
+              className="hidden group-hover:block pr-1.5 text-[#5a5a5e] hover:text-[#f87171]"
+            >
+              <X size={12} />
+            </button>
+          )}
+        </div>
+      ))}
+
+      {passes.length < BUFFER_NAMES.length && (
+        <button
+          onClick={onAddPass}
+          disabled={!canAddPass}
+          title={canAddPass
+            ? "Add a buffer pass, rendered before the image pass and readable by every pass"
+            : "The connected renderer does not run buffer passes"}
+          className="flex items-center gap-1 px-2 py-1 text-[#5a5a5e] hover:text-[#8a8a8e] shrink-0 disabled:opacity-30 disabled:hover:text-[#5a5a5e]"
+        >
+          <Plus size={12} />
+          Buffer
+        </button>
+      )}
+
+      <span className="w-px h-4 mx-1 bg-[#2a2a2e] shrink-0" />
+
+      {files.map(file => (
+        <div key={file.name} className={tabClass(file.name === active)}>
+          {renaming === file.name ? (
+            <input
+              autoFocus
+              value={draftName}
+              onChange={e => setDraftName(e.target.value)}
+              onBlur={() => setRenaming(null)}
+              onKeyDown={e => {
+                if (e.key === "Enter") commitRename(file);
+                if (e.key === "Escape") setRenaming(null);
+              }}
+              className="w-28 bg-black border border-[#3a3a4e] rounded px-1 py-0.5 text-[#e0e0e0] focus:outline-none"
+            />
+          ) : (
+            <button
+              onClick={() => onSelect(file.name)}
+              onDoubleClick={() => {
+                setRenaming(file.name);
+                setDraftName(file.name);
+              }}
+              title={`Include with #include "${file.name}". Double-click to rename.`}
+              className="flex items-center gap-1.5 px-2 py-1 font-mono"
+            >
+              {failingDot(file.name)}
+              {file.name}
+            </button>
+          )}
+          <button
+            onClick={() => {
+              if (confirm(`Delete ${file.name}? Passes that include it will stop compiling.`)) onRemoveFile(file);
+            }}
+            title={`Delete ${file.name}`}
+            className="hidden group-hover:block pr-1.5 text-[#5a5a5e] hover:text-[#f87171]"
+          >
+            <X size={12} />
+          </button>
+        </div>
+      ))}
+
+      <button
+        onClick={onAddFile}
+        title="Add a header that passes can #include"
+        className="flex items-center gap-1 px-2 py-1 text-[#5a5a5e] hover:text-[#8a8a8e] shrink-0"
+      >
+        <Plus size={12} />
+        File
+      </button>
+
+      {isLibraryPath(active) && (
+        <div className={tabClass(true)}>
+          <span className="flex items-center gap-1.5 px-2 py-1 font-mono" title="Library headers are read-only">
+            <Lock size={10} />
+            {active}
+          </span>
+          <button onClick={() => onSelect(passPath("image"))} title="Close" className="pr-1.5 text-[#5a5a5e] hover:text-[#8a8a8e]">
+            <X size={12} />
+          </button>
+        </div>
+      )}
+
+      <div className="ml-auto flex items-center gap-3 shrink-0">
+        {activeBuffer && (
+          <label className="flex items-center gap-2 text-[#5a5a5e]">
+            Resolution
+            <select
+              value={activeBuffer.scale}
+              onChange={e => onScaleChange(activeBuffer.name, Number(e.target.value))}
+              className="bg-black border border-[#2a2a2e] rounded text-[#8a8a8e]"
+            >
+              {BUFFER_SCALES.map(scale => (
+                <option key={scale} value={scale}>{scale === 1 ? "Full" : `${scale}x`}</option>
+              ))}
+            </select>
+          </label>
+        )}
+
+        <label className="flex items-center gap-1.5 text-[#5a5a5e]" title="Built-in headers, included with #include &quot;lib/...&quot;">
+          <Library size={12} />
+          <select
+            value=""
+            onChange={e => onSelect(e.target.value)}
+            className="bg-black border border-[#2a2a2e] rounded text-[#8a8a8e]"
+          >
+            <option value="" disabled>Library</option>
+            {LIBRARY_FILES.map(file => (
+              <option key={file.name} value={file.name} title={file.description}>{file.name}</option>
+            ))}
+          </select>
+        </label>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,60 @@
+"use client";
+
+import { FRAME_ENCODING_LABELS, type FrameEncodingSettings } from "./frame-encoding";
+import type { FrameEncoding } from "./renderer-protocol";
+
+interface EncodingSettingsProps {
+  encoding: FrameEncodingSettings;
+  // What the connected renderer can send, when it said
+  supported: FrameEncoding[] | null;
+  onChange: (encoding: FrameEncodingSettings) => void;
+}
+
+const ENCODING_HINTS: Record<FrameEncoding, string> = {
+  jpeg: "Smallest frames; blurs gradients and shifts colors slightly",
+  png: "Lossless; larger frames that take longer to encode",
+  raw: "Lossless with no decoding; several MB per frame, best for a renderer on this machine",
+};
+
+export default function EncodingSettings({ encoding, supported, onChange }: EncodingSettingsProps) {
+  const formats = Object.keys(FRAME_ENCODING_LABELS) as FrameEncoding[];
+
+  return (
+    <div className="flex items-center gap-3 text-sm text-[#5a5a5e]">
+      <label className="flex items-center gap-2" title={ENCODING_HINTS[encoding.format]}>
+        Frames
+        <select
+          value={encoding.format}
+          onChange={e => onChange({ ...encoding, format: e.target.value as FrameEncoding })}
+          className="bg-black border border-[#2a2a2e] rounded text-[#8a8a8e]"
+        >
+          {formats.map(format => (
+            <option key={format} value={format} disabled={supported !== null && !supported.includes(format)}>
+              {FRAME_ENCODING_LABELS[format]}
+            </option>
+          ))}
+        </select>
+      </label>
+
+      {encoding.format === "jpeg" && (
+        <label className="flex items-center gap-2">
+          Quality
+          <input
+            type="range"
+            min="0.1"
+            max="1"
+            step="0.05"
+            value={encoding.quality}
+            onChange={e => onChange({ ...encoding, quality: Number(e.target.value) })}
+            className="w-20"
+          />
+          <span className="text-[#8a8a8e] w-8">{Math.round(encoding.quality * 100)}</span>
+        </label>
+      )}
+
+      {supported !== null && !supported.includes(encoding.format) && (
+        <span className="text-xs text-[#fb923c]">The renderer sends JPEG instead</span>
+      )}
+    </div>
+  );
+}
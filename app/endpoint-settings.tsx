@@ -0,0 +1,86 @@
+"use client";
+
+import { useState } from "react";
+import { isValidEndpoint, probeHealth, type RendererEndpoint } from "./renderer-endpoint";
+import { TRANSPORT_LABELS, type TransportPreference } from "./renderer-transport";
+
+interface EndpointSettingsProps {
+  endpoint: RendererEndpoint;
+  onChange: (endpoint: RendererEndpoint) => void;
+}
+
+type ProbeResult = "checking" | "ok" | "unreachable" | null;
+
+const PROBE_LABELS: Record<Exclude<ProbeResult, null>, { text: string; className: string }> = {
+  checking: { text: "Checking...", className: "text-[#5a5a5e]" },
+  ok: { text: "Reachable", className: "text-[#4ade80]" },
+  unreachable: { text: "Unreachable", className: "text-[#f87171]" },
+};
+
+export default function EndpointSettings({ endpoint, onChange }: EndpointSettingsProps) {
+  // Drafts let the fields hold partial input; they are committed on blur or Enter
+  const [host, setHost] = useState<string | null>(null);
+  const [port, setPort] = useState<string | null>(null);
+  const [probe, setProbe] = useState<ProbeResult>(null);
+
+  const commit = (changes: Partial<RendererEndpoint>) => {
+    const next = { ...endpoint, ...changes, host: (changes.host ?? endpoint.host).trim() };
+    setHost(null);
+    setPort(null);
+    setProbe(null);
+    if (isValidEndpoint(next)) onChange(next);
+  };
+
+  const testEndpoint = async () => {
+    setProbe("checking");
+    setProbe((await probeHealth(endpoint)) ? "ok" : "unreachable");
+  };
+
+  const inputClass = "bg-black border border-[#2a2a2e] rounded px-2 py-0.5 text-[#8a8a8e] focus:outline-none focus:border-[#3a3a4e]";
+
+  return (
+    <div className="flex items-center gap-3 text-sm text-[#5a5a5e]" title="Used the next time you press Run">
+      <label className="flex items-center gap-2">
+        Renderer
+        <input
+          value={host ?? endpoint.host}
+          onChange={e => setHost(e.target.value)}
+          onBlur={() => host !== null && commit({ host })}
+          onKeyDown={e => e.key === "Enter" && e.currentTarget.blur()}
+          placeholder="localhost"
+          spellCheck={false}
+          className={`w-40 ${inputClass}`}
+        />
+      </label>
+      <label className="flex items-center gap-1">
+        :
+        <input
+          value={port ?? String(endpoint.port)}
+          onChange={e => setPort(e.target.value)}
+          onBlur={() => port !== null && commit({ port: Number(port) })}
+          onKeyDown={e => e.key === "Enter" && e.currentTarget.blur()}
+          inputMode="numeric"
+          className={`w-16 ${inputClass}`}
+        />
+      </label>
+      <label className="flex items-center gap-1">
+        <input type="checkbox" checked={endpoint.secure} onChange={e => commit({ secure: e.target.checked })} />
+        TLS
+      </label>
+      <select
+        value={endpoint.transport}
+        onChange={e => commit({ transport: e.target.value as TransportPreference })}
+        title="How frames are delivered; Auto tries WebSocket, then MJPEG, then polling"
+        className="bg-black border border-[#2a2a2e] rounded text-[#8a8a8e]"
+      >
+        {(Object.keys(TRANSPORT_LABELS) as TransportPreference[]).map(kind => (
+          <option key={kind} value={kind}>{TRANSPORT_LABELS[kind]}</option>
+        ))}
+      </select>
+      <button onClick={testEndpoint} className="text-xs text-[#5a5a5e] hover:text-[#8a8a8e]">
+        Test
+      </button>
+      {probe && <span className={`text-xs ${PROBE_LABELS[probe].className}`}>{PROBE_LABELS[probe].text}</span>}
+    </div>
+  );
+}
@@ -0,0 +1,220 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { FileCode, Image as ImageIcon, Keyboard, Layers, MousePointer2, Search, SlidersHorizontal, X } from "lucide-react";
+import { EXAMPLE_DIFFICULTIES, type ExampleDifficulty, type ExampleInput, type ShaderExample } from "./shader-examples";
+
+interface ExampleGalleryProps {
+  examples: ShaderExample[];
+  // Cached thumbnails by example name
+  thumbnails: Record<string, string>;
+  activeExample: string | null;
+  // Name of the open project when it has edits autosave has not stored yet; they are saved before an example opens
+  unsavedProject: string | null;
+  onOpen: (example: ShaderExample) => void;
+  onClose: () => void;
+}
+
+const INPUT_ICONS: Record<ExampleInput, typeof MousePointer2> = {
+  mouse: MousePointer2,
+  keyboard: Keyboard,
+  textures: ImageIcon,
+  params: SlidersHorizontal,
+};
+
+const DIFFICULTY_COLORS: Record<ExampleDifficulty, string> = {
+  beginner: "text-[#4ade80]",
+  intermediate: "text-[#fbbf24]",
+  advanced: "text-[#f87171]",
+};
+
+// Every word of the query has to appear somewhere in the example, its metadata or its code
+function matchesQuery(example: ShaderExample, query: string): boolean {
+  const words = query.toLowerCase().split(/\s+/).filter(Boolean);
+  if (words.length === 0) return true;
+  const text = [
+    example.name,
+    example.description,
+    example.author,
+    example.difficulty,
+    ...example.tags,
+    ...example.inputs,
+    example.code,
+    ...(example.passes ?? []).map(pass => pass.code),
+    ...(example.files ?? []).flatMap(file => [file.name, file.code]),
+  ].join("\n").toLowerCase();
+  return words.every(word => text.includes(word));
+}
+
+function Thumbnail({ example, image, className }: { example: ShaderExample; image: string | undefined; className: string }) {
+  if (image) {
+    return <img src={image} alt={example.name} className={`${className} object-cover bg-black`} />;
+  }
+  return (
+    <div className={`${className} flex items-center justify-center bg-[#111114] text-[10px] text-[#4a4a4e] text-center px-2`}>
+      Run this example to capture a preview
+    </div>
+  );
+}
+
+export default function ExampleGallery({ examples, thumbnails, activeExample, unsavedProject, onOpen, onClose }: ExampleGalleryProps) {
+  const [query, setQuery] = useState("");
+  const [tags, setTags] = useState<string[]>([]);
+  const [difficulty, setDifficulty] = useState<ExampleDifficulty | "any">("any");
+  const [selectedName, setSelectedName] = useState(activeExample ?? examples[0]?.name ?? null);
+
+  const allTags = useMemo(() => [...new Set(examples.flatMap(example => example.tags))].sort(), [examples]);
+  const matches = useMemo(
+    () => examples.filter(example =>
+      tags.every(tag => example.tags.includes(tag)) &&
+      (difficulty === "any" || example.difficulty === difficulty) &&
+      matchesQuery(example, query)),
+    [examples, tags, difficulty, query],
+  );
+  // The preview follows the filters when they hide the selected example
+  const selected = matches.find(example => example.name === selectedName) ?? matches[0] ?? null;
+  const selectedPasses = selected?.passes ?? [];
+  const selectedFiles = selected?.files ?? [];
+
+  const toggleTag = (tag: string) => {
+    setTags(prev => (prev.includes(tag) ? prev.filter(t => t !== tag) : [...prev, tag]));
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/70" onClick={onClose}>
+      <div
+        className="w-[min(1100px,95vw)] h-[80vh] flex flex-col bg-[#0a0a0c] border border-[#2a2a2e] rounded-lg overflow-hidden"
+        onClick={e => e.stopPropagation()}
+        onKeyDown={e => {
+          if (e.key === "Escape") onClose();
+        }}
+      >
+        <div className="h-12 flex items-center gap-3 px-4 border-b border-[#1f1f23] text-sm text-[#a0a0a0]">
+          <span>Examples</span>
+          <div className="flex-1 flex items-center gap-2 bg-black px-3 py-1.5 rounded border border-[#2a2a2e] focus-within:border-[#3a3a4e]">
+            <Search size={14} className="text-[#5a5a5e]" />
+            <input
+              autoFocus
+              value={query}
+              onChange={e => setQuery(e.target.value)}
+              onKeyDown={e => {
+                if (e.key === "Enter" && selected) onOpen(selected);
+              }}
+              placeholder="Search names, descriptions, tags and code"
+              className="flex-1 bg-transparent text-[#c0c0c0] focus:outline-none"
+            />
+          </div>
+          <select
+            value={difficulty}
+            onChange={e => setDifficulty(e.target.value as ExampleDifficulty | "any")}
+            className="bg-black text-[#a0a0a0] px-2 py-1.5 rounded border border-[#2a2a2e] focus:outline-none"
+          >
+            <option value="any">Any level</option>
+            {EXAMPLE_DIFFICULTIES.map(level => (
+              <option key={level} value={level}>{level[0].toUpperCase() + level.slice(1)}</option>
+            ))}
+          </select>
+          <button onClick={onClose} className="text-[#5a5a5e] hover:text-[#8a8a8e]">
+            <X size={16} />
+          </button>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-1.5 px-4 py-2 border-b border-[#1f1f23] text-xs">
+          {allTags.map(tag => (
+            <button
+              key={tag}
+              onClick={() => toggleTag(tag)}
+              className={`px-2 py-0.5 rounded-full border transition-colors ${tags.includes(tag) ? "bg-[#2a2a3e] border-[#3a3a5e] text-[#8a8aff]" : "border-[#2a2a2e] text-[#5a5a5e] hover:text-[#8a8a8e]"}`}
+            >
+              {tag}
+            </button>
+          ))}
+          {tags.length > 0 && (
+            <button onClick={() => setTags([])} className="px-2 text-[#5a5a5e] hover:text-[#8a8a8e] underline">
+              Clear
+            </button>
+          )}
+        </div>
+
+        <div className="flex-1 flex min-h-0">
+          <div className="flex-1 overflow-auto p-4">
+            {matches.length === 0 ? (
+              <div className="text-sm text-[#4a4a4e]">No examples match. Try fewer words or tags.</div>
+            ) : (
+              <ul className="grid grid-cols-[repeat(auto-fill,minmax(180px,1fr))] gap-3">
+                {matches.map(example => (
+                  <li key={example.name}>
+                    <button
+                      onClick={() => setSelectedName(example.name)}
+                      onDoubleClick={() => onOpen(example)}
+                      className={`w-full text-left rounded border overflow-hidden transition-colors ${example === selected ? "border-[#5a5aaa]" : "border-[#1f1f23] hover:border-[#3a3a4e]"}`}
+                    >
+                      <Thumbnail example={example} image={thumbnails[example.name]} className="w-full aspect-[4/3]" />
+                      <div className="flex items-center justify-between gap-2 px-2 py-1.5 text-xs">
+                        <span className="text-[#c0c0c0] truncate">{example.name}</span>
+                        {example.name === activeExample && <span className="text-[#8a8aff] shrink-0">Open</span>}
+                      </div>
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+
+          {selected && (
+            <div className="w-80 shrink-0 flex flex-col gap-3 p-4 border-l border-[#1f1f23] overflow-auto text-sm">
+              <Thumbnail example={selected} image={thumbnails[selected.name]} className="w-full aspect-[4/3] rounded" />
+              <div>
+                <div className="text-[#e0e0e0]">{selected.name}</div>
+                <div className="text-xs text-[#5a5a5e]">
+                  by {selected.author} · <span className={DIFFICULTY_COLORS[selected.difficulty]}>{selected.difficulty}</span>
+                </div>
+              </div>
+              <p className="text-[#8a8a8e]">{selected.description}</p>
+              <div className="flex flex-wrap gap-1.5 text-xs">
+                {selected.tags.map(tag => (
+                  <span key={tag} className="px-2 py-0.5 rounded-full border border-[#2a2a2e] text-[#5a5a5e]">{tag}</span>
+                ))}
+              </div>
+              <div className="flex flex-wrap gap-3 text-xs text-[#5a5a5e]">
+                {selected.inputs.map(input => {
+                  const Icon = INPUT_ICONS[input];
+                  return (
+                    <span key={input} className="flex items-center gap-1">
+                      <Icon size={12} />
+                      {input}
+                    </span>
+                  );
+                })}
+                {selectedPasses.length > 0 && (
+                  <span className="flex items-center gap-1">
+                    <Layers size={12} />
+                    {selectedPasses.length + 1} passes
+                  </span>
+                )}
+                {selectedFiles.length > 0 && (
+                  <span className="flex items-center gap-1">
+                    <FileCode size={12} />
+                    {selectedFiles.map(file => file.name).join(", ")}
+                  </span>
+                )}
+              </div>
+
+              <div className="mt-auto flex flex-col gap-2">
+                {unsavedProject && (
+                  <span className="text-xs text-[#5a5a5e]">Your edits to {unsavedProject} are saved before the example opens.</span>
+                )}
+                <button
+                  onClick={() => onOpen(selected)}
+                  className="bg-[#1a3a1a] hover:bg-[#1f4a1f] text-[#4ade80] text-sm px-4 py-1.5 rounded transition-colors"
+                >
+                  Open example
+                </button>
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
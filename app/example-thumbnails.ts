@@ -0,0 +1,59 @@
+import type { ShaderExample } from "./shader-examples";
+
+// Frames captured while each example ran, so the gallery can show them without rendering every example.
+// Each is stored with a hash of the example's sources and dropped once the example changes.
+
+const THUMBNAILS_KEY = "metal-playground:example-thumbnails";
+
+export const GALLERY_THUMBNAIL_WIDTH = 240;
+
+// Playback seconds an example runs before its thumbnail is taken, past the first frames of feedback effects
+export const GALLERY_THUMBNAIL_DELAY = 2;
+
+interface StoredThumbnail {
+  version: string;
+  image: string;
+}
+
+// FNV-1a over everything the example compiles from
+export function exampleVersion(example: ShaderExample): string {
+  const text = JSON.stringify([example.code, example.passes ?? [], example.files ?? []]);
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16);
+}
+
+function readStored(): Record<string, StoredThumbnail> {
+  try {
+    const stored = JSON.parse(localStorage.getItem(THUMBNAILS_KEY) ?? "null");
+    return stored && typeof stored === "object" ? stored : {};
+  } catch {
+    return {};
+  }
+}
+
+// Thumbnails by example name, for examples whose sources have not changed since they were taken
+export function loadExampleThumbnails(examples: ShaderExample[]): Record<string, string> {
+  const stored = readStored();
+  const thumbnails: Record<string, string> = {};
+  for (const example of examples) {
+    const entry = stored[example.name];
+    if (entry && entry.version === exampleVersion(example) && typeof entry.image === "string") {
+      thumbnails[example.name] = entry.image;
+    }
+  }
+  return thumbnails;
+}
+
+export function saveExampleThumbnail(example: ShaderExample, image: string) {
+  try {
+    const stored = readStored();
+    stored[example.name] = { version: exampleVersion(example), image };
+    localStorage.setItem(THUMBNAILS_KEY, JSON.stringify(stored));
+  } catch {
+    // Storage can be full or unavailable; the thumbnail then lasts for this session
+  }
+}
@@ -0,0 +1,47 @@
+import type { FrameEncoding } from "./renderer-protocol";
+
+// How the renderer encodes the frames it streams. JPEG is the smallest but blurs gradients; PNG is lossless
+// and slower to encode; raw RGBA costs no decoding at all but is the largest by far, for a local renderer.
+
+export interface FrameEncodingSettings {
+  format: FrameEncoding;
+  // JPEG only, 0-1
+  quality: number;
+}
+
+export const DEFAULT_FRAME_ENCODING: FrameEncodingSettings = { format: "jpeg", quality: 0.85 };
+
+export const FRAME_ENCODING_LABELS: Record<FrameEncoding, string> = {
+  jpeg: "JPEG",
+  png: "PNG",
+  raw: "Raw RGBA",
+};
+
+// Raw frames: "RGBA", UInt32 width and UInt32 height (big-endian), then width * height * 4 bytes, top row first
+export const RAW_FRAME_MAGIC = 0x52474241;
+export const RAW_HEADER_LENGTH = 12;
+
+export function encodeRawFrame(pixels: Uint8Array, width: number, height: number): Uint8Array {
+  const frame = new Uint8Array(RAW_HEADER_LENGTH + pixels.length);
+  const view = new DataView(frame.buffer);
+  view.setUint32(0, RAW_FRAME_MAGIC);
+  view.setUint32(4, width);
+  view.setUint32(8, height);
+  frame.set(pixels, RAW_HEADER_LENGTH);
+  return frame;
+}
+
+// Frames say what they are: raw ones by their header, images by their own signature, whatever the transport
+// labelled them as
+export async function decodeFrame(data: Blob): Promise<ImageBitmap> {
+  if (data.size >= RAW_HEADER_LENGTH) {
+    const header = new DataView(await data.slice(0, RAW_HEADER_LENGTH).arrayBuffer());
+    if (header.getUint32(0) === RAW_FRAME_MAGIC) {
+      const width = header.getUint32(4);
+      const height = header.getUint32(8);
+      const pixels = new Uint8ClampedArray(await data.slice(RAW_HEADER_LENGTH, RAW_HEADER_LENGTH + width * height * 4).arrayBuffer());
+      return createImageBitmap(new ImageData(pixels, width, height));
+    }
+  }
+  return createImageBitmap(data);
+}
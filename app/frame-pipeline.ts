@@ -0,0 +1,95 @@
+import { decodeFrame } from "./frame-encoding";
+import type { RenderedFrame } from "./renderer-transport";
+
+export interface FrameTiming {
+  decodeMs: number;
+  // Render-to-screen time, once the clocks are synced
+  latency: number | null;
+}
+
+interface FramePipelineHandlers {
+  // Called in sequence order; the pipeline closes the bitmap afterwards
+  onDraw: (bitmap: ImageBitmap, frame: RenderedFrame, timing: FrameTiming) => void;
+  onAcknowledge: (sequence: number) => void;
+}
+
+// Pong samples kept for clock sync; the one with the shortest round trip is the most accurate
+const CLOCK_SAMPLES = 8;
+
+// Decodes one frame at a time and keeps only the newest frame waiting behind it, so a slow
+// client shows fewer frames instead of falling further and further behind.
+export class FramePipeline {
+  private decoding = false;
+  private pending: RenderedFrame | null = null;
+  private lastSequence: number | null = null;
+  private clockSamples: { roundTrip: number; offset: number }[] = [];
+
+  // Frames the server skipped for us plus frames dropped here as stale
+  dropped = 0;
+
+  constructor(private handlers: FramePipelineHandlers) {}
+
+  push(frame: RenderedFrame) {
+    if (frame.sequence !== null && this.lastSequence !== null) {
+      // Pollers see the same frame again when they ask faster than the server renders
+      if (frame.sequence === this.lastSequence) return;
+      if (frame.sequence < this.lastSequence) {
+        this.dropped++;
+        this.handlers.onAcknowledge(frame.sequence);
+        return;
+      }
+      this.dropped += frame.sequence - this.lastSequence - 1;
+    }
+    if (frame.sequence !== null) this.lastSequence = frame.sequence;
+
+    if (this.pending) this.dropped++;
+    this.pending = frame;
+    if (!this.decoding) this.drain();
+  }
+
+  // A new connection starts a new sequence
+  reset() {
+    this.pending = null;
+    this.lastSequence = null;
+    this.clockSamples = [];
+  }
+
+  // `sent` is the performance.now() the ping carried, `serverTime` the server clock when it answered.
+  // Returns the round trip time.
+  handlePong(sent: number, serverTime: number): number {
+    const now = performance.now();
+    const roundTrip = now - sent;
+    this.clockSamples = [...this.clockSamples, { roundTrip, offset: serverTime + roundTrip / 2 - now }].slice(-CLOCK_SAMPLES);
+    return roundTrip;
+  }
+
+  private clockOffset(): number | null {
+    if (this.clockSamples.length === 0) return null;
+    return this.clockSamples.reduce((best, sample) => (sample.roundTrip < best.roundTrip ? sample : best)).offset;
+  }
+
+  private async drain() {
+    this.decoding = true;
+    while (this.pending) {
+      const frame = this.pending;
+      this.pending = null;
+
+      try {
+        const started = performance.now();
+        const bitmap = await decodeFrame(frame.data);
+        const decoded = performance.now();
+        const offset = this.clockOffset();
+        const latency = frame.renderedAt !== null && offset !== null ? Math.max(0, decoded + offset - frame.renderedAt) : null;
+
+        this.handlers.onDraw(bitmap, frame, { decodeMs: decoded - started, latency });
+        bitmap.close();
+      } catch (error) {
+        console.error("Frame decode error:", error);
+      }
+
+      // Acknowledge only after the frame is on screen so the server's in-flight window tracks real progress
+      if (frame.sequence !== null) this.handlers.onAcknowledge(frame.sequence);
+    }
+    this.decoding = false;
+  }
+}
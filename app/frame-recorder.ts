@@ -0,0 +1,156 @@
+import { GifEncoder } from "./gif-encoder";
+
+export interface RecordingMetadata {
+  shaderName: string;
+  width: number;
+  height: number;
+  fps: number;
+}
+
+export interface FrameRecorder {
+  kind: "webm" | "gif";
+  // Called with every decoded frame; returns false once the recorder wants no more frames
+  addFrame(frame: ImageBitmap, timestamp: number): boolean;
+  stop(): Promise<Blob>;
+}
+
+export const GIF_FPS_OPTIONS = [10, 15, 24, 30];
+export const GIF_DURATION_OPTIONS = [2, 5, 10, 20];
+
+// GIFs are palette-limited and large; capping the width keeps exports shareable
+const GIF_MAX_WIDTH = 640;
+
+export function recordingFilename(meta: RecordingMetadata, extension: string): string {
+  const slug = meta.shaderName.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "") || "shader";
+  const stamp = new Date().toISOString().replace(/[:.]/g, "-").slice(0, 19);
+  return `${slug}_${meta.width}x${meta.height}_${meta.fps}fps_${stamp}.${extension}`;
+}
+
+function describe(meta: RecordingMetadata): string {
+  return `${meta.shaderName} - ${meta.width}x${meta.height} @ ${meta.fps} fps - Metal Shader Playground`;
+}
+
+export function downloadBlob(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+function crc32(bytes: Uint8Array): number {
+  let crc = 0xffffffff;
+  for (const byte of bytes) crc = CRC_TABLE[(crc ^ byte) & 255] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function textChunk(keyword: string, text: string): Uint8Array {
+  const data = Uint8Array.from(`tEXt${keyword}\0${text}`, char => char.charCodeAt(0) & 255);
+  const chunk = new Uint8Array(data.length + 8);
+  const view = new DataView(chunk.buffer);
+  view.setUint32(0, data.length - 4);
+  chunk.set(data, 4);
+  view.setUint32(chunk.length - 4, crc32(data));
+  return chunk;
+}
+
+// Inserts tEXt chunks right after the 8-byte signature and 25-byte IHDR chunk
+async function withPngMetadata(png: Blob, meta: RecordingMetadata): Promise<Blob> {
+  const bytes = new Uint8Array(await png.arrayBuffer());
+  const headerEnd = 8 + 25;
+  const chunks = [
+    textChunk("Title", meta.shaderName),
+    textChunk("Description", describe(meta)),
+    textChunk("Software", "Metal Shader Playground"),
+  ];
+  return new Blob([bytes.slice(0, headerEnd), ...chunks, bytes.slice(headerEnd)] as BlobPart[], { type: "image/png" });
+}
+
+export async function capturePng(canvas: HTMLCanvasElement, meta: RecordingMetadata): Promise<Blob> {
+  const png = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, "image/png"));
+  if (!png) throw new Error("Could not encode the frame as PNG");
+  return withPngMetadata(png, meta);
+}
+
+export function createWebmRecorder(meta: RecordingMetadata): FrameRecorder {
+  const canvas = document.createElement("canvas");
+  canvas.width = meta.width;
+  canvas.height = meta.height;
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new Error("Could not create a recording canvas");
+
+  // captureStream(0) only emits a frame when requestFrame() is called, i.e. once per decoded frame
+  const stream = canvas.captureStream(0);
+  const track = stream.getVideoTracks()[0] as CanvasCaptureMediaStreamTrack;
+  const mimeType = ["video/webm;codecs=vp9", "video/webm;codecs=vp8", "video/webm"].find(type => MediaRecorder.isTypeSupported(type));
+  const recorder = new MediaRecorder(stream, { mimeType, videoBitsPerSecond: 8_000_000 });
+  const chunks: Blob[] = [];
+
+  recorder.ondataavailable = (event) => {
+    if (event.data.size > 0) chunks.push(event.data);
+  };
+  recorder.start(1000);
+
+  return {
+    kind: "webm",
+    addFrame(frame) {
+      ctx.drawImage(frame, 0, 0, canvas.width, canvas.height);
+      track.requestFrame();
+      return true;
+    },
+    stop() {
+      return new Promise(resolve => {
+        recorder.onstop = () => {
+          stream.getTracks().forEach(t => t.stop());
+          resolve(new Blob(chunks, { type: "video/webm" }));
+        };
+        recorder.stop();
+      });
+    },
+  };
+}
+
+export function createGifRecorder(meta: RecordingMetadata, fps: number, durationSeconds: number): FrameRecorder {
+  const scale = Math.min(1, GIF_MAX_WIDTH / meta.width);
+  const width = Math.round(meta.width * scale);
+  const height = Math.round(meta.height * scale);
+  const canvas = document.createElement("canvas");
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext("2d", { willReadFrequently: true });
+  if (!ctx) throw new Error("Could not create a recording canvas");
+
+  const frameInterval = 1000 / fps;
+  const totalFrames = Math.round(fps * durationSeconds);
+  const encoder = new GifEncoder(width, height, frameInterval, describe({ ...meta, fps }));
+  let nextFrameAt = -Infinity;
+
+  return {
+    kind: "gif",
+    addFrame(frame, timestamp) {
+      if (encoder.frames >= totalFrames) return false;
+      // Resample the incoming stream to the GIF frame rate
+      if (timestamp < nextFrameAt) return true;
+      const scheduled = nextFrameAt === -Infinity ? timestamp : nextFrameAt;
+      nextFrameAt = Math.max(scheduled + frameInterval, timestamp);
+
+      ctx.drawImage(frame, 0, 0, width, height);
+      encoder.addFrame(ctx.getImageData(0, 0, width, height));
+      return encoder.frames < totalFrames;
+    },
+    async stop() {
+      return encoder.finish();
+    },
+  };
+}
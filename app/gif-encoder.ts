@@ -0,0 +1,190 @@
+// Minimal GIF89a encoder: one local 6x7x6 palette per frame, LZW-compressed, looping forever.
+// Frames are encoded as they arrive so a recording never holds more than one raw frame in memory.
+
+const PALETTE_SIZE = 256;
+
+const PALETTE = (() => {
+  const palette = new Uint8Array(PALETTE_SIZE * 3);
+  let index = 0;
+  for (let r = 0; r < 6; r++) {
+    for (let g = 0; g < 7; g++) {
+      for (let b = 0; b < 6; b++) {
+        palette[index++] = Math.round((r * 255) / 5);
+        palette[index++] = Math.round((g * 255) / 6);
+        palette[index++] = Math.round((b * 255) / 5);
+      }
+    }
+  }
+  return palette;
+})();
+
+// 4x4 Bayer matrix, scaled to roughly half a palette step, hides banding in smooth gradients
+const BAYER = [0, 8, 2, 10, 12, 4, 14, 6, 3, 11, 1, 9, 15, 7, 13, 5].map(v => (v / 16 - 0.5) * 40);
+
+class ByteWriter {
+  private chunks: Uint8Array[] = [];
+  private buffer = new Uint8Array(4096);
+  private length = 0;
+
+  byte(value: number) {
+    if (this.length === this.buffer.length) this.flush();
+    this.buffer[this.length++] = value & 255;
+  }
+
+  word(value: number) {
+    this.byte(value);
+    this.byte(value >> 8);
+  }
+
+  bytes(values: ArrayLike<number>) {
+    for (let i = 0; i < values.length; i++) this.byte(values[i]);
+  }
+
+  string(text: string) {
+    for (let i = 0; i < text.length; i++) this.byte(text.charCodeAt(i));
+  }
+
+  // GIF data is stored in sub-blocks of at most 255 bytes followed by a zero terminator
+  subBlocks(data: Uint8Array) {
+    for (let offset = 0; offset < data.length; offset += 255) {
+      const block = data.subarray(offset, offset + 255);
+      this.byte(block.length);
+      this.bytes(block);
+    }
+    this.byte(0);
+  }
+
+  private flush() {
+    this.chunks.push(this.buffer.slice(0, this.length));
+    this.length = 0;
+  }
+
+  toBlob(type: string): Blob {
+    this.flush();
+    return new Blob(this.chunks as BlobPart[], { type });
+  }
+}
+
+function quantize(pixels: Uint8ClampedArray, width: number): Uint8Array {
+  const indices = new Uint8Array(pixels.length / 4);
+  for (let i = 0; i < indices.length; i++) {
+    const threshold = BAYER[((Math.floor(i / width) & 3) << 2) | (i % width & 3)];
+    const r = Math.min(5, Math.max(0, Math.round(((pixels[i * 4] + threshold) * 5) / 255)));
+    const g = Math.min(6, Math.max(0, Math.round(((pixels[i * 4 + 1] + threshold) * 6) / 255)));
+    const b = Math.min(5, Math.max(0, Math.round(((pixels[i * 4 + 2] + threshold) * 5) / 255)));
+    indices[i] = r * 42 + g * 6 + b;
+  }
+  return indices;
+}
+
+function lzwEncode(indices: Uint8Array, minCodeSize: number): Uint8Array {
+  const clearCode = 1 << minCodeSize;
+  const endCode = clearCode + 1;
+  const output: number[] = [];
+  let codeSize = minCodeSize + 1;
+  let nextCode = endCode + 1;
+  let table = new Map<number, number>();
+  let bitBuffer = 0;
+  let bitCount = 0;
+
+  const emit = (code: number) => {
+    bitBuffer |= code << bitCount;
+    bitCount += codeSize;
+    while (bitCount >= 8) {
+      output.push(bitBuffer & 255);
+      bitBuffer >>= 8;
+      bitCount -= 8;
+    }
+  };
+
+  emit(clearCode);
+  let current = indices[0];
+
+  for (let i = 1; i < indices.length; i++) {
+    const pixel = indices[i];
+    const key = (current << 8) | pixel;
+    const code = table.get(key);
+    if (code !== undefined) {
+      current = code;
+      continue;
+    }
+
+    emit(current);
+    if (nextCode === 4096) {
+      emit(clearCode);
+      nextCode = endCode + 1;
+      codeSize = minCodeSize + 1;
+      table = new Map();
+    } else {
+      if (nextCode >= 1 << codeSize) codeSize++;
+      table.set(key, nextCode++);
+    }
+    current = pixel;
+  }
+
+  emit(current);
+  emit(endCode);
+  if (bitCount > 0) output.push(bitBuffer & 255);
+
+  return Uint8Array.from(output);
+}
+
+export class GifEncoder {
+  private writer = new ByteWriter();
+  private frameCount = 0;
+
+  constructor(
+    readonly width: number,
+    readonly height: number,
+    private delayMs: number,
+    comment?: string,
+  ) {
+    const writer = this.writer;
+    writer.string("GIF89a");
+    writer.word(width);
+    writer.word(height);
+    writer.bytes([0, 0, 0]); // no global color table, background 0, square pixels
+
+    // NETSCAPE2.0 application extension: loop forever
+    writer.bytes([0x21, 0xff, 11]);
+    writer.string("NETSCAPE2.0");
+    writer.bytes([3, 1, 0, 0, 0]);
+
+    if (comment) {
+      writer.bytes([0x21, 0xfe]);
+      writer.subBlocks(Uint8Array.from(comment, char => char.charCodeAt(0) & 255));
+    }
+  }
+
+  addFrame(image: ImageData) {
+    const writer = this.writer;
+    const delay = Math.max(2, Math.round(this.delayMs / 10));
+
+    // Graphic control extension
+    writer.bytes([0x21, 0xf9, 4, 0]);
+    writer.word(delay);
+    writer.bytes([0, 0]);
+
+    // Image descriptor with a 256-entry local color table
+    writer.byte(0x2c);
+    writer.word(0);
+    writer.word(0);
+    writer.word(this.width);
+    writer.word(this.height);
+    writer.byte(0x87);
+    writer.bytes(PALETTE);
+
+    writer.byte(8);
+    writer.subBlocks(lzwEncode(quantize(image.data, this.width), 8));
+    this.frameCount++;
+  }
+
+  get frames() {
+    return this.frameCount;
+  }
+
+  finish(): Blob {
+    this.writer.byte(0x3b);
+    return this.writer.toBlob("image/gif");
+  }
+}
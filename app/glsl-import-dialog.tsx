@@ -0,0 +1,88 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { AlertCircle, AlertTriangle, X } from "lucide-react";
+import { translateShaderToy } from "./glsl-import";
+
+interface GlslImportDialogProps {
+  onImport: (name: string, code: string) => void;
+  onClose: () => void;
+}
+
+const PLACEHOLDER = `void mainImage(out vec4 fragColor, in vec2 fragCoord) {
+    vec2 uv = fragCoord / iResolution.xy;
+    vec3 col = 0.5 + 0.5 * cos(iTime + uv.xyx + vec3(0, 2, 4));
+    fragColor = vec4(col, 1.0);
+}`;
+
+export default function GlslImportDialog({ onImport, onClose }: GlslImportDialogProps) {
+  const [glsl, setGlsl] = useState("");
+  const [name, setName] = useState("ShaderToy import");
+
+  const result = useMemo(() => (glsl.trim() ? translateShaderToy(glsl) : null), [glsl]);
+  const errorCount = result?.issues.filter(issue => issue.severity === "error").length ?? 0;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/70" onClick={onClose}>
+      <div
+        className="w-[min(1100px,95vw)] h-[80vh] flex flex-col bg-[#0a0a0c] border border-[#2a2a2e] rounded-lg overflow-hidden"
+        onClick={e => e.stopPropagation()}
+      >
+        <div className="h-10 flex items-center justify-between px-4 border-b border-[#1f1f23] text-sm text-[#a0a0a0]">
+          <span>Import ShaderToy GLSL</span>
+          <button onClick={onClose} className="text-[#5a5a5e] hover:text-[#8a8a8e]">
+            <X size={16} />
+          </button>
+        </div>
+
+        <div className="flex-1 flex min-h-0">
+          <textarea
+            value={glsl}
+            onChange={e => setGlsl(e.target.value)}
+            placeholder={PLACEHOLDER}
+            spellCheck={false}
+            className="w-1/2 p-3 bg-black text-[#c0c0c0] text-xs font-mono resize-none border-r border-[#1f1f23] focus:outline-none"
+          />
+          <pre className="w-1/2 p-3 overflow-auto text-xs font-mono text-[#8a8a8e]">
+            {result?.code ?? "Paste a ShaderToy mainImage shader on the left."}
+          </pre>
+        </div>
+
+        {result && result.issues.length > 0 && (
+          <ul className="max-h-36 overflow-auto border-t border-[#1f1f23] py-1 text-xs font-mono">
+            {result.issues.map((issue, index) => (
+              <li key={index} className="flex items-start gap-2 px-4 py-0.5">
+                {issue.severity === "error"
+                  ? <AlertCircle size={12} className="text-[#f87171] mt-0.5 shrink-0" />
+                  : <AlertTriangle size={12} className="text-[#fbbf24] mt-0.5 shrink-0" />}
+                <span className="text-[#5a5a5e] w-14 shrink-0">line {issue.line}</span>
+                <span className="text-[#a0a0a0] w-32 shrink-0 truncate">{issue.construct}</span>
+                <span className="text-[#8a8a8e]">{issue.message}</span>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <div className="h-12 flex items-center justify-end gap-3 px-4 border-t border-[#1f1f23]">
+          {errorCount > 0 && (
+            <span className="text-xs text-[#fbbf24]">
+              {errorCount} construct{errorCount === 1 ? "" : "s"} need manual fixes after import
+            </span>
+          )}
+          <input
+            value={name}
+            onChange={e => setName(e.target.value)}
+            className="bg-black text-[#a0a0a0] text-sm px-3 py-1.5 rounded border border-[#2a2a2e] focus:outline-none focus:border-[#3a3a4e]"
+          />
+          <button
+            disabled={!result}
+            onClick={() => result && onImport(name.trim() || "ShaderToy import", result.code)}
+            className="bg-[#1a3a1a] hover:bg-[#1f4a1f] disabled:opacity-40 text-[#4ade80] text-sm px-4 py-1.5 rounded transition-colors"
+          >
+            Import
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
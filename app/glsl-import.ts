@@ -0,0 +1,275 @@
+import { SHADER_PRELUDE } from "./shader-examples";
+
+export interface TranslationIssue {
+  line: number;
+  construct: string;
+  message: string;
+  severity: "error" | "warning";
+}
+
+export interface TranslationResult {
+  code: string;
+  issues: TranslationIssue[];
+}
+
+const TYPE_MAP: Record<string, string> = {
+  vec2: "float2", vec3: "float3", vec4: "float4",
+  ivec2: "int2", ivec3: "int3", ivec4: "int4",
+  uvec2: "uint2", uvec3: "uint3", uvec4: "uint4",
+  bvec2: "bool2", bvec3: "bool3", bvec4: "bool4",
+  mat2: "float2x2", mat3: "float3x3", mat4: "float4x4",
+  mat2x2: "float2x2", mat2x3: "float2x3", mat2x4: "float2x4",
+  mat3x2: "float3x2", mat3x3: "float3x3", mat3x4: "float3x4",
+  mat4x2: "float4x2", mat4x3: "float4x3", mat4x4: "float4x4",
+};
+
+const FUNCTION_MAP: Record<string, string> = {
+  inversesqrt: "rsqrt",
+  dFdx: "dfdx",
+  dFdy: "dfdy",
+};
+
+// Uniforms that map onto the playground's time, mouse state and resolution buffers inside mainImage
+const SUPPORTED_UNIFORMS = ["iTime", "iResolution", "iMouse"];
+const CHANNELS = ["iChannel0", "iChannel1", "iChannel2", "iChannel3"];
+
+const UNSUPPORTED_IDENTIFIERS: Record<string, string> = {
+  iTimeDelta: "No frame delta is supplied; derive it from time if needed.",
+  iFrame: "No frame counter is supplied; consider int(time * 60.0).",
+  iFrameRate: "The frame rate is not supplied to shaders.",
+  iDate: "The date is not supplied to shaders.",
+  iChannelTime: "Per-channel playback time is not supported.",
+  iChannelResolution: "Per-channel resolution is not supported; use texture.get_width()/get_height().",
+  iSampleRate: "Audio inputs are not supported.",
+  lessThan: "Vector relational functions have no MSL equivalent; use the < operator on vectors.",
+  lessThanEqual: "Vector relational functions have no MSL equivalent; use the <= operator on vectors.",
+  greaterThan: "Vector relational functions have no MSL equivalent; use the > operator on vectors.",
+  greaterThanEqual: "Vector relational functions have no MSL equivalent; use the >= operator on vectors.",
+  equal: "Vector relational functions have no MSL equivalent; use the == operator on vectors.",
+  notEqual: "Vector relational functions have no MSL equivalent; use the != operator on vectors.",
+  texelFetch: "texelFetch is not translated; use iChannelN.read(uint2(coord)).",
+  textureSize: "textureSize is not translated; use iChannelN.get_width()/get_height().",
+  mainSound: "Sound shaders are not supported.",
+};
+
+const MOD_HELPER = "template <typename T, typename U> inline T mod(T x, U y) { return x - y * floor(x / y); }";
+
+export function lineOf(source: string, index: number): number {
+  let line = 1;
+  for (let i = 0; i < index; i++) {
+    if (source[i] === "\n") line++;
+  }
+  return line;
+}
+
+// Rewrites every call to `name(...)`, handing the callback the top-level arguments with their original text
+export function rewriteCalls(source: string, name: string, rewrite: (args: string[], index: number) => string | null): string {
+  const pattern = new RegExp(`\\b${name}\\s*\\(`, "g");
+  let result = "";
+  let cursor = 0;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(source))) {
+    let depth = 1;
+    let i = match.index + match[0].length;
+    const args: string[] = [];
+    let argStart = i;
+
+    for (; i < source.length && depth > 0; i++) {
+      const char = source[i];
+      if (char === "(") depth++;
+      else if (char === ")") depth--;
+      else if (char === "," && depth === 1) {
+        args.push(source.slice(argStart, i));
+        argStart = i + 1;
+      }
+    }
+    if (depth !== 0) break;
+    args.push(source.slice(argStart, i - 1));
+
+    const replacement = rewrite(args, match.index);
+    if (replacement !== null) {
+      result += source.slice(cursor, match.index) + replacement;
+      cursor = i;
+      pattern.lastIndex = i;
+    }
+  }
+
+  return result + source.slice(cursor);
+}
+
+interface FunctionRange {
+  name: string;
+  startLine: number;
+  endLine: number;
+}
+
+function findFunctions(lines: string[]): FunctionRange[] {
+  const functions: FunctionRange[] = [];
+  let depth = 0;
+  let header = "";
+  let current: FunctionRange | null = null;
+
+  lines.forEach((text, index) => {
+    const code = text.replace(/\/\/.*$/, "");
+    for (const char of code) {
+      if (char === "{") {
+        if (depth === 0) {
+          const names = [...header.matchAll(/\b([A-Za-z_]\w*)\s*\(/g)];
+          const name = names.length > 0 ? names[names.length - 1][1] : "";
+          current = { name, startLine: index + 1, endLine: index + 1 };
+        }
+        depth++;
+      } else if (char === "}") {
+        depth = Math.max(0, depth - 1);
+        if (depth === 0 && current) {
+          current.endLine = index + 1;
+          functions.push(current);
+          current = null;
+          header = "";
+        }
+      } else if (depth === 0) {
+        header += char;
+        if (char === ";") header = "";
+      }
+    }
+    if (depth === 0) header += "\n";
+  });
+
+  return functions;
+}
+
+export function translateShaderToy(glsl: string): TranslationResult {
+  const issues: TranslationIssue[] = [];
+  const report = (line: number, construct: string, message: string, severity: TranslationIssue["severity"] = "error") => {
+    issues.push({ line, construct, message, severity });
+  };
+
+  const lines = glsl.split("\n");
+  const functions = findFunctions(lines);
+  const mainImage = functions.find(f => f.name === "mainImage");
+  if (!mainImage) {
+    report(1, "mainImage", "No `void mainImage(out vec4 fragColor, in vec2 fragCoord)` function was found.");
+  }
+
+  const enclosingFunction = (line: number) => functions.find(f => line >= f.startLine && line <= f.endLine);
+
+  // Scan identifiers before rewriting so line numbers refer to the GLSL source
+  const usedChannels = new Set<string>();
+  let usesMod = false;
+  lines.forEach((text, index) => {
+    const line = index + 1;
+    const code = text.replace(/\/\/.*$/, "");
+
+    for (const [identifier, message] of Object.entries(UNSUPPORTED_IDENTIFIERS)) {
+      if (new RegExp(`\\b${identifier}\\b`).test(code)) report(line, identifier, message);
+    }
+
+    for (const uniform of [...SUPPORTED_UNIFORMS, ...CHANNELS]) {
+      if (!new RegExp(`\\b${uniform}\\b`).test(code)) continue;
+      if (CHANNELS.includes(uniform)) usedChannels.add(uniform);
+      const fn = enclosingFunction(line);
+      if (fn && fn.name !== "mainImage") {
+        report(line, uniform, `${uniform} is only available inside mainImage; pass it to ${fn.name || "this function"} as a parameter.`);
+      }
+    }
+
+    if (/\bmod\s*\(/.test(code)) usesMod = true;
+    if (/\b\w+\s*\[\s*\d*\s*\]\s*\(/.test(code)) {
+      report(line, "array constructor", "GLSL array constructors are not translated; use an MSL brace initializer.");
+    }
+    if (/^\s*uniform\b/.test(code)) {
+      report(line, "uniform", "Custom uniforms are not supported; use a // @param annotation instead.");
+    }
+    if (/^\s*precision\b/.test(code)) {
+      lines[index] = `// ${text}`;
+    }
+    if (!enclosingFunction(line) && /^\s*(float|int|uint|bool|vec\d|ivec\d|mat\d)\b[^(]*(=|;)/.test(code) && !/^\s*const\b/.test(code)) {
+      report(line, "global variable", "Mutable globals are not allowed in MSL; make it const or move it into a function.");
+    }
+  });
+
+  let source = lines.join("\n");
+
+  // Global constants live in the constant address space
+  source = source.split("\n").map((text, index) => {
+    if (enclosingFunction(index + 1)) return text;
+    return text.replace(/^(\s*)const\b/, "$1constant");
+  }).join("\n");
+
+  // Parameter qualifiers: out/inout become thread references, in is implicit
+  source = source.replace(/([(,]\s*)(inout|out)\s+(\w+)\s+(\w+)/g, "$1thread $3 &$4");
+  source = source.replace(/([(,]\s*)in\s+(\w+\s+\w+)/g, "$1$2");
+
+  for (const [glslType, mslType] of Object.entries(TYPE_MAP)) {
+    source = source.replace(new RegExp(`\\b${glslType}\\b`, "g"), mslType);
+  }
+  for (const [glslName, mslName] of Object.entries(FUNCTION_MAP)) {
+    source = source.replace(new RegExp(`\\b${glslName}\\b`, "g"), mslName);
+  }
+  source = source.replace(/\bdiscard\b/g, "discard_fragment()");
+
+  source = rewriteCalls(source, "atan", args => (args.length === 2 ? `atan2(${args[0]},${args[1]})` : null));
+
+  for (const fn of ["texture", "texture2D", "textureLod"]) {
+    source = rewriteCalls(source, fn, (args, index) => {
+      const channel = args[0].trim();
+      if (!CHANNELS.includes(channel)) {
+        report(lineOf(source, index), fn, `Only iChannel0-3 can be sampled; found "${channel}".`);
+        return null;
+      }
+      const lod = fn === "textureLod" && args[2] ? `, level(${args[2].trim()})` : "";
+      return `${channel}.sample(${channel}Sampler,${args[1]}${lod})`;
+    });
+  }
+
+  // mainImage receives the ShaderToy uniforms as parameters
+  const channelList = CHANNELS.filter(channel => usedChannels.has(channel));
+  const extraParams = ["float iTime", "float3 iResolution", "float4 iMouse", ...channelList.map(c => `texture2d<float> ${c}, sampler ${c}Sampler`)];
+  source = source.replace(
+    /void\s+mainImage\s*\(([^)]*)\)/,
+    (_, params: string) => `void mainImage(${params.trim()}, ${extraParams.join(", ")})`,
+  );
+
+  if (channelList.length > 0) {
+    const indices = channelList.map(channel => channel.slice(-1)).join(", ");
+    const plural = channelList.length > 1;
+    report(1, "iChannel", `${channelList.join(", ")} ${plural ? `read channels ${indices}` : `reads channel ${indices}`}; fill ${plural ? "them" : "it"} in the Channels panel, or ${plural ? "they sample" : "it samples"} black.`, "warning");
+  }
+
+  // Channel N is bound at texture(N), with the filter and wrap chosen in the Channels panel at sampler(N)
+  const channelArgs = channelList.map(channel => {
+    const index = channel.slice(-1);
+    return `,\n                              texture2d<float> ${channel} [[texture(${index})]],\n                              sampler ${channel}Sampler [[sampler(${index})]]`;
+  }).join("");
+  const helpers = [
+    "// Translated from ShaderToy GLSL",
+    ...(usesMod ? [MOD_HELPER] : []),
+  ].join("\n");
+
+  const code = `${SHADER_PRELUDE}
+
+${helpers}
+
+${source.trim()}
+
+fragment float4 fragment_main(VertexOut in [[stage_in]],
+                              constant float &time [[buffer(0)]],
+                              constant MouseState &mouseState [[buffer(3)]],
+                              constant float2 &resolution [[buffer(5)]]${channelArgs}) {
+    float3 iResolution = float3(resolution, 1.0);
+    float2 fragCoord = in.uv * resolution;
+    // Like ShaderToy, the click position goes negative once the button is up, and its y after the first frame
+    float2 click = mouseState.clickPosition * resolution;
+    float4 iMouse = float4(mouseState.position * resolution,
+                           mouseState.buttons != 0 ? click.x : -click.x,
+                           mouseState.clicked != 0 ? click.y : -click.y);
+
+    float4 fragColor = float4(0.0);
+    mainImage(fragColor, fragCoord, time, iResolution, iMouse${channelList.map(c => `, ${c}, ${c}Sampler`).join("")});
+    return float4(fragColor.rgb, 1.0);
+}`;
+
+  issues.sort((a, b) => a.line - b.line);
+  return { code, issues };
+}
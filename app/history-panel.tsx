@@ -0,0 +1,92 @@
+"use client";
+
+import { History, RotateCcw } from "lucide-react";
+import { lastCompiling, type HistorySnapshot, type SnapshotStatus } from "./edit-history";
+import { sameSources, type ShaderSources } from "./shader-includes";
+
+interface HistoryPanelProps {
+  snapshots: HistorySnapshot[];
+  current: ShaderSources;
+  selectedId: number | null;
+  onSelect: (snapshot: HistorySnapshot) => void;
+  onRestore: (snapshot: HistorySnapshot) => void;
+}
+
+const STATUS_STYLES: Record<SnapshotStatus, { dot: string; label: string }> = {
+  pending: { dot: "bg-[#5a5a5e]", label: "Waiting for the renderer" },
+  ok: { dot: "bg-[#4ade80]", label: "Compiled" },
+  error: { dot: "bg-[#f87171]", label: "Failed to compile" },
+};
+
+function formatTime(timestamp: number) {
+  return new Date(timestamp).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit", second: "2-digit" });
+}
+
+export default function HistoryPanel({ snapshots, current, selectedId, onSelect, onRestore }: HistoryPanelProps) {
+  const lastGood = lastCompiling(snapshots);
+  const canRevert = lastGood !== null && !sameSources(lastGood, current);
+
+  return (
+    <div className="w-60 shrink-0 flex flex-col border-r border-[#1f1f23] text-sm overflow-hidden">
+      <div className="h-9 flex items-center justify-between px-3 border-b border-[#1f1f23] text-xs text-[#5a5a5e]">
+        <span className="uppercase tracking-wide">History</span>
+        <button
+          disabled={!canRevert}
+          onClick={() => lastGood && onRestore(lastGood)}
+          title="Restore the most recent version that compiled"
+          className="flex items-center gap-1 p-1 rounded hover:text-[#8a8a8e] disabled:opacity-40 disabled:hover:text-[#5a5a5e] transition-colors"
+        >
+          <RotateCcw size={12} />
+          Last compiling
+        </button>
+      </div>
+
+      <ul className="flex-1 overflow-auto py-1">
+        {snapshots.length === 0 && (
+          <li className="flex items-start gap-2 px-3 py-2 text-xs text-[#4a4a4e]">
+            <History size={12} className="mt-0.5 shrink-0" />
+            A snapshot is taken each time the shader is sent to the renderer.
+          </li>
+        )}
+        {[...snapshots].reverse().map(snapshot => {
+          const status = STATUS_STYLES[snapshot.status];
+          const isCurrent = sameSources(snapshot, current);
+          return (
+            <li
+              key={snapshot.id}
+              className={`group flex items-center gap-2 px-3 py-1.5 ${snapshot.id === selectedId ? "bg-[#1a1a2a]" : "hover:bg-[#111114]"}`}
+            >
+              <button onClick={() => onSelect(snapshot)} className="flex-1 min-w-0 flex items-center gap-2 text-left" title="Compare with the current code">
+                {snapshot.thumbnail ? (
+                  <img src={snapshot.thumbnail} alt="" className="w-12 h-9 object-cover rounded border border-[#1f1f23] shrink-0" />
+                ) : (
+                  <div className="w-12 h-9 rounded border border-[#1f1f23] bg-black shrink-0" />
+                )}
+                <div className="min-w-0">
+                  <div className="flex items-center gap-1.5 text-[#a0a0a0] font-mono text-xs">
+                    <span className={`w-1.5 h-1.5 rounded-full shrink-0 ${status.dot}`} title={status.label} />
+                    {formatTime(snapshot.takenAt)}
+                  </div>
+                  <div className="text-[10px] text-[#5a5a5e]">
+                    {isCurrent ? "current" : `${snapshot.code.split("\n").length} lines`}
+                    {snapshot.passes.length > 0 && `, ${snapshot.passes.length + 1} passes`}
+                    {snapshot.files.length > 0 && `, ${snapshot.files.length + 1} files`}
+                  </div>
+                </div>
+              </button>
+              {!isCurrent && (
+                <button
+                  onClick={() => onRestore(snapshot)}
+                  title="Restore this version"
+                  className="hidden group-hover:block p-1 text-[#5a5a5e] hover:text-[#8a8a8e]"
+                >
+                  <RotateCcw size={12} />
+                </button>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
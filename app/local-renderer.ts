@@ -0,0 +1,172 @@
+import { PROTOCOL_VERSION, type FrameEncoding, type RendererFeature, type RendererMessage, type ServerMessage } from "./renderer-protocol";
+import type { RendererTransport, TransportHandlers, TransportKind } from "./renderer-transport";
+
+// The part of a renderer that runs in the page instead of on a server: the playback clock, frame pacing
+// and acks, answered the way the Metal renderer answers them. Renderers plug in drawing and compiling.
+
+const MAX_SIZE = 1024;
+const CLOCK_REPORT_INTERVAL_MS = 100;
+// Canvases encode images but do not hand out raw pixels cheaply, so raw frames are left to servers
+const ENCODINGS: FrameEncoding[] = ["jpeg", "png"];
+
+export interface LocalRendererState {
+  width: number;
+  height: number;
+  targetFps: number;
+  timeStep: number | null;
+  maxInFlight: number;
+  format: FrameEncoding;
+  quality: number;
+  paused: boolean;
+  speed: number;
+  pendingSteps: number;
+  time: number;
+  // Normalized with the origin bottom-left, as the server stores it
+  mouse: [number, number];
+}
+
+export interface LocalRenderer {
+  // Draws the frame at state.time into the canvas, which is already state.width by state.height
+  draw(state: LocalRendererState): void;
+  // Messages the clock does not handle, such as shaders and params; the reply, if any, is sent back
+  handle(message: RendererMessage, state: LocalRendererState): ServerMessage | null;
+  dispose?(): void;
+}
+
+// `create` receives the canvas frames are drawn into, and throws when the renderer cannot run in this browser.
+// `features` are the optional parts of the protocol the renderer implements, announced in its hello reply.
+export function createLocalTransport(
+  kind: TransportKind,
+  create: (canvas: HTMLCanvasElement) => LocalRenderer,
+  features: RendererFeature[],
+  handlers: TransportHandlers,
+): RendererTransport {
+  const state: LocalRendererState = {
+    width: 800,
+    height: 600,
+    targetFps: 60,
+    timeStep: null,
+    maxInFlight: 2,
+    format: "jpeg",
+    quality: 0.85,
+    paused: false,
+    speed: 1,
+    pendingSteps: 0,
+    time: 0,
+    mouse: [0.5, 0.5],
+  };
+  let canvas: HTMLCanvasElement | null = null;
+  let renderer: LocalRenderer | null = null;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let sequence = 0;
+  let acknowledged = 0;
+  let encoding = false;
+  let lastClockReport = 0;
+
+  // Replies go out asynchronously, as they would from a real server
+  const reply = (message: ServerMessage) => setTimeout(() => handlers.onMessage(message));
+
+  const renderFrame = () => {
+    timer = setTimeout(renderFrame, 1000 / state.targetFps);
+    if (!canvas || !renderer || encoding || sequence - acknowledged >= state.maxInFlight) return;
+
+    if (canvas.width !== state.width || canvas.height !== state.height) {
+      canvas.width = state.width;
+      canvas.height = state.height;
+    }
+    renderer.draw(state);
+    const frameSequence = ++sequence;
+    const renderedAt = performance.now();
+
+    const timeStep = (state.timeStep ?? 1 / state.targetFps) * state.speed;
+    if (!state.paused) {
+      state.time += timeStep;
+    } else if (state.pendingSteps > 0) {
+      state.time += timeStep;
+      state.pendingSteps--;
+    }
+    if (renderedAt - lastClockReport >= CLOCK_REPORT_INTERVAL_MS) {
+      lastClockReport = renderedAt;
+      handlers.onMessage({ type: "clock", time: state.time, paused: state.paused });
+    }
+
+    encoding = true;
+    canvas.toBlob(blob => {
+      encoding = false;
+      if (blob && timer !== null) handlers.onFrame({ sequence: frameSequence, renderedAt, data: blob });
+    }, state.format === "png" ? "image/png" : "image/jpeg", state.quality);
+  };
+
+  const handle = (message: RendererMessage) => {
+    switch (message.type) {
+      case "config":
+        if (typeof message.targetFps === "number") state.targetFps = Math.max(1, Math.min(120, message.targetFps));
+        if ("timeStep" in message) state.timeStep = typeof message.timeStep === "number" && message.timeStep > 0 ? message.timeStep : null;
+        if (typeof message.maxInFlight === "number") state.maxInFlight = Math.max(1, message.maxInFlight);
+        if (typeof message.width === "number" && typeof message.height === "number") {
+          state.width = Math.max(100, Math.min(MAX_SIZE, Math.round(message.width)));
+          state.height = Math.max(100, Math.min(MAX_SIZE, Math.round(message.height)));
+        }
+        if (message.format) state.format = ENCODINGS.includes(message.format) ? message.format : "jpeg";
+        if (typeof message.quality === "number") state.quality = Math.max(0, Math.min(1, message.quality));
+        break;
+      case "playback":
+        if (typeof message.paused === "boolean") state.paused = message.paused;
+        if (typeof message.speed === "number") state.speed = Math.max(0, Math.min(16, message.speed));
+        break;
+      case "time":
+        if (typeof message.time === "number") state.time = Math.max(0, message.time);
+        break;
+      case "step":
+        state.pendingSteps += Math.max(1, typeof message.frames === "number" ? message.frames : 1);
+        break;
+      case "ack":
+        if (typeof message.sequence === "number") acknowledged = Math.max(acknowledged, message.sequence);
+        break;
+      case "ping":
+        reply({ type: "pong", pong: message.sent, serverTime: performance.now() });
+        break;
+      case "hello":
+        reply({
+          type: "hello",
+          version: PROTOCOL_VERSION,
+          server: kind,
+          capabilities: { maxWidth: MAX_SIZE, maxHeight: MAX_SIZE, encodings: ENCODINGS, features },
+        });
+        break;
+      case "mousemove":
+      case "mousedown":
+      case "mouseup":
+      case "click":
+        // Pointer positions arrive in canvas pixels with the origin top-left
+        state.mouse = [message.x / state.width, 1 - message.y / state.height];
+        break;
+      default: {
+        const response = renderer?.handle(message, state);
+        if (response) reply(response);
+      }
+    }
+  };
+
+  return {
+    kind,
+    async open() {
+      canvas = document.createElement("canvas");
+      canvas.width = state.width;
+      canvas.height = state.height;
+      renderer = create(canvas);
+      renderFrame();
+    },
+    send: handle,
+    acknowledge(frame) {
+      handle({ type: "ack", sequence: frame });
+    },
+    close() {
+      if (timer) clearTimeout(timer);
+      timer = null;
+      renderer?.dispose?.();
+      renderer = null;
+      canvas = null;
+    },
+  };
+}
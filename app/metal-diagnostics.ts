@@ -0,0 +1,115 @@
+import type { Monaco } from "@monaco-editor/react";
+import type { editor } from "monaco-editor";
+
+export type DiagnosticSeverity = "error" | "warning" | "note";
+
+export interface DiagnosticNote {
+  file: string;
+  line: number;
+  column: number;
+  message: string;
+}
+
+export interface MetalDiagnostic {
+  // As the compiler reports it, until it is mapped back to the editor document it came from
+  file: string;
+  line: number;
+  column: number;
+  severity: DiagnosticSeverity;
+  message: string;
+  notes: DiagnosticNote[];
+}
+
+export const DIAGNOSTICS_OWNER = "metal";
+
+// Matches clang-style lines: "program_source:12:5: error: use of undeclared identifier 'foo'"
+const DIAGNOSTIC_LINE = /^(.+?):(\d+):(\d+):\s+(fatal error|error|warning|note):\s+(.*)$/;
+
+export function parseMetalDiagnostics(output: string, defaultSeverity: DiagnosticSeverity = "error"): MetalDiagnostic[] {
+  const diagnostics: MetalDiagnostic[] = [];
+  let current: MetalDiagnostic | null = null;
+
+  for (const rawLine of output.split(/\r?\n/)) {
+    const match = DIAGNOSTIC_LINE.exec(rawLine.trim());
+    if (!match) continue;
+
+    const [, file, line, column, kind, message] = match;
+    const location = { file, line: Number(line), column: Number(column) };
+
+    if (kind === "note") {
+      // Notes belong to the diagnostic that precedes them
+      if (current) {
+        current.notes.push({ ...location, message });
+        continue;
+      }
+      current = { ...location, severity: "note", message, notes: [] };
+    } else {
+      current = {
+        ...location,
+        severity: kind === "warning" ? "warning" : "error",
+        message,
+        notes: [],
+      };
+    }
+    diagnostics.push(current);
+  }
+
+  // Errors that don't come from the compiler (e.g. missing entry points) have no location
+  if (diagnostics.length === 0 && output.trim()) {
+    diagnostics.push({
+      file: "program_source",
+      line: 1,
+      column: 1,
+      severity: defaultSeverity,
+      message: output.trim(),
+      notes: [],
+    });
+  }
+
+  return diagnostics;
+}
+
+export function formatDiagnosticMessage(diagnostic: MetalDiagnostic): string {
+  if (diagnostic.notes.length === 0) return diagnostic.message;
+  const notes = diagnostic.notes.map(note => `note (${note.line}:${note.column}): ${note.message}`);
+  return [diagnostic.message, ...notes].join("\n");
+}
+
+export function toMonacoMarkers(
+  monaco: Monaco,
+  model: editor.ITextModel,
+  diagnostics: MetalDiagnostic[],
+): editor.IMarkerData[] {
+  const severities: Record<DiagnosticSeverity, number> = {
+    error: monaco.MarkerSeverity.Error,
+    warning: monaco.MarkerSeverity.Warning,
+    note: monaco.MarkerSeverity.Info,
+  };
+  const lineCount = model.getLineCount();
+
+  return diagnostics.map(diagnostic => {
+    const line = Math.min(Math.max(diagnostic.line, 1), lineCount);
+    // Highlight the word under the reported column, or the rest of the line if there is none
+    const word = model.getWordAtPosition({ lineNumber: line, column: diagnostic.column });
+    const startColumn = word?.startColumn ?? diagnostic.column;
+    const endColumn = word?.endColumn ?? model.getLineMaxColumn(line);
+
+    return {
+      severity: severities[diagnostic.severity],
+      message: formatDiagnosticMessage(diagnostic),
+      source: diagnostic.file,
+      startLineNumber: line,
+      startColumn,
+      endLineNumber: line,
+      endColumn: Math.max(endColumn, startColumn + 1),
+      relatedInformation: diagnostic.notes.map(note => ({
+        resource: model.uri,
+        message: note.message,
+        startLineNumber: note.line,
+        startColumn: note.column,
+        endLineNumber: note.line,
+        endColumn: note.column + 1,
+      })),
+    };
+  });
+}
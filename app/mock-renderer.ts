@@ -0,0 +1,86 @@
+import { createLocalTransport, type LocalRendererState } from "./local-renderer";
+import type { RendererTransport, TransportHandlers } from "./renderer-transport";
+import { passLabel, type PassGraphNode } from "./shader-passes";
+
+// Stands in for the Metal renderer so the client can be exercised without a Mac. It compiles nothing:
+// shader and pipeline messages are accepted as-is and answered with the pass graph they describe,
+// and every frame draws that graph along with the playback clock.
+
+function drawGraph(ctx: CanvasRenderingContext2D, state: LocalRendererState, graph: PassGraphNode[]) {
+  const { width, height } = state;
+  ctx.fillStyle = "#0a0a0c";
+  ctx.fillRect(0, 0, width, height);
+
+  // A sweep that moves with the clock shows at a glance whether frames are flowing
+  const sweep = ((state.time % 4) / 4) * width;
+  ctx.fillStyle = "#1a1a2a";
+  ctx.fillRect(sweep - 2, 0, 4, height);
+
+  const boxWidth = Math.min(160, (width - 40) / graph.length - 20);
+  const boxHeight = 56;
+  const top = height / 2 - boxHeight / 2;
+  const left = (index: number) => 20 + index * (boxWidth + 20) + (width - 40 - graph.length * (boxWidth + 20) + 20) / 2;
+  const fontSize = Math.max(10, Math.round(boxWidth / 10));
+
+  ctx.lineWidth = 2;
+  ctx.font = `${fontSize}px monospace`;
+  ctx.textAlign = "center";
+  ctx.textBaseline = "middle";
+
+  graph.forEach((node, index) => {
+    const x = left(index);
+    ctx.strokeStyle = node.name === "image" ? "#8a8aff" : "#5a5a5e";
+    ctx.strokeRect(x, top, boxWidth, boxHeight);
+    ctx.fillStyle = "#c0c0c0";
+    ctx.fillText(passLabel(node.name), x + boxWidth / 2, top + boxHeight / 2 - fontSize * 0.6);
+    ctx.fillStyle = "#5a5a5e";
+    ctx.fillText(`${node.scale}x`, x + boxWidth / 2, top + boxHeight / 2 + fontSize * 0.8);
+
+    // Inputs are drawn as arcs above the boxes, a loop for a pass reading its own previous frame
+    node.inputs.forEach((input, inputIndex) => {
+      const from = graph.findIndex(other => other.name === input);
+      if (from < 0) return;
+      const fromX = left(from) + boxWidth / 2;
+      const toX = x + boxWidth / 2;
+      const rise = 24 + inputIndex * 12 + Math.abs(from - index) * 12;
+      ctx.strokeStyle = from === index ? "#fb923c" : "#4ade80";
+      ctx.beginPath();
+      if (from === index) {
+        ctx.arc(toX, top - 12, 10, 0.25 * Math.PI, 0.75 * Math.PI, true);
+      } else {
+        ctx.moveTo(fromX, top);
+        ctx.bezierCurveTo(fromX, top - rise, toX, top - rise, toX, top);
+      }
+      ctx.stroke();
+    });
+  });
+
+  ctx.textAlign = "left";
+  ctx.textBaseline = "top";
+  ctx.fillStyle = "#5a5a5e";
+  ctx.fillText(`Local mock renderer - t = ${state.time.toFixed(2)}s${state.paused ? " (paused)" : ""}`, 12, 12);
+}
+
+export function createMockTransport(handlers: TransportHandlers): RendererTransport {
+  return createLocalTransport("mock", canvas => {
+    const ctx = canvas.getContext("2d");
+    if (!ctx) throw new Error("Canvas 2D is not available");
+    let graph: PassGraphNode[] = [];
+
+    return {
+      draw: state => drawGraph(ctx, state, graph),
+      handle(message) {
+        switch (message.type) {
+          case "shader":
+            graph = [{ name: "image", scale: 1, inputs: [] }];
+            return { type: "compile", id: message.id, ok: true, graph };
+          case "pipeline":
+            graph = message.passes.map(({ name, scale, inputs }) => ({ name, scale, inputs }));
+            return { type: "compile", id: message.id, ok: true, graph };
+          default:
+            return null;
+        }
+      },
+    };
+  }, ["pipeline", "step", "timeStep"], handlers);
+}
@@ -0,0 +1,137 @@
+export type MslBuiltinCategory = "math" | "common" | "geometric" | "relational" | "texture" | "derivative";
+
+export interface MslBuiltin {
+  name: string;
+  category: MslBuiltinCategory;
+  signatures: string[];
+  doc: string;
+}
+
+// A subset of metal_stdlib that covers what fragment shaders in the playground typically use.
+// T stands for any of half, float and their vector forms.
+export const MSL_BUILTINS: MslBuiltin[] = [
+  // Math
+  { name: "abs", category: "math", signatures: ["T abs(T x)"], doc: "Absolute value of x." },
+  { name: "sin", category: "math", signatures: ["T sin(T x)"], doc: "Sine of x, in radians." },
+  { name: "cos", category: "math", signatures: ["T cos(T x)"], doc: "Cosine of x, in radians." },
+  { name: "tan", category: "math", signatures: ["T tan(T x)"], doc: "Tangent of x, in radians." },
+  { name: "asin", category: "math", signatures: ["T asin(T x)"], doc: "Arc sine of x." },
+  { name: "acos", category: "math", signatures: ["T acos(T x)"], doc: "Arc cosine of x." },
+  { name: "atan", category: "math", signatures: ["T atan(T y_over_x)"], doc: "Arc tangent of y_over_x." },
+  { name: "atan2", category: "math", signatures: ["T atan2(T y, T x)"], doc: "Arc tangent of y / x, using the signs of both arguments to pick the quadrant." },
+  { name: "sinh", category: "math", signatures: ["T sinh(T x)"], doc: "Hyperbolic sine of x." },
+  { name: "cosh", category: "math", signatures: ["T cosh(T x)"], doc: "Hyperbolic cosine of x." },
+  { name: "tanh", category: "math", signatures: ["T tanh(T x)"], doc: "Hyperbolic tangent of x." },
+  { name: "pow", category: "math", signatures: ["T pow(T x, T y)"], doc: "x raised to the power y. Undefined for x < 0." },
+  { name: "powr", category: "math", signatures: ["T powr(T x, T y)"], doc: "x raised to the power y, where x >= 0." },
+  { name: "exp", category: "math", signatures: ["T exp(T x)"], doc: "e raised to the power x." },
+  { name: "exp2", category: "math", signatures: ["T exp2(T x)"], doc: "2 raised to the power x." },
+  { name: "log", category: "math", signatures: ["T log(T x)"], doc: "Natural logarithm of x." },
+  { name: "log2", category: "math", signatures: ["T log2(T x)"], doc: "Base 2 logarithm of x." },
+  { name: "sqrt", category: "math", signatures: ["T sqrt(T x)"], doc: "Square root of x." },
+  { name: "rsqrt", category: "math", signatures: ["T rsqrt(T x)"], doc: "Inverse square root of x." },
+  { name: "floor", category: "math", signatures: ["T floor(T x)"], doc: "Largest integral value not greater than x." },
+  { name: "ceil", category: "math", signatures: ["T ceil(T x)"], doc: "Smallest integral value not less than x." },
+  { name: "round", category: "math", signatures: ["T round(T x)"], doc: "x rounded to the nearest integer, halfway cases away from zero." },
+  { name: "trunc", category: "math", signatures: ["T trunc(T x)"], doc: "x rounded toward zero." },
+  { name: "fract", category: "math", signatures: ["T fract(T x)"], doc: "Fractional part of x: x - floor(x), clamped below 1." },
+  { name: "fmod", category: "math", signatures: ["T fmod(T x, T y)"], doc: "x - y * trunc(x / y). Differs from GLSL mod for negative x." },
+  { name: "fmin", category: "math", signatures: ["T fmin(T x, T y)"], doc: "Smaller of x and y." },
+  { name: "fmax", category: "math", signatures: ["T fmax(T x, T y)"], doc: "Larger of x and y." },
+  { name: "fma", category: "math", signatures: ["T fma(T a, T b, T c)"], doc: "a * b + c computed as a fused multiply-add." },
+
+  // Common
+  { name: "min", category: "common", signatures: ["T min(T x, T y)"], doc: "Smaller of x and y." },
+  { name: "max", category: "common", signatures: ["T max(T x, T y)"], doc: "Larger of x and y." },
+  { name: "clamp", category: "common", signatures: ["T clamp(T x, T minval, T maxval)"], doc: "x clamped to the range [minval, maxval]." },
+  { name: "saturate", category: "common", signatures: ["T saturate(T x)"], doc: "x clamped to the range [0, 1]." },
+  { name: "mix", category: "common", signatures: ["T mix(T x, T y, T a)"], doc: "Linear blend x + (y - x) * a." },
+  { name: "step", category: "common", signatures: ["T step(T edge, T x)"], doc: "0.0 if x < edge, otherwise 1.0." },
+  { name: "smoothstep", category: "common", signatures: ["T smoothstep(T edge0, T edge1, T x)"], doc: "Hermite interpolation between 0 and 1 as x moves from edge0 to edge1." },
+  { name: "sign", category: "common", signatures: ["T sign(T x)"], doc: "1.0 if x > 0, -1.0 if x < 0, 0.0 otherwise." },
+
+  // Geometric
+  { name: "dot", category: "geometric", signatures: ["T dot(Tn x, Tn y)"], doc: "Dot product of x and y." },
+  { name: "cross", category: "geometric", signatures: ["T3 cross(T3 x, T3 y)"], doc: "Cross product of two 3-component vectors." },
+  { name: "length", category: "geometric", signatures: ["T length(Tn x)"], doc: "Length of vector x." },
+  { name: "length_squared", category: "geometric", signatures: ["T length_squared(Tn x)"], doc: "Squared length of vector x." },
+  { name: "distance", category: "geometric", signatures: ["T distance(Tn x, Tn y)"], doc: "Distance between x and y." },
+  { name: "distance_squared", category: "geometric", signatures: ["T distance_squared(Tn x, Tn y)"], doc: "Squared distance between x and y." },
+  { name: "normalize", category: "geometric", signatures: ["Tn normalize(Tn x)"], doc: "Vector in the same direction as x with length 1." },
+  { name: "reflect", category: "geometric", signatures: ["Tn reflect(Tn i, Tn n)"], doc: "Reflection of incident vector i about normal n." },
+  { name: "refract", category: "geometric", signatures: ["Tn refract(Tn i, Tn n, T eta)"], doc: "Refraction of incident vector i through surface normal n with ratio eta." },
+  { name: "faceforward", category: "geometric", signatures: ["Tn faceforward(Tn n, Tn i, Tn nref)"], doc: "n if dot(nref, i) < 0, otherwise -n." },
+
+  // Relational
+  { name: "all", category: "relational", signatures: ["bool all(booln x)"], doc: "true if every component of x is true." },
+  { name: "any", category: "relational", signatures: ["bool any(booln x)"], doc: "true if any component of x is true." },
+  { name: "select", category: "relational", signatures: ["T select(T a, T b, bool c)"], doc: "b if c is true, otherwise a. Component-wise for vectors." },
+  { name: "isnan", category: "relational", signatures: ["bool isnan(T x)"], doc: "true if x is NaN." },
+  { name: "isinf", category: "relational", signatures: ["bool isinf(T x)"], doc: "true if x is positive or negative infinity." },
+
+  // Derivatives
+  { name: "dfdx", category: "derivative", signatures: ["T dfdx(T p)"], doc: "Screen-space derivative of p in x. Fragment functions only." },
+  { name: "dfdy", category: "derivative", signatures: ["T dfdy(T p)"], doc: "Screen-space derivative of p in y. Fragment functions only." },
+  { name: "fwidth", category: "derivative", signatures: ["T fwidth(T p)"], doc: "abs(dfdx(p)) + abs(dfdy(p)). Fragment functions only." },
+
+  // Textures
+  {
+    name: "sample",
+    category: "texture",
+    signatures: [
+      "Tv sample(sampler s, float2 coord)",
+      "Tv sample(sampler s, float2 coord, int2 offset)",
+      "Tv sample(sampler s, float2 coord, level lod)",
+      "Tv sample(sampler s, float2 coord, bias b)",
+    ],
+    doc: "Samples a texture2d at normalized coordinates. Call as `tex.sample(s, uv)`.",
+  },
+  {
+    name: "read",
+    category: "texture",
+    signatures: ["Tv read(uint2 coord, uint lod = 0)"],
+    doc: "Reads a texel at integer coordinates without a sampler. Call as `tex.read(coord)`.",
+  },
+  {
+    name: "get_width",
+    category: "texture",
+    signatures: ["uint get_width(uint lod = 0)"],
+    doc: "Width of the texture in texels.",
+  },
+  {
+    name: "get_height",
+    category: "texture",
+    signatures: ["uint get_height(uint lod = 0)"],
+    doc: "Height of the texture in texels.",
+  },
+];
+
+export const MSL_SCALAR_TYPES = ["bool", "char", "uchar", "short", "ushort", "int", "uint", "long", "ulong", "half", "float", "void", "size_t"];
+
+export const MSL_VECTOR_TYPES = ["bool", "char", "uchar", "short", "ushort", "int", "uint", "half", "float"].flatMap(base =>
+  [2, 3, 4].map(n => `${base}${n}`),
+);
+
+export const MSL_MATRIX_TYPES = ["half", "float"].flatMap(base =>
+  [2, 3, 4].flatMap(cols => [2, 3, 4].map(rows => `${base}${cols}x${rows}`)),
+);
+
+export const MSL_RESOURCE_TYPES = ["texture1d", "texture2d", "texture3d", "texturecube", "texture2d_array", "depth2d", "sampler"];
+
+export const MSL_ADDRESS_SPACES = ["device", "constant", "thread", "threadgroup", "threadgroup_imageblock", "ray_data", "object_data"];
+
+export const MSL_FUNCTION_QUALIFIERS = ["vertex", "fragment", "kernel"];
+
+export const MSL_ATTRIBUTES: { name: string; doc: string }[] = [
+  { name: "position", doc: "Clip-space position output of a vertex function, or window-relative position input to a fragment function." },
+  { name: "stage_in", doc: "Per-fragment inputs interpolated from the vertex function's output struct." },
+  { name: "vertex_id", doc: "Index of the vertex being processed." },
+  { name: "instance_id", doc: "Index of the instance being processed." },
+  { name: "buffer(n)", doc: "Binds the argument to buffer slot n. The playground reserves buffer(0) for time, buffer(1) for mouse, buffer(2) for annotated parameters, buffer(3) for MouseState, buffer(4) for KeyboardState and buffer(5) for the render size." },
+  { name: "texture(n)", doc: "Binds the argument to texture slot n. The playground fills slots 0-3 from the Channels panel and 4-6 with buffer passes A-C; empty slots sample black." },
+  { name: "sampler(n)", doc: "Binds the argument to sampler slot n. Slots 0-3 carry the filter and wrap chosen for the matching texture channel; 4-6 filter linearly and clamp." },
+  { name: "color(n)", doc: "Fragment output written to color attachment n." },
+  { name: "front_facing", doc: "true if the fragment belongs to a front-facing primitive." },
+  { name: "point_coord", doc: "Position of the fragment within a point primitive." },
+  { name: "flat", doc: "Disables interpolation for this fragment input." },
+];
@@ -0,0 +1,395 @@
+import type { Monaco } from "@monaco-editor/react";
+import type { editor, languages, Position } from "monaco-editor";
+import {
+  MSL_ADDRESS_SPACES,
+  MSL_ATTRIBUTES,
+  MSL_BUILTINS,
+  MSL_FUNCTION_QUALIFIERS,
+  MSL_MATRIX_TYPES,
+  MSL_RESOURCE_TYPES,
+  MSL_SCALAR_TYPES,
+  MSL_VECTOR_TYPES,
+  type MslBuiltin,
+} from "./msl-builtins";
+import { LINT_SOURCE, lintMsl, type LintRange } from "./msl-lint";
+import { LIBRARY_FILES, LIBRARY_PREFIX } from "./shader-library";
+
+export const MSL_LANGUAGE_ID = "metal";
+
+const KEYWORDS = [
+  "if", "else", "for", "while", "do", "switch", "case", "default", "break", "continue", "return",
+  "struct", "using", "namespace", "const", "constexpr", "static", "inline", "template", "typename",
+  "true", "false", "enum", "class", "typedef", "discard_fragment",
+];
+
+const TYPES = [...MSL_SCALAR_TYPES, ...MSL_VECTOR_TYPES, ...MSL_MATRIX_TYPES, ...MSL_RESOURCE_TYPES];
+
+const BUILTINS_BY_NAME = new Map<string, MslBuiltin>(MSL_BUILTINS.map(builtin => [builtin.name, builtin]));
+
+const UNIFORM_SNIPPETS: { label: string; insertText: string; doc: string }[] = [
+  {
+    label: "time [[buffer(0)]]",
+    insertText: "constant float &time [[buffer(0)]]",
+    doc: "Seconds since the shader started, supplied by the playground at buffer 0.",
+  },
+  {
+    label: "mouse [[buffer(1)]]",
+    insertText: "constant float2 &mouse [[buffer(1)]]",
+    doc: "Normalized mouse position (origin bottom-left), supplied by the playground at buffer 1.",
+  },
+  {
+    label: "params [[buffer(2)]]",
+    insertText: "constant ShaderParams &params [[buffer(2)]]",
+    doc: "Values of the `// @param` and `// @color` annotations, packed into a generated ShaderParams struct at buffer 2.",
+  },
+  {
+    label: "mouseState [[buffer(3)]]",
+    insertText: "constant MouseState &mouseState [[buffer(3)]]",
+    doc: "Full mouse state at buffer 3: `position`, `clickPosition`, `drag`, `wheel`, `buttons` (bit 0 left, 1 right, 2 middle) and `clicked` on the first frame of a press. The MouseState struct is declared automatically.",
+  },
+  {
+    label: "keyboard [[buffer(4)]]",
+    insertText: "constant KeyboardState &keyboard [[buffer(4)]]",
+    doc: "Keyboard state at buffer 4, indexed by US-layout keyCode of the physical key (65 = A, 37-40 = arrows): `held[k]`, `pressed[k]` (first frame only) and `toggled[k]`. Only sent while the canvas has focus. The KeyboardState struct is declared automatically.",
+  },
+  {
+    label: "resolution [[buffer(5)]]",
+    insertText: "constant float2 &resolution [[buffer(5)]]",
+    doc: "Size in pixels of what the shader renders into at buffer 5: the frame for the image pass, the buffer's texture for a buffer pass.",
+  },
+  {
+    label: "channel [[texture(n)]]",
+    insertText: "texture2d<float> channel${1:0} [[texture(${1:0})]],\nsampler channel${1:0}Sampler [[sampler(${1:0})]]",
+    doc: "Texture channel n (0-3) and its sampler, filled from the Channels panel. The sampler carries the channel's filter and wrap settings; empty channels sample black. Images are uploaded with the origin bottom-left, so `channel0.sample(channel0Sampler, in.uv)` shows them upright.",
+  },
+  {
+    label: "buffer [[texture(4-6)]]",
+    insertText: "texture2d<float> buffer${1|A,B,C|} [[texture(${2|4,5,6|})]],\nsampler buffer${1}Sampler [[sampler(${2})]]",
+    doc: "Output of buffer pass A, B or C at texture 4, 5 or 6, with a linear clamping sampler. A pass reading its own buffer gets its previous frame. Buffers are stored top row first, so sample them at `float2(uv.x, 1.0 - uv.y)`.",
+  },
+  {
+    label: "include library header",
+    insertText: `#include "${LIBRARY_PREFIX}\${1|${LIBRARY_FILES.map(file => file.name.slice(LIBRARY_PREFIX.length)).join(",")}|}"`,
+    doc: LIBRARY_FILES.map(file => `\`${file.name}\`: ${file.description}.`).join("\n\n"),
+  },
+  {
+    label: "fragment_main",
+    insertText: [
+      "fragment float4 fragment_main(VertexOut in [[stage_in]],",
+      "                              constant float &time [[buffer(0)]],",
+      "                              constant float2 &mouse [[buffer(1)]]) {",
+      "    float2 uv = in.uv;",
+      "    ${0}",
+      "    return float4(uv, 0.0, 1.0);",
+      "}",
+    ].join("\n"),
+    doc: "Fragment entry point with the playground's uniform contract.",
+  },
+];
+
+const monarchLanguage: languages.IMonarchLanguage = {
+  defaultToken: "",
+  keywords: KEYWORDS,
+  types: TYPES,
+  addressSpaces: MSL_ADDRESS_SPACES,
+  qualifiers: MSL_FUNCTION_QUALIFIERS,
+  builtins: MSL_BUILTINS.map(builtin => builtin.name),
+  operators: /[=><!~?:&|+\-*/^%]+/,
+  tokenizer: {
+    root: [
+      [/\[\[/, { token: "annotation", next: "@attribute" }],
+      [/^\s*#\s*\w+/, { token: "keyword.directive", next: "@directive" }],
+      [/[a-zA-Z_]\w*/, {
+        cases: {
+          "@keywords": "keyword",
+          "@types": "type",
+          "@addressSpaces": "keyword.storage",
+          "@qualifiers": "keyword.qualifier",
+          "@builtins": "predefined",
+          "@default": "identifier",
+        },
+      }],
+      { include: "@whitespace" },
+      [/[{}()[\]]/, "@brackets"],
+      [/@operators/, "operator"],
+      [/\d*\.\d+([eE][-+]?\d+)?[fFhH]?/, "number.float"],
+      [/\d+\.\d*([eE][-+]?\d+)?[fFhH]?/, "number.float"],
+      [/0[xX][0-9a-fA-F]+[uU]?/, "number.hex"],
+      [/\d+[uU]?/, "number"],
+      [/[;,.]/, "delimiter"],
+      [/"([^"\\]|\\.)*$/, "string.invalid"],
+      [/"/, "string", "@string"],
+    ],
+    attribute: [
+      [/\]\]/, { token: "annotation", next: "@pop" }],
+      [/\d+/, "number"],
+      [/[a-zA-Z_]\w*/, "annotation"],
+      [/[(),\s]/, "annotation"],
+    ],
+    directive: [
+      [/<[^>]*>/, "string"],
+      [/"[^"]*"/, "string"],
+      [/$/, "", "@pop"],
+      [/[^<"]+/, "keyword.directive"],
+    ],
+    whitespace: [
+      [/[ \t\r\n]+/, ""],
+      [/\/\*/, "comment", "@comment"],
+      [/\/\/.*$/, "comment"],
+    ],
+    comment: [
+      [/[^/*]+/, "comment"],
+      [/\*\//, "comment", "@pop"],
+      [/[/*]/, "comment"],
+    ],
+    string: [
+      [/[^\\"]+/, "string"],
+      [/\\./, "string.escape"],
+      [/"/, "string", "@pop"],
+    ],
+  },
+};
+
+const languageConfiguration: languages.LanguageConfiguration = {
+  comments: { lineComment: "//", blockComment: ["/*", "*/"] },
+  brackets: [["{", "}"], ["[", "]"], ["(", ")"]],
+  autoClosingPairs: [
+    { open: "{", close: "}" },
+    { open: "[", close: "]" },
+    { open: "(", close: ")" },
+    { open: "\"", close: "\"", notIn: ["string"] },
+    { open: "/*", close: " */", notIn: ["string"] },
+  ],
+  surroundingPairs: [
+    { open: "{", close: "}" },
+    { open: "[", close: "]" },
+    { open: "(", close: ")" },
+    { open: "\"", close: "\"" },
+  ],
+};
+
+function formatBuiltinDoc(builtin: MslBuiltin): string {
+  const signatures = builtin.signatures.map(signature => "```metal\n" + signature + "\n```").join("\n");
+  return `${signatures}\n\n${builtin.doc}`;
+}
+
+// Walks backwards from the cursor to the innermost unclosed "(" and returns the callee and argument index
+export function findCallContext(textBeforeCursor: string): { name: string; argumentIndex: number } | null {
+  let depth = 0;
+  let argumentIndex = 0;
+
+  for (let i = textBeforeCursor.length - 1; i >= 0; i--) {
+    const char = textBeforeCursor[i];
+    if (char === ")" || char === "]") {
+      depth++;
+    } else if (char === "[" && depth > 0) {
+      depth--;
+    } else if (char === "(") {
+      if (depth > 0) {
+        depth--;
+        continue;
+      }
+      const match = /([a-zA-Z_]\w*)\s*$/.exec(textBeforeCursor.slice(0, i));
+      return match ? { name: match[1], argumentIndex } : null;
+    } else if (char === "," && depth === 0) {
+      argumentIndex++;
+    } else if (char === ";" || char === "{" || char === "}") {
+      return null;
+    }
+  }
+  return null;
+}
+
+function splitParameters(signature: string): string[] {
+  const open = signature.indexOf("(");
+  const close = signature.lastIndexOf(")");
+  const inner = signature.slice(open + 1, close).trim();
+  return inner ? inner.split(",").map(parameter => parameter.trim()) : [];
+}
+
+function createCompletionProvider(monaco: Monaco): languages.CompletionItemProvider {
+  return {
+    triggerCharacters: ["[", "."],
+    provideCompletionItems(model: editor.ITextModel, position: Position) {
+      const word = model.getWordUntilPosition(position);
+      const range = {
+        startLineNumber: position.lineNumber,
+        endLineNumber: position.lineNumber,
+        startColumn: word.startColumn,
+        endColumn: word.endColumn,
+      };
+      const linePrefix = model.getLineContent(position.lineNumber).slice(0, position.column - 1);
+      const { CompletionItemKind, CompletionItemInsertTextRule } = monaco.languages;
+
+      // Inside [[ ... ]] only attributes make sense
+      if (/\[\[\s*\w*$/.test(linePrefix)) {
+        return {
+          suggestions: MSL_ATTRIBUTES.map(attribute => {
+            const parameterized = attribute.name.endsWith("(n)");
+            return {
+              label: attribute.name,
+              kind: CompletionItemKind.Property,
+              documentation: attribute.doc,
+              insertText: parameterized ? attribute.name.replace("(n)", "(${1:0})") : attribute.name,
+              insertTextRules: parameterized ? CompletionItemInsertTextRule.InsertAsSnippet : undefined,
+              range,
+            };
+          }),
+        };
+      }
+
+      const suggestions: languages.CompletionItem[] = [
+        ...MSL_BUILTINS.map(builtin => ({
+          label: builtin.name,
+          kind: CompletionItemKind.Function,
+          detail: builtin.signatures[0],
+          documentation: { value: formatBuiltinDoc(builtin) },
+          insertText: `${builtin.name}($0)`,
+          insertTextRules: CompletionItemInsertTextRule.InsertAsSnippet,
+          range,
+        })),
+        ...TYPES.map(type => ({
+          label: type,
+          kind: CompletionItemKind.TypeParameter,
+          insertText: type,
+          range,
+        })),
+        ...[...KEYWORDS, ...MSL_ADDRESS_SPACES, ...MSL_FUNCTION_QUALIFIERS].map(keyword => ({
+          label: keyword,
+          kind: CompletionItemKind.Keyword,
+          insertText: keyword,
+          range,
+        })),
+        ...UNIFORM_SNIPPETS.map(snippet => ({
+          label: snippet.label,
+          kind: CompletionItemKind.Snippet,
+          documentation: snippet.doc,
+          insertText: snippet.insertText,
+          insertTextRules: CompletionItemInsertTextRule.InsertAsSnippet,
+          range,
+        })),
+      ];
+
+      return { suggestions };
+    },
+  };
+}
+
+const signatureHelpProvider: languages.SignatureHelpProvider = {
+  signatureHelpTriggerCharacters: ["(", ","],
+  signatureHelpRetriggerCharacters: [","],
+  provideSignatureHelp(model: editor.ITextModel, position: Position) {
+    const textBeforeCursor = model.getValueInRange({
+      startLineNumber: Math.max(1, position.lineNumber - 10),
+      startColumn: 1,
+      endLineNumber: position.lineNumber,
+      endColumn: position.column,
+    });
+    const context = findCallContext(textBeforeCursor);
+    const builtin = context && BUILTINS_BY_NAME.get(context.name);
+    if (!context || !builtin) return null;
+
+    const signatures = builtin.signatures.map(signature => ({
+      label: signature,
+      documentation: builtin.doc,
+      parameters: splitParameters(signature).map(parameter => ({ label: parameter })),
+    }));
+    const activeSignature = Math.max(0, signatures.findIndex(s => s.parameters.length > context.argumentIndex));
+
+    return {
+      value: { signatures, activeSignature, activeParameter: context.argumentIndex },
+      dispose: () => {},
+    };
+  },
+};
+
+const hoverProvider: languages.HoverProvider = {
+  provideHover(model: editor.ITextModel, position: Position) {
+    const word = model.getWordAtPosition(position);
+    if (!word) return null;
+
+    const range = {
+      startLineNumber: position.lineNumber,
+      endLineNumber: position.lineNumber,
+      startColumn: word.startColumn,
+      endColumn: word.endColumn,
+    };
+
+    const builtin = BUILTINS_BY_NAME.get(word.word);
+    if (builtin) {
+      return { range, contents: [{ value: formatBuiltinDoc(builtin) }] };
+    }
+
+    const attribute = MSL_ATTRIBUTES.find(a => a.name.replace("(n)", "") === word.word);
+    if (attribute) {
+      return { range, contents: [{ value: `**[[${attribute.name}]]**\n\n${attribute.doc}` }] };
+    }
+
+    if (word.word === "time" || word.word === "mouse") {
+      const snippet = UNIFORM_SNIPPETS.find(s => s.label.startsWith(word.word));
+      return { range, contents: [{ value: "```metal\n" + snippet?.insertText + "\n```" }, { value: snippet?.doc ?? "" }] };
+    }
+
+    return null;
+  },
+};
+
+function toMonacoRange(range: LintRange) {
+  return { startLineNumber: range.line, startColumn: range.column, endLineNumber: range.endLine, endColumn: range.endColumn };
+}
+
+// Offers the pre-flight linter's fixes for its markers; the source is linted again so fixes match the current text
+const codeActionProvider: languages.CodeActionProvider = {
+  provideCodeActions(model: editor.ITextModel, _range, context) {
+    const markers = context.markers.filter(marker => marker.source === LINT_SOURCE);
+    if (markers.length === 0) return { actions: [], dispose: () => {} };
+
+    const issues = lintMsl(model.getValue());
+    const actions = markers.flatMap(marker => {
+      const issue = issues.find(i => i.code === marker.code && i.line === marker.startLineNumber && i.column === marker.startColumn);
+      return (issue?.fixes ?? []).map((fix, index): languages.CodeAction => ({
+        title: fix.title,
+        kind: "quickfix",
+        diagnostics: [marker],
+        isPreferred: index === 0,
+        edit: {
+          edits: fix.edits.map(edit => ({
+            resource: model.uri,
+            versionId: model.getVersionId(),
+            textEdit: { range: toMonacoRange(edit.range), text: edit.text },
+          })),
+        },
+      }));
+    });
+    return { actions, dispose: () => {} };
+  },
+};
+
+let registered = false;
+
+export function registerMslLanguage(monaco: Monaco) {
+  if (registered) return;
+  registered = true;
+
+  monaco.languages.register({ id: MSL_LANGUAGE_ID, extensions: [".metal"], aliases: ["Metal", "MSL"] });
+  monaco.languages.setMonarchTokensProvider(MSL_LANGUAGE_ID, monarchLanguage);
+  monaco.languages.setLanguageConfiguration(MSL_LANGUAGE_ID, languageConfiguration);
+  monaco.languages.registerCompletionItemProvider(MSL_LANGUAGE_ID, createCompletionProvider(monaco));
+  monaco.languages.registerSignatureHelpProvider(MSL_LANGUAGE_ID, signatureHelpProvider);
+  monaco.languages.registerHoverProvider(MSL_LANGUAGE_ID, hoverProvider);
+  monaco.languages.registerCodeActionProvider(MSL_LANGUAGE_ID, codeActionProvider, { providedCodeActionKinds: ["quickfix"] });
+
+  monaco.editor.defineTheme("metal-dark", {
+    base: "vs-dark",
+    inherit: true,
+    rules: [
+      { token: "annotation", foreground: "c586c0" },
+      { token: "keyword.storage", foreground: "569cd6", fontStyle: "italic" },
+      { token: "keyword.qualifier", foreground: "4ec9b0", fontStyle: "bold" },
+      { token: "keyword.directive", foreground: "9b9b9b" },
+      { token: "predefined", foreground: "dcdcaa" },
+      { token: "type", foreground: "4ec9b0" },
+    ],
+    colors: {},
+  });
+}
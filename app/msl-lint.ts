@@ -0,0 +1,406 @@
+import type { Monaco } from "@monaco-editor/react";
+import type { editor } from "monaco-editor";
+import type { MetalDiagnostic } from "./metal-diagnostics";
+import { KEYBOARD_BUFFER_INDEX, MOUSE_STATE_BUFFER_INDEX, RESOLUTION_BUFFER_INDEX } from "./shader-inputs";
+import { PARAMS_BUFFER_INDEX, PARAMS_STRUCT_NAME } from "./shader-params";
+import { SHADER_PRELUDE } from "./shader-examples";
+
+export const LINT_OWNER = "msl-lint";
+// Marker source, used to find the quick fixes for a marker again
+export const LINT_SOURCE = "pre-flight";
+
+export type LintCode =
+  | "missing-include"
+  | "missing-namespace"
+  | "missing-entry-point"
+  | "misspelled-entry-point"
+  | "missing-stage-qualifier"
+  | "reserved-buffer"
+  | "duplicate-buffer"
+  | "unbound-buffer"
+  | "unbalanced-bracket";
+
+// 1-based, end exclusive, like Monaco ranges
+export interface LintRange {
+  line: number;
+  column: number;
+  endLine: number;
+  endColumn: number;
+}
+
+export interface LintFix {
+  title: string;
+  edits: { range: LintRange; text: string }[];
+}
+
+export interface LintIssue extends LintRange {
+  code: LintCode;
+  severity: "error" | "warning";
+  message: string;
+  // The first fix is the preferred one
+  fixes: LintFix[];
+}
+
+interface ReservedBuffer {
+  name: string;
+  type: string;
+}
+
+// The buffers the renderer binds for every fragment shader
+const RESERVED_BUFFERS = new Map<number, ReservedBuffer>([
+  [0, { name: "time", type: "float" }],
+  [1, { name: "mouse", type: "float2" }],
+  [PARAMS_BUFFER_INDEX, { name: "params", type: PARAMS_STRUCT_NAME }],
+  [MOUSE_STATE_BUFFER_INDEX, { name: "mouseState", type: "MouseState" }],
+  [KEYBOARD_BUFFER_INDEX, { name: "keyboard", type: "KeyboardState" }],
+  [RESOLUTION_BUFFER_INDEX, { name: "resolution", type: "float2" }],
+]);
+
+const LAST_RESERVED_BUFFER = Math.max(...RESERVED_BUFFERS.keys());
+
+const ENTRY_POINTS = [
+  { stage: "vertex", name: "vertex_main" },
+  { stage: "fragment", name: "fragment_main" },
+] as const;
+
+// Names further than this from an entry point are not treated as typos of it
+const MAX_TYPO_DISTANCE = 3;
+
+const BRACKET_PAIRS: Record<string, string> = { "(": ")", "[": "]", "{": "}" };
+const CLOSING_BRACKETS = new Set(Object.values(BRACKET_PAIRS));
+
+// Blanks out comments and string contents, keeping every offset and newline in place
+function maskSource(code: string): string {
+  const chars = code.split("");
+  let i = 0;
+  while (i < chars.length) {
+    if (code.startsWith("//", i)) {
+      while (i < chars.length && chars[i] !== "\n") chars[i++] = " ";
+    } else if (code.startsWith("/*", i)) {
+      const end = code.indexOf("*/", i + 2);
+      const stop = end < 0 ? chars.length : end + 2;
+      for (; i < stop; i++) if (chars[i] !== "\n") chars[i] = " ";
+    } else if (chars[i] === "\"" || chars[i] === "'") {
+      const quote = chars[i++];
+      while (i < chars.length && chars[i] !== quote && chars[i] !== "\n") {
+        if (chars[i] === "\\") chars[i++] = " ";
+        if (i < chars.length && chars[i] !== "\n") chars[i++] = " ";
+      }
+      i++;
+    } else {
+      i++;
+    }
+  }
+  return chars.join("");
+}
+
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+class SourceText {
+  private lineStarts = [0];
+
+  constructor(readonly code: string) {
+    for (let i = 0; i < code.length; i++) if (code[i] === "\n") this.lineStarts.push(i + 1);
+  }
+
+  position(offset: number): { line: number; column: number } {
+    let low = 0;
+    let high = this.lineStarts.length - 1;
+    while (low < high) {
+      const mid = (low + high + 1) >> 1;
+      if (this.lineStarts[mid] <= offset) low = mid;
+      else high = mid - 1;
+    }
+    return { line: low + 1, column: offset - this.lineStarts[low] + 1 };
+  }
+
+  range(start: number, end: number): LintRange {
+    const from = this.position(start);
+    const to = this.position(end);
+    return { line: from.line, column: from.column, endLine: to.line, endColumn: to.column };
+  }
+
+  lineRange(line: number): LintRange {
+    const start = this.lineStarts[line - 1];
+    const next = this.lineStarts[line];
+    return this.range(start, next === undefined ? this.code.length : next - 1);
+  }
+}
+
+function issueAt(range: LintRange, code: LintCode, severity: LintIssue["severity"], message: string, fixes: LintFix[] = []): LintIssue {
+  return { ...range, code, severity, message, fixes };
+}
+
+function checkPreamble(source: SourceText, masked: string): LintIssue[] {
+  const issues: LintIssue[] = [];
+  const hasInclude = /^\s*#\s*include\s*<metal_stdlib>/m.test(masked);
+  const hasNamespace = /\busing\s+namespace\s+metal\s*;/.test(masked);
+  const top = { line: 1, column: 1, endLine: 1, endColumn: 1 };
+
+  if (!hasInclude) {
+    issues.push(issueAt(source.lineRange(1), "missing-include", "error",
+      "Missing #include <metal_stdlib>; Metal types and functions are undeclared without it.",
+      [{ title: "Add #include <metal_stdlib>", edits: [{ range: top, text: hasNamespace ? "#include <metal_stdlib>\n" : "#include <metal_stdlib>\nusing namespace metal;\n\n" }] }]));
+  } else if (!hasNamespace) {
+    const include = /^\s*#\s*include\s*<metal_stdlib>.*$/m.exec(masked)!;
+    const end = include.index + include[0].length;
+    issues.push(issueAt(source.range(include.index + include[0].indexOf("#"), end), "missing-namespace", "warning",
+      "Missing `using namespace metal;`; builtins need a metal:: prefix without it.",
+      [{ title: "Add using namespace metal;", edits: [{ range: source.range(end, end), text: "\nusing namespace metal;" }] }]));
+  }
+  return issues;
+}
+
+interface EntryFunction {
+  stage: string;
+  stageOffset: number;
+  name: string;
+  nameOffset: number;
+  // Offset of the "(" that opens the parameter list
+  parametersOffset: number;
+}
+
+function findStageFunctions(masked: string): EntryFunction[] {
+  const functions: EntryFunction[] = [];
+  const pattern = /\b(vertex|fragment|kernel)\s+[A-Za-z_][\w:<>]*\s+([A-Za-z_]\w*)\s*\(/g;
+  for (let match; (match = pattern.exec(masked)); ) {
+    functions.push({
+      stage: match[1],
+      stageOffset: match.index,
+      name: match[2],
+      nameOffset: match.index + match[0].lastIndexOf(match[2]),
+      parametersOffset: match.index + match[0].length - 1,
+    });
+  }
+  return functions;
+}
+
+// The full-screen quad every example uses, without VertexOut when the shader already declares it
+function defaultVertexFunction(masked: string): string {
+  const prelude = SHADER_PRELUDE.slice(SHADER_PRELUDE.indexOf("struct VertexOut"));
+  return /\bstruct\s+VertexOut\b/.test(masked) ? prelude.slice(prelude.indexOf("vertex VertexOut")) : prelude;
+}
+
+function checkEntryPoints(source: SourceText, masked: string, functions: EntryFunction[]): LintIssue[] {
+  const issues: LintIssue[] = [];
+
+  for (const entry of ENTRY_POINTS) {
+    if (functions.some(f => f.stage === entry.stage && f.name === entry.name)) continue;
+
+    const wrongStage = functions.find(f => f.name === entry.name);
+    if (wrongStage) {
+      const range = source.range(wrongStage.stageOffset, wrongStage.stageOffset + wrongStage.stage.length);
+      issues.push(issueAt(range, "missing-stage-qualifier", "error",
+        `${entry.name} is declared as a ${wrongStage.stage} function; the renderer expects a ${entry.stage} function.`,
+        [{ title: `Change to ${entry.stage}`, edits: [{ range, text: entry.stage }] }]));
+      continue;
+    }
+
+    // Declared without a stage qualifier, e.g. "float4 fragment_main(...)"
+    const unqualified = new RegExp(`\\b([A-Za-z_][\\w:<>]*)\\s+${entry.name}\\s*\\(`).exec(masked);
+    if (unqualified && unqualified[1] !== "return") {
+      const nameOffset = unqualified.index + unqualified[0].lastIndexOf(entry.name);
+      issues.push(issueAt(source.range(nameOffset, nameOffset + entry.name.length), "missing-stage-qualifier", "error",
+        `${entry.name} needs the \`${entry.stage}\` qualifier to be used as the ${entry.stage} entry point.`,
+        [{ title: `Add the ${entry.stage} qualifier`, edits: [{ range: source.range(unqualified.index, unqualified.index), text: `${entry.stage} ` }] }]));
+      continue;
+    }
+
+    const closest = functions
+      .filter(f => f.stage === entry.stage)
+      .map(f => ({ function: f, distance: editDistance(f.name, entry.name) }))
+      .sort((a, b) => a.distance - b.distance)[0];
+    if (closest) {
+      const { nameOffset, name } = closest.function;
+      const range = source.range(nameOffset, nameOffset + name.length);
+      const message = closest.distance <= MAX_TYPO_DISTANCE
+        ? `Did you mean ${entry.name}? The renderer only looks for a ${entry.stage} function with that name.`
+        : `The renderer looks for a ${entry.stage} function named ${entry.name}, not ${name}.`;
+      issues.push(issueAt(range, "misspelled-entry-point", "error", message,
+        [{ title: `Rename to ${entry.name}`, edits: [{ range, text: entry.name }] }]));
+      continue;
+    }
+
+    const fixes: LintFix[] = [];
+    if (entry.stage === "vertex") {
+      // Goes on the line before the first stage function so the fragment function can use VertexOut
+      const before = functions[0]?.stageOffset;
+      const insertAt = before === undefined ? masked.length : masked.lastIndexOf("\n", before - 1) + 1;
+      const text = before === undefined ? `\n\n${defaultVertexFunction(masked)}\n` : `${defaultVertexFunction(masked)}\n\n`;
+      fixes.push({ title: "Insert the default vertex_main", edits: [{ range: source.range(insertAt, insertAt), text }] });
+    }
+    issues.push(issueAt(source.lineRange(1), "missing-entry-point", "error",
+      `No ${entry.stage} function named ${entry.name}; the renderer needs one to build its pipeline.`, fixes));
+  }
+  return issues;
+}
+
+// Returns the offset of the bracket that closes the one at `open`, or -1
+function matchingBracket(masked: string, open: number): number {
+  let depth = 0;
+  for (let i = open; i < masked.length; i++) {
+    if (BRACKET_PAIRS[masked[i]]) depth++;
+    else if (CLOSING_BRACKETS.has(masked[i]) && --depth === 0) return i;
+  }
+  return -1;
+}
+
+// Splits a parameter list on top-level commas, keeping each parameter's offset
+function splitParameterList(masked: string, open: number, close: number): { text: string; offset: number }[] {
+  const parameters: { text: string; offset: number }[] = [];
+  let depth = 0;
+  let start = open + 1;
+  for (let i = open + 1; i <= close; i++) {
+    const char = masked[i];
+    if (BRACKET_PAIRS[char]) depth++;
+    else if (CLOSING_BRACKETS.has(char) && i < close) depth--;
+    if ((char === "," && depth === 0) || i === close) {
+      parameters.push({ text: masked.slice(start, i), offset: start });
+      start = i + 1;
+    }
+  }
+  return parameters;
+}
+
+const BUFFER_PARAMETER = /^(\s*(?:(?:constant|device|const)\s+)*)([A-Za-z_][\w:<>]*)\s*[&*]\s*([A-Za-z_]\w*)\s*\[\[\s*buffer\s*\(\s*(\d+)\s*\)\s*\]\]/;
+
+function checkBuffers(source: SourceText, masked: string, functions: EntryFunction[]): LintIssue[] {
+  const issues: LintIssue[] = [];
+
+  for (const fn of functions) {
+    if (fn.stage !== "fragment") continue;
+    const close = matchingBracket(masked, fn.parametersOffset);
+    if (close < 0) continue;
+
+    const bound = new Map<number, string>();
+    for (const parameter of splitParameterList(masked, fn.parametersOffset, close)) {
+      const match = BUFFER_PARAMETER.exec(parameter.text);
+      if (!match) continue;
+
+      const [, prefix, type, name, digits] = match;
+      const index = Number(digits);
+      const typeOffset = parameter.offset + prefix.length;
+      const indexOffset = parameter.offset + match[0].lastIndexOf(digits);
+      const typeRange = source.range(typeOffset, typeOffset + type.length);
+      const indexRange = source.range(indexOffset, indexOffset + digits.length);
+
+      const previous = bound.get(index);
+      bound.set(index, name);
+      if (previous !== undefined) {
+        issues.push(issueAt(indexRange, "duplicate-buffer", "error", `buffer(${index}) is already bound to \`${previous}\` in ${fn.name}.`));
+        continue;
+      }
+
+      const reserved = RESERVED_BUFFERS.get(index);
+      if (reserved?.type === type) continue;
+
+      // mouse and resolution are both float2, so the name settles which uniform was meant before the type does
+      const sameType = [...RESERVED_BUFFERS].filter(([, slot]) => slot.type === type);
+      const intended = sameType.find(([, slot]) => slot.name === name) ?? (sameType.length === 1 ? sameType[0] : undefined);
+      const fixes: LintFix[] = [];
+      if (intended && !bound.has(intended[0])) {
+        fixes.push({ title: `Use buffer(${intended[0]}) for ${intended[1].name}`, edits: [{ range: indexRange, text: String(intended[0]) }] });
+      }
+
+      if (reserved) {
+        fixes.push({ title: `Change the type to ${reserved.type}`, edits: [{ range: typeRange, text: reserved.type }] });
+        issues.push(issueAt(typeRange, "reserved-buffer", "error",
+          `buffer(${index}) is the playground's \`${reserved.name}\` uniform and holds a ${reserved.type}, not a ${type}.`, fixes));
+      } else {
+        const supplied = intended ? ` ${intended[1].type} \`${intended[1].name}\` is supplied at buffer(${intended[0]}).` : "";
+        issues.push(issueAt(indexRange, "unbound-buffer", "warning",
+          `Nothing is bound at buffer(${index}); the playground only supplies buffers 0-${LAST_RESERVED_BUFFER}.${supplied}`, fixes));
+      }
+    }
+  }
+  return issues;
+}
+
+function checkBrackets(source: SourceText, masked: string): LintIssue[] {
+  const issues: LintIssue[] = [];
+  const stack: { char: string; offset: number }[] = [];
+
+  for (let i = 0; i < masked.length; i++) {
+    const char = masked[i];
+    if (BRACKET_PAIRS[char]) {
+      stack.push({ char, offset: i });
+      continue;
+    }
+    if (!CLOSING_BRACKETS.has(char)) continue;
+
+    const depth = stack.findLastIndex(open => BRACKET_PAIRS[open.char] === char);
+    if (depth < 0) {
+      issues.push(issueAt(source.range(i, i + 1), "unbalanced-bracket", "error", `Unmatched '${char}'.`,
+        [{ title: `Remove '${char}'`, edits: [{ range: source.range(i, i + 1), text: "" }] }]));
+      continue;
+    }
+    // Anything opened after the matching bracket was never closed
+    for (const open of stack.splice(depth).slice(1)) {
+      const at = source.position(i);
+      issues.push(issueAt(source.range(open.offset, open.offset + 1), "unbalanced-bracket", "error",
+        `'${open.char}' is not closed before the '${char}' at ${at.line}:${at.column}.`));
+    }
+  }
+
+  for (const open of stack) {
+    const closer = BRACKET_PAIRS[open.char];
+    const end = source.range(masked.length, masked.length);
+    const fixes = open.char === "{" ? [{ title: "Insert the missing '}' at the end", edits: [{ range: end, text: "\n}" }] }] : [];
+    issues.push(issueAt(source.range(open.offset, open.offset + 1), "unbalanced-bracket", "error", `'${open.char}' is never closed with '${closer}'.`, fixes));
+  }
+  return issues;
+}
+
+// Catches the mistakes that would otherwise cost a round trip to the renderer
+export function lintMsl(code: string): LintIssue[] {
+  const source = new SourceText(code);
+  const masked = maskSource(code);
+  const functions = findStageFunctions(masked);
+
+  return [
+    ...checkPreamble(source, masked),
+    ...checkEntryPoints(source, masked, functions),
+    ...checkBuffers(source, masked, functions),
+    ...checkBrackets(source, masked),
+  ].sort((a, b) => a.line - b.line || a.column - b.column);
+}
+
+export function hasBlockingIssues(issues: LintIssue[]): boolean {
+  return issues.some(issue => issue.severity === "error");
+}
+
+// Shaped like compiler output so the Problems panel lists both together
+export function lintDiagnostics(issues: LintIssue[], file = LINT_SOURCE): MetalDiagnostic[] {
+  return issues.map(issue => ({
+    file,
+    line: issue.line,
+    column: issue.column,
+    severity: issue.severity,
+    message: issue.message,
+    notes: [],
+  }));
+}
+
+export function toLintMarkers(monaco: Monaco, issues: LintIssue[]): editor.IMarkerData[] {
+  return issues.map(issue => ({
+    severity: issue.severity === "error" ? monaco.MarkerSeverity.Error : monaco.MarkerSeverity.Warning,
+    message: issue.message,
+    source: LINT_SOURCE,
+    code: issue.code,
+    startLineNumber: issue.line,
+    startColumn: issue.column,
+    endLineNumber: issue.endLine,
+    // Zero-width issues still get a visible squiggle
+    endColumn: issue.endLine === issue.line && issue.endColumn <= issue.column ? issue.column + 1 : issue.endColumn,
+  }));
+}
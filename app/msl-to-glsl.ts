@@ -0,0 +1,321 @@
+import { lineOf, rewriteCalls, type TranslationIssue, type TranslationResult } from "./glsl-import";
+import { MOUSE_STATE_BUFFER_INDEX, RESOLUTION_BUFFER_INDEX } from "./shader-inputs";
+import { PARAMS_BUFFER_INDEX, PARAMS_STRUCT_NAME } from "./shader-params";
+
+// Translates the subset of MSL a single-pass playground shader uses into GLSL ES 3.00, so it can be
+// previewed with WebGL when no Metal renderer is reachable. fragment_main keeps its parameter names:
+// each one is bound to a uniform at the top of its body. Lines keep their numbers, so compiler errors
+// from the GLSL line up with the MSL the user wrote.
+
+export const GLSL_TIME_UNIFORM = "u_time";
+export const GLSL_MOUSE_UNIFORM = "u_mouse";
+export const GLSL_RESOLUTION_UNIFORM = "u_resolution";
+export const GLSL_PARAMS_UNIFORM = "u_params";
+
+// Draws the same two triangles as the vertex_main of every example, with uv from the bottom-left
+export const GLSL_VERTEX_SHADER = `#version 300 es
+out vec2 v_uv;
+void main() {
+    vec2 positions[6] = vec2[6](vec2(-1, -1), vec2(1, -1), vec2(-1, 1), vec2(-1, 1), vec2(1, -1), vec2(1, 1));
+    vec2 position = positions[gl_VertexID];
+    v_uv = position * 0.5 + 0.5;
+    gl_Position = vec4(position, 0.0, 1.0);
+}`;
+
+// Everything before the user's first line; #line puts line 1 back at the start of their code
+const FRAGMENT_HEADER = `#version 300 es
+precision highp float;
+precision highp int;
+uniform float ${GLSL_TIME_UNIFORM};
+uniform vec2 ${GLSL_MOUSE_UNIFORM};
+uniform vec2 ${GLSL_RESOLUTION_UNIFORM};
+in vec2 v_uv;
+out vec4 playground_fragColor;
+struct VertexOut { vec4 position; vec2 uv; };
+#line 1
+`;
+
+const FRAGMENT_MAIN = "\nvoid main() {\n    playground_fragColor = fragment_main();\n}\n";
+
+const TYPE_MAP: Record<string, string> = {
+  float2: "vec2", float3: "vec3", float4: "vec4",
+  half2: "vec2", half3: "vec3", half4: "vec4",
+  int2: "ivec2", int3: "ivec3", int4: "ivec4",
+  uint2: "uvec2", uint3: "uvec3", uint4: "uvec4",
+  bool2: "bvec2", bool3: "bvec3", bool4: "bvec4",
+  float2x2: "mat2", float3x3: "mat3", float4x4: "mat4",
+  float2x3: "mat2x3", float2x4: "mat2x4", float3x2: "mat3x2",
+  float3x4: "mat3x4", float4x2: "mat4x2", float4x3: "mat4x3",
+  half: "float", uchar: "uint", ushort: "uint", char: "int", short: "int",
+};
+
+const FUNCTION_MAP: Record<string, string> = {
+  rsqrt: "inversesqrt",
+  dfdx: "dFdx",
+  dfdy: "dFdy",
+  atan2: "atan",
+  fmin: "min",
+  fmax: "max",
+  select: "mix",
+};
+
+// GLSL keywords and reserved words that are ordinary identifiers in MSL; `in` is the usual stage_in name
+const GLSL_RESERVED = [
+  "in", "out", "inout", "input", "output", "buffer", "shared", "attribute", "varying",
+  "filter", "sample", "common", "partition", "active", "resource", "patch", "subroutine", "coherent",
+  "volatile", "restrict", "readonly", "writeonly", "smooth", "flat", "centroid", "invariant",
+  "precision", "lowp", "mediump", "highp", "superp", "fixed", "external", "interface", "long",
+  "double", "unsigned", "goto", "cast", "namespace", "using", "noinline", "sizeof",
+];
+
+// Reported once per shader, at their first use
+const UNSUPPORTED: { pattern: RegExp; construct: string; message: string }[] = [
+  {
+    pattern: /\b(texture2d|texture3d|texturecube|texture2d_array|depth2d)\s*</,
+    construct: "texture",
+    message: "Textures and buffer passes are not available in the WebGL preview; connect to the Metal renderer to sample them.",
+  },
+  { pattern: /\bsampler\b/, construct: "sampler", message: "Samplers are not available in the WebGL preview." },
+  { pattern: /\bdevice\b/, construct: "device", message: "Device memory has no GLSL equivalent; use constant or thread values." },
+  { pattern: /\b(threadgroup|kernel|atomic_\w+|simdgroup\w*|simd_\w+)\b/, construct: "compute", message: "Compute features are not available in a fragment shader preview." },
+  { pattern: /\btemplate\s*</, construct: "template", message: "Templates have no GLSL equivalent; write out each overload instead." },
+  { pattern: /\bas_type\s*</, construct: "as_type", message: "Bit casts are not translated; use floatBitsToUint-style helpers in the Metal renderer only." },
+  { pattern: /\bstatic_cast\s*</, construct: "static_cast", message: "static_cast is not translated; use a constructor such as float(x)." },
+];
+
+// The WebGL preview binds these buffers of the Metal contract
+const SUPPORTED_BUFFERS = [0, 1, PARAMS_BUFFER_INDEX, MOUSE_STATE_BUFFER_INDEX, RESOLUTION_BUFFER_INDEX];
+
+function blank(text: string): string {
+  return text.replace(/[^\n]/g, " ");
+}
+
+// Comments are blanked rather than removed, keeping every line and column in place
+function stripComments(source: string): string {
+  return source.replace(/\/\*[\s\S]*?\*\/|\/\/[^\n]*/g, blank);
+}
+
+interface TopLevelBlock {
+  // Where the declaration starts, past any directives in front of it
+  start: number;
+  open: number;
+  // Just past the closing brace, and past the semicolon of a struct
+  end: number;
+  header: string;
+}
+
+function topLevelBlocks(source: string): TopLevelBlock[] {
+  const blocks: TopLevelBlock[] = [];
+  let depth = 0;
+  let declarationStart = 0;
+  let open = 0;
+
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+    if (char === "{") {
+      if (depth === 0) open = i;
+      depth++;
+    } else if (char === "}" && depth > 0) {
+      depth--;
+      if (depth > 0) continue;
+      let start = declarationStart;
+      const directives = /^(\s*#[^\n]*\n)*\s*/.exec(source.slice(start, open));
+      if (directives) start += directives[0].length;
+      const header = source.slice(start, open);
+      const semicolon = /^\s*;/.exec(source.slice(i + 1));
+      const end = i + 1 + (semicolon && /^\s*struct\b/.test(header) ? semicolon[0].length : 0);
+      blocks.push({ start, open, end, header });
+      declarationStart = end;
+    } else if (char === ";" && depth === 0) {
+      declarationStart = i + 1;
+    }
+  }
+
+  return blocks;
+}
+
+// The first call-like name, before any [[buffer(n)]] attributes in the parameter list
+function functionName(header: string): string {
+  return /\b([A-Za-z_]\w*)\s*\(/.exec(header)?.[1] ?? "";
+}
+
+// Splits on top-level commas, keeping each parameter's offset into the list
+function splitParameters(list: string): { text: string; offset: number }[] {
+  const parameters: { text: string; offset: number }[] = [];
+  let depth = 0;
+  let start = 0;
+  for (let i = 0; i <= list.length; i++) {
+    const char = list[i];
+    if (char === "(" || char === "<" || char === "[") depth++;
+    else if (char === ")" || char === ">" || char === "]") depth--;
+    else if ((char === "," && depth === 0) || i === list.length) {
+      if (list.slice(start, i).trim()) parameters.push({ text: list.slice(start, i), offset: start });
+      start = i + 1;
+    }
+  }
+  return parameters;
+}
+
+// C-style brace initializers become constructors: `float2 p[2] = {a, b}` turns into `float2 p[2] = float2[2](a, b)`
+function rewriteInitializers(source: string): string {
+  const pattern = /\b([A-Za-z_]\w*)\s+[A-Za-z_]\w*\s*(\[\s*\w*\s*\])?\s*=\s*\{/g;
+  let result = "";
+  let cursor = 0;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(source))) {
+    if (["return", "else"].includes(match[1])) continue;
+    let depth = 1;
+    let i = match.index + match[0].length;
+    for (; i < source.length && depth > 0; i++) {
+      if (source[i] === "{") depth++;
+      else if (source[i] === "}") depth--;
+    }
+    if (depth !== 0) break;
+    const body = rewriteInitializers(source.slice(match.index + match[0].length, i - 1)).replace(/\{/g, "(").replace(/\}/g, ")");
+    const constructor = match[2] ? `${match[1]}${match[2].replace(/\s/g, "")}` : match[1];
+    result += `${source.slice(cursor, match.index + match[0].length - 1)}${constructor}(${body})`;
+    cursor = i;
+    pattern.lastIndex = i;
+  }
+
+  return result + source.slice(cursor);
+}
+
+export function translateMslToGlsl(msl: string): TranslationResult & { usesParams: boolean } {
+  const issues: TranslationIssue[] = [];
+  const report = (line: number, construct: string, message: string, severity: TranslationIssue["severity"] = "error") => {
+    issues.push({ line, construct, message, severity });
+  };
+
+  let source = stripComments(msl);
+
+  const reported = new Set<string>();
+  let usesHalf = false;
+  source = source.split("\n").map((text, index) => {
+    const line = index + 1;
+    for (const { pattern, construct, message } of UNSUPPORTED) {
+      if (!reported.has(construct) && pattern.test(text)) {
+        reported.add(construct);
+        report(line, construct, message);
+      }
+    }
+    if (/\bhalf\d?\b/.test(text)) usesHalf = true;
+
+    const include = /^\s*#\s*include\s*([<"])([^>"]*)[>"]/.exec(text);
+    if (include) {
+      if (include[1] === "\"" || !["metal_stdlib", "simd/simd.h"].includes(include[2])) {
+        report(line, "#include", `${include[2]} cannot be included in the WebGL preview.`);
+      }
+      return blank(text);
+    }
+    if (/^\s*#\s*pragma\b/.test(text)) return blank(text);
+    return text.replace(/\busing\s+namespace\s+metal\s*;/, blank);
+  }).join("\n");
+
+  if (usesHalf) report(1, "half", "half precision is computed as float in the WebGL preview.", "warning");
+
+  source = rewriteInitializers(source);
+
+  // Only fragment_main is rendered: the vertex stage is fixed, and the shared VertexOut is declared above line 1
+  let usesParams = false;
+  let foundMain = false;
+  let translated = "";
+  let cursor = 0;
+  for (const block of topLevelBlocks(source)) {
+    const { start, open, end, header } = block;
+    const name = functionName(header);
+    let replacement: string | null = null;
+
+    if (/^struct\s+VertexOut\b/.test(header.trim()) || /^vertex\b/.test(header.trim())) {
+      replacement = blank(source.slice(start, end));
+    } else if (/^fragment\b/.test(header.trim()) && name !== "fragment_main") {
+      report(lineOf(source, start), name, `Only fragment_main is rendered by the WebGL preview; ${name} is left out.`, "warning");
+      replacement = blank(source.slice(start, end));
+    } else if (/^fragment\b/.test(header.trim())) {
+      foundMain = true;
+      const returnType = /^fragment\s+(\w+)/.exec(header.trim())?.[1];
+      if (returnType !== "float4" && returnType !== "half4") {
+        report(lineOf(source, start), "fragment_main", "fragment_main has to return a float4 to be previewed with WebGL.");
+      }
+
+      const listStart = header.indexOf("(") + 1;
+      const listEnd = header.lastIndexOf(")");
+      const aliases: string[] = [];
+      for (const parameter of splitParameters(header.slice(listStart, listEnd))) {
+        const line = lineOf(source, start + listStart + parameter.offset + parameter.text.search(/\S/));
+        const attribute = /\[\[\s*(\w+)\s*(?:\(\s*(\d+)\s*\))?\s*\]\]/.exec(parameter.text);
+        const parameterName = /([A-Za-z_]\w*)\s*(\[\[|$)/.exec(parameter.text.trim())?.[1] ?? "";
+        const kind = attribute?.[1];
+        const index = Number(attribute?.[2]);
+
+        if (kind === "stage_in") {
+          aliases.push(`VertexOut ${parameterName} = VertexOut(vec4(gl_FragCoord.x, ${GLSL_RESOLUTION_UNIFORM}.y - gl_FragCoord.y, gl_FragCoord.zw), v_uv);`);
+        } else if (kind === "position") {
+          aliases.push(`vec4 ${parameterName} = vec4(gl_FragCoord.x, ${GLSL_RESOLUTION_UNIFORM}.y - gl_FragCoord.y, gl_FragCoord.zw);`);
+        } else if (kind === "buffer" && index === 0) {
+          aliases.push(`float ${parameterName} = ${GLSL_TIME_UNIFORM};`);
+        } else if (kind === "buffer" && index === 1) {
+          aliases.push(`vec2 ${parameterName} = ${GLSL_MOUSE_UNIFORM};`);
+        } else if (kind === "buffer" && index === PARAMS_BUFFER_INDEX) {
+          usesParams = true;
+          aliases.push(`${PARAMS_STRUCT_NAME} ${parameterName} = ${GLSL_PARAMS_UNIFORM};`);
+        } else if (kind === "buffer" && index === MOUSE_STATE_BUFFER_INDEX) {
+          // The preview only tracks the pointer, so no button is ever held and nothing has been dragged
+          aliases.push(`MouseState ${parameterName} = MouseState(${GLSL_MOUSE_UNIFORM}, ${GLSL_MOUSE_UNIFORM}, vec2(0.0), vec2(0.0), 0u, 0u);`);
+        } else if (kind === "buffer" && index === RESOLUTION_BUFFER_INDEX) {
+          aliases.push(`vec2 ${parameterName} = ${GLSL_RESOLUTION_UNIFORM};`);
+        } else if (kind === "buffer") {
+          report(line, `buffer(${index})`, `buffer(${index}) is not supplied by the WebGL preview, which binds time, mouse, params, mouse state and resolution only (${SUPPORTED_BUFFERS.map(n => `buffer(${n})`).join(", ")}).`);
+        } else if (kind !== "texture" && kind !== "sampler") {
+          // Textures and samplers were reported above
+          report(line, "fragment_main", `Unsupported fragment_main parameter "${parameter.text.trim()}".`);
+        }
+      }
+
+      // The signature keeps its line count, and the bindings go on the line with the opening brace
+      const newlines = "\n".repeat((source.slice(start, open).match(/\n/g) ?? []).length);
+      const declaration = usesParams ? `uniform ${PARAMS_STRUCT_NAME} ${GLSL_PARAMS_UNIFORM}; ` : "";
+      replacement = `${declaration}vec4 fragment_main(${newlines}) { ${aliases.join(" ")}${source.slice(open + 1, end)}`;
+    }
+
+    if (replacement !== null) {
+      translated += source.slice(cursor, start) + replacement;
+      cursor = end;
+    }
+  }
+  source = translated + source.slice(cursor);
+
+  if (!foundMain) {
+    report(1, "fragment_main", "No `fragment float4 fragment_main(...)` function was found.");
+  }
+
+  for (const word of GLSL_RESERVED) {
+    source = source.replace(new RegExp(`\\b${word}\\b`, "g"), `${word}_`);
+  }
+
+  // Address spaces: references become inout or plain parameters, globals in constant become const
+  source = source.replace(/\bthread\s+([\w:]+)\s*&\s*(\w+)/g, "inout $1 $2");
+  source = source.replace(/\bconstant\s+([\w:]+)\s*&\s*(\w+)/g, "$1 $2");
+  source = source.replace(/\b(constant|constexpr)\b/g, "const");
+  source = source.replace(/\bconst\s+const\b/g, "const");
+  source = source.replace(/\b(inline|static|thread)\b\s*/g, "");
+  source = source.replace(/\b(metal|fast|precise)::/g, "");
+  source = source.replace(/\[\[[^\]]*\]\]/g, match => blank(match));
+
+  for (const [mslType, glslType] of Object.entries(TYPE_MAP)) {
+    source = source.replace(new RegExp(`\\b${mslType}\\b`, "g"), glslType);
+  }
+  for (const [mslName, glslName] of Object.entries(FUNCTION_MAP)) {
+    source = source.replace(new RegExp(`\\b${mslName}(?=\\s*\\()`, "g"), glslName);
+  }
+  source = source.replace(/\bdiscard_fragment\s*\(\s*\)/g, "discard");
+  source = rewriteCalls(source, "saturate", args => `clamp(${args[0]}, 0.0, 1.0)`);
+  source = rewriteCalls(source, "fmod", args => (args.length === 2 ? `((${args[0]}) - (${args[1]}) * trunc((${args[0]}) / (${args[1]})))` : null));
+
+  // GLSL has no f or h suffixes
+  source = source.replace(/(?<![\w.])(\d*\.\d+|\d+\.\d*|\d+)([eE][+-]?\d+)?[fFhH]\b/g, "$1$2");
+
+  issues.sort((a, b) => a.line - b.line);
+  return { code: `${FRAGMENT_HEADER}${source}${FRAGMENT_MAIN}`, issues, usesParams };
+}
@@ -1,9 +1,113 @@
 "use client";
 
-import { useState, useRef, useEffect, useCallback } from "react";
+import { useState, useRef, useEffect, useCallback, useMemo } from "react";
 import dynamic from "next/dynamic";
-import { Play, Square, Settings, AlertCircle } from "lucide-react";
+import { Activity, Play, Square, Settings, AlertCircle, FolderOpen, Share2, X, FileInput, History, Images, LayoutGrid } from "lucide-react";
+import type { BeforeMount, Monaco, OnMount } from "@monaco-editor/react";
+import type { editor } from "monaco-editor";
 import { SHADER_EXAMPLES, type ShaderExample } from "./shader-examples";
+import { DIAGNOSTICS_OWNER, parseMetalDiagnostics, toMonacoMarkers, type DiagnosticSeverity, type MetalDiagnostic } from "./metal-diagnostics";
+import ProblemsPanel from "./problems-panel";
+import { LINT_OWNER, hasBlockingIssues, lintDiagnostics, lintMsl, toLintMarkers, type LintIssue } from "./msl-lint";
+import { MSL_LANGUAGE_ID, registerMslLanguage } from "./msl-language";
+import {
+  PARAMS_BUFFER_INDEX,
+  encodeBase64,
+  packParams,
+  paramsDeclarations,
+  parseShaderParams,
+  resolveParamValues,
+  type ShaderParamValue,
+  type ShaderParamValues,
+} from "./shader-params";
+import ParameterPanel from "./parameter-panel";
+import {
+  createProject,
+  deleteProject,
+  duplicateProject,
+  forkExample,
+  getLastProjectId,
+  listProjects,
+  saveProject,
+  setLastProjectId,
+  shaderSources,
+  type ShaderProject,
+  type ShaderSource,
+} from "./project-store";
+import ProjectSidebar from "./project-sidebar";
+import GlslImportDialog from "./glsl-import-dialog";
+import {
+  capturePng,
+  createGifRecorder,
+  createWebmRecorder,
+  downloadBlob,
+  recordingFilename,
+  type FrameRecorder,
+  type RecordingMetadata,
+} from "./frame-recorder";
+import RecordingControls, { type ActiveRecording } from "./recording-controls";
+import TransportBar, { type PlaybackState } from "./transport-bar";
+import { CAPTURED_KEYS, inputDeclarations, shaderButton } from "./shader-inputs";
+import { injectDeclarations } from "./source-injection";
+import { RendererConnection, type ConnectionStatus } from "./renderer-connection";
+import { FramePipeline, type FrameTiming } from "./frame-pipeline";
+import { PerformanceSession, type PerformanceSummary } from "./performance-metrics";
+import PerformancePanel from "./performance-panel";
+import { LOCAL_TRANSPORT_KINDS } from "./renderer-transport";
+import { negotiateCapabilities, protocolMismatch, supportsFeature, type RendererCapabilities, type RendererMessage, type ServerMessage } from "./renderer-protocol";
+import { DEFAULT_ENDPOINT, describeEndpoint, loadEndpoint, saveEndpoint, type RendererEndpoint } from "./renderer-endpoint";
+import ConnectionStatusBadge from "./connection-status";
+import EndpointSettings from "./endpoint-settings";
+import { DEFAULT_RESOLUTION, letterbox, renderSize, type ResolutionSettings as Resolution, type Size } from "./render-resolution";
+import ResolutionSettings from "./resolution-settings";
+import EncodingSettings from "./encoding-settings";
+import { DEFAULT_FRAME_ENCODING, FRAME_ENCODING_LABELS, type FrameEncodingSettings } from "./frame-encoding";
+import { captureThumbnail, lastCompiling, recordSnapshot, snapshotForCompile, updateSnapshot, type HistorySnapshot } from "./edit-history";
+import HistoryPanel from "./history-panel";
+import SnapshotDiff from "./snapshot-diff";
+import {
+  CHANNEL_COUNT,
+  EMPTY_CHANNEL,
+  WebcamCapture,
+  builtinImage,
+  channelMessage,
+  loadImageFile,
+  type ChannelImage,
+  type TextureChannel,
+} from "./texture-channels";
+import ChannelsPanel, { type ChannelSourceChoice } from "./channels-panel";
+import {
+  BUFFER_NAMES,
+  newBufferPass,
+  passCode,
+  passPath,
+  pipelineMessage,
+  sortPasses,
+  type BufferName,
+  type BufferPass,
+  type PassName,
+} from "./shader-passes";
+import {
+  documentCode,
+  includeDiagnostics,
+  isValidFileName,
+  mapDiagnostics,
+  mapLintIssues,
+  newShaderFile,
+  renameIncludes,
+  resolveIncludes,
+  sameSources,
+  uniqueProblems,
+  withDocumentCode,
+  type ResolvedSource,
+  type ShaderFile,
+  type ShaderSources,
+} from "./shader-includes";
+import { LIBRARY_FILES, isLibraryPath } from "./shader-library";
+import EditorTabs from "./editor-tabs";
+import ExampleGallery from "./example-gallery";
+import { GALLERY_THUMBNAIL_DELAY, GALLERY_THUMBNAIL_WIDTH, loadExampleThumbnails, saveExampleThumbnail } from "./example-thumbnails";
+import { decodePermalink, encodePermalink, isPermalink, PermalinkError, type SharedState } from "./permalink";
 
 const MonacoEditor = dynamic(() => import("@monaco-editor/react"), {
   ssr: false,
@@ -14,185 +118,949 @@ const MonacoEditor = dynamic(() => import("@monaco-editor/react"), {
   ),
 });
 
-interface Stats {
-  fps: number;
-  frameTime: number;
-  frameCount: number;
-  bytesReceived: number;
-}
+// Frames the server may send before the client acknowledges one
+const MAX_IN_FLIGHT_FRAMES = 2;
+
+// Pings measure the round trip and keep the clock offset used for latency fresh
+const PING_INTERVAL_MS = 2000;
+
+const STATS_INTERVAL_MS = 250;
+
+// How often the running snapshot's thumbnail is refreshed from the canvas
+const THUMBNAIL_INTERVAL_MS = 1000;
 
 export default function MetalPlayground() {
+  // The image pass; buffer passes, when a shader has any, render before it
   const [shaderCode, setShaderCode] = useState(SHADER_EXAMPLES[0].code);
-  const [selectedExample, setSelectedExample] = useState<ShaderExample>(SHADER_EXAMPLES[0]);
+  const [bufferPasses, setBufferPasses] = useState<BufferPass[]>(SHADER_EXAMPLES[0].passes ?? []);
+  // Headers the passes include
+  const [shaderFiles, setShaderFiles] = useState<ShaderFile[]>(SHADER_EXAMPLES[0].files ?? []);
+  // Path of the document open in the editor: a pass, a project file or a library header
+  const [activeFile, setActiveFile] = useState(passPath("image"));
+  const [source, setSource] = useState<ShaderSource>({ kind: "example", example: SHADER_EXAMPLES[0] });
+  const [projects, setProjects] = useState<ShaderProject[]>([]);
+  const [showProjects, setShowProjects] = useState(false);
+  const [showImport, setShowImport] = useState(false);
+  const [showGallery, setShowGallery] = useState(false);
+  const [exampleThumbnails, setExampleThumbnails] = useState<Record<string, string>>({});
   const [isRunning, setIsRunning] = useState(false);
-  const [stats, setStats] = useState<Stats>({ fps: 0, frameTime: 0, frameCount: 0, bytesReceived: 0 });
+  const [stats, setStats] = useState<PerformanceSummary | null>(null);
+  const [showPerformance, setShowPerformance] = useState(false);
   const [targetFps, setTargetFps] = useState(60);
+  const [frameEncoding, setFrameEncoding] = useState<FrameEncodingSettings>(DEFAULT_FRAME_ENCODING);
   const [showSettings, setShowSettings] = useState(false);
   const [compileError, setCompileError] = useState<string | null>(null);
+  const [diagnostics, setDiagnostics] = useState<MetalDiagnostic[]>([]);
+  const [paramOverrides, setParamOverrides] = useState<ShaderParamValues>({});
+  const [notice, setNotice] = useState<{ tone: "error" | "info"; text: string } | null>(null);
+  const [recording, setRecording] = useState<ActiveRecording | null>(null);
+  const [playback, setPlayback] = useState<PlaybackState>({ paused: false, speed: 1, timeStep: null });
+  const [playbackTime, setPlaybackTime] = useState(0);
+  const [endpoint, setEndpoint] = useState<RendererEndpoint>(DEFAULT_ENDPOINT);
+  const [connectionStatus, setConnectionStatus] = useState<ConnectionStatus>("idle");
+  const [connectionDetail, setConnectionDetail] = useState<string | null>(null);
+  // What the connected renderer announced in its hello reply; null until then, and for renderers without one
+  const [capabilities, setCapabilities] = useState<RendererCapabilities | null>(null);
+  // Set when the renderer answered hello with a different protocol version
+  const [protocolWarning, setProtocolWarning] = useState<string | null>(null);
+  const [resolution, setResolution] = useState<Resolution>(DEFAULT_RESOLUTION);
+  const [viewport, setViewport] = useState<Size & { pixelRatio: number }>({ width: 800, height: 600, pixelRatio: 1 });
+  const [snapshots, setSnapshots] = useState<HistorySnapshot[]>([]);
+  const [showHistory, setShowHistory] = useState(false);
+  const [diffSnapshotId, setDiffSnapshotId] = useState<number | null>(null);
+  const [channels, setChannels] = useState<TextureChannel[]>(() => Array(CHANNEL_COUNT).fill(EMPTY_CHANNEL));
+  const [showChannels, setShowChannels] = useState(false);
   
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const canvasContainerRef = useRef<HTMLDivElement>(null);
-  const frameTimesRef = useRef<number[]>([]);
-  const runningRef = useRef(false);
-  const statsRef = useRef({ frameCount: 0, bytesReceived: 0 });
-  const wsRef = useRef<WebSocket | null>(null);
-
-  const handleWebSocketMessage = useCallback(async (event: MessageEvent) => {
-    if (typeof event.data === "string") {
-      try {
-        const json = JSON.parse(event.data);
-        if (json.error) {
-          setCompileError(json.error);
-        } else if (json.ok) {
-          setCompileError(null);
+  const sessionRef = useRef<PerformanceSession | null>(null);
+  // Send times of shader messages awaiting a compile result, by message id
+  const compileSentRef = useRef(new Map<number, number>());
+  // The resolved passes of each shader message, whose line maps point compiler output back at the files
+  const resolvedSentRef = useRef(new Map<number, Map<PassName, ResolvedSource>>());
+  const shaderIdRef = useRef(0);
+  const snapshotsRef = useRef<HistorySnapshot[]>([]);
+  // The snapshot whose code the renderer is currently drawing, and when its thumbnail was last taken
+  const renderingSnapshotRef = useRef<number | null>(null);
+  const thumbnailTakenAtRef = useRef(0);
+  const channelsRef = useRef(channels);
+  // Base64 image of each channel, kept out of state because webcam frames replace it many times a second
+  const channelDataRef = useRef<(string | null)[]>(Array(CHANNEL_COUNT).fill(null));
+  const webcamsRef = useRef<(WebcamCapture | null)[]>(Array(CHANNEL_COUNT).fill(null));
+  const connectionRef = useRef<RendererConnection | null>(null);
+  const pipelineRef = useRef<FramePipeline | null>(null);
+  const editorRef = useRef<editor.IStandaloneCodeEditor | null>(null);
+  const monacoRef = useRef<Monaco | null>(null);
+  // A problem in another document is revealed once its tab's model is in the editor
+  const pendingRevealRef = useRef<MetalDiagnostic | null>(null);
+  // Set while a history restore edits the editor, whose change event would otherwise apply a partial source
+  const restoringRef = useRef(false);
+  const recorderRef = useRef<FrameRecorder | null>(null);
+  const recordingMetaRef = useRef<RecordingMetadata | null>(null);
+
+  // Parameters are declared in the image pass; every pass can read them at buffer(2)
+  const { params, errors: paramErrors } = useMemo(() => parseShaderParams(shaderCode), [shaderCode]);
+  const paramValues = useMemo(() => resolveParamValues(params, paramOverrides), [params, paramOverrides]);
+  const packedParams = useMemo(() => encodeBase64(packParams(params, paramValues)), [params, paramValues]);
+  const sizeLimit = useMemo(() => (capabilities ? { width: capabilities.maxWidth, height: capabilities.maxHeight } : null), [capabilities]);
+  const frameSize = useMemo(() => renderSize(resolution, viewport, viewport.pixelRatio, sizeLimit), [resolution, viewport, sizeLimit]);
+  const displaySize = useMemo(() => letterbox(frameSize, viewport), [frameSize, viewport]);
+  const sources = useMemo<ShaderSources>(
+    () => ({ code: shaderCode, passes: bufferPasses, files: shaderFiles }),
+    [shaderCode, bufferPasses, shaderFiles],
+  );
+  // Each pass with its includes inlined, image first and then the buffers in bufferPasses order
+  const resolvedPasses = useMemo(
+    () => (["image", ...bufferPasses.map(pass => pass.name)] as PassName[]).map(name => ({
+      name,
+      resolved: resolveIncludes(passPath(name), passCode(shaderCode, bufferPasses, name), shaderFiles),
+    })),
+    [shaderCode, bufferPasses, shaderFiles],
+  );
+  const compiledSource = useMemo(() => {
+    const code = resolvedPasses[0].resolved.code;
+    return injectDeclarations(code, [...paramsDeclarations(params), ...inputDeclarations(code)]);
+  }, [resolvedPasses, params]);
+  const compiledPasses = useMemo(
+    () => bufferPasses.map((pass, index) => {
+      const code = resolvedPasses[index + 1].resolved.code;
+      return { ...pass, code: injectDeclarations(code, [...paramsDeclarations(params), ...inputDeclarations(code)]) };
+    }),
+    [bufferPasses, resolvedPasses, params],
+  );
+  const activeCode = documentCode(sources, activeFile) ?? "";
+  const documentPaths = useMemo(
+    () => [
+      passPath("image"),
+      ...bufferPasses.map(pass => passPath(pass.name)),
+      ...shaderFiles.map(file => file.name),
+      ...LIBRARY_FILES.map(file => file.name),
+    ],
+    [bufferPasses, shaderFiles],
+  );
+  // Passes are linted with their includes, and each issue is reported in the document it is in
+  const documentLint = useMemo(() => {
+    const issues = uniqueProblems(resolvedPasses.flatMap(({ resolved }) => mapLintIssues(lintMsl(resolved.code), resolved)));
+    const byDocument = new Map<string, LintIssue[]>();
+    issues.forEach(issue => byDocument.set(issue.file, [...(byDocument.get(issue.file) ?? []), issue]));
+    return byDocument;
+  }, [resolvedPasses]);
+  // Missing includes, then what the compiler reported for the last source sent
+  const documentDiagnostics = useMemo(
+    () => [...uniqueProblems(includeDiagnostics(resolvedPasses.flatMap(({ resolved }) => resolved.errors))), ...diagnostics],
+    [resolvedPasses, diagnostics],
+  );
+  // Sources the pre-flight check already knows will fail are not sent to the renderer
+  const lintBlocked = resolvedPasses.some(({ resolved }) => resolved.errors.length > 0) || [...documentLint.values()].some(hasBlockingIssues);
+  const problems = useMemo(
+    () => [...[...documentLint].flatMap(([file, issues]) => lintDiagnostics(issues, file)), ...documentDiagnostics],
+    [documentLint, documentDiagnostics],
+  );
+  const failingDocuments = useMemo(
+    () => [...new Set(problems.filter(problem => problem.severity === "error").map(problem => problem.file))],
+    [problems],
+  );
+
+  const finishRecording = useCallback(async () => {
+    const recorder = recorderRef.current;
+    const meta = recordingMetaRef.current;
+    recorderRef.current = null;
+    setRecording(null);
+    if (!recorder || !meta) return;
+
+    try {
+      downloadBlob(await recorder.stop(), recordingFilename(meta, recorder.kind));
+    } catch (error) {
+      console.error("Recording error:", error);
+    }
+  }, []);
+
+  const handleServerMessage = useCallback((message: ServerMessage) => {
+    switch (message.type) {
+      case "hello":
+        setCapabilities(negotiateCapabilities(message));
+        setProtocolWarning(protocolMismatch(message));
+        return;
+      case "clock":
+        setPlaybackTime(message.time);
+        return;
+      case "pong": {
+        const roundTrip = pipelineRef.current?.handlePong(message.pong, message.serverTime);
+        if (roundTrip !== undefined) sessionRef.current?.recordPing(roundTrip);
+        return;
+      }
+      case "channelError":
+        setNotice({ tone: "error", text: message.error });
+        return;
+      case "error":
+        setNotice({ tone: "error", text: `The renderer rejected ${message.request ? `a ${message.request} message` : "a message"}: ${message.error}` });
+        return;
+    }
+
+    if (typeof message.id === "number") {
+      const sentAt = compileSentRef.current.get(message.id);
+      compileSentRef.current.delete(message.id);
+      // Replays after a reconnect resend the newest message with its id, so only older ones are forgotten
+      for (const id of resolvedSentRef.current.keys()) {
+        if (id < message.id) resolvedSentRef.current.delete(id);
+      }
+      if (sentAt !== undefined) sessionRef.current?.recordCompile(performance.now() - sentAt, !message.error);
+
+      const snapshot = snapshotForCompile(snapshotsRef.current, message.id);
+      if (snapshot) {
+        setSnapshots(prev => updateSnapshot(prev, snapshot.id, { status: message.error ? "error" : "ok" }));
+        // A failed compile leaves the previous pipeline running, so thumbnails keep going to its snapshot
+        if (!message.error) {
+          renderingSnapshotRef.current = snapshot.id;
+          thumbnailTakenAtRef.current = 0;
         }
-      } catch {
-        // Ignore parse errors
       }
-      return;
     }
-    
+
+    const resolved = typeof message.id === "number" ? resolvedSentRef.current.get(message.id) : undefined;
+    const compilerDiagnostics = (pass: PassName, output: string, severity?: DiagnosticSeverity) => {
+      const parsed = parseMetalDiagnostics(output, severity);
+      const source = resolved?.get(pass);
+      return source ? mapDiagnostics(parsed, source) : parsed.map(diagnostic => ({ ...diagnostic, file: passPath(pass) }));
+    };
+
+    if (message.error) {
+      setCompileError(message.error);
+      setDiagnostics(compilerDiagnostics(message.pass ?? "image", message.error));
+    } else if (message.ok) {
+      setCompileError(null);
+      if (message.passWarnings) {
+        setDiagnostics(Object.entries(message.passWarnings).flatMap(([pass, warnings]) =>
+          compilerDiagnostics(pass as PassName, warnings ?? "", "warning")));
+      } else {
+        setDiagnostics(message.warnings ? compilerDiagnostics("image", message.warnings, "warning") : []);
+      }
+    }
+  }, []);
+
+  const drawFrame = useCallback((bitmap: ImageBitmap, timing: FrameTiming) => {
     const canvas = canvasRef.current;
     if (!canvas) return;
     
     const ctx = canvas.getContext("2d");
     if (!ctx) return;
     
-    try {
-      const blob = event.data as Blob;
-      const bitmap = await createImageBitmap(blob);
-      
-      if (canvas.width !== bitmap.width || canvas.height !== bitmap.height) {
-        canvas.width = bitmap.width;
-        canvas.height = bitmap.height;
-      }
-      
-      ctx.drawImage(bitmap, 0, 0);
-      bitmap.close();
-      
-      const now = performance.now();
-      frameTimesRef.current.push(now);
-      frameTimesRef.current = frameTimesRef.current.filter(t => now - t < 1000);
-      
-      statsRef.current.frameCount++;
-      statsRef.current.bytesReceived += blob.size;
-      
-      const fps = frameTimesRef.current.length;
-      const frameInterval = fps > 0 ? Math.round(1000 / fps * 10) / 10 : 0;
-      
-      if (now - (statsRef.current as { lastUpdate?: number }).lastUpdate! > 100 || !(statsRef.current as { lastUpdate?: number }).lastUpdate) {
-        (statsRef.current as { lastUpdate?: number }).lastUpdate = now;
-        setStats({
-          fps,
-          frameTime: frameInterval,
-          frameCount: statsRef.current.frameCount,
-          bytesReceived: statsRef.current.bytesReceived,
-        });
-      }
-    } catch (error) {
-      console.error("Frame decode error:", error);
+    if (canvas.width !== bitmap.width || canvas.height !== bitmap.height) {
+      canvas.width = bitmap.width;
+      canvas.height = bitmap.height;
+    }
+    
+    ctx.drawImage(bitmap, 0, 0);
+
+    const now = performance.now();
+    const renderingSnapshot = renderingSnapshotRef.current;
+    if (renderingSnapshot !== null && now - thumbnailTakenAtRef.current >= THUMBNAIL_INTERVAL_MS) {
+      thumbnailTakenAtRef.current = now;
+      const thumbnail = captureThumbnail(canvas);
+      if (thumbnail) setSnapshots(prev => updateSnapshot(prev, renderingSnapshot, { thumbnail }));
     }
+    
+    const recorder = recorderRef.current;
+    if (recorder && !recorder.addFrame(bitmap, performance.now())) {
+      finishRecording();
+    }
+    
+    sessionRef.current?.recordFrame(timing.decodeMs, timing.latency);
+  }, [finishRecording]);
+
+  // Shader messages carry an id the server echoes back, which times each compile and tags its history snapshot.
+  // `source` and `compiled` are what the renderer compiles, `documents` the editor text they were generated from
+  // and `resolved` its passes with their includes inlined. A shader with buffers goes out as a pipeline message instead.
+  const shaderMessage = useCallback((
+    source: string,
+    compiled: BufferPass[],
+    documents: ShaderSources,
+    resolved: { name: PassName; resolved: ResolvedSource }[],
+  ): RendererMessage => {
+    const id = ++shaderIdRef.current;
+    compileSentRef.current.set(id, performance.now());
+    resolvedSentRef.current.set(id, new Map(resolved.map(pass => [pass.name, pass.resolved])));
+    setSnapshots(prev => recordSnapshot(prev, documents, id));
+    return documents.passes.length > 0 ? pipelineMessage(id, source, compiled) : { type: "shader", code: source, id };
   }, []);
 
-  const run = useCallback(async () => {
+  const run = useCallback(() => {
     setCompileError(null);
+    setDiagnostics([]);
 
-    const container = canvasContainerRef.current;
-    let width = 800;
-    let height = 600;
-    
-    if (container) {
-      width = container.clientWidth;
-      height = container.clientHeight;
-    }
+    connectionRef.current?.close();
+    sessionRef.current = new PerformanceSession();
+    compileSentRef.current.clear();
+    resolvedSentRef.current.clear();
+    renderingSnapshotRef.current = null;
 
-    const ws = new WebSocket(`ws://localhost:9000/ws`);
-    wsRef.current = ws;
-    
-    ws.onopen = () => {
-      runningRef.current = true;
-      statsRef.current = { frameCount: 0, bytesReceived: 0 };
-      frameTimesRef.current = [];
-      
-      ws.send(JSON.stringify({ type: "config", targetFps, width, height }));
-      ws.send(JSON.stringify({ type: "shader", code: shaderCode }));
-      
-      setIsRunning(true);
-    };
-    
-    ws.onmessage = handleWebSocketMessage;
-    
-    ws.onerror = () => {
-      setIsRunning(false);
-      runningRef.current = false;
-    };
-    
-    ws.onclose = () => {
-      if (runningRef.current) {
-        runningRef.current = false;
-      }
-      setIsRunning(false);
-    };
-  }, [shaderCode, targetFps, handleWebSocketMessage]);
+    const pipeline = new FramePipeline({
+      onDraw: (bitmap, _frame, timing) => drawFrame(bitmap, timing),
+      onAcknowledge: sequence => connection.acknowledge(sequence),
+    });
+    pipelineRef.current = pipeline;
+
+    const connection = new RendererConnection(endpoint, endpoint.transport, {
+      onStatus: (status, detail) => {
+        if (connectionRef.current !== connection) return;
+        setConnectionStatus(status);
+        setConnectionDetail(detail);
+        // A new transport may reach a different renderer, which announces itself again
+        if (status !== "connected") {
+          setCapabilities(null);
+          setProtocolWarning(null);
+        }
+        if (status === "connected") {
+          pipeline.reset();
+          setIsRunning(true);
+          if (endpoint.transport === "auto" && connection.transportKind === "webgl") {
+            setNotice({
+              tone: "info",
+              text: `No renderer reachable at ${describeEndpoint(endpoint)}, so shaders are previewed with WebGL. Textures, buffer passes and mouse or keyboard state need the Metal renderer.`,
+            });
+          }
+        } else if (status === "failed") {
+          finishRecording();
+          setIsRunning(false);
+          setNotice({ tone: "error", text: detail ?? "Could not connect to the renderer." });
+        }
+      },
+      onFrame: frame => {
+        sessionRef.current?.recordArrival(frame.data.size);
+        pipeline.push(frame);
+      },
+      onMessage: handleServerMessage,
+    });
+    connectionRef.current = connection;
+
+    // Queued until the socket opens, and replayed after every reconnect
+    connection.send({
+      type: "config",
+      targetFps,
+      width: frameSize.width,
+      height: frameSize.height,
+      timeStep: playback.timeStep,
+      maxInFlight: MAX_IN_FLIGHT_FRAMES,
+      format: frameEncoding.format,
+      quality: frameEncoding.quality,
+    });
+    connection.send({ type: "playback", paused: playback.paused, speed: playback.speed });
+    // Empty channels are sent too, which clears images a previous session left on the server
+    channels.forEach((channel, index) => connection.send(channelMessage(index, channel, channelDataRef.current[index])));
+    if (!lintBlocked) connection.send(shaderMessage(compiledSource, compiledPasses, sources, resolvedPasses));
+    connection.connect();
+  }, [endpoint, frameSize, compiledSource, compiledPasses, sources, resolvedPasses, lintBlocked, channels, targetFps, frameEncoding, playback, drawFrame, shaderMessage, handleServerMessage, finishRecording]);
 
   const stop = useCallback(() => {
-    runningRef.current = false;
-    if (wsRef.current) {
-      wsRef.current.close();
-      wsRef.current = null;
-    }
+    finishRecording();
+    const connection = connectionRef.current;
+    connectionRef.current = null;
+    connection?.close();
+    pipelineRef.current = null;
+    renderingSnapshotRef.current = null;
+    setConnectionStatus("idle");
+    setConnectionDetail(null);
+    setCapabilities(null);
+    setProtocolWarning(null);
     setIsRunning(false);
-    setStats({ fps: 0, frameTime: 0, frameCount: 0, bytesReceived: 0 });
-    frameTimesRef.current = [];
+    setStats(null);
+  }, [finishRecording]);
+
+  useEffect(() => {
+    snapshotsRef.current = snapshots;
+  }, [snapshots]);
+
+  useEffect(() => {
+    channelsRef.current = channels;
+  }, [channels]);
+
+  useEffect(() => {
+    const webcams = webcamsRef.current;
+    return () => webcams.forEach(webcam => webcam?.stop());
   }, []);
 
-  const handleMouseMove = useCallback((e: React.MouseEvent<HTMLCanvasElement>) => {
-    const canvas = canvasRef.current;
-    const ws = wsRef.current;
-    if (!canvas || !ws || ws.readyState !== WebSocket.OPEN) return;
-    
-    const rect = canvas.getBoundingClientRect();
-    const x = ((e.clientX - rect.left) / rect.width) * canvas.width;
-    const y = ((e.clientY - rect.top) / rect.height) * canvas.height;
-    
-    ws.send(JSON.stringify({ type: "mousemove", x, y }));
+  const sendMessage = useCallback((message: RendererMessage) => {
+    connectionRef.current?.send(message);
   }, []);
 
-  const handleClick = useCallback((e: React.MouseEvent<HTMLCanvasElement>) => {
-    const canvas = canvasRef.current;
-    const ws = wsRef.current;
-    if (!canvas || !ws || ws.readyState !== WebSocket.OPEN) return;
-    
-    const rect = canvas.getBoundingClientRect();
-    const x = ((e.clientX - rect.left) / rect.width) * canvas.width;
-    const y = ((e.clientY - rect.top) / rect.height) * canvas.height;
-    
-    ws.send(JSON.stringify({ type: "click", x, y }));
+  const handleEndpointChange = useCallback((next: RendererEndpoint) => {
+    setEndpoint(next);
+    saveEndpoint(next);
+  }, []);
+
+  useEffect(() => {
+    setEndpoint(loadEndpoint());
+    setExampleThumbnails(loadExampleThumbnails(SHADER_EXAMPLES));
+  }, []);
+
+  useEffect(() => {
+    const container = canvasContainerRef.current;
+    if (!container) return;
+
+    const observer = new ResizeObserver(([entry]) => {
+      const { width, height } = entry.contentRect;
+      if (width > 0 && height > 0) setViewport({ width, height, pixelRatio: window.devicePixelRatio || 1 });
+    });
+    observer.observe(container);
+    return () => observer.disconnect();
   }, []);
 
+  // Resizing a panel reports many sizes in a row; only the one it settles on is sent
   useEffect(() => {
     if (!isRunning) return;
-    const ws = wsRef.current;
-    if (!ws || ws.readyState !== WebSocket.OPEN) return;
+    const timer = setTimeout(() => {
+      sendMessage({ type: "config", width: frameSize.width, height: frameSize.height });
+    }, 250);
+    return () => clearTimeout(timer);
+  }, [frameSize.width, frameSize.height, isRunning, sendMessage]);
+
+  // Pointer position in canvas pixels, which is what the server normalizes against
+  const canvasPoint = useCallback((e: React.MouseEvent<HTMLCanvasElement>) => {
+    const canvas = e.currentTarget;
+    const rect = canvas.getBoundingClientRect();
+    return {
+      x: ((e.clientX - rect.left) / rect.width) * canvas.width,
+      y: ((e.clientY - rect.top) / rect.height) * canvas.height,
+    };
+  }, []);
+
+  const handlePointerMove = useCallback((e: React.PointerEvent<HTMLCanvasElement>) => {
+    sendMessage({ type: "mousemove", ...canvasPoint(e) });
+  }, [sendMessage, canvasPoint]);
+
+  const handlePointerDown = useCallback((e: React.PointerEvent<HTMLCanvasElement>) => {
+    const button = shaderButton(e.button);
+    if (button === null) return;
+    e.currentTarget.focus();
+    // Keep receiving moves and the matching pointerup when a drag leaves the canvas
+    e.currentTarget.setPointerCapture(e.pointerId);
+    sendMessage({ type: "mousedown", button, ...canvasPoint(e) });
+  }, [sendMessage, canvasPoint]);
+
+  const handlePointerUp = useCallback((e: React.PointerEvent<HTMLCanvasElement>) => {
+    const button = shaderButton(e.button);
+    if (button === null) return;
+    sendMessage({ type: "mouseup", button, ...canvasPoint(e) });
+  }, [sendMessage, canvasPoint]);
+
+  const handleWheel = useCallback((e: React.WheelEvent<HTMLCanvasElement>) => {
+    // Normalize pixel and page deltas to lines so trackpads and wheels scroll at similar rates
+    const scale = e.deltaMode === 1 ? 1 : e.deltaMode === 2 ? 20 : 1 / 40;
+    sendMessage({ type: "wheel", deltaX: e.deltaX * scale, deltaY: -e.deltaY * scale });
+  }, [sendMessage]);
+
+  const handleKey = useCallback((e: React.KeyboardEvent<HTMLCanvasElement>) => {
+    if (e.metaKey || e.ctrlKey) return;
+    if (!supportsFeature(capabilities, "keyboard")) return;
+    if (CAPTURED_KEYS.has(e.key)) e.preventDefault();
+    sendMessage({ type: e.type === "keydown" ? "keydown" : "keyup", code: e.code, key: e.key });
+  }, [sendMessage, capabilities]);
+
+  useEffect(() => {
+    if (!isRunning || lintBlocked) return;
     
     const timer = setTimeout(() => {
-      ws.send(JSON.stringify({ type: "shader", code: shaderCode }));
+      sendMessage(shaderMessage(compiledSource, compiledPasses, sources, resolvedPasses));
     }, 500);
     
     return () => clearTimeout(timer);
-  }, [shaderCode, isRunning]);
+  }, [compiledSource, compiledPasses, sources, resolvedPasses, lintBlocked, isRunning, sendMessage, shaderMessage]);
 
   useEffect(() => {
     if (!isRunning) return;
-    const ws = wsRef.current;
-    if (!ws || ws.readyState !== WebSocket.OPEN) return;
-    
-    ws.send(JSON.stringify({ type: "config", targetFps }));
-  }, [targetFps, isRunning]);
+    sendMessage({ type: "params", index: PARAMS_BUFFER_INDEX, data: packedParams });
+  }, [packedParams, isRunning, sendMessage]);
+
+  useEffect(() => {
+    if (!isRunning) return;
+    sendMessage({ type: "config", targetFps });
+  }, [targetFps, isRunning, sendMessage]);
+
+  useEffect(() => {
+    if (!isRunning) return;
+    sendMessage({ type: "config", format: frameEncoding.format, quality: frameEncoding.quality });
+  }, [frameEncoding, isRunning, sendMessage]);
+
+  useEffect(() => {
+    if (!isRunning) return;
+    const timer = setInterval(() => {
+      const session = sessionRef.current;
+      if (session) setStats(session.summary(pipelineRef.current?.dropped ?? 0));
+    }, STATS_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [isRunning]);
+
+  useEffect(() => {
+    if (!isRunning) return;
+    const ping = () => sendMessage({ type: "ping", sent: performance.now() });
+    ping();
+    const timer = setInterval(ping, PING_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [isRunning, sendMessage]);
+
+  useEffect(() => {
+    if (!isRunning) return;
+    sendMessage({ type: "playback", paused: playback.paused, speed: playback.speed });
+  }, [playback.paused, playback.speed, isRunning, sendMessage]);
+
+  useEffect(() => {
+    if (!isRunning) return;
+    sendMessage({ type: "config", timeStep: playback.timeStep });
+  }, [playback.timeStep, isRunning, sendMessage]);
+
+  const updateChannel = useCallback((index: number, changes: Partial<TextureChannel>) => {
+    setChannels(prev => prev.map((channel, i) => (i === index ? { ...channel, ...changes } : channel)));
+  }, []);
+
+  const stopWebcam = useCallback((index: number) => {
+    webcamsRef.current[index]?.stop();
+    webcamsRef.current[index] = null;
+  }, []);
+
+  const setChannelImage = useCallback((index: number, source: TextureChannel["source"], image: ChannelImage | null) => {
+    channelDataRef.current[index] = image?.data ?? null;
+    updateChannel(index, { source, preview: image?.preview ?? null });
+    sendMessage(channelMessage(index, channelsRef.current[index], image?.data ?? null));
+  }, [updateChannel, sendMessage]);
+
+  const handleChannelSource = useCallback(async (index: number, source: ChannelSourceChoice) => {
+    stopWebcam(index);
+    try {
+      if (source.kind === "builtin") {
+        setChannelImage(index, source, await builtinImage(source.texture));
+      } else if (source.kind === "webcam") {
+        const webcam = new WebcamCapture((data, preview) => {
+          channelDataRef.current[index] = data;
+          sendMessage(channelMessage(index, channelsRef.current[index], data));
+          if (preview) updateChannel(index, { preview });
+        });
+        webcamsRef.current[index] = webcam;
+        updateChannel(index, { source });
+        await webcam.start();
+      } else {
+        setChannelImage(index, source, null);
+      }
+    } catch (error) {
+      console.error("Texture channel error:", error);
+      stopWebcam(index);
+      setChannelImage(index, { kind: "empty" }, null);
+      setNotice({ tone: "error", text: source.kind === "webcam" ? "The webcam could not be opened." : "The channel image could not be created." });
+    }
+  }, [stopWebcam, setChannelImage, updateChannel, sendMessage]);
+
+  const handleChannelUpload = useCallback(async (index: number, file: File) => {
+    stopWebcam(index);
+    try {
+      setChannelImage(index, { kind: "upload", name: file.name }, await loadImageFile(file));
+    } catch (error) {
+      console.error("Texture channel error:", error);
+      setNotice({ tone: "error", text: `${file.name} could not be read as an image.` });
+    }
+  }, [stopWebcam, setChannelImage]);
+
+  const handleChannelSampler = useCallback((index: number, sampler: Pick<TextureChannel, "filter" | "wrap">) => {
+    updateChannel(index, sampler);
+    sendMessage(channelMessage(index, { ...channelsRef.current[index], ...sampler }));
+  }, [updateChannel, sendMessage]);
+
+  const handleSeek = useCallback((time: number) => {
+    setPlaybackTime(time);
+    sendMessage({ type: "time", time });
+  }, [sendMessage]);
+
+  const handleStep = useCallback(() => {
+    sendMessage({ type: "step", frames: 1 });
+  }, [sendMessage]);
+
+  // Each document has its own editor model, created the first time its tab is opened
+  const applyMarkers = useCallback((monaco: Monaco, paths: string[], diagnostics: MetalDiagnostic[], lint: Map<string, LintIssue[]>) => {
+    for (const path of paths) {
+      const model = monaco.editor.getModel(monaco.Uri.parse(path));
+      if (!model) continue;
+      monaco.editor.setModelMarkers(model, DIAGNOSTICS_OWNER, toMonacoMarkers(monaco, model, diagnostics.filter(diagnostic => diagnostic.file === path)));
+      monaco.editor.setModelMarkers(model, LINT_OWNER, toLintMarkers(monaco, lint.get(path) ?? []));
+    }
+  }, []);
+
+  useEffect(() => {
+    if (monacoRef.current) applyMarkers(monacoRef.current, documentPaths, documentDiagnostics, documentLint);
+  }, [documentPaths, documentDiagnostics, documentLint, activeFile, applyMarkers]);
+
+  // Models of removed and renamed documents are dropped, so a later document of the same name starts from its own text
+  const documentPathsRef = useRef(documentPaths);
+  useEffect(() => {
+    const monaco = monacoRef.current;
+    const removed = documentPathsRef.current.filter(path => !documentPaths.includes(path));
+    documentPathsRef.current = documentPaths;
+    for (const path of removed) {
+      const model = monaco?.editor.getModel(monaco.Uri.parse(path));
+      if (model && model !== editorRef.current?.getModel()) model.dispose();
+    }
+  }, [documentPaths]);
+
+  const handleEditorBeforeMount: BeforeMount = (monaco) => {
+    registerMslLanguage(monaco);
+  };
+
+  const handleEditorMount: OnMount = (editorInstance, monaco) => {
+    editorRef.current = editorInstance;
+    monacoRef.current = monaco;
+    // The marker effect ran before the editor existed
+    applyMarkers(monaco, documentPaths, documentDiagnostics, documentLint);
+  };
+
+  const revealInEditor = useCallback((diagnostic: MetalDiagnostic) => {
+    const editorInstance = editorRef.current;
+    if (!editorInstance) return;
+
+    const position = { lineNumber: diagnostic.line, column: diagnostic.column };
+    editorInstance.revealPositionInCenter(position);
+    editorInstance.setPosition(position);
+    editorInstance.focus();
+  }, []);
+
+  const revealDiagnostic = useCallback((diagnostic: MetalDiagnostic) => {
+    if (diagnostic.file === activeFile || !documentPaths.includes(diagnostic.file)) {
+      revealInEditor(diagnostic);
+    } else {
+      pendingRevealRef.current = diagnostic;
+      setActiveFile(diagnostic.file);
+    }
+  }, [activeFile, documentPaths, revealInEditor]);
+
+  useEffect(() => {
+    const pending = pendingRevealRef.current;
+    pendingRevealRef.current = null;
+    if (pending) revealInEditor(pending);
+  }, [activeFile, revealInEditor]);
+
+  const handleParamChange = useCallback((name: string, value: ShaderParamValue) => {
+    setParamOverrides(prev => ({ ...prev, [name]: value }));
+  }, []);
+
+  const activeProject = source.kind === "project" ? projects.find(p => p.id === source.id) ?? null : null;
+  const hasUnsavedChanges = activeProject !== null && (
+    !sameSources(shaderSources(activeProject), sources) ||
+    JSON.stringify(activeProject.paramValues) !== JSON.stringify(paramOverrides)
+  );
+
+  const storeProject = useCallback((project: ShaderProject) => {
+    setProjects(prev => [project, ...prev.filter(p => p.id !== project.id)]);
+    saveProject(project).catch(error => console.error("Project save error:", error));
+  }, []);
+
+  const loadSources = useCallback((next: ShaderSources) => {
+    setShaderCode(next.code);
+    setBufferPasses(next.passes);
+    setShaderFiles(next.files);
+    setActiveFile(passPath("image"));
+  }, []);
+
+  const openProject = useCallback((project: ShaderProject) => {
+    setSource({ kind: "project", id: project.id });
+    loadSources(shaderSources(project));
+    setParamOverrides(project.paramValues);
+    setLastProjectId(project.id);
+  }, [loadSources]);
+
+  const openExample = useCallback((example: ShaderExample) => {
+    setSource({ kind: "example", example });
+    loadSources(shaderSources(example));
+    setParamOverrides({});
+    setLastProjectId(null);
+  }, [loadSources]);
+
+  const openSharedState = useCallback((shared: SharedState) => {
+    const example = SHADER_EXAMPLES.find(ex => ex.name === shared.example);
+    setSource(example && sameSources(shaderSources(example), shared)
+      ? { kind: "example", example }
+      : { kind: "link", example: shared.example });
+    loadSources(shared);
+    setParamOverrides(shared.paramValues);
+    setTargetFps(shared.targetFps);
+  }, [loadSources]);
+
+  useEffect(() => {
+    // A permalink in the URL takes precedence over the project that was open last time
+    const hash = window.location.hash;
+    const hasPermalink = isPermalink(hash);
+    if (hasPermalink) {
+      decodePermalink(hash)
+        .then(openSharedState)
+        .catch(error => setNotice({
+          tone: "error",
+          text: error instanceof PermalinkError ? error.message : "This link could not be opened.",
+        }));
+    }
+
+    listProjects()
+      .then(list => {
+        setProjects(list);
+        const last = list.find(p => p.id === getLastProjectId());
+        if (last && !hasPermalink) openProject(last);
+      })
+      .catch(error => console.error("Project library error:", error));
+  }, [openProject, openSharedState]);
+
+  // Also called before opening something else, which would otherwise cancel a pending autosave
+  const saveOpenProject = useCallback(() => {
+    if (!activeProject || !hasUnsavedChanges) return;
+    storeProject({ ...activeProject, ...sources, paramValues: paramOverrides, updatedAt: Date.now() });
+  }, [activeProject, hasUnsavedChanges, sources, paramOverrides, storeProject]);
+
+  // Autosave the open project shortly after the last edit
+  useEffect(() => {
+    if (!hasUnsavedChanges) return;
+    const timer = setTimeout(saveOpenProject, 800);
+    return () => clearTimeout(timer);
+  }, [hasUnsavedChanges, saveOpenProject]);
+
+  // An unmodified example that has run for a moment provides its gallery thumbnail. Only the Metal renderer's
+  // frames are kept: the mock draws the pass graph and the WebGL preview is an approximation.
+  useEffect(() => {
+    if (source.kind !== "example" || !isRunning || compileError || playbackTime < GALLERY_THUMBNAIL_DELAY) return;
+    const transportKind = connectionRef.current?.transportKind;
+    if (!transportKind || LOCAL_TRANSPORT_KINDS.includes(transportKind)) return;
+    const { example } = source;
+    if (exampleThumbnails[example.name]) return;
+    const rendering = snapshots.find(snapshot => snapshot.id === renderingSnapshotRef.current);
+    const canvas = canvasRef.current;
+    if (!canvas || !rendering || !sameSources(rendering, shaderSources(example))) return;
+
+    const thumbnail = captureThumbnail(canvas, GALLERY_THUMBNAIL_WIDTH);
+    if (!thumbnail) return;
+    saveExampleThumbnail(example, thumbnail);
+    setExampleThumbnails(prev => ({ ...prev, [example.name]: thumbnail }));
+  }, [source, isRunning, compileError, playbackTime, exampleThumbnails, snapshots]);
+
+  const updateSource = (next: ShaderSources) => {
+    setShaderCode(next.code);
+    setBufferPasses(next.passes);
+    setShaderFiles(next.files);
+
+    // Editing an example or a shared link forks it into the library so switching away never loses work
+    let fork: ShaderProject | null = null;
+    if (source.kind === "example" && !sameSources(next, shaderSources(source.example))) {
+      fork = forkExample(source.example, { ...next, paramValues: paramOverrides });
+    } else if (source.kind === "link") {
+      fork = createProject({
+        name: `${source.example ?? "Shared shader"} (shared)`,
+        ...next,
+        paramValues: paramOverrides,
+        forkedFrom: source.example,
+      });
+      history.replaceState(null, "", window.location.pathname + window.location.search);
+    }
+
+    if (fork) {
+      storeProject(fork);
+      setSource({ kind: "project", id: fork.id });
+      setLastProjectId(fork.id);
+    }
+  };
+
+  const handleCodeChange = (code: string) => {
+    if (restoringRef.current || isLibraryPath(activeFile)) return;
+    updateSource(withDocumentCode(sources, activeFile, code));
+  };
+
+  const addBufferPass = () => {
+    const name = BUFFER_NAMES.find(name => !bufferPasses.some(pass => pass.name === name));
+    if (!name) return;
+    updateSource({ ...sources, passes: sortPasses([...bufferPasses, newBufferPass(name)]) });
+    setActiveFile(passPath(name));
+  };
+
+  const removeBufferPass = (name: BufferName) => {
+    updateSource({ ...sources, passes: bufferPasses.filter(pass => pass.name !== name) });
+    if (activeFile === passPath(name)) setActiveFile(passPath("image"));
+  };
+
+  const setBufferScale = (name: BufferName, scale: number) => {
+    updateSource({ ...sources, passes: bufferPasses.map(pass => (pass.name === name ? { ...pass, scale } : pass)) });
+  };
+
+  const addShaderFile = () => {
+    const file = newShaderFile(shaderFiles);
+    updateSource({ ...sources, files: [...shaderFiles, file] });
+    setActiveFile(file.name);
+  };
+
+  // Includes of the file are renamed with it
+  const renameShaderFile = (file: ShaderFile, name: string) => {
+    if (!isValidFileName(name) || shaderFiles.some(other => other.name === name)) {
+      setNotice({ tone: "error", text: `"${name}" is taken or not a valid file name. Use letters, digits, "-", "_" and ".", ending in .h or .metal.` });
+      return false;
+    }
+    const rename = (code: string) => renameIncludes(code, file.name, name);
+    updateSource({
+      code: rename(shaderCode),
+      passes: bufferPasses.map(pass => ({ ...pass, code: rename(pass.code) })),
+      files: shaderFiles.map(other => ({ name: other === file ? name : other.name, code: rename(other.code) })),
+    });
+    if (activeFile === file.name) setActiveFile(name);
+    return true;
+  };
+
+  const removeShaderFile = (file: ShaderFile) => {
+    updateSource({ ...sources, files: shaderFiles.filter(other => other !== file) });
+    if (activeFile === file.name) setActiveFile(passPath("image"));
+  };
+
+  const restoreSnapshot = (snapshot: HistorySnapshot) => {
+    setDiffSnapshotId(null);
+    const editorInstance = editorRef.current;
+    const model = editorInstance?.getModel();
+    const restored = documentCode(snapshot, activeFile);
+    if (editorInstance && model && restored !== undefined && !isLibraryPath(activeFile)) {
+      // Editing through Monaco keeps the restore on the open document's undo stack; the others are replaced below
+      restoringRef.current = true;
+      editorInstance.pushUndoStop();
+      editorInstance.executeEdits("history", [{ range: model.getFullModelRange(), text: restored }]);
+      editorInstance.pushUndoStop();
+      restoringRef.current = false;
+    }
+    if (restored === undefined) setActiveFile(passPath("image"));
+    updateSource({ code: snapshot.code, passes: snapshot.passes, files: snapshot.files });
+  };
+
+  // The editor stays mounted behind the diff view and needs a layout pass once it is visible again
+  useEffect(() => {
+    if (diffSnapshotId === null) editorRef.current?.layout();
+  }, [diffSnapshotId]);
+
+  const diffSnapshot = snapshots.find(snapshot => snapshot.id === diffSnapshotId) ?? null;
+  const lastGoodSnapshot = lastCompiling(snapshots);
+
+  const handleShare = async () => {
+    const example = source.kind === "example"
+      ? source.example.name
+      : source.kind === "link" ? source.example : activeProject?.forkedFrom ?? null;
+
+    try {
+      const hash = await encodePermalink({ ...sources, targetFps, example, paramValues: paramOverrides });
+      const url = `${window.location.origin}${window.location.pathname}#${hash}`;
+      history.replaceState(null, "", url);
+      await navigator.clipboard.writeText(url);
+      setNotice({ tone: "info", text: "Link copied to clipboard." });
+    } catch (error) {
+      setNotice({
+        tone: "error",
+        text: error instanceof PermalinkError ? error.message : "Could not copy the link to the clipboard.",
+      });
+    }
+  };
+
+  const handleSourceChange = (value: string) => {
+    saveOpenProject();
+    const [kind, key] = [value.slice(0, value.indexOf(":")), value.slice(value.indexOf(":") + 1)];
+    if (kind === "project") {
+      const project = projects.find(p => p.id === key);
+      if (project) openProject(project);
+    } else {
+      const example = SHADER_EXAMPLES.find(ex => ex.name === key);
+      if (example) openExample(example);
+    }
+  };
+
+  const handleOpenProject = (project: ShaderProject) => {
+    saveOpenProject();
+    openProject(project);
+  };
+
+  const handleOpenExample = (example: ShaderExample) => {
+    saveOpenProject();
+    openExample(example);
+    setShowGallery(false);
+  };
+
+  const handleNewProject = () => {
+    saveOpenProject();
+    const project = createProject({ name: "Untitled shader", code: SHADER_EXAMPLES[0].code });
+    storeProject(project);
+    openProject(project);
+  };
+
+  const handleForkExample = (example: ShaderExample) => {
+    saveOpenProject();
+    const fork = forkExample(example);
+    storeProject(fork);
+    openProject(fork);
+  };
+
+  const shaderName = source.kind === "example"
+    ? source.example.name
+    : source.kind === "project" ? activeProject?.name ?? "Untitled shader" : source.example ?? "Shared shader";
+
+  const recordingMetadata = (fps: number): RecordingMetadata | null => {
+    const canvas = canvasRef.current;
+    if (!canvas) return null;
+    return { shaderName, width: canvas.width, height: canvas.height, fps };
+  };
+
+  const handleExportPerformance = (format: "csv" | "json") => {
+    const session = sessionRef.current;
+    const meta = recordingMetadata(targetFps);
+    if (!session || !meta) return;
+
+    const dropped = pipelineRef.current?.dropped ?? 0;
+    const blob = format === "csv"
+      ? new Blob([session.toCSV()], { type: "text/csv" })
+      : new Blob([JSON.stringify(session.toJSON(shaderName, dropped), null, 2)], { type: "application/json" });
+    downloadBlob(blob, recordingFilename(meta, `performance.${format}`));
+  };
+
+  const handleSnapshot = async () => {
+    const canvas = canvasRef.current;
+    const meta = recordingMetadata(targetFps);
+    if (!canvas || !meta) return;
+
+    try {
+      downloadBlob(await capturePng(canvas, meta), recordingFilename(meta, "png"));
+    } catch (error) {
+      console.error("Snapshot error:", error);
+    }
+  };
+
+  const startRecording = (kind: ActiveRecording["kind"], create: (meta: RecordingMetadata) => FrameRecorder, meta: RecordingMetadata | null, durationSeconds?: number) => {
+    if (!meta || recorderRef.current) return;
+    try {
+      recorderRef.current = create(meta);
+      recordingMetaRef.current = meta;
+      setRecording({ kind, startedAt: performance.now(), durationSeconds });
+    } catch (error) {
+      setNotice({ tone: "error", text: error instanceof Error ? error.message : "Recording is not supported in this browser." });
+    }
+  };
 
-  const handleExampleChange = (example: ShaderExample) => {
-    setSelectedExample(example);
-    setShaderCode(example.code);
+  const handleImportGlsl = (name: string, code: string) => {
+    saveOpenProject();
+    const project = createProject({ name, code });
+    storeProject(project);
+    openProject(project);
+    setShowImport(false);
+  };
+
+  const handleRenameProject = (project: ShaderProject, name: string) => {
+    storeProject({ ...project, name, updatedAt: Date.now() });
+  };
+
+  const handleDuplicateProject = (project: ShaderProject) => {
+    // Duplicate what's in the editor if it's the open project, since autosave may not have caught up
+    const copy = duplicateProject(project.id === activeProject?.id
+      ? { ...project, ...sources, paramValues: paramOverrides }
+      : project);
+    storeProject(copy);
+    openProject(copy);
+  };
+
+  const handleDeleteProject = (project: ShaderProject) => {
+    setProjects(prev => prev.filter(p => p.id !== project.id));
+    deleteProject(project.id).catch(error => console.error("Project delete error:", error));
+    if (project.id === activeProject?.id) {
+      const origin = SHADER_EXAMPLES.find(ex => ex.name === project.forkedFrom) ?? SHADER_EXAMPLES[0];
+      openExample(origin);
+    }
   };
 
   const formatBytes = (bytes: number) => {
@@ -206,21 +1074,62 @@ export default function MetalPlayground() {
       {/* Top bar */}
       <div className="h-12 flex items-center justify-between px-4 border-b border-[#1f1f23]">
         <div className="flex items-center gap-4">
+          <button
+            onClick={() => setShowProjects(!showProjects)}
+            title="Projects"
+            className={`p-1.5 rounded transition-colors ${showProjects ? "bg-[#2a2a3e] text-[#8a8aff]" : "text-[#5a5a5e] hover:text-[#8a8a8e]"}`}
+          >
+            <FolderOpen size={16} />
+          </button>
+
           <select
-            value={selectedExample.name}
-            onChange={(e) => {
-              const example = SHADER_EXAMPLES.find(ex => ex.name === e.target.value);
-              if (example) handleExampleChange(example);
-            }}
+            value={source.kind === "project" ? `project:${source.id}` : source.kind === "example" ? `example:${source.example.name}` : "link:"}
+            onChange={(e) => handleSourceChange(e.target.value)}
             className="bg-black text-[#a0a0a0] text-sm px-3 py-1.5 rounded border border-[#2a2a2e] focus:outline-none focus:border-[#3a3a4e]"
           >
-            {SHADER_EXAMPLES.map(example => (
-              <option key={example.name} value={example.name}>
-                {example.name}
-              </option>
-            ))}
+            {source.kind === "link" && (
+              <option value="link:">Shared link</option>
+            )}
+            {projects.length > 0 && (
+              <optgroup label="Projects">
+                {projects.map(project => (
+                  <option key={project.id} value={`project:${project.id}`}>
+                    {project.name}
+                  </option>
+                ))}
+              </optgroup>
+            )}
+            <optgroup label="Examples">
+              {SHADER_EXAMPLES.map(example => (
+                <option key={example.name} value={`example:${example.name}`}>
+                  {example.name}
+                </option>
+              ))}
+            </optgroup>
           </select>
+
+          <button
+            onClick={() => setShowGallery(true)}
+            title="Browse the examples"
+            className="flex items-center gap-2 text-[#5a5a5e] hover:text-[#8a8a8e] text-sm px-2 py-1.5 rounded transition-colors"
+          >
+            <LayoutGrid size={14} />
+            Gallery
+          </button>
+
+          {activeProject && (
+            <span className="text-xs text-[#4a4a4e]">{hasUnsavedChanges ? "Saving..." : "Saved"}</span>
+          )}
           
+          {connectionStatus !== "idle" && (
+            <ConnectionStatusBadge
+              status={connectionStatus}
+              detail={connectionDetail}
+              warning={protocolWarning}
+              endpoint={describeEndpoint(endpoint)}
+            />
+          )}
+
           {isRunning && (
             <button
               onClick={stop}
@@ -233,13 +1142,73 @@ export default function MetalPlayground() {
         </div>
 
         <div className="flex items-center gap-4">
-          {compileError && (
+          {notice && (
+            <div className={`flex items-center gap-2 text-sm ${notice.tone === "error" ? "text-[#f87171]" : "text-[#8a8a8e]"}`}>
+              {notice.tone === "error" && <AlertCircle size={14} />}
+              {notice.text}
+              <button onClick={() => setNotice(null)} className="text-[#5a5a5e] hover:text-[#8a8a8e]">
+                <X size={12} />
+              </button>
+            </div>
+          )}
+
+          {compileError && !lintBlocked && (
             <div className="flex items-center gap-2 text-[#f87171] text-sm">
               <AlertCircle size={14} />
               Shader error
+              {lastGoodSnapshot && !sameSources(lastGoodSnapshot, sources) && (
+                <button
+                  onClick={() => restoreSnapshot(lastGoodSnapshot)}
+                  title="Restore the most recent version that compiled"
+                  className="text-[#5a5a5e] hover:text-[#8a8a8e] underline"
+                >
+                  Revert
+                </button>
+              )}
+            </div>
+          )}
+
+          {lintBlocked && (
+            <div className="flex items-center gap-2 text-[#f87171] text-sm" title="Fix the problems found before compiling to send the shader">
+              <AlertCircle size={14} />
+              Not sent
             </div>
           )}
           
+          <button
+            onClick={() => setShowImport(true)}
+            title="Import a ShaderToy shader"
+            className="flex items-center gap-2 text-[#5a5a5e] hover:text-[#8a8a8e] text-sm px-2 py-1.5 rounded transition-colors"
+          >
+            <FileInput size={14} />
+            Import
+          </button>
+
+          <button
+            onClick={() => setShowChannels(!showChannels)}
+            title="Texture channels"
+            className={`p-1.5 rounded transition-colors ${showChannels ? "bg-[#2a2a3e] text-[#8a8aff]" : "text-[#5a5a5e] hover:text-[#8a8a8e]"}`}
+          >
+            <Images size={16} />
+          </button>
+
+          <button
+            onClick={() => setShowHistory(!showHistory)}
+            title="Edit history"
+            className={`p-1.5 rounded transition-colors ${showHistory ? "bg-[#2a2a3e] text-[#8a8aff]" : "text-[#5a5a5e] hover:text-[#8a8a8e]"}`}
+          >
+            <History size={16} />
+          </button>
+
+          <button
+            onClick={handleShare}
+            title="Copy a link to this shader"
+            className="flex items-center gap-2 text-[#5a5a5e] hover:text-[#8a8a8e] text-sm px-2 py-1.5 rounded transition-colors"
+          >
+            <Share2 size={14} />
+            Share
+          </button>
+          
           <button
             onClick={() => setShowSettings(!showSettings)}
             className={`p-1.5 rounded transition-colors ${showSettings ? "bg-[#2a2a3e] text-[#8a8aff]" : "text-[#5a5a5e] hover:text-[#8a8a8e]"}`}
@@ -264,25 +1233,67 @@ export default function MetalPlayground() {
             />
             <span className="text-[#8a8a8e] w-8">{targetFps}</span>
           </label>
+
+          <ResolutionSettings resolution={resolution} renderSize={frameSize} sizeLimit={sizeLimit} onChange={setResolution} />
+
+          <EncodingSettings encoding={frameEncoding} supported={capabilities?.encodings ?? null} onChange={setFrameEncoding} />
+
+          <EndpointSettings endpoint={endpoint} onChange={handleEndpointChange} />
         </div>
       )}
 
       {/* Main content */}
       <div className="flex-1 flex min-h-0">
+        {showProjects && (
+          <ProjectSidebar
+            projects={projects}
+            examples={SHADER_EXAMPLES}
+            activeProjectId={activeProject?.id ?? null}
+            onOpen={handleOpenProject}
+            onNew={handleNewProject}
+            onFork={handleForkExample}
+            onRename={handleRenameProject}
+            onDuplicate={handleDuplicateProject}
+            onDelete={handleDeleteProject}
+          />
+        )}
+
         {/* Editor panel */}
-        <div className="w-1/2 flex flex-col border-r border-[#1f1f23]">
-          {compileError && (
-            <div className="px-4 py-2 bg-[#1f1515] border-b border-[#2f2020] text-[#f87171] text-sm font-mono whitespace-pre-wrap max-h-32 overflow-auto">
-              {compileError}
-            </div>
+        <div className="flex-1 min-w-0 flex flex-col border-r border-[#1f1f23]">
+          <EditorTabs
+            passes={bufferPasses}
+            files={shaderFiles}
+            active={activeFile}
+            failing={failingDocuments}
+            onSelect={setActiveFile}
+            onAddPass={addBufferPass}
+            canAddPass={supportsFeature(capabilities, "pipeline")}
+            onRemovePass={removeBufferPass}
+            onScaleChange={setBufferScale}
+            onAddFile={addShaderFile}
+            onRenameFile={renameShaderFile}
+            onRemoveFile={removeShaderFile}
+          />
+          <ProblemsPanel diagnostics={problems} showFiles={bufferPasses.length > 0 || shaderFiles.length > 0} onSelect={revealDiagnostic} />
+          {diffSnapshot && (
+            <SnapshotDiff
+              snapshot={diffSnapshot}
+              path={activeFile}
+              current={sources}
+              onRestore={restoreSnapshot}
+              onClose={() => setDiffSnapshotId(null)}
+            />
           )}
-          <div className="flex-1 min-h-0">
+          <div className={`flex-1 min-h-0 ${diffSnapshot ? "hidden" : ""}`}>
             <MonacoEditor
               height="100%"
-              language="cpp"
-              theme="vs-dark"
-              value={shaderCode}
-              onChange={(value) => setShaderCode(value || "")}
+              language={MSL_LANGUAGE_ID}
+              theme="metal-dark"
+              path={activeFile}
+              value={activeCode}
+              onChange={(value) => handleCodeChange(value || "")}
+              beforeMount={handleEditorBeforeMount}
+              onMount={handleEditorMount}
               options={{
                 fontSize: 13,
                 fontFamily: "var(--font-geist-mono), monospace",
@@ -290,6 +1301,7 @@ export default function MetalPlayground() {
                 lineNumbers: "on",
                 scrollBeyondLastLine: false,
                 padding: { top: 16 },
+                readOnly: isLibraryPath(activeFile),
                 renderLineHighlight: "none",
                 overviewRulerBorder: false,
                 hideCursorInOverviewRuler: true,
@@ -304,42 +1316,138 @@ export default function MetalPlayground() {
           </div>
         </div>
 
+        {showHistory && (
+          <HistoryPanel
+            snapshots={snapshots}
+            current={sources}
+            selectedId={diffSnapshotId}
+            onSelect={snapshot => setDiffSnapshotId(snapshot.id === diffSnapshotId ? null : snapshot.id)}
+            onRestore={restoreSnapshot}
+          />
+        )}
+
         {/* Canvas panel */}
-        <div className="w-1/2 flex flex-col">
+        <div className="flex-1 min-w-0 flex flex-col">
           <div ref={canvasContainerRef} className="flex-1 flex items-center justify-center bg-black min-h-0 overflow-hidden relative">
             {isRunning ? (
               <canvas
                 ref={canvasRef}
                 width={800}
                 height={600}
-                onMouseMove={handleMouseMove}
-                onClick={handleClick}
-                className="w-full h-full cursor-crosshair"
-                style={{ imageRendering: "auto" }}
+                tabIndex={0}
+                onPointerMove={handlePointerMove}
+                onPointerDown={handlePointerDown}
+                onPointerUp={handlePointerUp}
+                onWheel={handleWheel}
+                onKeyDown={handleKey}
+                onKeyUp={handleKey}
+                // Keys held while focus moves away would otherwise stay down forever
+                onBlur={() => sendMessage({ type: "keyreset" })}
+                onContextMenu={e => e.preventDefault()}
+                title="Click to focus; the shader then receives keyboard input"
+                className="cursor-crosshair outline-none focus:ring-1 focus:ring-inset focus:ring-[#3a3a4e]"
+                style={{ width: displaySize.width, height: displaySize.height, imageRendering: "auto" }}
               />
             ) : (
               <button
                 onClick={run}
-                className="flex items-center gap-3 bg-[#1a3a1a] hover:bg-[#1f4a1f] text-[#4ade80] text-lg px-6 py-3 rounded-lg transition-colors"
+                disabled={connectionStatus === "connecting"}
+                className="flex items-center gap-3 bg-[#1a3a1a] hover:bg-[#1f4a1f] text-[#4ade80] text-lg px-6 py-3 rounded-lg transition-colors disabled:opacity-50"
               >
                 <Play size={20} />
-                Run
+                {connectionStatus === "connecting" ? "Connecting..." : "Run"}
               </button>
             )}
           </div>
           
+          <ParameterPanel
+            params={params}
+            errors={paramErrors}
+            values={paramValues}
+            onChange={handleParamChange}
+            onReset={() => setParamOverrides({})}
+            supported={supportsFeature(capabilities, "params")}
+          />
+
+          {showChannels && (
+            <ChannelsPanel
+              channels={channels}
+              supported={supportsFeature(capabilities, "channels")}
+              onSourceChange={handleChannelSource}
+              onUpload={handleChannelUpload}
+              onSamplerChange={handleChannelSampler}
+            />
+          )}
+          
+          {isRunning && (
+            <TransportBar
+              playback={playback}
+              time={playbackTime}
+              targetFps={targetFps}
+              onPlaybackChange={setPlayback}
+              onSeek={handleSeek}
+              onStep={handleStep}
+              canStep={supportsFeature(capabilities, "step")}
+              canSetTimeStep={supportsFeature(capabilities, "timeStep")}
+            />
+          )}
+          
+          {isRunning && showPerformance && stats && sessionRef.current && (
+            <PerformancePanel session={sessionRef.current} summary={stats} targetFps={targetFps} onExport={handleExportPerformance} />
+          )}
+          
           {/* Stats bar - only show when running */}
           {isRunning && (
             <div className="h-8 flex items-center justify-end px-4 border-t border-[#1f1f23] text-xs text-[#5a5a5e] font-mono">
               <div className="flex items-center gap-4">
-                <span>{stats.fps} fps</span>
-                <span>{stats.frameTime} ms</span>
-                <span>{formatBytes(stats.bytesReceived)}</span>
+                <RecordingControls
+                  recording={recording}
+                  onSnapshot={handleSnapshot}
+                  onRecordWebm={() => startRecording("webm", createWebmRecorder, recordingMetadata(targetFps))}
+                  onRecordGif={(fps, duration) => startRecording("gif", meta => createGifRecorder(meta, fps, duration), recordingMetadata(fps), duration)}
+                  onStop={finishRecording}
+                />
+                <span>{stats?.fps ?? 0} fps</span>
+                <span title="Median frame time">{stats?.frameTime ? stats.frameTime.p50.toFixed(1) : "-"} ms</span>
+                <span title={`Frame data over the last second; ${formatBytes(stats?.bytesReceived ?? 0)} in total`}>
+                  {FRAME_ENCODING_LABELS[frameEncoding.format]} {formatBytes(stats?.bandwidth ?? 0)}/s
+                </span>
+                <span title="Median time to decode a frame">
+                  {stats?.decodeTime ? stats.decodeTime.p50.toFixed(1) : "-"} ms decode
+                </span>
+                <span title="Frames skipped by the server or dropped here to keep up" className={stats?.dropped ? "text-[#fb923c]" : undefined}>
+                  {stats?.dropped ?? 0} dropped
+                </span>
+                <span title="Time from render on the server to display here">
+                  {stats && stats.latency !== null ? Math.round(stats.latency) : "-"} ms latency
+                </span>
+                <button
+                  onClick={() => setShowPerformance(!showPerformance)}
+                  title="Performance details"
+                  className={showPerformance ? "text-[#8a8aff]" : "hover:text-[#8a8a8e]"}
+                >
+                  <Activity size={14} />
+                </button>
               </div>
             </div>
           )}
         </div>
       </div>
+
+      {showGallery && (
+        <ExampleGallery
+          examples={SHADER_EXAMPLES}
+          thumbnails={exampleThumbnails}
+          activeExample={source.kind === "example" ? source.example.name : null}
+          unsavedProject={hasUnsavedChanges ? activeProject?.name ?? null : null}
+          onOpen={handleOpenExample}
+          onClose={() => setShowGallery(false)}
+        />
+      )}
+
+      {showImport && (
+        <GlslImportDialog onImport={handleImportGlsl} onClose={() => setShowImport(false)} />
+      )}
     </div>
   );
 }
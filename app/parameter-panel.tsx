@@ -0,0 +1,137 @@
+"use client";
+
+import { useRef } from "react";
+import { RotateCcw } from "lucide-react";
+import {
+  rgbToHex,
+  hexToRgb,
+  type ParamParseError,
+  type ShaderParam,
+  type ShaderParamValue,
+  type ShaderParamValues,
+} from "./shader-params";
+
+interface ParameterPanelProps {
+  params: ShaderParam[];
+  errors: ParamParseError[];
+  values: ShaderParamValues;
+  onChange: (name: string, value: ShaderParamValue) => void;
+  onReset: () => void;
+  // False when the connected renderer ignores the params buffer
+  supported: boolean;
+}
+
+export default function ParameterPanel({ params, errors, values, onChange, onReset, supported }: ParameterPanelProps) {
+  if (params.length === 0 && errors.length === 0) return null;
+
+  return (
+    <div className="border-t border-[#1f1f23] max-h-56 overflow-auto px-4 py-2 text-sm">
+      <div className="flex items-center justify-between mb-2 text-xs text-[#5a5a5e]">
+        <span className="uppercase tracking-wide">
+          Parameters
+          {!supported && <span className="ml-2 normal-case tracking-normal text-[#fb923c]">not supported by the connected renderer</span>}
+        </span>
+        <button onClick={onReset} disabled={!supported} className="flex items-center gap-1 hover:text-[#8a8a8e] transition-colors disabled:opacity-30">
+          <RotateCcw size={12} />
+          Reset
+        </button>
+      </div>
+      <fieldset disabled={!supported} className="grid grid-cols-2 gap-x-6 gap-y-2 disabled:opacity-40">
+        {params.map(param => (
+          <label key={param.name} className="flex items-center gap-2 text-[#5a5a5e] min-w-0">
+            <span className="w-24 truncate" title={param.name}>{param.name}</span>
+            <ParamControl param={param} value={values[param.name] ?? param.defaultValue} onChange={value => onChange(param.name, value)} />
+          </label>
+        ))}
+      </fieldset>
+      {errors.map(error => (
+        <div key={error.line} className="mt-1 text-xs text-[#fbbf24] font-mono">
+          line {error.line}: {error.message}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+interface ParamControlProps {
+  param: ShaderParam;
+  value: ShaderParamValue;
+  onChange: (value: ShaderParamValue) => void;
+}
+
+function ParamControl({ param, value, onChange }: ParamControlProps) {
+  switch (param.type) {
+    case "bool":
+      return <input type="checkbox" checked={value as boolean} onChange={e => onChange(e.target.checked)} />;
+    case "color":
+      return (
+        <input
+          type="color"
+          value={rgbToHex(value as [number, number, number])}
+          onChange={e => onChange(hexToRgb(e.target.value))}
+          className="h-5 w-10 bg-transparent border border-[#2a2a2e] rounded"
+        />
+      );
+    case "float2":
+      return <Vec2Pad param={param} value={value as [number, number]} onChange={onChange} />;
+    default:
+      return (
+        <>
+          <input
+            type="range"
+            min={param.min}
+            max={param.max}
+            step={param.step}
+            value={value as number}
+            onChange={e => onChange(Number(e.target.value))}
+            className="flex-1 min-w-0"
+          />
+          <span className="text-[#8a8a8e] w-12 text-right font-mono text-xs">
+            {param.type === "int" ? value as number : (value as number).toFixed(2)}
+          </span>
+        </>
+      );
+  }
+}
+
+function Vec2Pad({ param, value, onChange }: { param: ShaderParam; value: [number, number]; onChange: (value: [number, number]) => void }) {
+  const padRef = useRef<HTMLDivElement>(null);
+  const span = param.max - param.min;
+
+  const update = (e: React.PointerEvent<HTMLDivElement>) => {
+    const pad = padRef.current;
+    if (!pad) return;
+    const rect = pad.getBoundingClientRect();
+    const x = Math.min(Math.max((e.clientX - rect.left) / rect.width, 0), 1);
+    // Y grows upward to match the shader's uv space
+    const y = Math.min(Math.max(1 - (e.clientY - rect.top) / rect.height, 0), 1);
+    onChange([param.min + x * span, param.min + y * span]);
+  };
+
+  const x = (value[0] - param.min) / span;
+  const y = (value[1] - param.min) / span;
+
+  return (
+    <>
+      <div
+        ref={padRef}
+        onPointerDown={e => {
+          e.currentTarget.setPointerCapture(e.pointerId);
+          update(e);
+        }}
+        onPointerMove={e => {
+          if (e.currentTarget.hasPointerCapture(e.pointerId)) update(e);
+        }}
+        className="relative w-16 h-16 border border-[#2a2a2e] rounded bg-[#0a0a0c] cursor-crosshair shrink-0"
+      >
+        <div
+          className="absolute w-2 h-2 -ml-1 -mt-1 rounded-full bg-[#8a8aff]"
+          style={{ left: `${x * 100}%`, top: `${(1 - y) * 100}%` }}
+        />
+      </div>
+      <span className="text-[#8a8a8e] font-mono text-xs">
+        {value[0].toFixed(2)}, {value[1].toFixed(2)}
+      </span>
+    </>
+  );
+}
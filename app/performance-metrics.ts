@@ -0,0 +1,157 @@
+// All times are performance.now() milliseconds unless noted otherwise.
+
+export interface FrameSample {
+  at: number;
+  // Time since the previous drawn frame; null for the first frame of a session
+  interval: number | null;
+  decodeMs: number;
+  // Render-to-screen latency, once the clocks are synced
+  latency: number | null;
+}
+
+export interface ArrivalSample {
+  at: number;
+  bytes: number;
+}
+
+export interface PingSample {
+  at: number;
+  roundTrip: number;
+}
+
+export interface CompileSample {
+  at: number;
+  ms: number;
+  ok: boolean;
+}
+
+export interface Percentiles {
+  p50: number;
+  p95: number;
+  p99: number;
+}
+
+export interface PerformanceSummary {
+  fps: number;
+  frameCount: number;
+  bytesReceived: number;
+  // Over the last second
+  bandwidth: number;
+  dropped: number;
+  // Over the graph window
+  frameTime: Percentiles | null;
+  decodeTime: Percentiles | null;
+  latency: number | null;
+  roundTrip: number | null;
+  lastCompile: CompileSample | null;
+}
+
+// Frames shown in the rolling graph and used for percentiles
+export const GRAPH_WINDOW = 240;
+
+// A capture keeps about ten minutes at 60 fps; older samples are discarded first
+const MAX_SAMPLES = 36_000;
+
+function push<T>(samples: T[], sample: T) {
+  samples.push(sample);
+  if (samples.length > MAX_SAMPLES) samples.splice(0, samples.length - MAX_SAMPLES);
+}
+
+function percentiles(values: number[]): Percentiles | null {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  // Nearest-rank percentile
+  const rank = (p: number) => sorted[Math.min(sorted.length - 1, Math.ceil((p / 100) * sorted.length) - 1)];
+  return { p50: rank(50), p95: rank(95), p99: rank(99) };
+}
+
+// Samples are in time order, so only the tail needs scanning
+function lastSecond<T extends { at: number }>(samples: T[], now: number): T[] {
+  let start = samples.length;
+  while (start > 0 && now - samples[start - 1].at < 1000) start--;
+  return samples.slice(start);
+}
+
+export class PerformanceSession {
+  readonly startedAt = Date.now();
+  private readonly origin = performance.now();
+  readonly frames: FrameSample[] = [];
+  readonly arrivals: ArrivalSample[] = [];
+  readonly pings: PingSample[] = [];
+  readonly compiles: CompileSample[] = [];
+  private frameCount = 0;
+  private bytesReceived = 0;
+  private lastFrameAt: number | null = null;
+
+  recordArrival(bytes: number) {
+    this.bytesReceived += bytes;
+    push(this.arrivals, { at: performance.now(), bytes });
+  }
+
+  recordFrame(decodeMs: number, latency: number | null) {
+    const at = performance.now();
+    push(this.frames, { at, interval: this.lastFrameAt === null ? null : at - this.lastFrameAt, decodeMs, latency });
+    this.lastFrameAt = at;
+    this.frameCount++;
+  }
+
+  recordPing(roundTrip: number) {
+    push(this.pings, { at: performance.now(), roundTrip });
+  }
+
+  recordCompile(ms: number, ok: boolean) {
+    push(this.compiles, { at: performance.now(), ms, ok });
+  }
+
+  recentIntervals(count = GRAPH_WINDOW): number[] {
+    return this.frames.slice(-count).flatMap(frame => (frame.interval === null ? [] : [frame.interval]));
+  }
+
+  summary(dropped: number): PerformanceSummary {
+    const now = performance.now();
+    const recent = this.frames.slice(-GRAPH_WINDOW);
+    const lastSecondBytes = lastSecond(this.arrivals, now).reduce((sum, a) => sum + a.bytes, 0);
+    const lastFrame = this.frames.at(-1);
+
+    return {
+      fps: lastSecond(this.frames, now).length,
+      frameCount: this.frameCount,
+      bytesReceived: this.bytesReceived,
+      bandwidth: lastSecondBytes,
+      dropped,
+      frameTime: percentiles(this.recentIntervals()),
+      decodeTime: percentiles(recent.map(f => f.decodeMs)),
+      latency: lastFrame?.latency ?? null,
+      roundTrip: this.pings.at(-1)?.roundTrip ?? null,
+      lastCompile: this.compiles.at(-1) ?? null,
+    };
+  }
+
+  // Sample times are exported relative to the start of the session
+  toJSON(label: string, dropped: number) {
+    const relative = <T extends { at: number }>(samples: T[]) => samples.map(sample => ({ ...sample, at: sample.at - this.origin }));
+    return {
+      label,
+      startedAt: new Date(this.startedAt).toISOString(),
+      summary: this.summary(dropped),
+      frames: relative(this.frames),
+      arrivals: relative(this.arrivals),
+      pings: relative(this.pings),
+      compiles: relative(this.compiles),
+    };
+  }
+
+  // One row per event so two captures can be lined up in a spreadsheet
+  toCSV(): string {
+    const origin = this.origin;
+    const format = (value: number | null) => (value === null ? "" : value.toFixed(3));
+    const rows: [number, string][] = [
+      ...this.frames.map(f => [f.at, `frame,${format(f.at - origin)},${format(f.interval)},${format(f.decodeMs)},${format(f.latency)},,,,`] as [number, string]),
+      ...this.arrivals.map(a => [a.at, `arrival,${format(a.at - origin)},,,,${a.bytes},,,`] as [number, string]),
+      ...this.pings.map(p => [p.at, `ping,${format(p.at - origin)},,,,,${format(p.roundTrip)},,`] as [number, string]),
+      ...this.compiles.map(c => [c.at, `compile,${format(c.at - origin)},,,,,,${format(c.ms)},${c.ok}`] as [number, string]),
+    ];
+    rows.sort((a, b) => a[0] - b[0]);
+    return ["event,t_ms,frame_interval_ms,decode_ms,latency_ms,bytes,round_trip_ms,compile_ms,compile_ok", ...rows.map(r => r[1])].join("\n");
+  }
+}
@@ -0,0 +1,96 @@
+"use client";
+
+import { Download } from "lucide-react";
+import { GRAPH_WINDOW, type Percentiles, type PerformanceSession, type PerformanceSummary } from "./performance-metrics";
+
+interface PerformancePanelProps {
+  session: PerformanceSession;
+  summary: PerformanceSummary;
+  targetFps: number;
+  onExport: (format: "csv" | "json") => void;
+}
+
+const GRAPH_HEIGHT = 64;
+
+function formatMs(value: number | null | undefined) {
+  return value === null || value === undefined ? "-" : `${value.toFixed(1)} ms`;
+}
+
+function formatRate(bytesPerSecond: number) {
+  if (bytesPerSecond < 1024 * 1024) return `${(bytesPerSecond / 1024).toFixed(0)} KB/s`;
+  return `${(bytesPerSecond / 1024 / 1024).toFixed(2)} MB/s`;
+}
+
+function PercentileRow({ label, values }: { label: string; values: Percentiles | null }) {
+  return (
+    <tr>
+      <td className="pr-3 text-[#5a5a5e]">{label}</td>
+      <td className="pr-3 text-right">{formatMs(values?.p50)}</td>
+      <td className="pr-3 text-right">{formatMs(values?.p95)}</td>
+      <td className="text-right">{formatMs(values?.p99)}</td>
+    </tr>
+  );
+}
+
+export default function PerformancePanel({ session, summary, targetFps, onExport }: PerformancePanelProps) {
+  const intervals = session.recentIntervals();
+  const budget = 1000 / targetFps;
+  // The scale always shows two frame budgets so spikes stand out against the target line
+  const scale = Math.max(budget * 2, ...intervals);
+  const y = (ms: number) => GRAPH_HEIGHT - (ms / scale) * GRAPH_HEIGHT;
+  const points = intervals.map((ms, i) => `${GRAPH_WINDOW - intervals.length + i},${y(ms).toFixed(1)}`).join(" ");
+
+  return (
+    <div className="border-t border-[#1f1f23] px-4 py-2 text-xs text-[#8a8a8e] font-mono flex gap-6">
+      <div className="flex-1 min-w-0">
+        <div className="flex items-center justify-between mb-1 text-[#5a5a5e]">
+          <span>frame time, last {GRAPH_WINDOW} frames</span>
+          <span>max {scale.toFixed(1)} ms</span>
+        </div>
+        <svg viewBox={`0 0 ${GRAPH_WINDOW} ${GRAPH_HEIGHT}`} preserveAspectRatio="none" className="w-full h-16 bg-black border border-[#1f1f23] rounded">
+          <line x1={0} x2={GRAPH_WINDOW} y1={y(budget)} y2={y(budget)} stroke="#2a3a2a" strokeDasharray="4 3" vectorEffect="non-scaling-stroke" />
+          <polyline points={points} fill="none" stroke="#4ade80" strokeWidth={1} vectorEffect="non-scaling-stroke" />
+        </svg>
+      </div>
+
+      <table className="self-start">
+        <thead>
+          <tr className="text-[#4a4a4e]">
+            <th />
+            <th className="pr-3 text-right font-normal">p50</th>
+            <th className="pr-3 text-right font-normal">p95</th>
+            <th className="text-right font-normal">p99</th>
+          </tr>
+        </thead>
+        <tbody>
+          <PercentileRow label="frame" values={summary.frameTime} />
+          <PercentileRow label="decode" values={summary.decodeTime} />
+        </tbody>
+      </table>
+
+      <dl className="self-start grid grid-cols-[auto_auto] gap-x-3">
+        <dt className="text-[#5a5a5e]">round trip</dt>
+        <dd className="text-right">{formatMs(summary.roundTrip)}</dd>
+        <dt className="text-[#5a5a5e]">latency</dt>
+        <dd className="text-right">{formatMs(summary.latency)}</dd>
+        <dt className="text-[#5a5a5e]">bandwidth</dt>
+        <dd className="text-right">{formatRate(summary.bandwidth)}</dd>
+        <dt className="text-[#5a5a5e]">compile</dt>
+        <dd className={`text-right ${summary.lastCompile && !summary.lastCompile.ok ? "text-[#f87171]" : ""}`}>
+          {formatMs(summary.lastCompile?.ms)}
+        </dd>
+      </dl>
+
+      <div className="self-start flex flex-col gap-1">
+        <button onClick={() => onExport("csv")} className="flex items-center gap-1 hover:text-[#c0c0c0]" title="Export this session's samples as CSV">
+          <Download size={12} />
+          CSV
+        </button>
+        <button onClick={() => onExport("json")} className="flex items-center gap-1 hover:text-[#c0c0c0]" title="Export this session's samples and summary as JSON">
+          <Download size={12} />
+          JSON
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,155 @@
+import type { ShaderParamValues } from "./shader-params";
+import { isValidFileName, type ShaderFile } from "./shader-includes";
+import { BUFFER_NAMES, type BufferPass } from "./shader-passes";
+
+export interface SharedState {
+  code: string;
+  passes: BufferPass[];
+  files: ShaderFile[];
+  targetFps: number;
+  example: string | null;
+  paramValues: ShaderParamValues;
+}
+
+export class PermalinkError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "PermalinkError";
+  }
+}
+
+export const PERMALINK_VERSION = 1;
+
+// Chat clients and some browsers start truncating URLs well before the spec limits
+export const MAX_PERMALINK_LENGTH = 16_000;
+const MAX_DECODED_BYTES = 1024 * 1024;
+
+interface PayloadV1 {
+  c: string;
+  f: number;
+  e?: string;
+  p?: ShaderParamValues;
+  // Buffer passes, added without a version bump since older links simply have none
+  b?: BufferPass[];
+  // Files included by the passes
+  i?: ShaderFile[];
+}
+
+function decodeFiles(value: unknown): ShaderFile[] {
+  if (!Array.isArray(value)) return [];
+  return value.filter((file): file is ShaderFile => file && typeof file.name === "string" && isValidFileName(file.name) && typeof file.code === "string");
+}
+
+function decodePasses(value: unknown): BufferPass[] {
+  if (!Array.isArray(value)) return [];
+  return value.filter((pass): pass is BufferPass =>
+    pass && BUFFER_NAMES.includes(pass.name) && typeof pass.code === "string" && typeof pass.scale === "number");
+}
+
+// Each version decodes its own payload shape into the current SharedState, so old links keep working
+const DECODERS: Record<number, (payload: unknown) => SharedState> = {
+  1: (payload) => {
+    const { c, f, e, p, b, i } = payload as PayloadV1;
+    if (typeof c !== "string") throw new PermalinkError("This link does not contain any shader code.");
+    return {
+      code: c,
+      passes: decodePasses(b),
+      files: decodeFiles(i),
+      targetFps: typeof f === "number" ? Math.max(1, Math.min(120, Math.round(f))) : 60,
+      example: typeof e === "string" ? e : null,
+      paramValues: p && typeof p === "object" ? p : {},
+    };
+  },
+};
+
+export async function encodePermalink(state: SharedState): Promise<string> {
+  const payload: PayloadV1 = { c: state.code, f: state.targetFps };
+  if (state.example) payload.e = state.example;
+  if (Object.keys(state.paramValues).length > 0) payload.p = state.paramValues;
+  if (state.passes.length > 0) payload.b = state.passes;
+  if (state.files.length > 0) payload.i = state.files;
+
+  const compressed = await transform(new TextEncoder().encode(JSON.stringify(payload)), new CompressionStream("deflate-raw"));
+  const hash = `v${PERMALINK_VERSION}.${toBase64Url(compressed)}`;
+
+  if (hash.length > MAX_PERMALINK_LENGTH) {
+    throw new PermalinkError(
+      `This shader is too large to share as a link (${Math.round(hash.length / 1000)}k of ${MAX_PERMALINK_LENGTH / 1000}k characters).`,
+    );
+  }
+  return hash;
+}
+
+export function isPermalink(hash: string): boolean {
+  return /^#?v\d+\./.test(hash);
+}
+
+export async function decodePermalink(hash: string): Promise<SharedState> {
+  const match = /^#?v(\d+)\.([A-Za-z0-9_-]+)$/.exec(hash.trim());
+  if (!match) throw new PermalinkError("This link is not a valid shader permalink.");
+
+  const version = Number(match[1]);
+  const decode = DECODERS[version];
+  if (!decode) {
+    throw new PermalinkError(`This link was made by a newer version of the playground (format v${version}).`);
+  }
+  if (hash.length > MAX_PERMALINK_LENGTH * 2) {
+    throw new PermalinkError("This link is too large to open.");
+  }
+
+  let json: string;
+  try {
+    const decompressed = await transform(fromBase64Url(match[2]), new DecompressionStream("deflate-raw"), MAX_DECODED_BYTES);
+    json = new TextDecoder().decode(decompressed);
+  } catch (error) {
+    if (error instanceof PermalinkError) throw error;
+    throw new PermalinkError("This link is corrupt and could not be decompressed. It may have been cut off when it was copied.");
+  }
+
+  let payload: unknown;
+  try {
+    payload = JSON.parse(json);
+  } catch {
+    throw new PermalinkError("This link is corrupt: its contents are not valid data.");
+  }
+  return decode(payload);
+}
+
+async function transform(bytes: Uint8Array, stream: CompressionStream | DecompressionStream, limit = Infinity): Promise<Uint8Array> {
+  const reader = new Blob([bytes as BlobPart]).stream().pipeThrough(stream).getReader();
+  const chunks: Uint8Array[] = [];
+  let total = 0;
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    total += value.byteLength;
+    if (total > limit) {
+      await reader.cancel();
+      throw new PermalinkError("This link expands to more data than the playground will open.");
+    }
+    chunks.push(value);
+  }
+
+  const result = new Uint8Array(total);
+  let offset = 0;
+  for (const chunk of chunks) {
+    result.set(chunk, offset);
+    offset += chunk.byteLength;
+  }
+  return result;
+}
+
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = "";
+  bytes.forEach(byte => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+function fromBase64Url(text: string): Uint8Array {
+  const base64 = text.replace(/-/g, "+").replace(/_/g, "/");
+  const binary = atob(base64 + "=".repeat((4 - (base64.length % 4)) % 4));
+  return Uint8Array.from(binary, char => char.charCodeAt(0));
+}
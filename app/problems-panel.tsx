@@ -0,0 +1,64 @@
+"use client";
+
+import { AlertCircle, AlertTriangle, Info } from "lucide-react";
+import type { MetalDiagnostic } from "./metal-diagnostics";
+import { documentLabel } from "./shader-includes";
+
+interface ProblemsPanelProps {
+  diagnostics: MetalDiagnostic[];
+  // Shaders spread over several documents name the one each problem is in
+  showFiles: boolean;
+  onSelect: (diagnostic: MetalDiagnostic) => void;
+}
+
+export default function ProblemsPanel({ diagnostics, showFiles, onSelect }: ProblemsPanelProps) {
+  if (diagnostics.length === 0) return null;
+
+  const errorCount = diagnostics.filter(d => d.severity === "error").length;
+  const warningCount = diagnostics.filter(d => d.severity === "warning").length;
+
+  return (
+    <div className="border-b border-[#2f2020] bg-[#100c0c] max-h-40 flex flex-col">
+      <div className="h-7 flex items-center gap-3 px-4 text-xs text-[#5a5a5e] border-b border-[#1f1f23] shrink-0">
+        <span className="uppercase tracking-wide">Problems</span>
+        {errorCount > 0 && <span className="text-[#f87171]">{errorCount} error{errorCount === 1 ? "" : "s"}</span>}
+        {warningCount > 0 && <span className="text-[#fbbf24]">{warningCount} warning{warningCount === 1 ? "" : "s"}</span>}
+      </div>
+      <ul className="overflow-auto text-sm font-mono">
+        {diagnostics.map((diagnostic, index) => (
+          <li key={`${diagnostic.line}:${diagnostic.column}:${index}`}>
+            <button
+              onClick={() => onSelect(diagnostic)}
+              className="w-full flex items-start gap-2 px-4 py-1 text-left hover:bg-[#1f1515] transition-colors"
+            >
+              <SeverityIcon severity={diagnostic.severity} />
+              <span className="flex-1 min-w-0 text-[#c0c0c0] whitespace-pre-wrap break-words">
+                {diagnostic.message}
+                {diagnostic.notes.map((note, noteIndex) => (
+                  <span key={noteIndex} className="block text-[#6a6a6e]">
+                    note: {note.message} ({note.line}:{note.column})
+                  </span>
+                ))}
+              </span>
+              <span className="text-[#5a5a5e] shrink-0">
+                {showFiles && `${documentLabel(diagnostic.file)} `}
+                {diagnostic.line}:{diagnostic.column}
+              </span>
+            </button>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+function SeverityIcon({ severity }: { severity: MetalDiagnostic["severity"] }) {
+  switch (severity) {
+    case "error":
+      return <AlertCircle size={14} className="text-[#f87171] mt-0.5 shrink-0" />;
+    case "warning":
+      return <AlertTriangle size={14} className="text-[#fbbf24] mt-0.5 shrink-0" />;
+    default:
+      return <Info size={14} className="text-[#60a5fa] mt-0.5 shrink-0" />;
+  }
+}
@@ -0,0 +1,119 @@
+"use client";
+
+import { useState } from "react";
+import { Copy, GitFork, Pencil, Plus, Trash2 } from "lucide-react";
+import type { ShaderExample } from "./shader-examples";
+import type { ShaderProject } from "./project-store";
+
+interface ProjectSidebarProps {
+  projects: ShaderProject[];
+  examples: ShaderExample[];
+  activeProjectId: string | null;
+  onOpen: (project: ShaderProject) => void;
+  onNew: () => void;
+  onFork: (example: ShaderExample) => void;
+  onRename: (project: ShaderProject, name: string) => void;
+  onDuplicate: (project: ShaderProject) => void;
+  onDelete: (project: ShaderProject) => void;
+}
+
+export default function ProjectSidebar({
+  projects,
+  examples,
+  activeProjectId,
+  onOpen,
+  onNew,
+  onFork,
+  onRename,
+  onDuplicate,
+  onDelete,
+}: ProjectSidebarProps) {
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [draftName, setDraftName] = useState("");
+
+  const commitRename = (project: ShaderProject) => {
+    const name = draftName.trim();
+    if (name && name !== project.name) onRename(project, name);
+    setRenamingId(null);
+  };
+
+  return (
+    <div className="w-60 shrink-0 flex flex-col border-r border-[#1f1f23] text-sm overflow-hidden">
+      <div className="h-9 flex items-center justify-between px-3 border-b border-[#1f1f23] text-xs text-[#5a5a5e]">
+        <span className="uppercase tracking-wide">Projects</span>
+        <button onClick={onNew} title="New project" className="p-1 rounded hover:text-[#8a8a8e] transition-colors">
+          <Plus size={14} />
+        </button>
+      </div>
+
+      <ul className="flex-1 overflow-auto py-1">
+        {projects.length === 0 && (
+          <li className="px-3 py-2 text-xs text-[#4a4a4e]">Edits to an example are saved here automatically.</li>
+        )}
+        {projects.map(project => (
+          <li
+            key={project.id}
+            className={`group flex items-center gap-1 px-3 py-1 ${project.id === activeProjectId ? "bg-[#1a1a2a] text-[#c0c0ff]" : "text-[#a0a0a0] hover:bg-[#111114]"}`}
+          >
+            {renamingId === project.id ? (
+              <input
+                autoFocus
+                value={draftName}
+                onChange={e => setDraftName(e.target.value)}
+                onBlur={() => commitRename(project)}
+                onKeyDown={e => {
+                  if (e.key === "Enter") commitRename(project);
+                  if (e.key === "Escape") setRenamingId(null);
+                }}
+                className="flex-1 min-w-0 bg-black border border-[#3a3a4e] rounded px-1 text-[#e0e0e0] focus:outline-none"
+              />
+            ) : (
+              <button onClick={() => onOpen(project)} className="flex-1 min-w-0 text-left truncate" title={project.name}>
+                {project.name}
+              </button>
+            )}
+            <div className="hidden group-hover:flex items-center gap-1 text-[#5a5a5e]">
+              <button
+                title="Rename"
+                onClick={() => {
+                  setRenamingId(project.id);
+                  setDraftName(project.name);
+                }}
+                className="hover:text-[#8a8a8e]"
+              >
+                <Pencil size={12} />
+              </button>
+              <button title="Duplicate" onClick={() => onDuplicate(project)} className="hover:text-[#8a8a8e]">
+                <Copy size={12} />
+              </button>
+              <button
+                title="Delete"
+                onClick={() => {
+                  if (confirm(`Delete "${project.name}"? This cannot be undone.`)) onDelete(project);
+                }}
+                className="hover:text-[#f87171]"
+              >
+                <Trash2 size={12} />
+              </button>
+            </div>
+          </li>
+        ))}
+      </ul>
+
+      <div className="border-t border-[#1f1f23] max-h-[40%] overflow-auto py-1">
+        <div className="px-3 py-1 text-xs text-[#5a5a5e] uppercase tracking-wide">Fork an example</div>
+        {examples.map(example => (
+          <button
+            key={example.name}
+            onClick={() => onFork(example)}
+            title={example.description}
+            className="w-full flex items-center gap-2 px-3 py-1 text-left text-[#8a8a8e] hover:bg-[#111114] hover:text-[#c0c0c0] transition-colors"
+          >
+            <GitFork size={12} className="shrink-0" />
+            <span className="truncate">{example.name}</span>
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,132 @@
+import type { ShaderExample } from "./shader-examples";
+import type { ShaderParamValues } from "./shader-params";
+import type { ShaderFile, ShaderSources } from "./shader-includes";
+import type { BufferPass } from "./shader-passes";
+
+export interface ShaderProject {
+  id: string;
+  name: string;
+  code: string;
+  // Buffer passes; projects saved before multi-pass support have none
+  passes?: BufferPass[];
+  // Files the passes include
+  files?: ShaderFile[];
+  paramValues: ShaderParamValues;
+  // Name of the example this project was forked from, if any
+  forkedFrom: string | null;
+  createdAt: number;
+  updatedAt: number;
+}
+
+// Everything the editor can have open: a bundled example, a project from the library or a shared link
+export type ShaderSource =
+  | { kind: "example"; example: ShaderExample }
+  | { kind: "project"; id: string }
+  | { kind: "link"; example: string | null };
+
+const DB_NAME = "metal-playground";
+const DB_VERSION = 1;
+const PROJECTS_STORE = "projects";
+const LAST_PROJECT_KEY = "metal-playground:last-project";
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(PROJECTS_STORE)) {
+        const store = db.createObjectStore(PROJECTS_STORE, { keyPath: "id" });
+        store.createIndex("updatedAt", "updatedAt");
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error);
+    };
+  });
+  return dbPromise;
+}
+
+async function withStore<T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const request = action(db.transaction(PROJECTS_STORE, mode).objectStore(PROJECTS_STORE));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export async function listProjects(): Promise<ShaderProject[]> {
+  const projects = await withStore("readonly", store => store.getAll() as IDBRequest<ShaderProject[]>);
+  return projects.sort((a, b) => b.updatedAt - a.updatedAt);
+}
+
+export async function getProject(id: string): Promise<ShaderProject | undefined> {
+  return withStore("readonly", store => store.get(id) as IDBRequest<ShaderProject | undefined>);
+}
+
+export async function saveProject(project: ShaderProject): Promise<void> {
+  await withStore("readwrite", store => store.put(project));
+}
+
+export async function deleteProject(id: string): Promise<void> {
+  await withStore("readwrite", store => store.delete(id));
+  if (getLastProjectId() === id) setLastProjectId(null);
+}
+
+export function createProject(fields: Pick<ShaderProject, "name" | "code"> & Partial<ShaderProject>): ShaderProject {
+  const now = Date.now();
+  return {
+    id: crypto.randomUUID(),
+    paramValues: {},
+    forkedFrom: null,
+    createdAt: now,
+    updatedAt: now,
+    ...fields,
+  };
+}
+
+// `changes` are edits made to the example before it was forked
+export function forkExample(example: ShaderExample, changes: Partial<Pick<ShaderProject, "code" | "passes" | "files" | "paramValues">> = {}): ShaderProject {
+  return createProject({
+    name: `${example.name} (fork)`,
+    code: example.code,
+    passes: example.passes ?? [],
+    files: example.files ?? [],
+    forkedFrom: example.name,
+    ...changes,
+  });
+}
+
+// Projects and examples from before buffers and includes have neither
+export function shaderSources(shader: Pick<ShaderProject, "code" | "passes" | "files">): ShaderSources {
+  return { code: shader.code, passes: shader.passes ?? [], files: shader.files ?? [] };
+}
+
+export function duplicateProject(project: ShaderProject): ShaderProject {
+  return createProject({
+    name: `${project.name} copy`,
+    code: project.code,
+    passes: project.passes,
+    files: project.files,
+    paramValues: project.paramValues,
+    forkedFrom: project.forkedFrom,
+  });
+}
+
+export function getLastProjectId(): string | null {
+  return localStorage.getItem(LAST_PROJECT_KEY);
+}
+
+export function setLastProjectId(id: string | null) {
+  if (id) {
+    localStorage.setItem(LAST_PROJECT_KEY, id);
+  } else {
+    localStorage.removeItem(LAST_PROJECT_KEY);
+  }
+}
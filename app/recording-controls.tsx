@@ -0,0 +1,92 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Camera, Circle, Film, Square } from "lucide-react";
+import { GIF_DURATION_OPTIONS, GIF_FPS_OPTIONS } from "./frame-recorder";
+
+export interface ActiveRecording {
+  kind: "webm" | "gif";
+  startedAt: number;
+  durationSeconds?: number;
+}
+
+interface RecordingControlsProps {
+  recording: ActiveRecording | null;
+  onSnapshot: () => void;
+  onRecordWebm: () => void;
+  onRecordGif: (fps: number, durationSeconds: number) => void;
+  onStop: () => void;
+}
+
+export default function RecordingControls({ recording, onSnapshot, onRecordWebm, onRecordGif, onStop }: RecordingControlsProps) {
+  const [gifFps, setGifFps] = useState(GIF_FPS_OPTIONS[1]);
+  const [gifDuration, setGifDuration] = useState(GIF_DURATION_OPTIONS[1]);
+  const [showGifOptions, setShowGifOptions] = useState(false);
+  const [elapsed, setElapsed] = useState(0);
+
+  useEffect(() => {
+    if (!recording) return;
+    const timer = setInterval(() => setElapsed((performance.now() - recording.startedAt) / 1000), 250);
+    return () => {
+      clearInterval(timer);
+      setElapsed(0);
+    };
+  }, [recording]);
+
+  if (recording) {
+    return (
+      <div className="flex items-center gap-2">
+        <Circle size={8} className="fill-[#f87171] text-[#f87171] animate-pulse" />
+        <span className="text-[#f87171]">
+          {recording.kind.toUpperCase()} {elapsed.toFixed(1)}s
+          {recording.durationSeconds ? ` / ${recording.durationSeconds}s` : ""}
+        </span>
+        <button onClick={onStop} title="Stop recording" className="hover:text-[#8a8a8e]">
+          <Square size={12} />
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="relative flex items-center gap-3">
+      <button onClick={onSnapshot} title="Save a PNG snapshot" className="hover:text-[#8a8a8e]">
+        <Camera size={14} />
+      </button>
+      <button onClick={onRecordWebm} title="Record WebM video" className="flex items-center gap-1 hover:text-[#8a8a8e]">
+        <Circle size={10} />
+        WebM
+      </button>
+      <button onClick={() => setShowGifOptions(!showGifOptions)} title="Record animated GIF" className="flex items-center gap-1 hover:text-[#8a8a8e]">
+        <Film size={12} />
+        GIF
+      </button>
+
+      {showGifOptions && (
+        <div className="absolute bottom-7 right-0 z-10 flex items-center gap-3 px-3 py-2 bg-[#0a0a0c] border border-[#2a2a2e] rounded whitespace-nowrap">
+          <label className="flex items-center gap-1">
+            fps
+            <select value={gifFps} onChange={e => setGifFps(Number(e.target.value))} className="bg-black border border-[#2a2a2e] rounded">
+              {GIF_FPS_OPTIONS.map(fps => <option key={fps} value={fps}>{fps}</option>)}
+            </select>
+          </label>
+          <label className="flex items-center gap-1">
+            length
+            <select value={gifDuration} onChange={e => setGifDuration(Number(e.target.value))} className="bg-black border border-[#2a2a2e] rounded">
+              {GIF_DURATION_OPTIONS.map(seconds => <option key={seconds} value={seconds}>{seconds}s</option>)}
+            </select>
+          </label>
+          <button
+            onClick={() => {
+              setShowGifOptions(false);
+              onRecordGif(gifFps, gifDuration);
+            }}
+            className="text-[#4ade80] hover:text-[#86efac]"
+          >
+            Record
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
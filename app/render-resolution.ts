@@ -0,0 +1,55 @@
+export type ResolutionPreset = "fit" | "720p" | "1080p" | "square" | "custom";
+
+export interface ResolutionSettings {
+  preset: ResolutionPreset;
+  // Multiplies the preset size; in "fit" mode it applies on top of devicePixelRatio
+  scale: number;
+  customWidth: number;
+  customHeight: number;
+}
+
+export interface Size {
+  width: number;
+  height: number;
+}
+
+export const RESOLUTION_PRESETS: { id: ResolutionPreset; label: string; size?: Size }[] = [
+  { id: "fit", label: "Fit panel" },
+  { id: "720p", label: "720p", size: { width: 1280, height: 720 } },
+  { id: "1080p", label: "1080p", size: { width: 1920, height: 1080 } },
+  { id: "square", label: "Square", size: { width: 1024, height: 1024 } },
+  { id: "custom", label: "Custom" },
+];
+
+export const RESOLUTION_SCALES = [0.25, 0.5, 0.75, 1, 1.5, 2];
+
+export const DEFAULT_RESOLUTION: ResolutionSettings = { preset: "fit", scale: 1, customWidth: 800, customHeight: 600 };
+
+// MetalShaderRenderer.resize clamps each side to this range
+export const MIN_RENDER_SIZE = 100;
+export const MAX_RENDER_SIZE = 4096;
+
+function clampSide(value: number, max: number): number {
+  return Math.max(MIN_RENDER_SIZE, Math.min(max, MAX_RENDER_SIZE, Math.round(value)));
+}
+
+// The size the server should render at, given the canvas panel's CSS size and the largest size the
+// connected renderer announced, if it did
+export function renderSize(settings: ResolutionSettings, container: Size, devicePixelRatio: number, limit: Size | null = null): Size {
+  const base = settings.preset === "fit"
+    ? { width: container.width * devicePixelRatio, height: container.height * devicePixelRatio }
+    : settings.preset === "custom"
+      ? { width: settings.customWidth, height: settings.customHeight }
+      : RESOLUTION_PRESETS.find(p => p.id === settings.preset)!.size!;
+
+  return {
+    width: clampSide(base.width * settings.scale, limit?.width ?? MAX_RENDER_SIZE),
+    height: clampSide(base.height * settings.scale, limit?.height ?? MAX_RENDER_SIZE),
+  };
+}
+
+// Largest box with the frame's aspect ratio that fits the container; the rest is letterboxed
+export function letterbox(frame: Size, container: Size): Size {
+  const scale = Math.min(container.width / frame.width, container.height / frame.height);
+  return { width: Math.floor(frame.width * scale), height: Math.floor(frame.height * scale) };
+}
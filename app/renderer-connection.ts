@@ -0,0 +1,174 @@
+import { describeEndpoint, probeHealth, type RendererEndpoint } from "./renderer-endpoint";
+import { helloMessage, type RendererMessage, type ServerMessage } from "./renderer-protocol";
+import {
+  createTransport,
+  LOCAL_TRANSPORT_KINDS,
+  TRANSPORT_KINDS,
+  TRANSPORT_LABELS,
+  type RenderedFrame,
+  type RendererTransport,
+  type TransportKind,
+  type TransportPreference,
+} from "./renderer-transport";
+
+export type ConnectionStatus = "idle" | "connecting" | "connected" | "reconnecting" | "failed";
+
+interface RendererConnectionHandlers {
+  // For "connected" the detail names the transport in use
+  onStatus: (status: ConnectionStatus, detail: string | null) => void;
+  onFrame: (frame: RenderedFrame) => void;
+  onMessage: (message: ServerMessage) => void;
+}
+
+// Reconnect backoff: 0.5s, 1s, 2s, ... capped at 10s, giving up after MAX_RETRIES attempts
+const RETRY_BASE_MS = 500;
+const RETRY_MAX_MS = 10_000;
+const MAX_RETRIES = 8;
+
+// Sent first on every transport; renderers that know the handshake answer with their capabilities
+const CLIENT_NAME = "metal-playground";
+
+// Messages that set renderer state, replayed in this order after every (re)connect
+const REPLAYED_TYPES: RendererMessage["type"][] = ["config", "playback", "params", "channel", "shader", "pipeline"];
+
+// Config and channel messages are partial updates, so the replayed one accumulates all of them
+const MERGED_TYPES: RendererMessage["type"][] = ["config", "channel"];
+
+// Each texture channel is its own piece of state, while a pipeline replaces the shader and vice versa
+function replayKey(message: RendererMessage): string {
+  if (message.type === "channel") return `channel:${message.index}`;
+  return message.type === "pipeline" ? "shader" : message.type;
+}
+
+export class RendererConnection {
+  private transport: RendererTransport | null = null;
+  // The transport that worked last; reconnects stick with it instead of probing again
+  private kind: TransportKind | null = null;
+  private retryTimer: ReturnType<typeof setTimeout> | null = null;
+  private retries = 0;
+  private closed = false;
+  private everConnected = false;
+  private replay = new Map<string, RendererMessage>();
+
+  constructor(
+    readonly endpoint: RendererEndpoint,
+    private preference: TransportPreference,
+    private handlers: RendererConnectionHandlers,
+  ) {}
+
+  connect() {
+    this.handlers.onStatus("connecting", null);
+    this.open();
+  }
+
+  // State-setting messages are remembered even while disconnected and go out on reconnect
+  send(message: RendererMessage) {
+    this.remember(message);
+    this.transport?.send(message);
+  }
+
+  // The transport frames currently come through, or null while disconnected
+  get transportKind(): TransportKind | null {
+    return this.transport?.kind ?? null;
+  }
+
+  acknowledge(sequence: number) {
+    this.transport?.acknowledge(sequence);
+  }
+
+  close() {
+    this.closed = true;
+    if (this.retryTimer) clearTimeout(this.retryTimer);
+    this.retryTimer = null;
+
+    this.transport?.close();
+    this.transport = null;
+    this.handlers.onStatus("idle", null);
+  }
+
+  private remember(message: RendererMessage) {
+    if (!REPLAYED_TYPES.includes(message.type)) return;
+    const key = replayKey(message);
+    const previous = MERGED_TYPES.includes(message.type) ? this.replay.get(key) : undefined;
+    this.replay.set(key, { ...previous, ...message } as RendererMessage);
+  }
+
+  // Probing first keeps a down server from producing a WebSocket error per attempt; local transports have
+  // no server. Under "auto" a server that never answered falls back to the WebGL preview.
+  private async transportKinds(): Promise<TransportKind[] | null> {
+    if (this.kind && LOCAL_TRANSPORT_KINDS.includes(this.kind)) return [this.kind];
+    if (this.preference !== "auto" && LOCAL_TRANSPORT_KINDS.includes(this.preference)) return [this.preference];
+
+    const healthy = await probeHealth(this.endpoint);
+    if (this.kind) return healthy ? [this.kind] : null;
+    if (this.preference !== "auto") return healthy ? [this.preference] : null;
+    return healthy ? [...TRANSPORT_KINDS, "webgl"] : ["webgl"];
+  }
+
+  private async open() {
+    const kinds = await this.transportKinds();
+    if (this.closed) return;
+    if (!kinds) {
+      this.retryOrFail();
+      return;
+    }
+
+    for (const kind of kinds) {
+      const transport: RendererTransport = createTransport(kind, this.endpoint, {
+        onFrame: this.handlers.onFrame,
+        onMessage: this.handlers.onMessage,
+        onClose: () => {
+          if (this.transport !== transport) return;
+          this.transport = null;
+          if (!this.closed) this.retryOrFail();
+        },
+      });
+
+      try {
+        await transport.open();
+      } catch (error) {
+        console.error(`${TRANSPORT_LABELS[kind]} transport error:`, error);
+        continue;
+      }
+
+      if (this.closed) {
+        transport.close();
+        return;
+      }
+
+      this.transport = transport;
+      this.kind = kind;
+      this.retries = 0;
+      this.everConnected = true;
+      transport.send(helloMessage(CLIENT_NAME));
+      for (const type of REPLAYED_TYPES) {
+        for (const message of this.replay.values()) {
+          if (message.type === type) transport.send(message);
+        }
+      }
+      this.handlers.onStatus("connected", TRANSPORT_LABELS[kind]);
+      return;
+    }
+
+    if (!this.closed) this.retryOrFail("Could not stream frames from");
+  }
+
+  private retryOrFail(neverReached = "No renderer reachable at") {
+    const target = describeEndpoint(this.endpoint);
+
+    // A server that never answered is most likely a wrong endpoint, so only established sessions retry
+    if (!this.everConnected || this.retries >= MAX_RETRIES) {
+      this.closed = true;
+      this.handlers.onStatus("failed", this.everConnected ? `Lost connection to ${target}` : `${neverReached} ${target}`);
+      return;
+    }
+
+    const delay = Math.min(RETRY_MAX_MS, RETRY_BASE_MS * 2 ** this.retries);
+    this.retries++;
+    this.handlers.onStatus("reconnecting", `Attempt ${this.retries} of ${MAX_RETRIES} in ${(delay / 1000).toFixed(1)}s`);
+    this.retryTimer = setTimeout(() => {
+      this.retryTimer = null;
+      this.open();
+    }, delay);
+  }
+}
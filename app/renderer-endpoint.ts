@@ -0,0 +1,64 @@
+import type { TransportPreference } from "./renderer-transport";
+
+export interface RendererEndpoint {
+  host: string;
+  port: number;
+  secure: boolean;
+  transport: TransportPreference;
+}
+
+export const DEFAULT_ENDPOINT: RendererEndpoint = { host: "localhost", port: 9000, secure: false, transport: "auto" };
+
+const ENDPOINT_KEY = "metal-playground:endpoint";
+
+const TRANSPORT_PREFERENCES: TransportPreference[] = ["auto", "websocket", "mjpeg", "polling", "mock", "webgl"];
+
+export function loadEndpoint(): RendererEndpoint {
+  try {
+    const stored = JSON.parse(localStorage.getItem(ENDPOINT_KEY) ?? "null");
+    if (stored && typeof stored.host === "string" && Number.isInteger(stored.port)) {
+      const transport = TRANSPORT_PREFERENCES.includes(stored.transport) ? stored.transport : "auto";
+      return { host: stored.host, port: stored.port, secure: stored.secure === true, transport };
+    }
+  } catch {
+    // Fall back to the default endpoint
+  }
+  return DEFAULT_ENDPOINT;
+}
+
+export function saveEndpoint(endpoint: RendererEndpoint) {
+  try {
+    localStorage.setItem(ENDPOINT_KEY, JSON.stringify(endpoint));
+  } catch {
+    // Storage can be unavailable in private windows; the endpoint then lasts for this session
+  }
+}
+
+export function isValidEndpoint(endpoint: RendererEndpoint): boolean {
+  return endpoint.host.trim() !== "" && !/[\s/]/.test(endpoint.host.trim()) && Number.isInteger(endpoint.port) && endpoint.port > 0 && endpoint.port < 65536;
+}
+
+export function describeEndpoint(endpoint: RendererEndpoint): string {
+  return `${endpoint.host}:${endpoint.port}`;
+}
+
+export function endpointUrl(endpoint: RendererEndpoint, scheme: "ws" | "http", path: string): string {
+  const protocol = endpoint.secure ? `${scheme}s` : scheme;
+  const host = endpoint.host.trim();
+  // IPv6 literals need brackets in URLs
+  const urlHost = host.includes(":") && !host.startsWith("[") ? `[${host}]` : host;
+  return `${protocol}://${urlHost}:${endpoint.port}${path}`;
+}
+
+// GET /health answers "ok" as soon as the server is accepting connections
+export async function probeHealth(endpoint: RendererEndpoint, timeoutMs = 2000): Promise<boolean> {
+  try {
+    const response = await fetch(endpointUrl(endpoint, "http", "/health"), {
+      cache: "no-store",
+      signal: AbortSignal.timeout(timeoutMs),
+    });
+    return response.ok;
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,429 @@
+import type { BufferName, PassGraphNode, PassName } from "./shader-passes";
+
+// Messages between the page and a renderer, as JSON over the WebSocket or POST /message. Every message
+// has a type; the schemas below are what both sides check incoming messages against. main.swift keeps
+// its own copy of the client schemas, so changes here have to be made there too.
+
+// Bumped when a message changes incompatibly; additions do not need a new version
+export const PROTOCOL_VERSION = 1;
+
+// Raw frames are RGBA pixels behind a small header; see frame-encoding.ts
+export type FrameEncoding = "jpeg" | "png" | "raw";
+
+// Optional parts of the protocol; a renderer lists those it implements in its hello reply
+export type RendererFeature =
+  // Pipeline messages with buffer passes
+  | "pipeline"
+  // Texture channel images
+  | "channels"
+  // The params buffer from @param annotations
+  | "params"
+  // Key state in the KeyboardState buffer
+  | "keyboard"
+  // Step messages while paused
+  | "step"
+  // A fixed timeStep in config messages
+  | "timeStep";
+
+export const RENDERER_FEATURES: RendererFeature[] = ["pipeline", "channels", "params", "keyboard", "step", "timeStep"];
+
+export interface RendererCapabilities {
+  maxWidth: number;
+  maxHeight: number;
+  encodings: FrameEncoding[];
+  features: RendererFeature[];
+}
+
+// Client messages
+
+export interface HelloMessage {
+  type: "hello";
+  version: number;
+  client: string;
+}
+
+export interface ConfigMessage {
+  type: "config";
+  width?: number;
+  height?: number;
+  targetFps?: number;
+  // Seconds per frame; null follows 1/targetFps
+  timeStep?: number | null;
+  // Unacknowledged WebSocket frames the server may have out at once
+  maxInFlight?: number;
+  format?: FrameEncoding;
+  // JPEG quality, 0-1
+  quality?: number;
+}
+
+export interface ShaderMessage {
+  type: "shader";
+  // Echoed in the compile reply
+  id?: number;
+  code: string;
+}
+
+export interface PipelineMessage {
+  type: "pipeline";
+  id?: number;
+  // In render order, image pass last
+  passes: (PassGraphNode & { code: string })[];
+}
+
+export interface ParamsMessage {
+  type: "params";
+  index: number;
+  // Base64 of the packed ShaderParams struct
+  data: string;
+}
+
+export interface TimeMessage {
+  type: "time";
+  time: number;
+}
+
+export interface PlaybackMessage {
+  type: "playback";
+  paused?: boolean;
+  speed?: number;
+}
+
+export interface StepMessage {
+  type: "step";
+  frames?: number;
+}
+
+export interface ChannelMessage {
+  type: "channel";
+  index: number;
+  filter?: string;
+  wrap?: string;
+  // Base64 image; null empties the channel and leaving it out keeps the current image
+  data?: string | null;
+}
+
+export interface PointerMessage {
+  type: "mousemove" | "mousedown" | "mouseup" | "click";
+  // Canvas pixels from the top-left
+  x: number;
+  y: number;
+  button?: number;
+}
+
+export interface WheelMessage {
+  type: "wheel";
+  deltaX: number;
+  deltaY: number;
+}
+
+export interface KeyMessage {
+  type: "keydown" | "keyup";
+  // KeyboardEvent.code, the physical key; renderers map it to the keyboard buffer slot
+  code?: string;
+  key?: string;
+  // Deprecated and layout-dependent; read only when neither code nor key maps to a slot
+  keyCode?: number;
+}
+
+export interface KeyResetMessage {
+  type: "keyreset";
+}
+
+export interface PingMessage {
+  type: "ping";
+  // Client clock (ms), echoed as pong
+  sent: number;
+}
+
+export interface AckMessage {
+  type: "ack";
+  sequence: number;
+}
+
+export type RendererMessage =
+  | HelloMessage
+  | ConfigMessage
+  | ShaderMessage
+  | PipelineMessage
+  | ParamsMessage
+  | TimeMessage
+  | PlaybackMessage
+  | StepMessage
+  | ChannelMessage
+  | PointerMessage
+  | WheelMessage
+  | KeyMessage
+  | KeyResetMessage
+  | PingMessage
+  | AckMessage;
+
+// Server messages
+
+export interface HelloReply {
+  type: "hello";
+  version: number;
+  server: string;
+  capabilities: RendererCapabilities;
+}
+
+export interface CompileReply {
+  type: "compile";
+  // Echo of the id the shader or pipeline message carried
+  id?: number;
+  ok?: boolean;
+  error?: string;
+  warnings?: string;
+  // Pipeline replies: the pass an error came from, and warnings by pass
+  pass?: PassName;
+  passWarnings?: Partial<Record<PassName, string>>;
+  // The pass graph as the mock renderer understood it
+  graph?: PassGraphNode[];
+}
+
+export interface ClockMessage {
+  type: "clock";
+  time: number;
+  paused: boolean;
+}
+
+export interface PongMessage {
+  type: "pong";
+  pong: number;
+  // Server clock (ms) when the ping was answered
+  serverTime: number;
+}
+
+export interface ChannelErrorMessage {
+  type: "channelError";
+  channel: number;
+  error: string;
+}
+
+// A client message the server could not accept
+export interface ProtocolErrorMessage {
+  type: "error";
+  error: string;
+  // Type of the rejected message, when it had one
+  request?: string;
+}
+
+export type ServerMessage = HelloReply | CompileReply | ClockMessage | PongMessage | ChannelErrorMessage | ProtocolErrorMessage;
+
+// Schemas
+
+type FieldSchema =
+  | { kind: "number" | "integer" | "string" | "boolean"; optional?: boolean; nullable?: boolean; values?: readonly (string | number)[] }
+  | { kind: "array"; optional?: boolean; items: FieldSchema }
+  | { kind: "object"; optional?: boolean; fields?: MessageSchema };
+
+type MessageSchema = Record<string, FieldSchema>;
+
+const POINTER_SCHEMA: MessageSchema = {
+  x: { kind: "number" },
+  y: { kind: "number" },
+  button: { kind: "integer", optional: true },
+};
+
+const KEY_SCHEMA: MessageSchema = {
+  code: { kind: "string", optional: true },
+  key: { kind: "string", optional: true },
+  keyCode: { kind: "integer", optional: true },
+};
+
+const PASS_NAMES: PassName[] = ["A", "B", "C", "image"];
+const BUFFER_NAME_VALUES: BufferName[] = ["A", "B", "C"];
+const ENCODINGS: FrameEncoding[] = ["jpeg", "png", "raw"];
+
+export const CLIENT_MESSAGE_SCHEMAS: Record<RendererMessage["type"], MessageSchema> = {
+  hello: { version: { kind: "integer" }, client: { kind: "string" } },
+  config: {
+    width: { kind: "integer", optional: true },
+    height: { kind: "integer", optional: true },
+    targetFps: { kind: "integer", optional: true },
+    timeStep: { kind: "number", optional: true, nullable: true },
+    maxInFlight: { kind: "integer", optional: true },
+    format: { kind: "string", optional: true, values: ENCODINGS },
+    quality: { kind: "number", optional: true },
+  },
+  shader: { id: { kind: "integer", optional: true }, code: { kind: "string" } },
+  pipeline: {
+    id: { kind: "integer", optional: true },
+    passes: {
+      kind: "array",
+      items: {
+        kind: "object",
+        fields: {
+          name: { kind: "string", values: PASS_NAMES },
+          code: { kind: "string" },
+          scale: { kind: "number" },
+          inputs: { kind: "array", items: { kind: "string", values: BUFFER_NAME_VALUES } },
+        },
+      },
+    },
+  },
+  params: { index: { kind: "integer" }, data: { kind: "string" } },
+  time: { time: { kind: "number" } },
+  playback: { paused: { kind: "boolean", optional: true }, speed: { kind: "number", optional: true } },
+  step: { frames: { kind: "integer", optional: true } },
+  channel: {
+    index: { kind: "integer" },
+    filter: { kind: "string", optional: true },
+    wrap: { kind: "string", optional: true },
+    data: { kind: "string", optional: true, nullable: true },
+  },
+  mousemove: POINTER_SCHEMA,
+  mousedown: POINTER_SCHEMA,
+  mouseup: POINTER_SCHEMA,
+  click: POINTER_SCHEMA,
+  wheel: { deltaX: { kind: "number" }, deltaY: { kind: "number" } },
+  keydown: KEY_SCHEMA,
+  keyup: KEY_SCHEMA,
+  keyreset: {},
+  ping: { sent: { kind: "number" } },
+  ack: { sequence: { kind: "integer" } },
+};
+
+export const SERVER_MESSAGE_SCHEMAS: Record<ServerMessage["type"], MessageSchema> = {
+  hello: {
+    version: { kind: "integer" },
+    server: { kind: "string" },
+    capabilities: {
+      kind: "object",
+      fields: {
+        maxWidth: { kind: "integer" },
+        maxHeight: { kind: "integer" },
+        // Values a newer renderer adds are let through and ignored
+        encodings: { kind: "array", items: { kind: "string" } },
+        features: { kind: "array", items: { kind: "string" } },
+      },
+    },
+  },
+  compile: {
+    id: { kind: "integer", optional: true },
+    ok: { kind: "boolean", optional: true },
+    error: { kind: "string", optional: true },
+    warnings: { kind: "string", optional: true },
+    pass: { kind: "string", optional: true, values: PASS_NAMES },
+    passWarnings: { kind: "object", optional: true },
+    graph: { kind: "array", optional: true, items: { kind: "object" } },
+  },
+  clock: { time: { kind: "number" }, paused: { kind: "boolean" } },
+  pong: { pong: { kind: "number" }, serverTime: { kind: "number" } },
+  channelError: { channel: { kind: "integer" }, error: { kind: "string" } },
+  error: { error: { kind: "string" }, request: { kind: "string", optional: true } },
+};
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function checkField(value: unknown, schema: FieldSchema, path: string): string | null {
+  if (value === null && "nullable" in schema && schema.nullable) return null;
+  switch (schema.kind) {
+    case "number":
+      if (typeof value !== "number" || !Number.isFinite(value)) return `${path} has to be a number`;
+      break;
+    case "integer":
+      if (!Number.isInteger(value)) return `${path} has to be an integer`;
+      break;
+    case "string":
+      if (typeof value !== "string") return `${path} has to be a string`;
+      break;
+    case "boolean":
+      if (typeof value !== "boolean") return `${path} has to be true or false`;
+      break;
+    case "array": {
+      if (!Array.isArray(value)) return `${path} has to be an array`;
+      for (const [index, item] of value.entries()) {
+        const error = checkField(item, schema.items, `${path}[${index}]`);
+        if (error) return error;
+      }
+      return null;
+    }
+    case "object":
+      if (!isObject(value)) return `${path} has to be an object`;
+      return schema.fields ? checkFields(value, schema.fields, `${path}.`) : null;
+  }
+  if ("values" in schema && schema.values && !schema.values.includes(value as string | number)) {
+    return `${path} has to be one of ${schema.values.join(", ")}`;
+  }
+  return null;
+}
+
+// Fields the schema does not name are allowed, so either side can add some without a new version
+function checkFields(value: Record<string, unknown>, schema: MessageSchema, prefix = ""): string | null {
+  for (const [name, field] of Object.entries(schema)) {
+    if (value[name] === undefined) {
+      if (!field.optional) return `${prefix}${name} is missing`;
+      continue;
+    }
+    const error = checkField(value[name], field, `${prefix}${name}`);
+    if (error) return error;
+  }
+  return null;
+}
+
+// Failures carry the type of the rejected message, when it had one, for the error reply
+function checkMessage<T>(value: unknown, schemas: Record<string, MessageSchema>): { message: T } | { error: string; request?: string } {
+  if (!isObject(value)) return { error: "A message has to be a JSON object" };
+  if (typeof value.type !== "string") return { error: "A message needs a type" };
+  if (!Object.hasOwn(schemas, value.type)) return { error: `Unknown message type ${value.type}`, request: value.type };
+  const error = checkFields(value, schemas[value.type]);
+  return error ? { error: `${value.type}: ${error}`, request: value.type } : { message: value as T };
+}
+
+export function validateClientMessage(value: unknown): { message: RendererMessage } | { error: string; request?: string } {
+  return checkMessage<RendererMessage>(value, CLIENT_MESSAGE_SCHEMAS);
+}
+
+// Renderers from before the handshake send messages without a type; their shape says which one they are
+function legacyType(value: Record<string, unknown>): ServerMessage["type"] | null {
+  if ("pong" in value) return "pong";
+  if ("channelError" in value) return "channelError";
+  if ("ok" in value || "error" in value) return "compile";
+  if ("time" in value) return "clock";
+  return null;
+}
+
+// Server messages that do not match their schema are dropped, so handlers can trust every field
+export function parseServerMessage(value: unknown): ServerMessage | null {
+  if (isObject(value) && value.type === undefined) {
+    const type = legacyType(value);
+    if (!type) return null;
+    value = type === "channelError" ? { type, channel: value.channel, error: value.channelError } : { ...value, type };
+  }
+  const result = checkMessage<ServerMessage>(value, SERVER_MESSAGE_SCHEMAS);
+  if (!("message" in result)) return null;
+  const message = result.message;
+  if (message.type !== "hello") return message;
+  const { encodings, features } = message.capabilities;
+  return {
+    ...message,
+    capabilities: {
+      ...message.capabilities,
+      encodings: encodings.filter(encoding => ENCODINGS.includes(encoding)),
+      features: features.filter(feature => RENDERER_FEATURES.includes(feature)),
+    },
+  };
+}
+
+export function helloMessage(client: string): HelloMessage {
+  return { type: "hello", version: PROTOCOL_VERSION, client };
+}
+
+// A renderer on another protocol version may read the optional messages differently, so only the
+// basics every version has are used: shaders, input, playback and JPEG frames
+export function negotiateCapabilities(hello: HelloReply): RendererCapabilities {
+  if (hello.version === PROTOCOL_VERSION) return hello.capabilities;
+  return { ...hello.capabilities, encodings: ["jpeg"], features: [] };
+}
+
+export function protocolMismatch(hello: HelloReply): string | null {
+  if (hello.version === PROTOCOL_VERSION) return null;
+  return `${hello.server} speaks protocol version ${hello.version} and this page version ${PROTOCOL_VERSION}; optional features are turned off`;
+}
+
+// Unknown capabilities, from a renderer that has not answered hello, allow everything
+export function supportsFeature(capabilities: RendererCapabilities | null, feature: RendererFeature): boolean {
+  return capabilities === null || capabilities.features.includes(feature);
+}
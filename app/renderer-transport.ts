@@ -0,0 +1,345 @@
+import { createMockTransport } from "./mock-renderer";
+import { endpointUrl, type RendererEndpoint } from "./renderer-endpoint";
+import { parseServerMessage, type RendererMessage, type ServerMessage } from "./renderer-protocol";
+import { createWebGLTransport } from "./webgl-renderer";
+
+export interface RenderedFrame {
+  // Render loop counter; null for frames rendered on demand outside the loop
+  sequence: number | null;
+  // Server clock (ms) when the frame was rendered
+  renderedAt: number | null;
+  data: Blob;
+}
+
+export type TransportKind = "websocket" | "mjpeg" | "polling" | "mock" | "webgl";
+export type TransportPreference = "auto" | TransportKind;
+
+// Order tried by "auto": the WebSocket is cheapest, MJPEG survives proxies that strip upgrades,
+// and polling works through anything that passes plain GET requests. When no renderer answers at all,
+// "auto" falls back to the WebGL preview; the mock is only used when chosen.
+export const TRANSPORT_KINDS: TransportKind[] = ["websocket", "mjpeg", "polling"];
+
+// Transports that render in the page and need no server
+export const LOCAL_TRANSPORT_KINDS: TransportKind[] = ["mock", "webgl"];
+
+export const TRANSPORT_LABELS: Record<TransportPreference, string> = {
+  auto: "Auto",
+  websocket: "WebSocket",
+  mjpeg: "MJPEG stream",
+  polling: "Frame polling",
+  mock: "Local mock",
+  webgl: "WebGL preview",
+};
+
+export interface TransportHandlers {
+  onFrame: (frame: RenderedFrame) => void;
+  onMessage: (message: ServerMessage) => void;
+  // Called when an open transport stops delivering frames; not called after close()
+  onClose: () => void;
+}
+
+export interface RendererTransport {
+  kind: TransportKind;
+  // Resolves once frames can flow, rejects if this transport does not work from here
+  open(): Promise<void>;
+  send(message: RendererMessage): void;
+  // Tells the server a frame has been handled so it may send more; only streaming sockets need this
+  acknowledge(sequence: number): void;
+  close(): void;
+}
+
+const OPEN_TIMEOUT_MS = 4000;
+
+// HTTP transports report the playback clock no more often than the WebSocket does
+const CLOCK_REPORT_INTERVAL_MS = 100;
+
+export function createTransport(kind: TransportKind, endpoint: RendererEndpoint, handlers: TransportHandlers): RendererTransport {
+  switch (kind) {
+    case "websocket":
+      return createWebSocketTransport(endpoint, handlers);
+    case "mjpeg":
+      return createMjpegTransport(endpoint, handlers);
+    case "polling":
+      return createPollingTransport(endpoint, handlers);
+    case "mock":
+      return createMockTransport(handlers);
+    case "webgl":
+      return createWebGLTransport(handlers);
+  }
+}
+
+// Binary WebSocket frames: UInt32 header length, UInt32 sequence, Float64 renderedAt, then fields the page
+// does not use (the shader time), then the image
+function parseFrame(buffer: ArrayBuffer): RenderedFrame {
+  const view = new DataView(buffer);
+  const headerLength = view.getUint32(0);
+  return {
+    sequence: view.getUint32(4),
+    renderedAt: view.getFloat64(8),
+    data: new Blob([new Uint8Array(buffer, headerLength)], { type: "image/jpeg" }),
+  };
+}
+
+function headerNumber(value: string | null | undefined): number | null {
+  const number = Number(value ?? undefined);
+  return Number.isFinite(number) ? number : null;
+}
+
+function createWebSocketTransport(endpoint: RendererEndpoint, handlers: TransportHandlers): RendererTransport {
+  let socket: WebSocket | null = null;
+  let opened = false;
+
+  const send = (message: RendererMessage) => {
+    if (socket?.readyState === WebSocket.OPEN) socket.send(JSON.stringify(message));
+  };
+
+  return {
+    kind: "websocket",
+    open() {
+      return new Promise((resolve, reject) => {
+        const ws = new WebSocket(endpointUrl(endpoint, "ws", "/ws"));
+        ws.binaryType = "arraybuffer";
+        socket = ws;
+        const timer = setTimeout(() => {
+          ws.onclose = null;
+          ws.close();
+          reject(new Error("WebSocket did not open in time"));
+        }, OPEN_TIMEOUT_MS);
+
+        ws.onopen = () => {
+          clearTimeout(timer);
+          opened = true;
+          resolve();
+        };
+
+        ws.onmessage = (event) => {
+          if (typeof event.data !== "string") {
+            handlers.onFrame(parseFrame(event.data as ArrayBuffer));
+            return;
+          }
+          try {
+            const message = parseServerMessage(JSON.parse(event.data));
+            if (message) handlers.onMessage(message);
+          } catch {
+            // Ignore parse errors
+          }
+        };
+
+        // onerror is always followed by onclose, so only onclose is handled
+        ws.onclose = () => {
+          clearTimeout(timer);
+          if (opened) {
+            handlers.onClose();
+          } else {
+            reject(new Error("WebSocket closed before opening"));
+          }
+        };
+      });
+    },
+    send,
+    acknowledge(sequence) {
+      send({ type: "ack", sequence });
+    },
+    close() {
+      if (!socket) return;
+      socket.onclose = null;
+      socket.close();
+      socket = null;
+    },
+  };
+}
+
+// Without a socket, messages go to POST /message one at a time so they arrive in order
+function createMessagePoster(endpoint: RendererEndpoint, handlers: TransportHandlers, signal: AbortSignal) {
+  let queue = Promise.resolve();
+  let pendingMove: RendererMessage | null = null;
+
+  const post = async (message: RendererMessage) => {
+    try {
+      const response = await fetch(endpointUrl(endpoint, "http", "/message"), {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(message),
+        signal,
+      });
+      if (!response.ok) throw new Error(`POST /message answered ${response.status}`);
+      // Messages without a reply are answered with an empty object
+      const reply = parseServerMessage(await response.json());
+      if (reply) handlers.onMessage(reply);
+    } catch (error) {
+      if (!signal.aborted) console.error("Renderer message error:", error);
+    }
+  };
+
+  return (message: RendererMessage) => {
+    // Pointer moves arrive far faster than HTTP round trips; only the latest queued one is sent
+    if (message.type === "mousemove") {
+      const queued = pendingMove !== null;
+      pendingMove = message;
+      if (queued) return;
+      queue = queue.then(() => {
+        const latest = pendingMove!;
+        pendingMove = null;
+        return post(latest);
+      });
+      return;
+    }
+    queue = queue.then(() => post(message));
+  };
+}
+
+// HTTP frames carry the playback clock in X-Time / X-Paused headers
+function createClockReporter(handlers: TransportHandlers) {
+  let lastReport = 0;
+  return (header: (name: string) => string | null | undefined) => {
+    const now = performance.now();
+    const time = Number(header("x-time"));
+    if (now - lastReport < CLOCK_REPORT_INTERVAL_MS || !header("x-time") || Number.isNaN(time)) return;
+    lastReport = now;
+    handlers.onMessage({ type: "clock", time, paused: header("x-paused") === "true" });
+  };
+}
+
+function indexOfHeaderEnd(bytes: Uint8Array): number {
+  for (let i = 0; i + 3 < bytes.length; i++) {
+    if (bytes[i] === 13 && bytes[i + 1] === 10 && bytes[i + 2] === 13 && bytes[i + 3] === 10) return i;
+  }
+  return -1;
+}
+
+// Splits a multipart/x-mixed-replace body into parts using each part's Content-Length
+async function readMultipart(
+  reader: ReadableStreamDefaultReader<Uint8Array>,
+  onPart: (headers: Map<string, string>, body: Uint8Array) => void,
+) {
+  const decoder = new TextDecoder();
+  let buffer = new Uint8Array(0);
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) return;
+
+    const joined = new Uint8Array(buffer.length + value.length);
+    joined.set(buffer);
+    joined.set(value, buffer.length);
+    buffer = joined;
+
+    for (;;) {
+      const headerEnd = indexOfHeaderEnd(buffer);
+      if (headerEnd < 0) break;
+
+      // The header block starts with the boundary line, which has no colon and is skipped
+      const headers = new Map<string, string>();
+      for (const line of decoder.decode(buffer.subarray(0, headerEnd)).split("\r\n")) {
+        const colon = line.indexOf(":");
+        if (colon > 0) headers.set(line.slice(0, colon).trim().toLowerCase(), line.slice(colon + 1).trim());
+      }
+
+      const length = Number(headers.get("content-length"));
+      if (!Number.isInteger(length)) throw new Error("MJPEG part without a Content-Length");
+
+      const bodyStart = headerEnd + 4;
+      if (buffer.length < bodyStart + length) break;
+      onPart(headers, buffer.slice(bodyStart, bodyStart + length));
+      buffer = buffer.slice(bodyStart + length);
+    }
+  }
+}
+
+function createMjpegTransport(endpoint: RendererEndpoint, handlers: TransportHandlers): RendererTransport {
+  const controller = new AbortController();
+  const send = createMessagePoster(endpoint, handlers, controller.signal);
+  const reportClock = createClockReporter(handlers);
+
+  return {
+    kind: "mjpeg",
+    async open() {
+      const timer = setTimeout(() => controller.abort(), OPEN_TIMEOUT_MS);
+      let response: Response;
+      try {
+        response = await fetch(endpointUrl(endpoint, "http", "/stream"), { cache: "no-store", signal: controller.signal });
+      } finally {
+        clearTimeout(timer);
+      }
+      if (!response.ok || !response.body) throw new Error(`GET /stream answered ${response.status}`);
+
+      readMultipart(response.body.getReader(), (headers, body) => {
+        reportClock(name => headers.get(name));
+        handlers.onFrame({
+          sequence: headerNumber(headers.get("x-sequence")),
+          renderedAt: headerNumber(headers.get("x-rendered-at")),
+          data: new Blob([body as BlobPart], { type: headers.get("content-type") ?? "image/jpeg" }),
+        });
+      })
+        .catch(error => {
+          if (!controller.signal.aborted) console.error("MJPEG stream error:", error);
+        })
+        .finally(() => {
+          if (!controller.signal.aborted) handlers.onClose();
+        });
+    },
+    send,
+    // The server keeps at most two frames queued per stream, which bounds latency without acks
+    acknowledge() {},
+    close() {
+      controller.abort();
+    },
+  };
+}
+
+function createPollingTransport(endpoint: RendererEndpoint, handlers: TransportHandlers): RendererTransport {
+  const controller = new AbortController();
+  const post = createMessagePoster(endpoint, handlers, controller.signal);
+  const reportClock = createClockReporter(handlers);
+  let targetFps = 60;
+
+  const fetchFrame = async () => {
+    const response = await fetch(endpointUrl(endpoint, "http", "/frame"), { cache: "no-store", signal: controller.signal });
+    if (!response.ok) throw new Error(`GET /frame answered ${response.status}`);
+    reportClock(name => response.headers.get(name));
+    handlers.onFrame({
+      sequence: headerNumber(response.headers.get("x-sequence")),
+      renderedAt: headerNumber(response.headers.get("x-rendered-at")),
+      data: await response.blob(),
+    });
+  };
+
+  const poll = async () => {
+    while (!controller.signal.aborted) {
+      const started = performance.now();
+      try {
+        await fetchFrame();
+      } catch (error) {
+        if (controller.signal.aborted) return;
+        console.error("Frame polling error:", error);
+        handlers.onClose();
+        return;
+      }
+      const wait = 1000 / targetFps - (performance.now() - started);
+      if (wait > 0) await new Promise(resolve => setTimeout(resolve, wait));
+    }
+  };
+
+  return {
+    kind: "polling",
+    async open() {
+      const timer = setTimeout(() => controller.abort(), OPEN_TIMEOUT_MS);
+      try {
+        await fetchFrame();
+      } finally {
+        clearTimeout(timer);
+      }
+      poll();
+    },
+    send(message) {
+      // Polling paces itself, so it needs to know the requested frame rate
+      if (message.type === "config" && typeof message.targetFps === "number") targetFps = message.targetFps;
+      post(message);
+    },
+    // Each poll waits for the previous frame, so there is never more than one in flight
+    acknowledge() {},
+    close() {
+      controller.abort();
+    },
+  };
+}
@@ -0,0 +1,87 @@
+"use client";
+
+import {
+  MAX_RENDER_SIZE,
+  MIN_RENDER_SIZE,
+  RESOLUTION_PRESETS,
+  RESOLUTION_SCALES,
+  type ResolutionPreset,
+  type ResolutionSettings as Resolution,
+  type Size,
+} from "./render-resolution";
+
+interface ResolutionSettingsProps {
+  resolution: Resolution;
+  renderSize: Size;
+  // Largest size the connected renderer supports, when it said
+  sizeLimit: Size | null;
+  onChange: (resolution: Resolution) => void;
+}
+
+export default function ResolutionSettings({ resolution, renderSize, sizeLimit, onChange }: ResolutionSettingsProps) {
+  const inputClass = "w-16 bg-black border border-[#2a2a2e] rounded px-2 py-0.5 text-[#8a8a8e] focus:outline-none focus:border-[#3a3a4e]";
+
+  const setCustomSide = (side: "customWidth" | "customHeight", value: string) => {
+    const size = Number(value);
+    if (!Number.isInteger(size) || size < MIN_RENDER_SIZE || size > MAX_RENDER_SIZE) return;
+    onChange({ ...resolution, [side]: size });
+  };
+
+  return (
+    <div className="flex items-center gap-3 text-sm text-[#5a5a5e]">
+      <label className="flex items-center gap-2">
+        Resolution
+        <select
+          value={resolution.preset}
+          onChange={e => onChange({ ...resolution, preset: e.target.value as ResolutionPreset })}
+          className="bg-black border border-[#2a2a2e] rounded text-[#8a8a8e]"
+        >
+          {RESOLUTION_PRESETS.map(preset => (
+            <option key={preset.id} value={preset.id}>{preset.label}</option>
+          ))}
+        </select>
+      </label>
+
+      {resolution.preset === "custom" && (
+        <div className="flex items-center gap-1">
+          <input
+            type="number"
+            min={MIN_RENDER_SIZE}
+            max={MAX_RENDER_SIZE}
+            defaultValue={resolution.customWidth}
+            onBlur={e => setCustomSide("customWidth", e.target.value)}
+            className={inputClass}
+          />
+          x
+          <input
+            type="number"
+            min={MIN_RENDER_SIZE}
+            max={MAX_RENDER_SIZE}
+            defaultValue={resolution.customHeight}
+            onBlur={e => setCustomSide("customHeight", e.target.value)}
+            className={inputClass}
+          />
+        </div>
+      )}
+
+      <label className="flex items-center gap-2" title={resolution.preset === "fit" ? "Relative to the panel's device pixels" : "Relative to the preset size"}>
+        Scale
+        <select
+          value={resolution.scale}
+          onChange={e => onChange({ ...resolution, scale: Number(e.target.value) })}
+          className="bg-black border border-[#2a2a2e] rounded text-[#8a8a8e]"
+        >
+          {RESOLUTION_SCALES.map(scale => <option key={scale} value={scale}>{scale}x</option>)}
+        </select>
+      </label>
+
+      <span
+        title={sizeLimit ? `The renderer supports up to ${sizeLimit.width}x${sizeLimit.height}` : undefined}
+        className="text-xs font-mono text-[#4a4a4e]"
+      >
+        {renderSize.width}x{renderSize.height}
+        {sizeLimit && (renderSize.width === sizeLimit.width || renderSize.height === sizeLimit.height) && " (max)"}
+      </span>
+    </div>
+  );
+}
@@ -1,13 +1,57 @@
+import type { ShaderFile } from "./shader-includes";
+import type { BufferPass } from "./shader-passes";
+
+export type ExampleDifficulty = "beginner" | "intermediate" | "advanced";
+
+// Inputs an example responds to, beyond time
+export type ExampleInput = "mouse" | "keyboard" | "textures" | "params";
+
+export const EXAMPLE_DIFFICULTIES: ExampleDifficulty[] = ["beginner", "intermediate", "advanced"];
+
 export interface ShaderExample {
   name: string;
   description: string;
+  tags: string[];
+  difficulty: ExampleDifficulty;
+  author: string;
+  inputs: ExampleInput[];
+  // The image pass
   code: string;
+  // Buffer passes rendered before it, for feedback effects
+  passes?: BufferPass[];
+  // Headers the passes include
+  files?: ShaderFile[];
 }
 
+// Header shared by the examples: the full-screen triangle pair with uv in [0, 1], origin bottom-left
+export const SHADER_PRELUDE = `#include <metal_stdlib>
+using namespace metal;
+
+struct VertexOut {
+    float4 position [[position]];
+    float2 uv;
+};
+
+vertex VertexOut vertex_main(uint vertexID [[vertex_id]]) {
+    float2 positions[6] = {
+        float2(-1, -1), float2(1, -1), float2(-1, 1),
+        float2(-1, 1), float2(1, -1), float2(1, 1)
+    };
+    
+    VertexOut out;
+    out.position = float4(positions[vertexID], 0, 1);
+    out.uv = positions[vertexID] * 0.5 + 0.5;
+    return out;
+}`;
+
 export const SHADER_EXAMPLES: ShaderExample[] = [
   {
     name: "Gradient Wave",
     description: "Animated color gradient with wave distortion",
+    tags: ["2d", "color"],
+    difficulty: "beginner",
+    author: "Metal Playground",
+    inputs: ["mouse"],
     code: `#include <metal_stdlib>
 using namespace metal;
 
@@ -55,6 +99,10 @@ fragment float4 fragment_main(VertexOut in [[stage_in]],
   {
     name: "Metaballs",
     description: "Classic metaball effect with smooth blending",
+    tags: ["2d", "sdf"],
+    difficulty: "beginner",
+    author: "Metal Playground",
+    inputs: ["mouse"],
     code: `#include <metal_stdlib>
 using namespace metal;
 
@@ -114,6 +162,10 @@ fragment float4 fragment_main(VertexOut in [[stage_in]],
   {
     name: "Raymarched Sphere",
     description: "Simple raymarched sphere with lighting",
+    tags: ["3d", "raymarching", "lighting"],
+    difficulty: "intermediate",
+    author: "Metal Playground",
+    inputs: ["mouse"],
     code: `#include <metal_stdlib>
 using namespace metal;
 
@@ -196,6 +248,10 @@ fragment float4 fragment_main(VertexOut in [[stage_in]],
   {
     name: "Fractal Noise",
     description: "Animated fractal brownian motion noise",
+    tags: ["2d", "noise", "procedural"],
+    difficulty: "intermediate",
+    author: "Metal Playground",
+    inputs: ["mouse"],
     code: `#include <metal_stdlib>
 using namespace metal;
 
@@ -278,6 +334,10 @@ fragment float4 fragment_main(VertexOut in [[stage_in]],
   {
     name: "Voronoi Cells",
     description: "Animated voronoi diagram with cell coloring",
+    tags: ["2d", "noise", "procedural"],
+    difficulty: "intermediate",
+    author: "Metal Playground",
+    inputs: ["mouse"],
     code: `#include <metal_stdlib>
 using namespace metal;
 
@@ -373,6 +433,10 @@ fragment float4 fragment_main(VertexOut in [[stage_in]],
   {
     name: "Plasma",
     description: "Classic demoscene plasma effect",
+    tags: ["2d", "demoscene", "color"],
+    difficulty: "beginner",
+    author: "Metal Playground",
+    inputs: ["mouse"],
     code: `#include <metal_stdlib>
 using namespace metal;
 
@@ -422,10 +486,21 @@ fragment float4 fragment_main(VertexOut in [[stage_in]],
   },
   {
     name: "Reaction Diffusion",
-    description: "Gray-Scott reaction diffusion pattern",
-    code: `#include <metal_stdlib>
+    description: "Gray-Scott reaction diffusion simulated in a feedback buffer",
+    tags: ["2d", "simulation", "feedback"],
+    difficulty: "advanced",
+    author: "Metal Playground",
+    inputs: ["mouse"],
+    passes: [
+      {
+        name: "A",
+        scale: 0.5,
+        code: `#include <metal_stdlib>
 using namespace metal;
 
+// One Gray-Scott step per frame. Red holds chemical u, green chemical v.
+// Hold a mouse button to add v; restarting playback reseeds the grid.
+
 struct VertexOut {
     float4 position [[position]];
     float2 uv;
@@ -447,49 +522,80 @@ float hash(float2 p) {
     return fract(sin(dot(p, float2(127.1, 311.7))) * 43758.5453);
 }
 
+// Wraps around the edges so the pattern tiles
+float2 cell(texture2d<float> state, int2 p) {
+    int2 size = int2(state.get_width(), state.get_height());
+    return state.read(uint2((p + size) % size)).rg;
+}
+
 fragment float4 fragment_main(VertexOut in [[stage_in]],
                               constant float &time [[buffer(0)]],
-                              constant float2 &mouse [[buffer(1)]]) {
-    float2 uv = in.uv;
+                              constant MouseState &mouseState [[buffer(3)]],
+                              texture2d<float> bufferA [[texture(4)]]) {
+    if (time < 0.05) {
+        float seed = step(0.9, hash(floor(in.uv * 16.0)));
+        return float4(1.0, seed, 0.0, 1.0);
+    }
     
-    // Simulate reaction-diffusion pattern using noise
-    float scale = 8.0 + sin(time * 0.2) * 2.0;
-    float2 p = uv * scale;
+    int2 p = int2(in.position.xy);
+    float2 center = cell(bufferA, p);
+    float2 laplacian = -center
+        + 0.2 * (cell(bufferA, p + int2(1, 0)) + cell(bufferA, p - int2(1, 0)) + cell(bufferA, p + int2(0, 1)) + cell(bufferA, p - int2(0, 1)))
+        + 0.05 * (cell(bufferA, p + int2(1, 1)) + cell(bufferA, p - int2(1, 1)) + cell(bufferA, p + int2(1, -1)) + cell(bufferA, p - int2(1, -1)));
+    
+    float u = center.x;
+    float v = center.y;
+    float feed = 0.055;
+    float kill = 0.062;
+    float reaction = u * v * v;
+    u += 1.0 * laplacian.x - reaction + feed * (1.0 - u);
+    v += 0.5 * laplacian.y + reaction - (feed + kill) * v;
+    
+    if (mouseState.buttons != 0u && length(in.uv - mouseState.position) < 0.02) {
+        v = 0.9;
+    }
     
-    float pattern = 0.0;
-    float amp = 1.0;
+    return float4(saturate(u), saturate(v), 0.0, 1.0);
+}`,
+      },
+    ],
+    code: `#include <metal_stdlib>
+using namespace metal;
+
+// The image pass colors the simulation that buffer A advances every frame.
+
+struct VertexOut {
+    float4 position [[position]];
+    float2 uv;
+};
+
+vertex VertexOut vertex_main(uint vertexID [[vertex_id]]) {
+    float2 positions[6] = {
+        float2(-1, -1), float2(1, -1), float2(-1, 1),
+        float2(-1, 1), float2(1, -1), float2(1, 1)
+    };
     
-    for (int i = 0; i < 5; i++) {
-        float2 offset = float2(
-            sin(time * 0.1 * float(i + 1)),
-            cos(time * 0.1 * float(i + 1))
-        ) * 0.5;
-        
-        float n = hash(floor(p + offset));
-        n = sin(n * 50.0 + time) * 0.5 + 0.5;
-        
-        float2 f = fract(p + offset);
-        float d = length(f - 0.5);
-        
-        pattern += smoothstep(0.3 + n * 0.2, 0.0, d) * amp;
-        
-        p *= 2.0;
-        amp *= 0.5;
-    }
+    VertexOut out;
+    out.position = float4(positions[vertexID], 0, 1);
+    out.uv = positions[vertexID] * 0.5 + 0.5;
+    return out;
+}
+
+fragment float4 fragment_main(VertexOut in [[stage_in]],
+                              texture2d<float> bufferA [[texture(4)]],
+                              sampler bufferASampler [[sampler(4)]]) {
+    float2 uv = in.uv;
     
-    // Mouse creates ripple
-    float mouseDist = length(uv - mouse);
-    float ripple = sin(mouseDist * 30.0 - time * 3.0) * 0.5 + 0.5;
-    ripple *= smoothstep(0.4, 0.0, mouseDist);
-    pattern += ripple * 0.3;
+    // Buffers are stored top row first
+    float v = bufferA.sample(bufferASampler, float2(uv.x, 1.0 - uv.y)).g;
     
     // Organic coloring
     float3 col1 = float3(0.02, 0.05, 0.08);
     float3 col2 = float3(0.1, 0.2, 0.3);
-    float3 col3 = float3(0.2, 0.25, 0.2);
+    float3 col3 = float3(0.8, 0.85, 0.6);
     
-    float3 color = mix(col1, col2, smoothstep(0.2, 0.5, pattern));
-    color = mix(color, col3, smoothstep(0.6, 0.9, pattern));
+    float3 color = mix(col1, col2, smoothstep(0.05, 0.2, v));
+    color = mix(color, col3, smoothstep(0.2, 0.4, v));
     
     return float4(color, 1.0);
 }`,
@@ -497,6 +603,10 @@ fragment float4 fragment_main(VertexOut in [[stage_in]],
   {
     name: "Tunnel",
     description: "Infinite tunnel with warping",
+    tags: ["2d", "demoscene"],
+    difficulty: "intermediate",
+    author: "Metal Playground",
+    inputs: ["mouse"],
     code: `#include <metal_stdlib>
 using namespace metal;
 
@@ -561,4 +671,254 @@ fragment float4 fragment_main(VertexOut in [[stage_in]],
     return float4(color, 1.0);
 }`,
   },
+  {
+    name: "Tunable Rings",
+    description: "Concentric rings driven by annotated parameters",
+    tags: ["2d", "parameters"],
+    difficulty: "beginner",
+    author: "Metal Playground",
+    inputs: ["mouse", "params"],
+    code: `#include <metal_stdlib>
+using namespace metal;
+
+// Annotated parameters become controls in the Parameters panel.
+// They are packed into a ShaderParams struct bound at buffer(2).
+// @param float speed = 1.5 [0, 10]
+// @param float frequency = 24.0 [1, 64]
+// @param float2 center = (0.5, 0.5)
+// @param bool followMouse = false
+// @color inner = #3a6ea5
+// @color outer = #140a1e
+
+struct VertexOut {
+    float4 position [[position]];
+    float2 uv;
+};
+
+vertex VertexOut vertex_main(uint vertexID [[vertex_id]]) {
+    float2 positions[6] = {
+        float2(-1, -1), float2(1, -1), float2(-1, 1),
+        float2(-1, 1), float2(1, -1), float2(1, 1)
+    };
+    
+    VertexOut out;
+    out.position = float4(positions[vertexID], 0, 1);
+    out.uv = positions[vertexID] * 0.5 + 0.5;
+    return out;
+}
+
+fragment float4 fragment_main(VertexOut in [[stage_in]],
+                              constant float &time [[buffer(0)]],
+                              constant float2 &mouse [[buffer(1)]],
+                              constant ShaderParams &params [[buffer(2)]]) {
+    float2 center = params.followMouse ? mouse : params.center;
+    float d = length(in.uv - center);
+    
+    float rings = sin(d * params.frequency - time * params.speed) * 0.5 + 0.5;
+    float3 color = mix(params.outer, params.inner, rings * smoothstep(0.8, 0.0, d));
+    
+    return float4(color, 1.0);
+}`,
+  },
+  {
+    name: "Input Explorer",
+    description: "Mouse buttons, drag, wheel and keyboard state",
+    tags: ["interaction"],
+    difficulty: "beginner",
+    author: "Metal Playground",
+    inputs: ["mouse", "keyboard"],
+    code: `#include <metal_stdlib>
+using namespace metal;
+
+// Drag to draw a line from the click position, scroll to zoom the grid.
+// Click the canvas to focus it, then hold the arrow keys or press space.
+// MouseState and KeyboardState are declared by the playground.
+
+struct VertexOut {
+    float4 position [[position]];
+    float2 uv;
+};
+
+vertex VertexOut vertex_main(uint vertexID [[vertex_id]]) {
+    float2 positions[6] = {
+        float2(-1, -1), float2(1, -1), float2(-1, 1),
+        float2(-1, 1), float2(1, -1), float2(1, 1)
+    };
+    
+    VertexOut out;
+    out.position = float4(positions[vertexID], 0, 1);
+    out.uv = positions[vertexID] * 0.5 + 0.5;
+    return out;
+}
+
+float segment(float2 p, float2 a, float2 b) {
+    float2 pa = p - a;
+    float2 ba = b - a;
+    float h = clamp(dot(pa, ba) / max(dot(ba, ba), 1e-6), 0.0, 1.0);
+    return length(pa - ba * h);
+}
+
+fragment float4 fragment_main(VertexOut in [[stage_in]],
+                              constant float &time [[buffer(0)]],
+                              constant MouseState &mouseState [[buffer(3)]],
+                              constant KeyboardState &keyboard [[buffer(4)]]) {
+    float2 uv = in.uv;
+    
+    // Wheel zooms the background grid
+    float zoom = exp2(clamp(mouseState.wheel.y * 0.25, -4.0, 4.0));
+    float2 grid = abs(fract((uv - 0.5) * 10.0 * zoom) - 0.5);
+    float lines = smoothstep(0.46, 0.5, max(grid.x, grid.y));
+    
+    // Space toggles the palette
+    float3 base = keyboard.toggled[32] ? float3(0.12, 0.05, 0.1) : float3(0.04, 0.06, 0.12);
+    float3 color = base + lines * 0.08;
+    
+    // Left, right and middle buttons tint the cursor red, green and blue
+    uint buttons = mouseState.buttons;
+    float3 cursorColor = float3(float(buttons & 1u), float((buttons >> 1) & 1u), float((buttons >> 2) & 1u));
+    cursorColor = buttons == 0u ? float3(0.8) : cursorColor;
+    color = mix(color, cursorColor, smoothstep(0.02, 0.015, length(uv - mouseState.position)));
+    
+    if (mouseState.buttons != 0u) {
+        float2 start = mouseState.position - mouseState.drag;
+        color = mix(color, float3(1.0, 0.8, 0.3), smoothstep(0.004, 0.002, segment(uv, start, mouseState.position)));
+    }
+    color = mix(color, float3(0.3, 0.8, 1.0), smoothstep(0.012, 0.008, abs(length(uv - mouseState.clickPosition) - 0.02)));
+    
+    // Flash the whole frame on the first frame of a click
+    color += mouseState.clicked ? 0.15 : 0.0;
+    
+    // Arrow keys light up a d-pad in the corner
+    float2 pad = uv - float2(0.12, 0.12);
+    float2 arrows[4] = { float2(-1, 0), float2(0, 1), float2(1, 0), float2(0, -1) };
+    for (int i = 0; i < 4; i++) {
+        float held = keyboard.held[37 + i];
+        float d = length(pad - arrows[i] * 0.05);
+        color = mix(color, mix(float3(0.2), float3(0.3, 1.0, 0.5), held), smoothstep(0.022, 0.018, d));
+    }
+    
+    return float4(color, 1.0);
+}`,
+  },
+  {
+    name: "Texture Channels",
+    description: "Samples channel 0 through a wobbling lens, with channel 1 as a distortion map",
+    tags: ["2d", "textures"],
+    difficulty: "beginner",
+    author: "Metal Playground",
+    inputs: ["mouse", "textures"],
+    code: `#include <metal_stdlib>
+using namespace metal;
+
+// Fill channel 0 with an image or the webcam and channel 1 with noise in the Channels panel.
+// Channel N is bound at texture(N), and its filter and wrap settings arrive as sampler(N).
+// Empty channels sample black.
+
+struct VertexOut {
+    float4 position [[position]];
+    float2 uv;
+};
+
+vertex VertexOut vertex_main(uint vertexID [[vertex_id]]) {
+    float2 positions[6] = {
+        float2(-1, -1), float2(1, -1), float2(-1, 1),
+        float2(-1, 1), float2(1, -1), float2(1, 1)
+    };
+    
+    VertexOut out;
+    out.position = float4(positions[vertexID], 0, 1);
+    out.uv = positions[vertexID] * 0.5 + 0.5;
+    return out;
+}
+
+fragment float4 fragment_main(VertexOut in [[stage_in]],
+                              constant float &time [[buffer(0)]],
+                              constant float2 &mouse [[buffer(1)]],
+                              texture2d<float> channel0 [[texture(0)]],
+                              sampler channel0Sampler [[sampler(0)]],
+                              texture2d<float> channel1 [[texture(1)]],
+                              sampler channel1Sampler [[sampler(1)]]) {
+    float2 uv = in.uv;
+    
+    // The noise in channel 1 scrolls slowly and nudges the lookup into channel 0
+    float2 offset = channel1.sample(channel1Sampler, uv * 0.5 + time * 0.02).rg - 0.5;
+    
+    // A lens around the mouse magnifies the image
+    float2 toMouse = uv - mouse;
+    float lens = smoothstep(0.25, 0.0, length(toMouse));
+    float2 lookup = uv - toMouse * lens * 0.5 + offset * 0.03;
+    
+    float3 color = channel0.sample(channel0Sampler, lookup).rgb;
+    color += lens * 0.05;
+    
+    return float4(color, 1.0);
+}`,
+  },
+  {
+    name: "Library Includes",
+    description: "A raymarched scene built from the lib/ headers, with the scene in its own file",
+    tags: ["3d", "raymarching", "lighting", "library"],
+    difficulty: "advanced",
+    author: "Metal Playground",
+    inputs: ["mouse"],
+    code: `#include "lib/common.h"
+#include "lib/color.h"
+#include "scene.h"
+
+// lib/common.h brings the Metal preamble, VertexOut and vertex_main. The lib/ headers open read-only
+// from the Library menu above; scene.h is this shader's own file, in the tab next to Image.
+
+fragment float4 fragment_main(VertexOut in [[stage_in]],
+                              constant float &time [[buffer(0)]],
+                              constant float2 &mouse [[buffer(1)]]) {
+    float2 p = centeredUV(in.uv, 800.0 / 600.0);
+    
+    // The camera orbits with time; the mouse turns and raises it
+    float angle = time * 0.3 + (mouse.x - 0.5) * PI;
+    float3 eye = float3(4.0 * sin(angle), 0.5 + mouse.y * 2.0, 4.0 * cos(angle));
+    float3 direction = cameraRay(p, eye, float3(0.0), 1.8);
+    
+    float3 sky = mix(float3(0.6, 0.7, 0.9), float3(0.1, 0.15, 0.3), saturate(direction.y * 2.0));
+    float3 color = sky;
+    float t = raymarch(eye, direction, 30.0);
+    if (t > 0.0) {
+        float3 hit = eye + direction * t;
+        float3 normal = calcNormal(hit);
+        float3 light = normalize(float3(0.6, 0.8, 0.4));
+        float diffuse = max(dot(normal, light), 0.0) * softShadow(hit + normal * 0.01, light, 0.02, 10.0, 12.0);
+        color = sceneColor(hit, time) * (0.2 * ambientOcclusion(hit, normal) + diffuse);
+        color = mix(color, sky, 1.0 - exp(-0.01 * t * t));
+    }
+    
+    return float4(linearToSrgb(acesTonemap(color * 1.5)), 1.0);
+}`,
+    files: [
+      {
+        name: "scene.h",
+        code: `#pragma once
+#include "lib/raymarch.h"
+#include "lib/sdf.h"
+#include "lib/color.h"
+
+// lib/raymarch.h declares map(); defining it here is what the raymarcher traces
+float map(float3 p) {
+    float ground = p.y + 1.0;
+    float ring = sdTorus(p, float2(1.0, 0.25));
+    float core = sdSphere(p - float3(0.0, 0.2, 0.0), 0.55);
+    float pillar = sdCapsule(p, float3(0.0, -1.0, 0.0), float3(0.0), 0.12);
+    float shape = opSmoothUnion(opSmoothUnion(ring, core, 0.25), pillar, 0.2);
+    return opUnion(shape, ground);
+}
+
+// A checkered floor under shapes painted with a drifting rainbow
+float3 sceneColor(float3 p, float time) {
+    if (p.y < -0.99) {
+        float checker = abs(fmod(floor(p.x) + floor(p.z), 2.0));
+        return float3(0.25 + 0.2 * checker);
+    }
+    return rainbow(p.y * 0.3 + time * 0.1);
+}`,
+      },
+    ],
+  },
 ];
@@ -0,0 +1,196 @@
+import type { MetalDiagnostic } from "./metal-diagnostics";
+import type { LintIssue } from "./msl-lint";
+import { libraryFile } from "./shader-library";
+import { passCode, passLabel, pathPass, samePasses, type BufferPass } from "./shader-passes";
+
+// A header or source file of a project, included from passes with #include "name"
+export interface ShaderFile {
+  name: string;
+  code: string;
+}
+
+// Everything one shader is made of: the image pass, its buffer passes and the files they include
+export interface ShaderSources {
+  code: string;
+  passes: BufferPass[];
+  files: ShaderFile[];
+}
+
+export interface SourceLocation {
+  file: string;
+  line: number;
+}
+
+export interface IncludeError extends SourceLocation {
+  column: number;
+  message: string;
+}
+
+export interface ResolvedSource {
+  code: string;
+  // Where each line of `code` came from, indexed by line - 1
+  lineMap: SourceLocation[];
+  errors: IncludeError[];
+}
+
+// Only quoted includes are resolved here; <metal_stdlib> and friends are left to the compiler
+const INCLUDE_DIRECTIVE = /^\s*#\s*include\s*"([^"]*)"/;
+const PRAGMA_ONCE = /^\s*#\s*pragma\s+once\b/;
+
+const FILE_NAME = /^[A-Za-z0-9_-][A-Za-z0-9_.-]*\.(h|metal)$/;
+
+// Names of passes' documents are taken
+export function isValidFileName(name: string): boolean {
+  return FILE_NAME.test(name) && pathPass(name) === null;
+}
+
+// Library headers take precedence, and their lib/ prefix cannot occur in a project file name
+export function findFile(files: ShaderFile[], name: string): ShaderFile | undefined {
+  return libraryFile(name) ?? files.find(file => file.name === name);
+}
+
+export function sameFiles(a: ShaderFile[], b: ShaderFile[]): boolean {
+  return a.length === b.length && a.every((file, index) => file.name === b[index].name && file.code === b[index].code);
+}
+
+export function sameSources(a: ShaderSources, b: ShaderSources): boolean {
+  return a.code === b.code && samePasses(a.passes, b.passes) && sameFiles(a.files, b.files);
+}
+
+// Editor documents are named by path: passes by passPath, project files and library headers by name
+export function documentCode(sources: ShaderSources, path: string): string | undefined {
+  const pass = pathPass(path);
+  if (pass) return pass === "image" || sources.passes.some(p => p.name === pass) ? passCode(sources.code, sources.passes, pass) : undefined;
+  return findFile(sources.files, path)?.code;
+}
+
+export function withDocumentCode(sources: ShaderSources, path: string, code: string): ShaderSources {
+  const pass = pathPass(path);
+  if (pass === "image") return { ...sources, code };
+  if (pass) return { ...sources, passes: sources.passes.map(p => (p.name === pass ? { ...p, code } : p)) };
+  return { ...sources, files: sources.files.map(file => (file.name === path ? { ...file, code } : file)) };
+}
+
+export function documentLabel(path: string): string {
+  const pass = pathPass(path);
+  return pass ? passLabel(pass) : path;
+}
+
+// New files are headers that already include the shared preamble
+export function newShaderFile(files: ShaderFile[]): ShaderFile {
+  let name = "utils.h";
+  for (let n = 2; files.some(file => file.name === name); n++) name = `utils-${n}.h`;
+  return { name, code: `#pragma once\n#include "lib/common.h"\n\n` };
+}
+
+// Points includes of a renamed file at its new name
+export function renameIncludes(code: string, from: string, to: string): string {
+  const escaped = from.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  return code.replace(new RegExp(`^(\\s*#\\s*include\\s*)"${escaped}"`, "gm"), `$1"${to}"`);
+}
+
+// Whether a block comment is still open after this line
+function inCommentAfter(line: string, inComment: boolean): boolean {
+  let i = 0;
+  while (i < line.length) {
+    if (inComment) {
+      const end = line.indexOf("*/", i);
+      if (end < 0) return true;
+      inComment = false;
+      i = end + 2;
+    } else if (line.startsWith("//", i)) {
+      return false;
+    } else if (line.startsWith("/*", i)) {
+      inComment = true;
+      i += 2;
+    } else {
+      i++;
+    }
+  }
+  return inComment;
+}
+
+// Inlines quoted includes. Every file is included at most once, as if each had #pragma once, so headers
+// may include each other freely. Replaced lines stay in place as blank lines, keeping the line map exact.
+export function resolveIncludes(name: string, code: string, files: ShaderFile[]): ResolvedSource {
+  const lines: string[] = [];
+  const lineMap: SourceLocation[] = [];
+  const errors: IncludeError[] = [];
+  const included = new Set<string>([name]);
+
+  const expand = (file: string, source: string) => {
+    let inComment = false;
+    source.split("\n").forEach((text, index) => {
+      const location = { file, line: index + 1 };
+      const directive = inComment ? null : text;
+      inComment = inCommentAfter(text, inComment);
+
+      const include = directive === null ? null : INCLUDE_DIRECTIVE.exec(directive);
+      if (!include) {
+        lines.push(directive !== null && PRAGMA_ONCE.test(directive) ? "" : text);
+        lineMap.push(location);
+        return;
+      }
+
+      lines.push("");
+      lineMap.push(location);
+      const target = include[1];
+      const header = findFile(files, target);
+      if (!header) {
+        errors.push({ ...location, column: text.indexOf("\"") + 1, message: `Cannot find "${target}". Include a file of this project or a lib/ header.` });
+      } else if (!included.has(target)) {
+        included.add(target);
+        expand(target, header.code);
+      }
+    });
+  };
+
+  expand(name, code);
+  return { code: lines.join("\n"), lineMap, errors };
+}
+
+export function sourceLocation(resolved: ResolvedSource, line: number): SourceLocation {
+  const index = Math.min(Math.max(line, 1), resolved.lineMap.length) - 1;
+  return resolved.lineMap[index] ?? { file: "", line };
+}
+
+// Compiler output refers to the resolved source; this points each diagnostic back at the file it came from
+export function mapDiagnostics(diagnostics: MetalDiagnostic[], resolved: ResolvedSource): MetalDiagnostic[] {
+  return diagnostics.map(diagnostic => ({
+    ...diagnostic,
+    ...sourceLocation(resolved, diagnostic.line),
+    notes: diagnostic.notes.map(note => ({ ...note, ...sourceLocation(resolved, note.line) })),
+  }));
+}
+
+// Fixes are dropped because their ranges are in the resolved source; code actions recompute them from the file itself
+export function mapLintIssues(issues: LintIssue[], resolved: ResolvedSource): (LintIssue & { file: string })[] {
+  return issues.map(issue => {
+    const start = sourceLocation(resolved, issue.line);
+    const end = sourceLocation(resolved, issue.endLine);
+    const sameFile = end.file === start.file;
+    return {
+      ...issue,
+      file: start.file,
+      line: start.line,
+      endLine: sameFile ? end.line : start.line,
+      endColumn: sameFile ? issue.endColumn : issue.column + 1,
+      fixes: [],
+    };
+  });
+}
+
+export function includeDiagnostics(errors: IncludeError[]): MetalDiagnostic[] {
+  return errors.map(error => ({ ...error, severity: "error" as const, notes: [] }));
+}
+
+// A header shared by several passes reports the same problem once per pass
+export function uniqueProblems<T extends { file: string; line: number; column: number; message: string }>(problems: T[]): T[] {
+  const seen = new Set<string>();
+  return problems.filter(problem => {
+    const key = `${problem.file}:${problem.line}:${problem.column}:${problem.message}`;
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
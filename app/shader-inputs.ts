@@ -0,0 +1,42 @@
+export const MOUSE_STATE_BUFFER_INDEX = 3;
+export const KEYBOARD_BUFFER_INDEX = 4;
+// float2 size in pixels of what the pass renders into
+export const RESOLUTION_BUFFER_INDEX = 5;
+
+// Matches the byte layout MetalShaderRenderer writes into the mouse state buffer:
+// position is normalized with the origin bottom-left (like mouse), clickPosition is where the
+// current or last drag started, drag is position - clickPosition while a button is held, wheel
+// is the accumulated scroll in lines, buttons has bit 0 left, 1 right, 2 middle, and clicked is
+// 1 on the first frame after a button went down.
+export const MOUSE_STATE_STRUCT =
+  "struct MouseState { float2 position; float2 clickPosition; float2 drag; float2 wheel; uint buttons; uint clicked; };";
+
+// Indexed like ShaderToy's keyboard texture, by the keyCode a key has on a US layout (65 for A, 37-40 for
+// the arrows); the renderer maps each key by its physical position, so other layouts fill the same slots
+export const KEYBOARD_STATE_STRUCT = "struct KeyboardState { uchar held[256]; uchar pressed[256]; uchar toggled[256]; };";
+
+export function inputDeclarations(code: string): string[] {
+  const declarations: string[] = [];
+  if (/\bMouseState\b/.test(code) && !/\bstruct\s+MouseState\b/.test(code)) declarations.push(MOUSE_STATE_STRUCT);
+  if (/\bKeyboardState\b/.test(code) && !/\bstruct\s+KeyboardState\b/.test(code)) declarations.push(KEYBOARD_STATE_STRUCT);
+  return declarations;
+}
+
+export type MouseButton = 0 | 1 | 2;
+
+// DOM MouseEvent.button numbers middle as 1 and right as 2; shaders get left/right/middle bits
+export function shaderButton(domButton: number): MouseButton | null {
+  switch (domButton) {
+    case 0:
+      return 0;
+    case 2:
+      return 1;
+    case 1:
+      return 2;
+    default:
+      return null;
+  }
+}
+
+// Keys the page would otherwise act on (scrolling, focus changes) while the canvas has focus
+export const CAPTURED_KEYS = new Set(["ArrowUp", "ArrowDown", "ArrowLeft", "ArrowRight", " ", "Tab", "PageUp", "PageDown", "Home", "End"]);
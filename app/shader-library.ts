@@ -0,0 +1,275 @@
+import type { ShaderFile } from "./shader-includes";
+
+// Read-only headers every shader can include with #include "lib/<name>.h". Each one includes what it
+// depends on, and the preprocessor includes a file only once, so they can be combined freely.
+export const LIBRARY_PREFIX = "lib/";
+
+export interface LibraryFile extends ShaderFile {
+  description: string;
+}
+
+export const LIBRARY_FILES: LibraryFile[] = [
+  {
+    name: "lib/common.h",
+    description: "Metal preamble, VertexOut and the full-screen vertex_main, plus PI, TAU and rotate2d",
+    code: `#pragma once
+#include <metal_stdlib>
+using namespace metal;
+
+// Full-screen triangle pair with uv in [0, 1], origin bottom-left
+struct VertexOut {
+    float4 position [[position]];
+    float2 uv;
+};
+
+vertex VertexOut vertex_main(uint vertexID [[vertex_id]]) {
+    float2 positions[6] = {
+        float2(-1, -1), float2(1, -1), float2(-1, 1),
+        float2(-1, 1), float2(1, -1), float2(1, 1)
+    };
+
+    VertexOut out;
+    out.position = float4(positions[vertexID], 0, 1);
+    out.uv = positions[vertexID] * 0.5 + 0.5;
+    return out;
+}
+
+constant float PI = 3.14159265;
+constant float TAU = 6.28318531;
+
+// Rotates a 2D point counter-clockwise by angle radians
+float2x2 rotate2d(float angle) {
+    float c = cos(angle);
+    float s = sin(angle);
+    return float2x2(c, s, -s, c);
+}
+
+// Centered coordinates with y in [-1, 1] and x scaled by the aspect ratio
+float2 centeredUV(float2 uv, float aspect) {
+    float2 p = uv * 2.0 - 1.0;
+    p.x *= aspect;
+    return p;
+}`,
+  },
+  {
+    name: "lib/noise.h",
+    description: "Hashes, value noise, fractal Brownian motion and Voronoi cells",
+    code: `#pragma once
+#include "lib/common.h"
+
+float hash12(float2 p) {
+    return fract(sin(dot(p, float2(127.1, 311.7))) * 43758.5453);
+}
+
+float2 hash22(float2 p) {
+    p = float2(dot(p, float2(127.1, 311.7)), dot(p, float2(269.5, 183.3)));
+    return fract(sin(p) * 43758.5453);
+}
+
+// Smoothly interpolated lattice noise in [0, 1]
+float valueNoise(float2 p) {
+    float2 i = floor(p);
+    float2 f = fract(p);
+    f = f * f * (3.0 - 2.0 * f);
+
+    float a = hash12(i);
+    float b = hash12(i + float2(1, 0));
+    float c = hash12(i + float2(0, 1));
+    float d = hash12(i + float2(1, 1));
+
+    return mix(mix(a, b, f.x), mix(c, d, f.x), f.y);
+}
+
+// Sum of octaves of value noise, each at twice the frequency and half the amplitude
+float fbm(float2 p, int octaves) {
+    float value = 0.0;
+    float amplitude = 0.5;
+    float2x2 rotation = rotate2d(0.5);
+
+    for (int i = 0; i < octaves; i++) {
+        value += amplitude * valueNoise(p);
+        p = rotation * p * 2.0;
+        amplitude *= 0.5;
+    }
+    return value;
+}
+
+// Distance to the nearest cell point in x and to the second nearest in y
+float2 voronoi(float2 p) {
+    float2 cell = floor(p);
+    float2 f = fract(p);
+    float2 nearest = float2(8.0);
+
+    for (int y = -1; y <= 1; y++) {
+        for (int x = -1; x <= 1; x++) {
+            float2 neighbor = float2(x, y);
+            float d = length(neighbor + hash22(cell + neighbor) - f);
+            if (d < nearest.x) {
+                nearest = float2(d, nearest.x);
+            } else if (d < nearest.y) {
+                nearest.y = d;
+            }
+        }
+    }
+    return nearest;
+}`,
+  },
+  {
+    name: "lib/sdf.h",
+    description: "Signed distance functions for 2D and 3D shapes and the operators that combine them",
+    code: `#pragma once
+#include "lib/common.h"
+
+float sdCircle(float2 p, float radius) {
+    return length(p) - radius;
+}
+
+float sdBox2d(float2 p, float2 halfSize) {
+    float2 d = abs(p) - halfSize;
+    return length(max(d, 0.0)) + min(max(d.x, d.y), 0.0);
+}
+
+float sdSphere(float3 p, float radius) {
+    return length(p) - radius;
+}
+
+float sdBox(float3 p, float3 halfSize) {
+    float3 d = abs(p) - halfSize;
+    return length(max(d, 0.0)) + min(max(d.x, max(d.y, d.z)), 0.0);
+}
+
+// A torus around the y axis; radii.x is the ring radius, radii.y the tube radius
+float sdTorus(float3 p, float2 radii) {
+    float2 q = float2(length(p.xz) - radii.x, p.y);
+    return length(q) - radii.y;
+}
+
+float sdCapsule(float3 p, float3 a, float3 b, float radius) {
+    float3 pa = p - a;
+    float3 ba = b - a;
+    float h = saturate(dot(pa, ba) / dot(ba, ba));
+    return length(pa - ba * h) - radius;
+}
+
+float opUnion(float a, float b) {
+    return min(a, b);
+}
+
+float opSubtract(float a, float b) {
+    return max(a, -b);
+}
+
+float opIntersect(float a, float b) {
+    return max(a, b);
+}
+
+// Union with a rounded seam about k wide
+float opSmoothUnion(float a, float b, float k) {
+    float h = saturate(0.5 + 0.5 * (b - a) / k);
+    return mix(b, a, h) - k * h * (1.0 - h);
+}`,
+  },
+  {
+    name: "lib/color.h",
+    description: "Cosine palettes, HSV conversion, tone mapping and gamma",
+    code: `#pragma once
+#include "lib/common.h"
+
+// Inigo Quilez's cosine palette: a + b * cos(TAU * (c * t + d))
+float3 palette(float t, float3 a, float3 b, float3 c, float3 d) {
+    return a + b * cos(TAU * (c * t + d));
+}
+
+// A ready-made rainbow for palette-style coloring
+float3 rainbow(float t) {
+    return palette(t, float3(0.5), float3(0.5), float3(1.0), float3(0.0, 0.33, 0.67));
+}
+
+float3 hsv2rgb(float3 hsv) {
+    float3 rgb = saturate(abs(fmod(hsv.x * 6.0 + float3(0.0, 4.0, 2.0), 6.0) - 3.0) - 1.0);
+    return hsv.z * mix(float3(1.0), rgb, hsv.y);
+}
+
+// Narkowicz's fit of the ACES filmic curve, for colors above 1
+float3 acesTonemap(float3 color) {
+    return saturate((color * (2.51 * color + 0.03)) / (color * (2.43 * color + 0.59) + 0.14));
+}
+
+float3 linearToSrgb(float3 color) {
+    return pow(saturate(color), float3(1.0 / 2.2));
+}`,
+  },
+  {
+    name: "lib/raymarch.h",
+    description: "Camera rays, sphere tracing, normals, soft shadows and ambient occlusion for a map() you define",
+    code: `#pragma once
+#include "lib/common.h"
+
+// Define the scene in your shader: the signed distance from p to the nearest surface
+float map(float3 p);
+
+constant int MAX_STEPS = 128;
+constant float SURFACE_DISTANCE = 0.001;
+
+// Ray direction through uv (centered, y in [-1, 1]) for a camera at eye looking at target
+float3 cameraRay(float2 uv, float3 eye, float3 target, float zoom) {
+    float3 forward = normalize(target - eye);
+    float3 right = normalize(cross(float3(0, 1, 0), forward));
+    float3 up = cross(forward, right);
+    return normalize(uv.x * right + uv.y * up + zoom * forward);
+}
+
+// Distance along the ray to the first surface, or -1 if nothing is hit within maxDistance
+float raymarch(float3 origin, float3 direction, float maxDistance) {
+    float t = 0.0;
+    for (int i = 0; i < MAX_STEPS; i++) {
+        float d = map(origin + direction * t);
+        if (d < SURFACE_DISTANCE) return t;
+        t += d;
+        if (t > maxDistance) break;
+    }
+    return -1.0;
+}
+
+float3 calcNormal(float3 p) {
+    float2 e = float2(0.001, 0);
+    return normalize(float3(
+        map(p + e.xyy) - map(p - e.xyy),
+        map(p + e.yxy) - map(p - e.yxy),
+        map(p + e.yyx) - map(p - e.yyx)
+    ));
+}
+
+// 0 in full shadow, 1 fully lit; larger k gives harder shadows
+float softShadow(float3 origin, float3 direction, float minT, float maxT, float k) {
+    float result = 1.0;
+    float t = minT;
+    for (int i = 0; i < 64 && t < maxT; i++) {
+        float d = map(origin + direction * t);
+        if (d < SURFACE_DISTANCE) return 0.0;
+        result = min(result, k * d / t);
+        t += d;
+    }
+    return saturate(result);
+}
+
+float ambientOcclusion(float3 p, float3 normal) {
+    float occlusion = 0.0;
+    float weight = 1.0;
+    for (int i = 1; i <= 5; i++) {
+        float offset = 0.03 * float(i);
+        occlusion += weight * (offset - map(p + normal * offset));
+        weight *= 0.6;
+    }
+    return saturate(1.0 - 2.0 * occlusion);
+}`,
+  },
+];
+
+export function isLibraryPath(path: string): boolean {
+  return path.startsWith(LIBRARY_PREFIX);
+}
+
+export function libraryFile(path: string): LibraryFile | undefined {
+  return LIBRARY_FILES.find(file => file.name === path);
+}
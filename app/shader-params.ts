@@ -0,0 +1,217 @@
+export const PARAMS_BUFFER_INDEX = 2;
+export const PARAMS_STRUCT_NAME = "ShaderParams";
+
+export type ShaderParamType = "float" | "int" | "bool" | "float2" | "color";
+
+export type ShaderParamValue = number | boolean | [number, number] | [number, number, number];
+
+export interface ShaderParam {
+  name: string;
+  type: ShaderParamType;
+  defaultValue: ShaderParamValue;
+  min: number;
+  max: number;
+  step: number;
+  line: number;
+}
+
+export interface ParamParseError {
+  line: number;
+  message: string;
+}
+
+export type ShaderParamValues = Record<string, ShaderParamValue>;
+
+const ANNOTATION = /^\s*\/\/\s*@(param|color)\b(.*)$/;
+const PARAM_BODY = /^\s*(float2|float|int|bool)\s+([a-zA-Z_]\w*)\s*(?:=\s*([^[]+?))?\s*(?:\[([^\]]*)\])?\s*$/;
+const COLOR_BODY = /^\s*([a-zA-Z_]\w*)\s*(?:=\s*(#[0-9a-fA-F]{6}|#[0-9a-fA-F]{3}))?\s*$/;
+
+export function parseShaderParams(code: string): { params: ShaderParam[]; errors: ParamParseError[] } {
+  const params: ShaderParam[] = [];
+  const errors: ParamParseError[] = [];
+  const seen = new Set<string>();
+
+  code.split("\n").forEach((text, index) => {
+    const annotation = ANNOTATION.exec(text);
+    if (!annotation) return;
+
+    const line = index + 1;
+    const [, kind, body] = annotation;
+    const result = kind === "color" ? parseColor(body, line) : parseParam(body, line);
+
+    if (typeof result === "string") {
+      errors.push({ line, message: result });
+    } else if (seen.has(result.name)) {
+      errors.push({ line, message: `Duplicate parameter "${result.name}"` });
+    } else {
+      seen.add(result.name);
+      params.push(result);
+    }
+  });
+
+  return { params, errors };
+}
+
+function parseColor(body: string, line: number): ShaderParam | string {
+  const match = COLOR_BODY.exec(body);
+  if (!match) return "Expected `// @color name = #rrggbb`";
+
+  return {
+    name: match[1],
+    type: "color",
+    defaultValue: match[2] ? hexToRgb(match[2]) : [1, 1, 1],
+    min: 0,
+    max: 1,
+    step: 0.01,
+    line,
+  };
+}
+
+function parseParam(body: string, line: number): ShaderParam | string {
+  const match = PARAM_BODY.exec(body);
+  if (!match) return "Expected `// @param <float|int|bool|float2> name = value [min, max]`";
+
+  const [, type, name, rawDefault, rawRange] = match;
+  const range = rawRange?.split(",").map(part => Number(part.trim()));
+  if (range && (range.length < 2 || range.some(Number.isNaN))) {
+    return "Range must be `[min, max]` or `[min, max, step]`";
+  }
+
+  const min = range?.[0] ?? 0;
+  const max = range?.[1] ?? (type === "int" ? 10 : 1);
+  const step = range?.[2] ?? (type === "int" ? 1 : (max - min) / 100);
+  if (min >= max) return "Range minimum must be less than maximum";
+
+  const paramType = type as ShaderParamType;
+  const defaultValue = parseDefault(paramType, rawDefault?.trim(), min);
+  if (defaultValue === null) return `Invalid default value for ${type} "${name}"`;
+
+  return { name, type: paramType, defaultValue, min, max, step, line };
+}
+
+function parseDefault(type: ShaderParamType, raw: string | undefined, min: number): ShaderParamValue | null {
+  switch (type) {
+    case "bool":
+      if (raw === undefined) return false;
+      return raw === "true" ? true : raw === "false" ? false : null;
+    case "float2": {
+      if (raw === undefined) return [min, min];
+      const components = raw.replace(/^float2/, "").replace(/[()]/g, "").split(",").map(part => Number(part.trim()));
+      if (components.length !== 2 || components.some(Number.isNaN)) return null;
+      return [components[0], components[1]];
+    }
+    default: {
+      if (raw === undefined) return min;
+      const value = Number(raw.replace(/[fh]$/, ""));
+      if (Number.isNaN(value)) return null;
+      return type === "int" ? Math.round(value) : value;
+    }
+  }
+}
+
+export function hexToRgb(hex: string): [number, number, number] {
+  let digits = hex.replace("#", "");
+  if (digits.length === 3) digits = digits.split("").map(d => d + d).join("");
+  const value = parseInt(digits, 16);
+  return [((value >> 16) & 255) / 255, ((value >> 8) & 255) / 255, (value & 255) / 255];
+}
+
+export function rgbToHex([r, g, b]: [number, number, number]): string {
+  return "#" + [r, g, b].map(c => Math.round(c * 255).toString(16).padStart(2, "0")).join("");
+}
+
+function isCompatible(type: ShaderParamType, value: ShaderParamValue): boolean {
+  switch (type) {
+    case "bool":
+      return typeof value === "boolean";
+    case "float2":
+      return Array.isArray(value) && value.length === 2;
+    case "color":
+      return Array.isArray(value) && value.length === 3;
+    default:
+      return typeof value === "number";
+  }
+}
+
+// Tuned values survive edits to the annotations as long as the parameter keeps a compatible type
+export function resolveParamValues(params: ShaderParam[], overrides: ShaderParamValues): ShaderParamValues {
+  const values: ShaderParamValues = {};
+  for (const param of params) {
+    const override = overrides[param.name];
+    values[param.name] = override !== undefined && isCompatible(param.type, override) ? override : param.defaultValue;
+  }
+  return values;
+}
+
+// MSL size and alignment of each field type in the constant address space
+const LAYOUT: Record<ShaderParamType, { mslType: string; size: number; align: number }> = {
+  float: { mslType: "float", size: 4, align: 4 },
+  int: { mslType: "int", size: 4, align: 4 },
+  bool: { mslType: "bool", size: 1, align: 1 },
+  float2: { mslType: "float2", size: 8, align: 8 },
+  color: { mslType: "float3", size: 16, align: 16 },
+};
+
+function alignTo(offset: number, align: number) {
+  return Math.ceil(offset / align) * align;
+}
+
+export function paramsLayout(params: ShaderParam[]): { offsets: number[]; size: number } {
+  let offset = 0;
+  let maxAlign = 4;
+  const offsets = params.map(param => {
+    const { size, align } = LAYOUT[param.type];
+    offset = alignTo(offset, align);
+    maxAlign = Math.max(maxAlign, align);
+    const fieldOffset = offset;
+    offset += size;
+    return fieldOffset;
+  });
+  return { offsets, size: Math.max(alignTo(offset, maxAlign), 16) };
+}
+
+export function generateParamsStruct(params: ShaderParam[]): string {
+  const fields = params.map(param => `${LAYOUT[param.type].mslType} ${param.name};`).join(" ");
+  return `struct ${PARAMS_STRUCT_NAME} { ${fields || "float _unused;"} };`;
+}
+
+export function packParams(params: ShaderParam[], values: ShaderParamValues): ArrayBuffer {
+  const { offsets, size } = paramsLayout(params);
+  const buffer = new ArrayBuffer(size);
+  const view = new DataView(buffer);
+
+  params.forEach((param, index) => {
+    const offset = offsets[index];
+    const value = values[param.name] ?? param.defaultValue;
+
+    switch (param.type) {
+      case "float":
+        view.setFloat32(offset, value as number, true);
+        break;
+      case "int":
+        view.setInt32(offset, value as number, true);
+        break;
+      case "bool":
+        view.setUint8(offset, value ? 1 : 0);
+        break;
+      case "float2":
+      case "color":
+        (value as number[]).forEach((component, i) => view.setFloat32(offset + i * 4, component, true));
+        break;
+    }
+  });
+
+  return buffer;
+}
+
+export function encodeBase64(buffer: ArrayBuffer): string {
+  let binary = "";
+  new Uint8Array(buffer).forEach(byte => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary);
+}
+
+export function paramsDeclarations(params: ShaderParam[]): string[] {
+  return params.length > 0 ? [generateParamsStruct(params)] : [];
+}
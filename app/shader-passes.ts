@@ -0,0 +1,104 @@
+import type { PipelineMessage } from "./renderer-protocol";
+import { SHADER_PRELUDE } from "./shader-examples";
+
+// Buffer passes render in this order before the image pass. Each reads every buffer at
+// [[texture(BUFFER_TEXTURE_BASE + n)]] with its sampler at the same sampler index: buffers that already
+// ran this frame give this frame's output, the pass's own buffer and later ones give the previous frame.
+export type BufferName = "A" | "B" | "C";
+export type PassName = BufferName | "image";
+
+export const BUFFER_NAMES: BufferName[] = ["A", "B", "C"];
+export const BUFFER_TEXTURE_BASE = 4;
+
+// Buffer resolution relative to the render size
+export const BUFFER_SCALES = [1, 0.5, 0.25];
+
+export interface BufferPass {
+  name: BufferName;
+  code: string;
+  scale: number;
+}
+
+export interface PassGraphNode {
+  name: PassName;
+  scale: number;
+  // Buffers the pass samples
+  inputs: BufferName[];
+}
+
+export function bufferTextureIndex(name: BufferName): number {
+  return BUFFER_TEXTURE_BASE + BUFFER_NAMES.indexOf(name);
+}
+
+export function passLabel(name: PassName): string {
+  return name === "image" ? "Image" : `Buffer ${name}`;
+}
+
+// Per-pass editor models, so each tab keeps its own undo stack
+export function passPath(name: PassName): string {
+  return name === "image" ? "image.metal" : `buffer-${name.toLowerCase()}.metal`;
+}
+
+export function pathPass(path: string): PassName | null {
+  return (["image", ...BUFFER_NAMES] as PassName[]).find(name => passPath(name) === path) ?? null;
+}
+
+export function passInputs(code: string): BufferName[] {
+  return BUFFER_NAMES.filter(name => new RegExp(`\\bbuffer${name}\\b`).test(code));
+}
+
+export function sortPasses(passes: BufferPass[]): BufferPass[] {
+  return [...passes].sort((a, b) => BUFFER_NAMES.indexOf(a.name) - BUFFER_NAMES.indexOf(b.name));
+}
+
+export function passGraph(imageCode: string, passes: BufferPass[]): PassGraphNode[] {
+  return [
+    ...sortPasses(passes).map(pass => ({ name: pass.name, scale: pass.scale, inputs: passInputs(pass.code) })),
+    { name: "image" as const, scale: 1, inputs: passInputs(imageCode) },
+  ];
+}
+
+// Pipeline messages replace shader messages once a shader has buffers. The id is echoed in the reply, like
+// shader messages, and a failed compile names the pass it failed in.
+export function pipelineMessage(id: number, imageCode: string, passes: BufferPass[]): PipelineMessage & { id: number } {
+  const sources = new Map<PassName, string>([...passes.map(pass => [pass.name, pass.code] as const), ["image", imageCode]]);
+  return {
+    type: "pipeline",
+    id,
+    passes: passGraph(imageCode, passes).map(node => ({ ...node, code: sources.get(node.name) ?? "" })),
+  };
+}
+
+// The code of one pass of a shader; empty for a buffer it does not have
+export function passCode(imageCode: string, passes: BufferPass[], name: PassName): string {
+  return name === "image" ? imageCode : passes.find(pass => pass.name === name)?.code ?? "";
+}
+
+export function samePasses(a: BufferPass[], b: BufferPass[]): boolean {
+  return a.length === b.length && a.every((pass, index) => {
+    const other = b[index];
+    return pass.name === other.name && pass.scale === other.scale && pass.code === other.code;
+  });
+}
+
+// A new buffer starts out feeding its previous frame back, faded slightly, with a dot at the mouse
+export function newBufferPass(name: BufferName): BufferPass {
+  const index = bufferTextureIndex(name);
+  return {
+    name,
+    scale: 1,
+    code: `${SHADER_PRELUDE}
+
+// Buffer ${name} reads its own previous frame at texture(${index}). Buffers are stored top row first,
+// so sample them at float2(uv.x, 1.0 - uv.y), or read(uint2(in.position.xy)) at the same size.
+fragment float4 fragment_main(VertexOut in [[stage_in]],
+                              constant float2 &mouse [[buffer(1)]],
+                              texture2d<float> buffer${name} [[texture(${index})]],
+                              sampler buffer${name}Sampler [[sampler(${index})]]) {
+    float2 uv = in.uv;
+    float4 previous = buffer${name}.sample(buffer${name}Sampler, float2(uv.x, 1.0 - uv.y));
+    float spot = smoothstep(0.03, 0.0, length(uv - mouse));
+    return max(previous * 0.98, float4(spot));
+}`,
+  };
+}
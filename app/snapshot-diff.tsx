@@ -0,0 +1,72 @@
+"use client";
+
+import dynamic from "next/dynamic";
+import { RotateCcw, X } from "lucide-react";
+import type { HistorySnapshot } from "./edit-history";
+import { MSL_LANGUAGE_ID, registerMslLanguage } from "./msl-language";
+import { documentCode, documentLabel, sameSources, type ShaderSources } from "./shader-includes";
+
+const MonacoDiffEditor = dynamic(() => import("@monaco-editor/react").then(module => module.DiffEditor), {
+  ssr: false,
+  loading: () => (
+    <div className="flex items-center justify-center h-full bg-black">
+      <div className="text-[#4a4a4e]">Loading diff...</div>
+    </div>
+  ),
+});
+
+interface SnapshotDiffProps {
+  snapshot: HistorySnapshot;
+  // The document being compared, which is the one open in the editor
+  path: string;
+  current: ShaderSources;
+  onRestore: (snapshot: HistorySnapshot) => void;
+  onClose: () => void;
+}
+
+export default function SnapshotDiff({ snapshot, path, current, onRestore, onClose }: SnapshotDiffProps) {
+  const unchanged = sameSources(snapshot, current);
+  const multiFile = snapshot.passes.length + snapshot.files.length + current.passes.length + current.files.length > 0;
+
+  return (
+    <div className="flex-1 min-h-0 flex flex-col">
+      <div className="h-8 flex items-center gap-3 px-4 border-b border-[#1f1f23] text-xs text-[#5a5a5e] shrink-0">
+        <span className="flex-1 min-w-0 truncate">
+          {multiFile && `${documentLabel(path)}: `}
+          Snapshot from {new Date(snapshot.takenAt).toLocaleTimeString()} (left) against the current code (right)
+          {unchanged && " - identical"}
+        </span>
+        <button
+          disabled={unchanged}
+          onClick={() => onRestore(snapshot)}
+          className="flex items-center gap-1 text-[#8a8a8e] hover:text-[#c0c0c0] disabled:opacity-40"
+        >
+          <RotateCcw size={12} />
+          Restore
+        </button>
+        <button onClick={onClose} title="Back to the editor" className="hover:text-[#8a8a8e]">
+          <X size={14} />
+        </button>
+      </div>
+      <div className="flex-1 min-h-0">
+        <MonacoDiffEditor
+          height="100%"
+          language={MSL_LANGUAGE_ID}
+          theme="metal-dark"
+          original={documentCode(snapshot, path) ?? ""}
+          modified={documentCode(current, path) ?? ""}
+          beforeMount={registerMslLanguage}
+          options={{
+            readOnly: true,
+            originalEditable: false,
+            fontSize: 13,
+            fontFamily: "var(--font-geist-mono), monospace",
+            minimap: { enabled: false },
+            scrollBeyondLastLine: false,
+            renderOverviewRuler: false,
+          }}
+        />
+      </div>
+    </div>
+  );
+}
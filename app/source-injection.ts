@@ -0,0 +1,18 @@
+// Declarations are appended to an existing line so compiler line numbers still match the editor
+export function injectDeclarations(code: string, declarations: string[]): string {
+  if (declarations.length === 0) return code;
+
+  const injected = declarations.join(" ");
+  const lines = code.split("\n");
+  const usingIndex = lines.findIndex(line => /^\s*using\s+namespace\s+metal\s*;/.test(line));
+
+  if (usingIndex >= 0) {
+    lines[usingIndex] = `${lines[usingIndex]} ${injected}`;
+    return lines.join("\n");
+  }
+
+  const firstCodeIndex = lines.findIndex(line => !/^\s*(#.*)?$/.test(line));
+  if (firstCodeIndex < 0) return `${code}\n${injected}`;
+  lines[firstCodeIndex] = `${injected} ${lines[firstCodeIndex]}`;
+  return lines.join("\n");
+}
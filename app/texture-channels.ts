@@ -0,0 +1,186 @@
+import type { ChannelMessage } from "./renderer-protocol";
+import { encodeBase64 } from "./shader-params";
+
+// Channel n is bound at [[texture(n)]] with its sampler at [[sampler(n)]]:
+//   texture2d<float> channel0 [[texture(0)]], sampler channel0Sampler [[sampler(0)]]
+// Empty channels sample opaque black.
+export const CHANNEL_COUNT = 4;
+
+export type ChannelFilter = "nearest" | "linear" | "mipmap";
+export type ChannelWrap = "repeat" | "clamp" | "mirror";
+export type BuiltinTexture = "noise" | "gray-noise" | "gradient" | "checker";
+
+export type ChannelSource =
+  | { kind: "empty" }
+  | { kind: "upload"; name: string }
+  | { kind: "builtin"; texture: BuiltinTexture }
+  | { kind: "webcam" };
+
+export interface TextureChannel {
+  source: ChannelSource;
+  filter: ChannelFilter;
+  wrap: ChannelWrap;
+  // Small data URL shown in the channel slot
+  preview: string | null;
+}
+
+export const CHANNEL_FILTERS: { id: ChannelFilter; label: string }[] = [
+  { id: "linear", label: "Linear" },
+  { id: "nearest", label: "Nearest" },
+  { id: "mipmap", label: "Mipmap" },
+];
+
+export const CHANNEL_WRAPS: { id: ChannelWrap; label: string }[] = [
+  { id: "repeat", label: "Repeat" },
+  { id: "clamp", label: "Clamp" },
+  { id: "mirror", label: "Mirror" },
+];
+
+export const BUILTIN_TEXTURES: { id: BuiltinTexture; label: string }[] = [
+  { id: "noise", label: "RGBA noise" },
+  { id: "gray-noise", label: "Gray noise" },
+  { id: "gradient", label: "Gradient" },
+  { id: "checker", label: "Checker" },
+];
+
+export const EMPTY_CHANNEL: TextureChannel = { source: { kind: "empty" }, filter: "linear", wrap: "repeat", preview: null };
+
+// Uploads are scaled down to this on their longest side before they are sent
+const MAX_UPLOAD_SIZE = 2048;
+const BUILTIN_SIZE = 256;
+const PREVIEW_SIZE = 48;
+const WEBCAM_FPS = 15;
+const WEBCAM_WIDTH = 640;
+
+// Sending only the sampler settings leaves the image alone; `data: null` empties the channel
+export function channelMessage(index: number, channel: TextureChannel, data?: string | null): ChannelMessage {
+  return {
+    type: "channel",
+    index,
+    filter: channel.filter,
+    wrap: channel.wrap,
+    ...(data === undefined ? {} : { data }),
+  };
+}
+
+function createCanvas(width: number, height: number): [HTMLCanvasElement, CanvasRenderingContext2D] {
+  const canvas = document.createElement("canvas");
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new Error("Canvas 2D context is not available");
+  return [canvas, ctx];
+}
+
+async function canvasToBase64(canvas: HTMLCanvasElement, type: "image/png" | "image/jpeg", quality?: number): Promise<string> {
+  const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, type, quality));
+  if (!blob) throw new Error("Could not encode the channel image");
+  return encodeBase64(await blob.arrayBuffer());
+}
+
+function previewOf(canvas: HTMLCanvasElement): string {
+  const [preview, ctx] = createCanvas(PREVIEW_SIZE, PREVIEW_SIZE);
+  ctx.drawImage(canvas, 0, 0, PREVIEW_SIZE, PREVIEW_SIZE);
+  return preview.toDataURL("image/png");
+}
+
+export interface ChannelImage {
+  // Base64 PNG or JPEG, as the channel message carries it
+  data: string;
+  preview: string;
+}
+
+export async function loadImageFile(file: File): Promise<ChannelImage> {
+  const bitmap = await createImageBitmap(file);
+  const scale = Math.min(1, MAX_UPLOAD_SIZE / Math.max(bitmap.width, bitmap.height));
+  const [canvas, ctx] = createCanvas(Math.round(bitmap.width * scale), Math.round(bitmap.height * scale));
+  ctx.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+  bitmap.close();
+  return { data: await canvasToBase64(canvas, "image/png"), preview: previewOf(canvas) };
+}
+
+export async function builtinImage(texture: BuiltinTexture): Promise<ChannelImage> {
+  const [canvas, ctx] = createCanvas(BUILTIN_SIZE, BUILTIN_SIZE);
+  const image = ctx.createImageData(BUILTIN_SIZE, BUILTIN_SIZE);
+  const pixels = image.data;
+
+  for (let y = 0; y < BUILTIN_SIZE; y++) {
+    for (let x = 0; x < BUILTIN_SIZE; x++) {
+      const i = (y * BUILTIN_SIZE + x) * 4;
+      switch (texture) {
+        case "noise":
+          pixels[i] = Math.random() * 256;
+          pixels[i + 1] = Math.random() * 256;
+          pixels[i + 2] = Math.random() * 256;
+          pixels[i + 3] = Math.random() * 256;
+          break;
+        case "gray-noise": {
+          const value = Math.random() * 256;
+          pixels[i] = pixels[i + 1] = pixels[i + 2] = value;
+          pixels[i + 3] = 255;
+          break;
+        }
+        case "gradient":
+          // Red follows u, green follows v (v = 0 at the bottom once uploaded)
+          pixels[i] = (x / (BUILTIN_SIZE - 1)) * 255;
+          pixels[i + 1] = (1 - y / (BUILTIN_SIZE - 1)) * 255;
+          pixels[i + 2] = 128;
+          pixels[i + 3] = 255;
+          break;
+        case "checker": {
+          const value = ((x >> 5) + (y >> 5)) % 2 === 0 ? 230 : 25;
+          pixels[i] = pixels[i + 1] = pixels[i + 2] = value;
+          pixels[i + 3] = 255;
+          break;
+        }
+      }
+    }
+  }
+
+  ctx.putImageData(image, 0, 0);
+  return { data: await canvasToBase64(canvas, "image/png"), preview: previewOf(canvas) };
+}
+
+// Streams webcam frames as JPEGs until stopped. The preview is refreshed once a second and is null in between.
+export class WebcamCapture {
+  private stream: MediaStream | null = null;
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private encoding = false;
+  private frames = 0;
+
+  constructor(private onFrame: (data: string, preview: string | null) => void) {}
+
+  async start() {
+    this.stream = await navigator.mediaDevices.getUserMedia({ video: { width: { ideal: WEBCAM_WIDTH } }, audio: false });
+    const video = document.createElement("video");
+    video.muted = true;
+    video.playsInline = true;
+    video.srcObject = this.stream;
+    await video.play();
+
+    const width = Math.min(WEBCAM_WIDTH, video.videoWidth);
+    const [canvas, ctx] = createCanvas(width, Math.round((video.videoHeight / video.videoWidth) * width));
+
+    this.timer = setInterval(async () => {
+      // Skip a tick rather than queue encodes when the machine cannot keep up
+      if (this.encoding) return;
+      this.encoding = true;
+      try {
+        ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
+        const preview = this.frames++ % WEBCAM_FPS === 0 ? previewOf(canvas) : null;
+        this.onFrame(await canvasToBase64(canvas, "image/jpeg", 0.8), preview);
+      } catch (error) {
+        console.error("Webcam capture error:", error);
+      } finally {
+        this.encoding = false;
+      }
+    }, 1000 / WEBCAM_FPS);
+  }
+
+  stop() {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+    this.stream?.getTracks().forEach(track => track.stop());
+    this.stream = null;
+  }
+}
@@ -0,0 +1,116 @@
+"use client";
+
+import { useState } from "react";
+import { Pause, Play, SkipBack, StepForward } from "lucide-react";
+
+export interface PlaybackState {
+  paused: boolean;
+  speed: number;
+  // Seconds advanced per frame; null follows 1/targetFps
+  timeStep: number | null;
+}
+
+export const PLAYBACK_SPEEDS = [0.1, 0.25, 0.5, 1, 2, 4];
+
+interface TransportBarProps {
+  playback: PlaybackState;
+  time: number;
+  targetFps: number;
+  onPlaybackChange: (playback: PlaybackState) => void;
+  onSeek: (time: number) => void;
+  onStep: () => void;
+  // False when the connected renderer cannot step frames or take a fixed time step
+  canStep: boolean;
+  canSetTimeStep: boolean;
+}
+
+// The scrubber grows in 30 second windows so recent times stay easy to hit
+function scrubberLength(time: number) {
+  return Math.max(30, Math.ceil((time + 1) / 30) * 30);
+}
+
+export default function TransportBar({ playback, time, targetFps, onPlaybackChange, onSeek, onStep, canStep, canSetTimeStep }: TransportBarProps) {
+  const [timeInput, setTimeInput] = useState<string | null>(null);
+  const length = scrubberLength(time);
+  const step = playback.timeStep ?? 1 / targetFps;
+
+  const commitTimeInput = () => {
+    if (timeInput === null) return;
+    const value = Number(timeInput);
+    if (!Number.isNaN(value) && value >= 0) onSeek(value);
+    setTimeInput(null);
+  };
+
+  return (
+    <div className="h-9 flex items-center gap-3 px-4 border-t border-[#1f1f23] text-xs text-[#5a5a5e] font-mono">
+      <button onClick={() => onSeek(0)} title="Reset to t = 0" className="hover:text-[#8a8a8e]">
+        <SkipBack size={14} />
+      </button>
+      <button
+        onClick={() => onPlaybackChange({ ...playback, paused: !playback.paused })}
+        title={playback.paused ? "Play" : "Pause"}
+        className="hover:text-[#8a8a8e]"
+      >
+        {playback.paused ? <Play size={14} /> : <Pause size={14} />}
+      </button>
+      <button
+        onClick={onStep}
+        disabled={!playback.paused || !canStep}
+        title={canStep ? "Step one frame" : "The connected renderer cannot step frames"}
+        className="hover:text-[#8a8a8e] disabled:opacity-30"
+      >
+        <StepForward size={14} />
+      </button>
+
+      <input
+        type="range"
+        min={0}
+        max={length}
+        step={step}
+        value={Math.min(time, length)}
+        onChange={e => onSeek(Number(e.target.value))}
+        className="flex-1 min-w-0"
+      />
+
+      <input
+        value={timeInput ?? time.toFixed(3)}
+        onFocus={() => setTimeInput(time.toFixed(3))}
+        onChange={e => setTimeInput(e.target.value)}
+        onBlur={commitTimeInput}
+        onKeyDown={e => {
+          if (e.key === "Enter") e.currentTarget.blur();
+          if (e.key === "Escape") setTimeInput(null);
+        }}
+        title="Current time in seconds"
+        className="w-20 bg-black border border-[#2a2a2e] rounded px-1 text-right text-[#8a8a8e] focus:outline-none focus:border-[#3a3a4e]"
+      />
+      <span>s</span>
+
+      <select
+        value={playback.speed}
+        onChange={e => onPlaybackChange({ ...playback, speed: Number(e.target.value) })}
+        title="Playback speed"
+        className="bg-black border border-[#2a2a2e] rounded text-[#8a8a8e]"
+      >
+        {PLAYBACK_SPEEDS.map(speed => <option key={speed} value={speed}>{speed}x</option>)}
+      </select>
+
+      <label
+        className={`flex items-center gap-1 ${canSetTimeStep ? "" : "opacity-30"}`}
+        title={canSetTimeStep ? "Seconds per frame; empty follows the target FPS" : "The connected renderer always follows the target FPS"}
+      >
+        dt
+        <input
+          type="number"
+          disabled={!canSetTimeStep}
+          min={0}
+          step={0.001}
+          placeholder={(1 / targetFps).toFixed(4)}
+          value={playback.timeStep ?? ""}
+          onChange={e => onPlaybackChange({ ...playback, timeStep: e.target.value === "" ? null : Math.max(0, Number(e.target.value)) || null })}
+          className="w-20 bg-black border border-[#2a2a2e] rounded px-1 text-[#8a8a8e] focus:outline-none focus:border-[#3a3a4e]"
+        />
+      </label>
+    </div>
+  );
+}
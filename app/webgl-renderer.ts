@@ -0,0 +1,175 @@
+import { createLocalTransport, type LocalRenderer } from "./local-renderer";
+import {
+  GLSL_MOUSE_UNIFORM,
+  GLSL_PARAMS_UNIFORM,
+  GLSL_RESOLUTION_UNIFORM,
+  GLSL_TIME_UNIFORM,
+  GLSL_VERTEX_SHADER,
+  translateMslToGlsl,
+} from "./msl-to-glsl";
+import type { CompileReply } from "./renderer-protocol";
+import type { RendererTransport, TransportHandlers } from "./renderer-transport";
+import { paramsLayout, parseShaderParams, type ShaderParam } from "./shader-params";
+
+// Previews single-pass shaders in the browser when no Metal renderer is reachable. Shaders are translated
+// to GLSL ES and rendered with WebGL 2 under the same time/mouse/params contract. Translation problems and
+// GLSL compile errors are reported in the Metal compiler's format, so the editor marks them the same way.
+
+interface ParamUniform {
+  param: ShaderParam;
+  offset: number;
+  location: WebGLUniformLocation | null;
+}
+
+// WebGL info logs read "ERROR: 0:12: 'foo' : undeclared identifier"
+const GLSL_LOG_LINE = /^(ERROR|WARNING):\s*\d+:(\d+):\s*(.*)$/;
+
+function compilerLog(severity: "error" | "warning", line: number, column: number, message: string): string {
+  return `program_source:${Math.max(line, 1)}:${column}: ${severity}: ${message}`;
+}
+
+function glslLog(log: string): string {
+  return log.split("\n").map(text => {
+    const match = GLSL_LOG_LINE.exec(text.trim());
+    return match ? compilerLog(match[1] === "ERROR" ? "error" : "warning", Number(match[2]), 1, match[3]) : text;
+  }).filter(Boolean).join("\n");
+}
+
+function decodeBase64(data: string): DataView {
+  const binary = atob(data);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return new DataView(bytes.buffer);
+}
+
+function createWebGLRenderer(canvas: HTMLCanvasElement): LocalRenderer {
+  const gl = canvas.getContext("webgl2", { alpha: false, preserveDrawingBuffer: true });
+  if (!gl) throw new Error("WebGL 2 is not available");
+
+  let program: WebGLProgram | null = null;
+  let params: ParamUniform[] = [];
+  let paramsData: DataView = new DataView(new ArrayBuffer(0));
+
+  const compileShader = (type: number, source: string): { shader: WebGLShader | null; log: string } => {
+    const shader = gl.createShader(type);
+    if (!shader) return { shader: null, log: "Could not create a WebGL shader" };
+    gl.shaderSource(shader, source);
+    gl.compileShader(shader);
+    const log = gl.getShaderInfoLog(shader) ?? "";
+    if (gl.getShaderParameter(shader, gl.COMPILE_STATUS)) return { shader, log };
+    gl.deleteShader(shader);
+    return { shader: null, log };
+  };
+
+  const compile = (id: number | undefined, code: string): CompileReply => {
+    const translation = translateMslToGlsl(code);
+    const warnings = translation.issues
+      .filter(issue => issue.severity === "warning")
+      .map(issue => compilerLog("warning", issue.line, 1, issue.message));
+    const errors = translation.issues
+      .filter(issue => issue.severity === "error")
+      .map(issue => compilerLog("error", issue.line, 1, issue.message));
+    if (errors.length > 0) return { type: "compile", id, error: [...errors, ...warnings].join("\n") };
+
+    const vertex = compileShader(gl.VERTEX_SHADER, GLSL_VERTEX_SHADER);
+    const fragment = compileShader(gl.FRAGMENT_SHADER, translation.code);
+    if (!vertex.shader || !fragment.shader) {
+      if (vertex.shader) gl.deleteShader(vertex.shader);
+      if (fragment.shader) gl.deleteShader(fragment.shader);
+      return { type: "compile", id, error: [glslLog(fragment.log || vertex.log), ...warnings].join("\n") };
+    }
+
+    const linked = gl.createProgram();
+    gl.attachShader(linked, vertex.shader);
+    gl.attachShader(linked, fragment.shader);
+    gl.linkProgram(linked);
+    gl.deleteShader(vertex.shader);
+    gl.deleteShader(fragment.shader);
+    if (!gl.getProgramParameter(linked, gl.LINK_STATUS)) {
+      const log = gl.getProgramInfoLog(linked) ?? "";
+      gl.deleteProgram(linked);
+      return { type: "compile", id, error: compilerLog("error", 1, 1, log.trim() || "The shader did not link") };
+    }
+
+    if (program) gl.deleteProgram(program);
+    program = linked;
+    const parsed = translation.usesParams ? parseShaderParams(code).params : [];
+    const { offsets } = paramsLayout(parsed);
+    params = parsed.map((param, index) => ({
+      param,
+      offset: offsets[index],
+      location: gl.getUniformLocation(linked, `${GLSL_PARAMS_UNIFORM}.${param.name}`),
+    }));
+
+    const log = [...warnings, glslLog(fragment.log)].filter(Boolean).join("\n");
+    return log ? { type: "compile", id, ok: true, warnings: log } : { type: "compile", id, ok: true };
+  };
+
+  // Values come packed as the Metal ShaderParams struct; defaults fill in until the first params message
+  const setParam = ({ param, offset, location }: ParamUniform) => {
+    const fits = (size: number) => offset + size <= paramsData.byteLength;
+    const float = (i: number) => (fits(4 * (i + 1)) ? paramsData.getFloat32(offset + 4 * i, true) : (param.defaultValue as number[])[i]);
+    switch (param.type) {
+      case "float":
+        gl.uniform1f(location, fits(4) ? paramsData.getFloat32(offset, true) : param.defaultValue as number);
+        break;
+      case "int":
+        gl.uniform1i(location, fits(4) ? paramsData.getInt32(offset, true) : param.defaultValue as number);
+        break;
+      case "bool":
+        gl.uniform1i(location, fits(1) ? paramsData.getUint8(offset) : Number(param.defaultValue));
+        break;
+      case "float2":
+        gl.uniform2f(location, float(0), float(1));
+        break;
+      case "color":
+        gl.uniform3f(location, float(0), float(1), float(2));
+        break;
+    }
+  };
+
+  return {
+    draw(state) {
+      gl.viewport(0, 0, state.width, state.height);
+      if (!program) {
+        gl.clearColor(0, 0, 0, 1);
+        gl.clear(gl.COLOR_BUFFER_BIT);
+        return;
+      }
+      gl.useProgram(program);
+      gl.uniform1f(gl.getUniformLocation(program, GLSL_TIME_UNIFORM), state.time);
+      gl.uniform2f(gl.getUniformLocation(program, GLSL_MOUSE_UNIFORM), state.mouse[0], state.mouse[1]);
+      gl.uniform2f(gl.getUniformLocation(program, GLSL_RESOLUTION_UNIFORM), state.width, state.height);
+      params.forEach(setParam);
+      gl.drawArrays(gl.TRIANGLES, 0, 6);
+    },
+    handle(message) {
+      switch (message.type) {
+        case "shader":
+          return compile(message.id, message.code);
+        case "pipeline":
+          return {
+            type: "compile",
+            id: message.id,
+            error: compilerLog("error", 1, 1, "The WebGL preview renders single-pass shaders only; connect to the Metal renderer to run buffer passes."),
+            pass: "image",
+          };
+        case "params":
+          paramsData = decodeBase64(message.data);
+          return null;
+        default:
+          return null;
+      }
+    },
+    dispose() {
+      if (program) gl.deleteProgram(program);
+      program = null;
+      gl.getExtension("WEBGL_lose_context")?.loseContext();
+    },
+  };
+}
+
+export function createWebGLTransport(handlers: TransportHandlers): RendererTransport {
+  // Buffer passes, texture channels and the keyboard buffer are not translated
+  return createLocalTransport("webgl", createWebGLRenderer, ["params", "step", "timeStep"], handlers);
+}
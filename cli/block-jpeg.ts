@@ -0,0 +1,104 @@
+// A baseline JPEG encoder that keeps only the average colour of each 8x8 block. The stand-in server uses
+// it to answer "jpeg" frames with real, decodable JPEGs without an image library; the blocks are plain
+// to see, which is fine for exercising clients.
+
+// The standard luminance DC table from Annex K: code counts by length, then the categories in code order
+const DC_CODE_COUNTS = [0, 1, 5, 1, 1, 1, 1, 1, 1, 0, 0, 0, 0, 0, 0, 0];
+const DC_CATEGORIES = [0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11];
+
+// Every block ends right after its DC value, so the AC table only needs end-of-block, coded as a single 0 bit
+const AC_CODE_COUNTS = [1, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0];
+const AC_SYMBOLS = [0x00];
+
+// Canonical Huffman codes for each category: [code, length]
+const DC_CODES = (() => {
+  const codes: [number, number][] = [];
+  let code = 0;
+  let index = 0;
+  DC_CODE_COUNTS.forEach((count, lengthIndex) => {
+    for (let i = 0; i < count; i++) codes[DC_CATEGORIES[index++]] = [code++, lengthIndex + 1];
+    code <<= 1;
+  });
+  return codes;
+})();
+
+class BitWriter {
+  private bytes: number[] = [];
+  private buffer = 0;
+  private count = 0;
+
+  write(value: number, length: number) {
+    for (let i = length - 1; i >= 0; i--) {
+      this.buffer = (this.buffer << 1) | ((value >> i) & 1);
+      if (++this.count === 8) this.flushByte();
+    }
+  }
+
+  // Pads the last byte with 1 bits, as the format asks
+  finish(): number[] {
+    while (this.count !== 0) this.write(1, 1);
+    return this.bytes;
+  }
+
+  private flushByte() {
+    this.bytes.push(this.buffer);
+    // A 0xff in entropy-coded data is followed by a stuffed zero byte
+    if (this.buffer === 0xff) this.bytes.push(0);
+    this.buffer = 0;
+    this.count = 0;
+  }
+}
+
+function segment(marker: number, body: number[]): number[] {
+  const length = body.length + 2;
+  return [0xff, marker, length >> 8, length & 0xff, ...body];
+}
+
+// `pixels` holds width * height RGBA values, top row first; alpha is ignored
+export function encodeBlockJpeg(pixels: Uint8Array, width: number, height: number): Buffer {
+  const blocksX = Math.ceil(width / 8);
+  const blocksY = Math.ceil(height / 8);
+  const writer = new BitWriter();
+  const previous = [0, 0, 0];
+
+  for (let by = 0; by < blocksY; by++) {
+    for (let bx = 0; bx < blocksX; bx++) {
+      // Blocks past the right and bottom edges repeat the edge pixels
+      const sums = [0, 0, 0];
+      for (let y = 0; y < 8; y++) {
+        const row = Math.min(by * 8 + y, height - 1);
+        for (let x = 0; x < 8; x++) {
+          const i = (row * width + Math.min(bx * 8 + x, width - 1)) * 4;
+          const [r, g, b] = [pixels[i], pixels[i + 1], pixels[i + 2]];
+          sums[0] += 0.299 * r + 0.587 * g + 0.114 * b - 128;
+          sums[1] += -0.168736 * r - 0.331264 * g + 0.5 * b;
+          sums[2] += 0.5 * r - 0.418688 * g - 0.081312 * b;
+        }
+      }
+
+      // With a quantizer of 1 the DC coefficient is the sum over the block divided by 8
+      sums.forEach((sum, component) => {
+        const dc = Math.round(sum / 8);
+        const difference = dc - previous[component];
+        previous[component] = dc;
+        const category = difference === 0 ? 0 : Math.floor(Math.log2(Math.abs(difference))) + 1;
+        const [code, length] = DC_CODES[category];
+        writer.write(code, length);
+        if (category > 0) writer.write(difference < 0 ? difference - 1 + (1 << category) : difference, category);
+        writer.write(0, 1);
+      });
+    }
+  }
+
+  const components = [1, 2, 3];
+  return Buffer.from([
+    0xff, 0xd8,
+    ...segment(0xe0, [0x4a, 0x46, 0x49, 0x46, 0x00, 0x01, 0x01, 0x00, 0x00, 0x01, 0x00, 0x01, 0x00, 0x00]),
+    ...segment(0xdb, [0x00, ...new Array(64).fill(1)]),
+    ...segment(0xc0, [8, height >> 8, height & 0xff, width >> 8, width & 0xff, 3, ...components.flatMap(id => [id, 0x11, 0])]),
+    ...segment(0xc4, [0x00, ...DC_CODE_COUNTS, ...DC_CATEGORIES, 0x10, ...AC_CODE_COUNTS, ...AC_SYMBOLS]),
+    ...segment(0xda, [3, ...components.flatMap(id => [id, 0x00]), 0, 63, 0]),
+    ...writer.finish(),
+    0xff, 0xd9,
+  ]);
+}
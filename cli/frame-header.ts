@@ -0,0 +1,43 @@
+// Binary WebSocket frames: UInt32 header length, UInt32 sequence, Float64 renderedAt and Float64 shader time
+// (all big-endian), then the encoded image. Readers skip headerLength bytes, so fields can be appended;
+// servers that predate the shader time send a 16-byte header.
+export const FRAME_HEADER_LENGTH = 24;
+
+export interface ServerFrame {
+  sequence: number;
+  // Server clock (ms) when the frame was rendered
+  renderedAt: number;
+  // Shader time the frame shows, when the server reports it
+  time: number | null;
+  data: Buffer;
+}
+
+export function parseServerFrame(buffer: Buffer): ServerFrame {
+  const headerLength = buffer.readUInt32BE(0);
+  return {
+    sequence: buffer.readUInt32BE(4),
+    renderedAt: buffer.readDoubleBE(8),
+    time: headerLength >= 24 ? buffer.readDoubleBE(16) : null,
+    data: buffer.subarray(headerLength),
+  };
+}
+
+export function encodeServerFrame(frame: Omit<ServerFrame, "time"> & { time: number }): Buffer {
+  const header = Buffer.alloc(FRAME_HEADER_LENGTH);
+  header.writeUInt32BE(FRAME_HEADER_LENGTH, 0);
+  header.writeUInt32BE(frame.sequence, 4);
+  header.writeDoubleBE(frame.renderedAt, 8);
+  header.writeDoubleBE(frame.time, 16);
+  return Buffer.concat([header, frame.data]);
+}
+
+export type ImageFormat = "png" | "jpeg";
+
+export const IMAGE_FORMATS: ImageFormat[] = ["png", "jpeg"];
+
+// What the bytes are, whatever was asked for; older servers only send JPEG
+export function detectImageFormat(data: Buffer): ImageFormat | null {
+  if (data.length >= 8 && data.readUInt32BE(0) === 0x89504e47) return "png";
+  if (data.length >= 2 && data[0] === 0xff && data[1] === 0xd8) return "jpeg";
+  return null;
+}
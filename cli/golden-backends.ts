@@ -0,0 +1,121 @@
+import { existsSync, readFileSync } from "fs";
+import { join } from "path";
+import type { RendererEndpoint } from "../app/renderer-endpoint";
+import type { ShaderExample } from "../app/shader-examples";
+import { parseShaderParams } from "../app/shader-params";
+import { CHANNEL_COUNT, channelMessage, EMPTY_CHANNEL } from "../app/texture-channels";
+import type { ServerFrame } from "./frame-header";
+import { RendererClient, showsTime } from "./renderer-client";
+import { startStandInServer } from "./stand-in-server";
+import { formatDiagnostics, paramsMessage, prepareShader, replyDiagnostics, shaderMessage } from "./shader-source";
+
+// Where golden images come from. The renderer backend drives a live server, the Metal renderer on a Mac
+// or the stand-in anywhere else; the fixture backend replays frames recorded earlier, so the comparison
+// itself can be checked without any renderer.
+
+export interface GoldenCase {
+  // example-WxH-tT, also the file name of its images
+  id: string;
+  example: ShaderExample;
+  width: number;
+  height: number;
+  time: number;
+}
+
+export type GoldenCapture = { image: Buffer } | { error: string };
+
+export interface GoldenBackend {
+  readonly name: string;
+  // Cases share an example and a size and come in ascending time; there is one capture per case
+  render(cases: GoldenCase[]): Promise<GoldenCapture[]>;
+  close(): Promise<void>;
+}
+
+// Shader time advances in fixed steps from 0, so feedback buffers hold the same state on every run
+const STEPS_PER_SECOND = 60;
+
+// The first frame after a message may have been rendered before the server read it; with one frame in
+// flight and every frame acknowledged on arrival, the one after that was not. Servers without the shader
+// time in their frame header get a third frame instead of a time check.
+function frameAt(client: RendererClient, time: number, timeoutMs: number): Promise<ServerFrame> {
+  let seen = 0;
+  return client.nextFrame(frame => ++seen > 1 && (frame.time === null ? seen > 2 : showsTime(frame, time)), timeoutMs);
+}
+
+async function captureExample(client: RendererClient, cases: GoldenCase[], timeoutMs: number): Promise<GoldenCapture[]> {
+  const { example, width, height } = cases[0];
+  const shader = prepareShader({ code: example.code, passes: example.passes ?? [], files: example.files ?? [] });
+  const label = (file: string) => `${example.name}: ${file}`;
+  if (shader.errors.length > 0) return cases.map(() => ({ error: formatDiagnostics(shader.errors, label) }));
+
+  // Everything an example reads starts from the same state: centred mouse, no keys, empty channels, default params
+  client.send({ type: "config", width, height, timeStep: 1 / STEPS_PER_SECOND, maxInFlight: 1, format: "png" });
+  client.send({ type: "playback", paused: true, speed: 1 });
+  client.send({ type: "mousemove", x: width / 2, y: height / 2 });
+  client.send({ type: "keyreset" });
+  for (let index = 0; index < CHANNEL_COUNT; index++) client.send(channelMessage(index, EMPTY_CHANNEL, null));
+  const { params } = parseShaderParams(example.code);
+  if (params.length > 0) client.send(paramsMessage(params, {}));
+
+  const reply = await client.request(shaderMessage(shader, 1), timeoutMs);
+  if (reply.error) return cases.map(() => ({ error: formatDiagnostics(replyDiagnostics(shader, reply), label) }));
+
+  // Setting the clock to 0 also clears the buffer passes
+  client.send({ type: "time", time: 0 });
+  let steps = 0;
+  const captures: GoldenCapture[] = [];
+  for (const goldenCase of cases) {
+    const target = Math.round(goldenCase.time * STEPS_PER_SECOND);
+    if (target > steps) client.send({ type: "step", frames: target - steps });
+    steps = Math.max(steps, target);
+    const frame = await frameAt(client, steps / STEPS_PER_SECOND, timeoutMs);
+    captures.push({ image: frame.data });
+  }
+  return captures;
+}
+
+export async function rendererBackend(endpoint: RendererEndpoint, timeoutMs: number, name = "renderer"): Promise<GoldenBackend> {
+  const client = await RendererClient.connect(endpoint, timeoutMs);
+  return {
+    name,
+    async render(cases) {
+      if (!client.isOpen) return cases.map(() => ({ error: "The renderer closed the connection" }));
+      try {
+        return await captureExample(client, cases, timeoutMs);
+      } catch (error) {
+        // A timeout fails this example only; the next one starts from a fresh configuration
+        return cases.map(() => ({ error: error instanceof Error ? error.message : String(error) }));
+      }
+    },
+    async close() {
+      client.close();
+    },
+  };
+}
+
+// Starts the stand-in server in this process, for machines with no GPU and no renderer running
+export async function standInBackend(timeoutMs: number): Promise<GoldenBackend> {
+  const server = await startStandInServer(0);
+  const backend = await rendererBackend({ host: "127.0.0.1", port: server.port, secure: false, transport: "websocket" }, timeoutMs, "stand-in");
+  return {
+    ...backend,
+    async close() {
+      await backend.close();
+      await server.close();
+    },
+  };
+}
+
+// Frames recorded with --record, one <case id>.png per case
+export function fixtureBackend(directory: string): GoldenBackend {
+  return {
+    name: "fixture",
+    async render(cases) {
+      return cases.map(goldenCase => {
+        const path = join(directory, `${goldenCase.id}.png`);
+        return existsSync(path) ? { image: readFileSync(path) } : { error: `No recorded frame at ${path}` };
+      });
+    },
+    async close() {},
+  };
+}
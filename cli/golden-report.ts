@@ -0,0 +1,90 @@
+import { mkdirSync, writeFileSync } from "fs";
+import { join } from "path";
+import type { GoldenCase } from "./golden-backends";
+
+// A static HTML page with the reference, the new frame and their diff side by side for every case that
+// did not pass. Images sit next to index.html, so the directory can be kept as a CI artifact.
+
+export type GoldenStatus = "pass" | "fail" | "missing" | "updated" | "error";
+
+export interface GoldenResult {
+  goldenCase: GoldenCase;
+  status: GoldenStatus;
+  message: string;
+  expected?: Buffer;
+  actual?: Buffer;
+  diff?: Buffer;
+}
+
+const STATUS_COLORS: Record<GoldenStatus, string> = {
+  pass: "#4ade80",
+  updated: "#60a5fa",
+  missing: "#facc15",
+  fail: "#f87171",
+  error: "#f87171",
+};
+
+// Failures first, then the rest in run order
+const STATUS_ORDER: GoldenStatus[] = ["error", "fail", "missing", "updated", "pass"];
+
+function escapeHtml(text: string): string {
+  return text.replace(/[&<>"]/g, char => ({ "&": "&amp;", "<": "&lt;", ">": "&gt;", '"': "&quot;" })[char] as string);
+}
+
+function image(directory: string, file: string, data: Buffer | undefined, label: string): string {
+  if (!data) return `<figure><div class="empty">none</div><figcaption>${label}</figcaption></figure>`;
+  writeFileSync(join(directory, file), data);
+  return `<figure><img src="${encodeURI(file)}" alt="${label}"><figcaption>${label}</figcaption></figure>`;
+}
+
+export function writeGoldenReport(directory: string, results: GoldenResult[], backend: string): string {
+  mkdirSync(directory, { recursive: true });
+  const sorted = [...results].sort((a, b) => STATUS_ORDER.indexOf(a.status) - STATUS_ORDER.indexOf(b.status));
+  const counts = STATUS_ORDER.filter(status => results.some(result => result.status === status))
+    .map(status => `<span style="color:${STATUS_COLORS[status]}">${results.filter(result => result.status === status).length} ${status}</span>`);
+
+  const sections = sorted.map(({ goldenCase, status, message, expected, actual, diff }) => {
+    const { id, example, width, height, time } = goldenCase;
+    const heading = `<h2><span style="color:${STATUS_COLORS[status]}">${status.toUpperCase()}</span> ${escapeHtml(example.name)} <small>${width}x${height} at ${time}s</small></h2>`;
+    const detail = message ? `<pre>${escapeHtml(message)}</pre>` : "";
+    if (status === "pass") return `<section class="pass">${heading}${detail}</section>`;
+    const images = [
+      image(directory, `${id}-expected.png`, expected, "Reference"),
+      image(directory, `${id}-actual.png`, actual, "Rendered"),
+      image(directory, `${id}-diff.png`, diff, "Difference"),
+    ];
+    return `<section>${heading}${detail}<div class="images">${images.join("")}</div></section>`;
+  });
+
+  const html = `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>Golden images: ${escapeHtml(backend)}</title>
+<style>
+  body { background: #18181b; color: #e4e4e7; font: 14px system-ui, sans-serif; margin: 24px; }
+  h1 { font-size: 20px; }
+  h2 { font-size: 15px; margin: 0 0 8px; }
+  small { color: #a1a1aa; font-weight: normal; }
+  section { border: 1px solid #3f3f46; border-radius: 6px; padding: 12px; margin-bottom: 12px; background: #27272a; }
+  section.pass { padding: 8px 12px; }
+  section.pass h2 { margin: 0; }
+  pre { color: #fca5a5; white-space: pre-wrap; margin: 0 0 8px; }
+  .images { display: flex; gap: 12px; flex-wrap: wrap; }
+  figure { margin: 0; }
+  img, .empty { display: block; max-width: 400px; image-rendering: pixelated; border: 1px solid #3f3f46; }
+  .empty { width: 200px; height: 150px; display: flex; align-items: center; justify-content: center; color: #71717a; }
+  figcaption { color: #a1a1aa; font-size: 12px; margin-top: 4px; }
+</style>
+</head>
+<body>
+<h1>Golden images: ${escapeHtml(backend)}</h1>
+<p>${counts.join(" · ")}</p>
+${sections.join("\n")}
+</body>
+</html>
+`;
+  const path = join(directory, "index.html");
+  writeFileSync(path, html);
+  return path;
+}
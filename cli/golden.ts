@@ -0,0 +1,256 @@
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "fs";
+import { join } from "path";
+import { parseArgs } from "util";
+import { DEFAULT_ENDPOINT, isValidEndpoint, type RendererEndpoint } from "../app/renderer-endpoint";
+import { SHADER_EXAMPLES, type ShaderExample } from "../app/shader-examples";
+import { detectImageFormat } from "./frame-header";
+import { fixtureBackend, rendererBackend, standInBackend, type GoldenBackend, type GoldenCase } from "./golden-backends";
+import { writeGoldenReport, type GoldenResult } from "./golden-report";
+import { diffImages } from "./image-diff";
+import { decodePng, encodePng } from "./png";
+
+// Renders every bundled example at fixed times and sizes and compares the frames with reference images.
+// Exit codes: 0 when every case matches, 1 when any differs, is missing or fails to render, 2 for anything else.
+
+const USAGE = `Usage: npm run golden -- [options]
+
+Options:
+  --backend <name>       renderer, stand-in or fixture (default renderer). The stand-in does not run
+                         shaders: its frames change only when an example's code does, so it checks
+                         the harness and source changes, not how examples look
+  --server <host:port>   Renderer for the renderer backend (default ${DEFAULT_ENDPOINT.host}:${DEFAULT_ENDPOINT.port})
+  --secure               Connect with wss:// and https://
+  --fixture <dir>        Recorded frames for the fixture backend
+  --goldens <dir>        Reference images (default goldens/stand-in for the stand-in, else goldens/metal)
+  --example <name>       Only this example, by name or file-name form; repeatable
+  --sizes <WxH,...>      Render sizes (default 320x240)
+  --times <t1,t2,...>    Shader times in seconds (default 0,1.5)
+  --threshold <0-1>      How different a pixel has to look to count (default 0.1)
+  --tolerance <0-1>      Share of differing pixels a case may have (default 0.001)
+  --update               Write the rendered frames as the new references
+  --record <dir>         Also save the rendered frames, for the fixture backend
+  --report <dir>         Where the HTML report goes (default golden-report)
+  --timeout <seconds>    How long to wait for each reply or frame (default 10)
+  --help                 Show this message`;
+
+const EXIT_MISMATCH = 1;
+const EXIT_FAILURE = 2;
+
+const BACKENDS = ["renderer", "stand-in", "fixture"] as const;
+type BackendName = (typeof BACKENDS)[number];
+
+class UsageError extends Error {}
+
+interface GoldenOptions {
+  backend: BackendName;
+  endpoint: RendererEndpoint;
+  fixture: string | null;
+  goldens: string;
+  examples: ShaderExample[];
+  sizes: [number, number][];
+  times: number[];
+  threshold: number;
+  tolerance: number;
+  update: boolean;
+  record: string | null;
+  report: string;
+  timeoutMs: number;
+}
+
+export function exampleSlug(example: ShaderExample): string {
+  return example.name.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "");
+}
+
+export function goldenCaseId(example: ShaderExample, width: number, height: number, time: number): string {
+  return `${exampleSlug(example)}-${width}x${height}-t${time}`;
+}
+
+function parseFraction(name: string, value: string | undefined, fallback: number): number {
+  if (value === undefined) return fallback;
+  const number = Number(value);
+  if (!Number.isFinite(number) || number < 0 || number > 1) throw new UsageError(`--${name} ${value} has to be between 0 and 1`);
+  return number;
+}
+
+function parseGoldenArgs(args: string[]): GoldenOptions | null {
+  const { values } = parseArgs({
+    args,
+    options: {
+      backend: { type: "string", default: "renderer" },
+      server: { type: "string" },
+      secure: { type: "boolean", default: false },
+      fixture: { type: "string" },
+      goldens: { type: "string" },
+      example: { type: "string", multiple: true, default: [] },
+      sizes: { type: "string", default: "320x240" },
+      times: { type: "string", default: "0,1.5" },
+      threshold: { type: "string" },
+      tolerance: { type: "string" },
+      update: { type: "boolean", default: false },
+      record: { type: "string" },
+      report: { type: "string", default: "golden-report" },
+      timeout: { type: "string", default: "10" },
+      help: { type: "boolean", default: false },
+    },
+  });
+  if (values.help) return null;
+
+  const backend = values.backend as BackendName;
+  if (!BACKENDS.includes(backend)) throw new UsageError(`--backend has to be one of ${BACKENDS.join(", ")}`);
+  if (backend === "fixture" && !values.fixture) throw new UsageError("The fixture backend needs --fixture <dir>");
+
+  const [host, port] = (values.server ?? `${DEFAULT_ENDPOINT.host}:${DEFAULT_ENDPOINT.port}`).split(/:(?=\d+$)/);
+  const endpoint: RendererEndpoint = { ...DEFAULT_ENDPOINT, host, port: Number(port ?? DEFAULT_ENDPOINT.port), secure: values.secure };
+  if (!isValidEndpoint(endpoint)) throw new UsageError(`--server ${values.server} is not a host:port`);
+
+  const examples = values.example.length === 0 ? SHADER_EXAMPLES : values.example.map(name => {
+    const example = SHADER_EXAMPLES.find(candidate => candidate.name === name || exampleSlug(candidate) === name);
+    if (!example) throw new UsageError(`There is no example named ${name}`);
+    return example;
+  });
+
+  const sizes = values.sizes.split(",").map(size => {
+    const match = /^(\d+)x(\d+)$/.exec(size);
+    if (!match || Number(match[1]) === 0 || Number(match[2]) === 0) throw new UsageError(`--sizes ${size} is not WIDTHxHEIGHT`);
+    return [Number(match[1]), Number(match[2])] as [number, number];
+  });
+
+  const times = values.times.split(",").map(Number).sort((a, b) => a - b);
+  if (!times.every(t => Number.isFinite(t) && t >= 0)) throw new UsageError(`--times ${values.times} has to be non-negative seconds`);
+
+  const timeout = Number(values.timeout);
+  if (!Number.isFinite(timeout) || timeout <= 0) throw new UsageError(`--timeout ${values.timeout} is not valid`);
+
+  return {
+    backend,
+    endpoint,
+    fixture: values.fixture ?? null,
+    // Recorded frames are normally the Metal renderer's, replayed where there is no Mac
+    goldens: values.goldens ?? join("goldens", backend === "stand-in" ? "stand-in" : "metal"),
+    examples,
+    sizes,
+    times: [...new Set(times)],
+    threshold: parseFraction("threshold", values.threshold, 0.1),
+    tolerance: parseFraction("tolerance", values.tolerance, 0.001),
+    update: values.update,
+    record: values.record ?? null,
+    report: values.report,
+    timeoutMs: timeout * 1000,
+  };
+}
+
+function createBackend(options: GoldenOptions): Promise<GoldenBackend> {
+  switch (options.backend) {
+    case "renderer":
+      return rendererBackend(options.endpoint, options.timeoutMs);
+    case "stand-in":
+      return standInBackend(options.timeoutMs);
+    case "fixture":
+      return Promise.resolve(fixtureBackend(options.fixture as string));
+  }
+}
+
+function percent(ratio: number): string {
+  return `${(ratio * 100).toFixed(2)}%`;
+}
+
+// Compares one capture with its reference, or makes it the reference
+export function compareCase(goldenCase: GoldenCase, actual: Buffer, options: Pick<GoldenOptions, "goldens" | "threshold" | "tolerance" | "update">): GoldenResult {
+  const format = detectImageFormat(actual);
+  if (format !== "png") {
+    return { goldenCase, status: "error", message: `The backend sent ${format?.toUpperCase() ?? "an unknown image format"} instead of PNG; it predates the format option`, actual };
+  }
+
+  const path = join(options.goldens, `${goldenCase.id}.png`);
+  const expected = existsSync(path) ? readFileSync(path) : undefined;
+  if (options.update) {
+    if (expected?.equals(actual)) return { goldenCase, status: "pass", message: "", expected, actual };
+    writeFileSync(path, actual);
+    return { goldenCase, status: "updated", message: expected ? `Replaced ${path}` : `Wrote ${path}`, expected, actual };
+  }
+  if (!expected) return { goldenCase, status: "missing", message: `No reference at ${path}; run with --update to create it`, actual };
+
+  const expectedImage = decodePng(expected);
+  const actualImage = decodePng(actual);
+  if (expectedImage.width !== actualImage.width || expectedImage.height !== actualImage.height) {
+    return {
+      goldenCase,
+      status: "fail",
+      message: `The reference is ${expectedImage.width}x${expectedImage.height} and the frame ${actualImage.width}x${actualImage.height}`,
+      expected,
+      actual,
+    };
+  }
+
+  const { ratio, diff } = diffImages(expectedImage, actualImage, options.threshold);
+  const status = ratio <= options.tolerance ? "pass" : "fail";
+  return {
+    goldenCase,
+    status,
+    message: ratio === 0 ? "" : `${percent(ratio)} of pixels differ (tolerance ${percent(options.tolerance)})`,
+    expected,
+    actual,
+    diff: encodePng(diff.pixels, diff.width, diff.height),
+  };
+}
+
+async function main(args: string[]): Promise<number> {
+  let options: GoldenOptions | null;
+  try {
+    options = parseGoldenArgs(args);
+  } catch (error) {
+    console.error(`${error instanceof Error ? error.message : error}\n\n${USAGE}`);
+    return EXIT_FAILURE;
+  }
+  if (!options) {
+    console.log(USAGE);
+    return 0;
+  }
+
+  const backend = await createBackend(options);
+  const results: GoldenResult[] = [];
+  try {
+    if (options.update) mkdirSync(options.goldens, { recursive: true });
+    if (options.record) mkdirSync(options.record, { recursive: true });
+
+    for (const example of options.examples) {
+      for (const [width, height] of options.sizes) {
+        const cases = options.times.map(time => ({ id: goldenCaseId(example, width, height, time), example, width, height, time }));
+        const captures = await backend.render(cases);
+        cases.forEach((goldenCase, index) => {
+          const capture = captures[index];
+          if ("error" in capture) {
+            results.push({ goldenCase, status: "error", message: capture.error });
+          } else {
+            if (options.record) writeFileSync(join(options.record, `${goldenCase.id}.png`), capture.image);
+            try {
+              results.push(compareCase(goldenCase, capture.image, options));
+            } catch (error) {
+              results.push({ goldenCase, status: "error", message: error instanceof Error ? error.message : String(error), actual: capture.image });
+            }
+          }
+          const result = results[results.length - 1];
+          console.log(`${result.status.toUpperCase().padEnd(7)} ${goldenCase.id}${result.message ? `  ${result.message.split("\n")[0]}` : ""}`);
+        });
+      }
+    }
+  } finally {
+    await backend.close();
+  }
+
+  const failed = results.filter(result => result.status === "fail" || result.status === "missing" || result.status === "error");
+  const passed = results.length - failed.length;
+  console.log(`\n${passed} of ${results.length} cases passed against ${options.goldens} (${backend.name})`);
+  if (failed.length > 0 || options.update) console.log(`Report: ${writeGoldenReport(options.report, results, backend.name)}`);
+  return failed.length > 0 ? EXIT_MISMATCH : 0;
+}
+
+if (require.main === module) {
+  main(process.argv.slice(2)).then(
+    code => process.exit(code),
+    error => {
+      console.error(`golden: ${error instanceof Error ? error.message : error}`);
+      process.exit(EXIT_FAILURE);
+    },
+  );
+}
@@ -0,0 +1,64 @@
+import type { DecodedImage } from "./png";
+
+// Compares two images the way pixelmatch does: each pixel's colour difference is measured in YIQ space,
+// which weighs brightness over hue roughly as the eye does, so encoder noise and small GPU rounding
+// differences stay under the threshold while visible changes do not.
+
+// The largest possible YIQ delta, between black and white
+const MAX_DELTA = 35215;
+
+export interface ImageDiff {
+  differentPixels: number;
+  // differentPixels over the pixel count
+  ratio: number;
+  // Differing pixels in red over a faded greyscale copy of the expected image
+  diff: DecodedImage;
+}
+
+// Alpha is blended over white so transparent pixels compare by what they look like
+function blend(value: number, alpha: number): number {
+  return 255 + (value - 255) * alpha;
+}
+
+function yiq(pixels: Uint8Array, i: number): [number, number, number] {
+  const alpha = pixels[i + 3] / 255;
+  const r = blend(pixels[i], alpha);
+  const g = blend(pixels[i + 1], alpha);
+  const b = blend(pixels[i + 2], alpha);
+  return [
+    r * 0.29889531 + g * 0.58662247 + b * 0.11448223,
+    r * 0.59597799 - g * 0.2741761 - b * 0.32180189,
+    r * 0.21147017 - g * 0.52261711 + b * 0.31114694,
+  ];
+}
+
+// `threshold` is 0-1: 0 counts any change, 0.1 is pixelmatch's default
+export function diffImages(expected: DecodedImage, actual: DecodedImage, threshold = 0.1): ImageDiff {
+  if (expected.width !== actual.width || expected.height !== actual.height) {
+    throw new Error(`Sizes differ: ${expected.width}x${expected.height} and ${actual.width}x${actual.height}`);
+  }
+
+  const limit = MAX_DELTA * threshold * threshold;
+  const count = expected.width * expected.height;
+  const pixels = new Uint8Array(count * 4);
+  let differentPixels = 0;
+
+  for (let i = 0; i < count * 4; i += 4) {
+    const [y1, i1, q1] = yiq(expected.pixels, i);
+    const [y2, i2, q2] = yiq(actual.pixels, i);
+    const delta = 0.5053 * (y1 - y2) ** 2 + 0.299 * (i1 - i2) ** 2 + 0.1957 * (q1 - q2) ** 2;
+    if (delta > limit) {
+      differentPixels++;
+      pixels.set([255, 0, 0, 255], i);
+    } else {
+      const grey = Math.round(blend(y1, 0.1));
+      pixels.set([grey, grey, grey, 255], i);
+    }
+  }
+
+  return {
+    differentPixels,
+    ratio: count === 0 ? 0 : differentPixels / count,
+    diff: { width: expected.width, height: expected.height, pixels },
+  };
+}
@@ -0,0 +1,122 @@
+import { deflateSync, inflateSync } from "zlib";
+
+// 8-bit RGBA PNG encoding with no filtering, enough for generated frames and test images, and decoding of
+// the 8-bit non-interlaced PNGs renderers and image tools write
+
+const SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  return c >>> 0;
+});
+
+function crc32(data: Buffer): number {
+  let crc = 0xffffffff;
+  for (const byte of data) crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function chunk(type: string, data: Buffer): Buffer {
+  const length = Buffer.alloc(4);
+  length.writeUInt32BE(data.length);
+  const body = Buffer.concat([Buffer.from(type, "ascii"), data]);
+  const crc = Buffer.alloc(4);
+  crc.writeUInt32BE(crc32(body));
+  return Buffer.concat([length, body, crc]);
+}
+
+// `pixels` holds width * height RGBA values, top row first
+export function encodePng(pixels: Uint8Array, width: number, height: number): Buffer {
+  const header = Buffer.alloc(13);
+  header.writeUInt32BE(width, 0);
+  header.writeUInt32BE(height, 4);
+  header[8] = 8;
+  header[9] = 6;
+
+  const stride = width * 4;
+  const raw = Buffer.alloc((stride + 1) * height);
+  for (let y = 0; y < height; y++) {
+    raw.set(pixels.subarray(y * stride, (y + 1) * stride), y * (stride + 1) + 1);
+  }
+
+  return Buffer.concat([
+    SIGNATURE,
+    chunk("IHDR", header),
+    chunk("IDAT", deflateSync(raw)),
+    chunk("IEND", Buffer.alloc(0)),
+  ]);
+}
+
+export interface DecodedImage {
+  width: number;
+  height: number;
+  // width * height RGBA values, top row first
+  pixels: Uint8Array;
+}
+
+// Channels per pixel by colour type: greyscale, RGB, greyscale with alpha and RGBA. Palettes are not read.
+const CHANNELS: Record<number, number> = { 0: 1, 2: 3, 4: 2, 6: 4 };
+
+function paeth(a: number, b: number, c: number): number {
+  const p = a + b - c;
+  const pa = Math.abs(p - a);
+  const pb = Math.abs(p - b);
+  const pc = Math.abs(p - c);
+  return pa <= pb && pa <= pc ? a : pb <= pc ? b : c;
+}
+
+export function decodePng(data: Buffer): DecodedImage {
+  if (data.length < SIGNATURE.length || !data.subarray(0, SIGNATURE.length).equals(SIGNATURE)) throw new Error("Not a PNG");
+
+  let header: Buffer | null = null;
+  const compressed: Buffer[] = [];
+  for (let offset = SIGNATURE.length; offset + 8 <= data.length; ) {
+    const length = data.readUInt32BE(offset);
+    const type = data.toString("ascii", offset + 4, offset + 8);
+    const body = data.subarray(offset + 8, offset + 8 + length);
+    if (type === "IHDR") header = body;
+    else if (type === "IDAT") compressed.push(body);
+    else if (type === "IEND") break;
+    offset += length + 12;
+  }
+  if (!header || compressed.length === 0) throw new Error("PNG has no image data");
+
+  const width = header.readUInt32BE(0);
+  const height = header.readUInt32BE(4);
+  const [bitDepth, colorType, , , interlace] = header.subarray(8, 13);
+  const channels = CHANNELS[colorType];
+  if (bitDepth !== 8 || !channels || interlace !== 0) {
+    throw new Error(`Unsupported PNG: bit depth ${bitDepth}, colour type ${colorType}${interlace ? ", interlaced" : ""}`);
+  }
+
+  const raw = inflateSync(Buffer.concat(compressed));
+  const stride = width * channels;
+  if (raw.length < (stride + 1) * height) throw new Error("PNG image data is truncated");
+
+  // Undo each row's filter in place; `previous` is the row above, already unfiltered
+  const rows = new Uint8Array(stride * height);
+  let previous = new Uint8Array(stride);
+  for (let y = 0; y < height; y++) {
+    const filter = raw[y * (stride + 1)];
+    if (filter > 4) throw new Error(`PNG row ${y} has unknown filter ${filter}`);
+    const source = raw.subarray(y * (stride + 1) + 1, (y + 1) * (stride + 1));
+    const row = rows.subarray(y * stride, (y + 1) * stride);
+    for (let x = 0; x < stride; x++) {
+      const left = x >= channels ? row[x - channels] : 0;
+      const up = previous[x];
+      const upLeft = x >= channels ? previous[x - channels] : 0;
+      const predictor = filter === 0 ? 0 : filter === 1 ? left : filter === 2 ? up : filter === 3 ? (left + up) >> 1 : paeth(left, up, upLeft);
+      row[x] = (source[x] + predictor) & 0xff;
+    }
+    previous = row;
+  }
+
+  const pixels = new Uint8Array(width * height * 4);
+  for (let i = 0; i < width * height; i++) {
+    const pixel = rows.subarray(i * channels, (i + 1) * channels);
+    const [r, g, b, a] = channels >= 3 ? [pixel[0], pixel[1], pixel[2], channels === 4 ? pixel[3] : 255] : [pixel[0], pixel[0], pixel[0], channels === 2 ? pixel[1] : 255];
+    pixels.set([r, g, b, a], i * 4);
+  }
+  return { width, height, pixels };
+}
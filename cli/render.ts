@@ -0,0 +1,223 @@
+import { mkdirSync, writeFileSync } from "fs";
+import { join } from "path";
+import { parseArgs } from "util";
+import { DEFAULT_ENDPOINT, isValidEndpoint, type RendererEndpoint } from "../app/renderer-endpoint";
+import type { ShaderParamValues } from "../app/shader-params";
+import { detectImageFormat, IMAGE_FORMATS, type ImageFormat, type ServerFrame } from "./frame-header";
+import { RendererClient, showsTime } from "./renderer-client";
+import { formatDiagnostics, loadShaderFile, paramsMessage, parseParamValue, replyDiagnostics, shaderMessage } from "./shader-source";
+
+// Renders a .metal file through a running renderer and writes the frames as an image sequence.
+// Exit codes: 0 when every frame was written, 1 when the shader does not compile, 2 for anything else.
+
+const USAGE = `Usage: npm run render -- <shader.metal> [options]
+
+Options:
+  --server <host:port>   Renderer to use (default ${DEFAULT_ENDPOINT.host}:${DEFAULT_ENDPOINT.port})
+  --secure               Connect with wss:// and https://
+  --out <dir>            Directory for the images (default frames)
+  --prefix <name>        File name prefix (default frame)
+  --format <png|jpeg>    Image format (default png)
+  --quality <0-1>        JPEG quality (default the renderer's)
+  --frames <n>           Number of frames, starting at --start (default 1)
+  --fps <n>              Frames per second of shader time between frames (default 60)
+  --start <seconds>      Shader time of the first frame (default 0)
+  --times <t1,t2,...>    Render exactly these shader times instead of --frames
+  --size <WxH>           Render size (default 800x600)
+  --mouse <x,y>          Mouse position, 0-1 from the bottom-left (default 0.5,0.5)
+  --param <name=value>   Override a // @param default; repeatable
+  --timeout <seconds>    How long to wait for each reply or frame (default 10)
+  --help                 Show this message`;
+
+const EXIT_COMPILE_ERROR = 1;
+const EXIT_FAILURE = 2;
+
+export class UsageError extends Error {}
+
+export interface RenderOptions {
+  shader: string;
+  endpoint: RendererEndpoint;
+  out: string;
+  prefix: string;
+  format: ImageFormat;
+  // JPEG quality; null keeps the renderer's
+  quality: number | null;
+  times: number[];
+  width: number;
+  height: number;
+  fps: number;
+  mouse: [number, number];
+  params: string[];
+  timeoutMs: number;
+}
+
+function parseNumber(name: string, value: string | undefined, fallback: number, valid: (n: number) => boolean): number {
+  if (value === undefined) return fallback;
+  const number = Number(value);
+  if (!Number.isFinite(number) || !valid(number)) throw new UsageError(`--${name} ${value} is not valid`);
+  return number;
+}
+
+export function parseRenderArgs(args: string[]): RenderOptions | null {
+  const { values, positionals } = parseArgs({
+    args,
+    allowPositionals: true,
+    options: {
+      server: { type: "string" },
+      secure: { type: "boolean", default: false },
+      out: { type: "string", default: "frames" },
+      prefix: { type: "string", default: "frame" },
+      format: { type: "string", default: "png" },
+      quality: { type: "string" },
+      frames: { type: "string" },
+      fps: { type: "string" },
+      start: { type: "string" },
+      times: { type: "string" },
+      size: { type: "string", default: "800x600" },
+      mouse: { type: "string", default: "0.5,0.5" },
+      param: { type: "string", multiple: true, default: [] },
+      timeout: { type: "string" },
+      help: { type: "boolean", default: false },
+    },
+  });
+  if (values.help) return null;
+  if (positionals.length !== 1) throw new UsageError("Give exactly one shader file");
+
+  const [host, port] = (values.server ?? `${DEFAULT_ENDPOINT.host}:${DEFAULT_ENDPOINT.port}`).split(/:(?=\d+$)/);
+  const endpoint: RendererEndpoint = { ...DEFAULT_ENDPOINT, host, port: Number(port ?? DEFAULT_ENDPOINT.port), secure: values.secure };
+  if (!isValidEndpoint(endpoint)) throw new UsageError(`--server ${values.server} is not a host:port`);
+
+  const format = values.format as ImageFormat;
+  if (!IMAGE_FORMATS.includes(format)) throw new UsageError(`--format has to be one of ${IMAGE_FORMATS.join(", ")}`);
+
+  const size = /^(\d+)x(\d+)$/.exec(values.size);
+  if (!size) throw new UsageError(`--size ${values.size} is not WIDTHxHEIGHT`);
+  const mouse = values.mouse.split(",").map(Number);
+  if (mouse.length !== 2 || !mouse.every(Number.isFinite)) throw new UsageError(`--mouse ${values.mouse} is not x,y`);
+
+  const fps = parseNumber("fps", values.fps, 60, n => n > 0);
+  let times: number[];
+  if (values.times !== undefined) {
+    if (values.frames !== undefined || values.start !== undefined) throw new UsageError("--times replaces --frames and --start");
+    times = values.times.split(",").map(Number);
+    if (!times.every(t => Number.isFinite(t) && t >= 0)) throw new UsageError(`--times ${values.times} has to be non-negative seconds`);
+  } else {
+    const frames = parseNumber("frames", values.frames, 1, n => Number.isInteger(n) && n > 0);
+    const start = parseNumber("start", values.start, 0, n => n >= 0);
+    times = Array.from({ length: frames }, (_, index) => start + index / fps);
+  }
+
+  return {
+    shader: positionals[0],
+    endpoint,
+    out: values.out,
+    prefix: values.prefix,
+    format,
+    quality: values.quality === undefined ? null : parseNumber("quality", values.quality, 0, n => n >= 0 && n <= 1),
+    times,
+    width: Number(size[1]),
+    height: Number(size[2]),
+    fps,
+    mouse: [mouse[0], mouse[1]],
+    params: values.param,
+    timeoutMs: parseNumber("timeout", values.timeout, 10, n => n > 0) * 1000,
+  };
+}
+
+export function frameFileName(options: Pick<RenderOptions, "prefix" | "times">, index: number, format: ImageFormat): string {
+  const digits = Math.max(4, String(options.times.length - 1).length);
+  return `${options.prefix}-${String(index).padStart(digits, "0")}.${format === "jpeg" ? "jpg" : "png"}`;
+}
+
+// Compiles the shader and captures a frame at each requested time, in order. The clock is paused and set
+// for every frame, so the images do not depend on how fast the renderer or the network is.
+export async function captureFrames(
+  client: RendererClient,
+  options: RenderOptions,
+  onFrame: (frame: ServerFrame, index: number) => void,
+): Promise<{ error: string | null; warnings: string | null }> {
+  const { shader, displayPath } = loadShaderFile(options.shader);
+  if (shader.errors.length > 0) return { error: formatDiagnostics(shader.errors, displayPath), warnings: null };
+
+  const overrides: ShaderParamValues = {};
+  for (const assignment of options.params) {
+    const [name, value = ""] = assignment.split("=");
+    const param = shader.params.find(p => p.name === name);
+    if (!param) throw new UsageError(`${options.shader} has no @param named ${name}`);
+    const parsed = parseParamValue(param, value);
+    if (parsed === null) throw new UsageError(`--param ${assignment} is not a valid ${param.type}`);
+    overrides[name] = parsed;
+  }
+
+  const { width, height, timeoutMs } = options;
+  client.send({ type: "config", width, height, targetFps: Math.max(1, Math.min(120, Math.round(options.fps))), timeStep: 1 / options.fps, maxInFlight: 1, format: options.format, quality: options.quality ?? undefined });
+  client.send({ type: "playback", paused: true, speed: 1 });
+  // Pointer events are in pixels from the top-left, as the page sends them
+  client.send({ type: "mousemove", x: options.mouse[0] * width, y: (1 - options.mouse[1]) * height });
+  if (shader.params.length > 0) client.send(paramsMessage(shader.params, overrides));
+  client.send({ type: "time", time: options.times[0] });
+
+  const reply = await client.request(shaderMessage(shader, 1), timeoutMs);
+  const diagnostics = formatDiagnostics(replyDiagnostics(shader, reply), displayPath);
+  if (reply.error) return { error: diagnostics, warnings: null };
+
+  // The first frame after the reply may have been rendered before the shader was swapped in
+  await client.nextFrame(() => true, timeoutMs);
+  for (const [index, time] of options.times.entries()) {
+    client.send({ type: "time", time });
+    // Servers without the shader time in their frame header get two frames to catch up instead
+    let seen = 0;
+    const frame = await client.nextFrame(candidate => (candidate.time === null ? ++seen > 2 : showsTime(candidate, time)), timeoutMs);
+    onFrame(frame, index);
+  }
+
+  return { error: null, warnings: diagnostics || null };
+}
+
+async function main(args: string[]): Promise<number> {
+  let options: RenderOptions | null;
+  try {
+    options = parseRenderArgs(args);
+  } catch (error) {
+    console.error(`${error instanceof Error ? error.message : error}\n\n${USAGE}`);
+    return EXIT_FAILURE;
+  }
+  if (!options) {
+    console.log(USAGE);
+    return 0;
+  }
+
+  const client = await RendererClient.connect(options.endpoint, options.timeoutMs);
+  let warnedFormat = false;
+  try {
+    mkdirSync(options.out, { recursive: true });
+    const result = await captureFrames(client, options, (frame, index) => {
+      const format = detectImageFormat(frame.data) ?? "jpeg";
+      if (format !== options.format && !warnedFormat) {
+        warnedFormat = true;
+        console.warn(`The renderer sent ${format.toUpperCase()} instead of ${options.format.toUpperCase()}; it predates the format option`);
+      }
+      const file = join(options.out, frameFileName(options, index, format));
+      writeFileSync(file, frame.data);
+      console.log(`${file}  t=${options.times[index].toFixed(3)}s`);
+    });
+    if (result.warnings) console.warn(result.warnings);
+    if (result.error) {
+      console.error(result.error);
+      return EXIT_COMPILE_ERROR;
+    }
+    return 0;
+  } finally {
+    client.close();
+  }
+}
+
+if (require.main === module) {
+  main(process.argv.slice(2)).then(
+    code => process.exit(code),
+    error => {
+      console.error(error instanceof UsageError ? `${error.message}\n\n${USAGE}` : `render: ${error instanceof Error ? error.message : error}`);
+      process.exit(EXIT_FAILURE);
+    },
+  );
+}
@@ -0,0 +1,116 @@
+import { endpointUrl, probeHealth, type RendererEndpoint } from "../app/renderer-endpoint";
+import { parseServerMessage, type CompileReply, type RendererMessage } from "../app/renderer-protocol";
+import { parseServerFrame, type ServerFrame } from "./frame-header";
+import { connectWebSocket, type WebSocketConnection } from "./websocket";
+
+// A renderer session over /ws, the same protocol the page speaks. Every frame is acknowledged as soon as
+// it arrives, so with maxInFlight 1 the server renders each frame after seeing everything sent before.
+
+interface FrameWaiter {
+  accept: (frame: ServerFrame) => boolean;
+  resolve: (frame: ServerFrame) => void;
+  reject: (error: Error) => void;
+}
+
+export class RendererClient {
+  private replies = new Map<number, (message: CompileReply) => void>();
+  private frameWaiter: FrameWaiter | null = null;
+  private closeListeners: ((error: Error) => void)[] = [];
+
+  private constructor(private socket: WebSocketConnection, readonly endpoint: RendererEndpoint) {
+    socket.onBinary = data => this.receiveFrame(parseServerFrame(data));
+    socket.onText = text => this.receiveMessage(text);
+    socket.onClose = () => {
+      const error = new Error("The renderer closed the connection");
+      this.frameWaiter?.reject(error);
+      this.frameWaiter = null;
+      this.closeListeners.forEach(listener => listener(error));
+      this.closeListeners = [];
+    };
+  }
+
+  static async connect(endpoint: RendererEndpoint, timeoutMs = 5000): Promise<RendererClient> {
+    if (!(await probeHealth(endpoint, timeoutMs))) {
+      throw new Error(`No renderer reachable at ${endpointUrl(endpoint, "http", "")}`);
+    }
+    return new RendererClient(await connectWebSocket(endpointUrl(endpoint, "ws", "/ws"), timeoutMs), endpoint);
+  }
+
+  get isOpen(): boolean {
+    return this.socket.isOpen;
+  }
+
+  send(message: RendererMessage) {
+    this.socket.sendText(JSON.stringify(message));
+  }
+
+  // Sends a shader or pipeline message and waits for the compile reply that echoes its id
+  request(message: RendererMessage & { type: "shader" | "pipeline"; id: number }, timeoutMs: number): Promise<CompileReply> {
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.replies.delete(message.id);
+        reject(new Error(`The renderer did not answer ${message.type} ${message.id} within ${timeoutMs / 1000}s`));
+      }, timeoutMs);
+      this.replies.set(message.id, reply => {
+        clearTimeout(timer);
+        resolve(reply);
+      });
+      this.closeListeners.push(error => {
+        clearTimeout(timer);
+        reject(error);
+      });
+      this.send(message);
+    });
+  }
+
+  // Resolves with the first frame to arrive that `accept` takes; frames it passes over are dropped
+  nextFrame(accept: (frame: ServerFrame) => boolean, timeoutMs: number): Promise<ServerFrame> {
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.frameWaiter = null;
+        reject(new Error(`No matching frame arrived within ${timeoutMs / 1000}s`));
+      }, timeoutMs);
+      this.frameWaiter = {
+        accept,
+        resolve: frame => {
+          clearTimeout(timer);
+          resolve(frame);
+        },
+        reject: error => {
+          clearTimeout(timer);
+          reject(error);
+        },
+      };
+    });
+  }
+
+  close() {
+    this.socket.close();
+  }
+
+  private receiveFrame(frame: ServerFrame) {
+    this.send({ type: "ack", sequence: frame.sequence });
+    const waiter = this.frameWaiter;
+    if (!waiter || !waiter.accept(frame)) return;
+    this.frameWaiter = null;
+    waiter.resolve(frame);
+  }
+
+  private receiveMessage(text: string) {
+    let message;
+    try {
+      message = parseServerMessage(JSON.parse(text));
+    } catch {
+      return;
+    }
+    if (message?.type !== "compile" || typeof message.id !== "number") return;
+    const reply = this.replies.get(message.id);
+    this.replies.delete(message.id);
+    reply?.(message);
+  }
+}
+
+// Whether a frame shows shader time `time`; servers keep the clock as a 32-bit float
+export function showsTime(frame: ServerFrame, time: number): boolean {
+  return frame.time !== null && Math.abs(frame.time - Math.fround(time)) <= 1e-4 * Math.max(1, time);
+}
@@ -0,0 +1,127 @@
+import { readdirSync, readFileSync } from "fs";
+import { basename, dirname, join, relative } from "path";
+import { parseMetalDiagnostics, type MetalDiagnostic } from "../app/metal-diagnostics";
+import type { CompileReply, ParamsMessage, PipelineMessage, ShaderMessage } from "../app/renderer-protocol";
+import {
+  includeDiagnostics,
+  isValidFileName,
+  mapDiagnostics,
+  resolveIncludes,
+  uniqueProblems,
+  type ResolvedSource,
+  type ShaderFile,
+  type ShaderSources,
+} from "../app/shader-includes";
+import { inputDeclarations } from "../app/shader-inputs";
+import { isLibraryPath } from "../app/shader-library";
+import {
+  encodeBase64,
+  hexToRgb,
+  packParams,
+  paramsDeclarations,
+  parseShaderParams,
+  PARAMS_BUFFER_INDEX,
+  resolveParamValues,
+  type ShaderParam,
+  type ShaderParamValue,
+  type ShaderParamValues,
+} from "../app/shader-params";
+import { passPath, pipelineMessage, type BufferPass, type PassName } from "../app/shader-passes";
+import { injectDeclarations } from "../app/source-injection";
+
+// Prepares shaders the way the page prepares what it sends: quoted includes are inlined from the project
+// files or the built-in lib/ headers, and the params and input structs are declared in every pass.
+
+export interface PreparedShader {
+  // The image pass and the buffer passes as they are sent
+  code: string;
+  passes: BufferPass[];
+  // Each pass with its includes inlined, for pointing compiler output back at the documents
+  resolved: Map<PassName, ResolvedSource>;
+  params: ShaderParam[];
+  // Include and @param errors; a shader with any is not sent
+  errors: MetalDiagnostic[];
+}
+
+export function prepareShader(sources: ShaderSources): PreparedShader {
+  const { params, errors: paramErrors } = parseShaderParams(sources.code);
+  const declare = (code: string) => injectDeclarations(code, [...paramsDeclarations(params), ...inputDeclarations(code)]);
+
+  const image = resolveIncludes(passPath("image"), sources.code, sources.files);
+  const buffers = sources.passes.map(pass => ({ pass, resolved: resolveIncludes(passPath(pass.name), pass.code, sources.files) }));
+  const resolved = new Map<PassName, ResolvedSource>([["image", image], ...buffers.map(({ pass, resolved }) => [pass.name, resolved] as const)]);
+
+  return {
+    code: declare(image.code),
+    passes: buffers.map(({ pass, resolved }) => ({ ...pass, code: declare(resolved.code) })),
+    resolved,
+    params,
+    errors: [
+      ...uniqueProblems(includeDiagnostics([...resolved.values()].flatMap(source => source.errors))),
+      ...paramErrors.map(error => ({ file: passPath("image"), line: error.line, column: 1, severity: "error" as const, message: error.message, notes: [] })),
+    ],
+  };
+}
+
+// A shader message, or a pipeline message once there are buffer passes
+export function shaderMessage(shader: PreparedShader, id: number): (ShaderMessage | PipelineMessage) & { id: number } {
+  return shader.passes.length > 0 ? pipelineMessage(id, shader.code, shader.passes) : { type: "shader", id, code: shader.code };
+}
+
+// Compiler output refers to the resolved passes; this points it back at the documents it came from
+export function replyDiagnostics(shader: PreparedShader, reply: CompileReply): MetalDiagnostic[] {
+  const map = (output: string, pass: PassName | undefined, severity: "error" | "warning") => {
+    const resolved = shader.resolved.get(pass ?? "image");
+    const diagnostics = parseMetalDiagnostics(output, severity);
+    return resolved ? mapDiagnostics(diagnostics, resolved) : diagnostics;
+  };
+  if (reply.error) return map(reply.error, reply.pass, "error");
+  if (reply.passWarnings) {
+    return (Object.entries(reply.passWarnings) as [PassName, string][]).flatMap(([pass, output]) => map(output, pass, "warning"));
+  }
+  return reply.warnings ? map(reply.warnings, "image", "warning") : [];
+}
+
+export function formatDiagnostics(diagnostics: MetalDiagnostic[], displayPath: (file: string) => string): string {
+  return diagnostics.flatMap(diagnostic => [
+    `${displayPath(diagnostic.file)}:${diagnostic.line}:${diagnostic.column}: ${diagnostic.severity}: ${diagnostic.message}`,
+    ...diagnostic.notes.map(note => `${displayPath(note.file)}:${note.line}:${note.column}: note: ${note.message}`),
+  ]).join("\n");
+}
+
+// Headers next to a .metal file can be included by name, as project files are in the page
+export function loadShaderFile(path: string): { shader: PreparedShader; displayPath: (file: string) => string } {
+  const directory = dirname(path);
+  const files: ShaderFile[] = readdirSync(directory)
+    .filter(name => isValidFileName(name) && name !== basename(path))
+    .map(name => ({ name, code: readFileSync(join(directory, name), "utf8") }));
+
+  const shader = prepareShader({ code: readFileSync(path, "utf8"), passes: [], files });
+  const displayPath = (file: string) => {
+    if (file === passPath("image")) return path;
+    return isLibraryPath(file) ? file : relative(process.cwd(), join(directory, file));
+  };
+  return { shader, displayPath };
+}
+
+// --param values: numbers, true/false, "x,y" for float2 and #rrggbb or "r,g,b" for colors
+export function parseParamValue(param: ShaderParam, text: string): ShaderParamValue | null {
+  const numbers = text.split(",").map(Number);
+  switch (param.type) {
+    case "float":
+    case "int":
+      return numbers.length === 1 && Number.isFinite(numbers[0]) ? (param.type === "int" ? Math.round(numbers[0]) : numbers[0]) : null;
+    case "bool":
+      return ["true", "1"].includes(text) ? true : ["false", "0"].includes(text) ? false : null;
+    case "float2":
+      return numbers.length === 2 && numbers.every(Number.isFinite) ? [numbers[0], numbers[1]] : null;
+    case "color":
+      if (/^#([0-9a-fA-F]{3}|[0-9a-fA-F]{6})$/.test(text)) return hexToRgb(text);
+      return numbers.length === 3 && numbers.every(Number.isFinite) ? [numbers[0], numbers[1], numbers[2]] : null;
+  }
+}
+
+export function paramsMessage(params: ShaderParam[], overrides: ShaderParamValues): ParamsMessage {
+  const values = resolveParamValues(params, overrides);
+  return { type: "params", index: PARAMS_BUFFER_INDEX, data: encodeBase64(packParams(params, values)) };
+}
@@ -0,0 +1,264 @@
+import { createHash } from "crypto";
+import http from "http";
+import type { AddressInfo } from "net";
+import { parseArgs } from "util";
+import { encodeRawFrame } from "../app/frame-encoding";
+import {
+  PROTOCOL_VERSION,
+  RENDERER_FEATURES,
+  validateClientMessage,
+  type FrameEncoding,
+  type RendererMessage,
+  type ServerMessage,
+} from "../app/renderer-protocol";
+import { encodeBlockJpeg } from "./block-jpeg";
+import { encodeServerFrame } from "./frame-header";
+import { encodePng } from "./png";
+import { acceptWebSocket, type WebSocketConnection } from "./websocket";
+
+// Imitates the Metal renderer's /health and /ws so clients can run where there is no Mac. It compiles
+// nothing: a shader "compiles" when it has a fragment_main and no #error directive, and frames show a
+// pattern that depends on the shader's code, the clock and the mouse. The pattern never shows what the
+// shader draws, so frames from the stand-in only tell that code changed. Messages, replies, the playback
+// clock, acks and frame headers follow main.swift.
+
+const MAX_SIZE = 4096;
+const CLOCK_REPORT_INTERVAL_MS = 100;
+
+// Comments and whitespace are left out, so only edits that could change the output change the pattern
+function codeFingerprint(code: string): string {
+  return code.replace(/\/\*[\s\S]*?\*\/|\/\/[^\n]*/g, " ").replace(/\s+/g, " ").trim();
+}
+
+interface StandInClient {
+  socket: WebSocketConnection;
+  maxInFlight: number;
+  // Sequences sent but not yet acknowledged
+  inFlight: number[];
+}
+
+export interface StandInServer {
+  port: number;
+  close(): Promise<void>;
+}
+
+// Errors read like the Metal compiler's, so clients map them the same way
+function compileError(code: string): string | null {
+  const lines = code.split("\n");
+  const directive = lines.findIndex(line => /^\s*#\s*error\b/.test(line));
+  if (directive >= 0) {
+    const text = lines[directive];
+    const message = text.replace(/^\s*#\s*error\s*/, "") || "#error";
+    return `program_source:${directive + 1}:${text.indexOf("#") + 2}: error: ${message}`;
+  }
+  if (!/\bfragment_main\s*\(/.test(code)) return "Could not find vertex_main or fragment_main functions";
+  return null;
+}
+
+export function startStandInServer(port = 0): Promise<StandInServer> {
+  const clients = new Set<StandInClient>();
+  const state = {
+    width: 800,
+    height: 600,
+    targetFps: 60,
+    timeStep: null as number | null,
+    format: "jpeg" as FrameEncoding,
+    paused: false,
+    speed: 1,
+    pendingSteps: 0,
+    // Float32, like the Metal renderer's clock
+    time: 0,
+    mouse: [0.5, 0.5],
+    // Nothing streams until a shader compiles, as on the real server
+    streaming: false,
+    hue: 0,
+  };
+  let sequence = 0;
+  let lastClockReport = 0;
+
+  const render = (): Buffer => {
+    const { width, height, time } = state;
+    const pixels = new Uint8Array(width * height * 4);
+    const pulse = Math.sin(time) * 0.5 + 0.5;
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        const u = x / width;
+        const v = 1 - y / height;
+        const spot = Math.hypot(u - state.mouse[0], v - state.mouse[1]) < 0.05 ? 1 : 0;
+        const i = (y * width + x) * 4;
+        pixels[i] = Math.round(255 * Math.max(spot, (u + state.hue) % 1));
+        pixels[i + 1] = Math.round(255 * Math.max(spot, v));
+        pixels[i + 2] = Math.round(255 * Math.max(spot, pulse));
+        pixels[i + 3] = 255;
+      }
+    }
+    switch (state.format) {
+      case "png":
+        return encodePng(pixels, width, height);
+      case "raw":
+        return Buffer.from(encodeRawFrame(pixels, width, height));
+      case "jpeg":
+        return encodeBlockJpeg(pixels, width, height);
+    }
+  };
+
+  // The frame shows the current time, then the clock advances
+  const renderFrame = () => {
+    const renderedTime = state.time;
+    const step = (state.timeStep ?? 1 / state.targetFps) * state.speed;
+    if (!state.paused) {
+      state.time = Math.fround(state.time + step);
+    } else if (state.pendingSteps > 0) {
+      state.time = Math.fround(state.time + step);
+      state.pendingSteps--;
+    }
+
+    const ready = [...clients].filter(client => client.inFlight.length < client.maxInFlight);
+    if (ready.length === 0) return;
+    sequence = (sequence + 1) >>> 0;
+    const frame = encodeServerFrame({ sequence, renderedAt: performance.now(), time: renderedTime, data: render() });
+    for (const client of ready) {
+      client.inFlight.push(sequence);
+      client.socket.sendBinary(frame);
+    }
+  };
+
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  const loop = () => {
+    const started = performance.now();
+    if (state.streaming) {
+      renderFrame();
+      if (started - lastClockReport >= CLOCK_REPORT_INTERVAL_MS) {
+        lastClockReport = started;
+        const report = JSON.stringify({ type: "clock", time: state.time, paused: state.paused } satisfies ServerMessage);
+        clients.forEach(client => client.socket.sendText(report));
+      }
+    }
+    const frameTime = state.streaming ? 1000 / state.targetFps : 100;
+    timer = setTimeout(loop, Math.max(0, frameTime - (performance.now() - started)));
+  };
+
+  const handle = (client: StandInClient, message: RendererMessage): ServerMessage | null => {
+    switch (message.type) {
+      case "hello":
+        // Every feature is accepted, even those that do not change the pattern, as the Metal renderer accepts them
+        return {
+          type: "hello",
+          version: PROTOCOL_VERSION,
+          server: "stand-in",
+          capabilities: { maxWidth: MAX_SIZE, maxHeight: MAX_SIZE, encodings: ["jpeg", "png", "raw"], features: RENDERER_FEATURES },
+        };
+      case "ack":
+        client.inFlight = client.inFlight.filter(s => s > message.sequence);
+        return null;
+      case "config":
+        if (typeof message.maxInFlight === "number") client.maxInFlight = Math.max(1, Math.min(8, message.maxInFlight));
+        if (typeof message.targetFps === "number") state.targetFps = Math.max(1, Math.min(120, Math.round(message.targetFps)));
+        if ("timeStep" in message) state.timeStep = typeof message.timeStep === "number" && message.timeStep > 0 ? message.timeStep : null;
+        if (typeof message.width === "number" && typeof message.height === "number") {
+          state.width = Math.max(1, Math.min(MAX_SIZE, Math.round(message.width)));
+          state.height = Math.max(1, Math.min(MAX_SIZE, Math.round(message.height)));
+        }
+        // The block encoder has one fixed quality, so quality is accepted and ignored
+        if (message.format) state.format = message.format;
+        return null;
+      case "shader":
+      case "pipeline": {
+        const passes = message.type === "shader" ? [{ name: "image" as const, code: message.code }] : message.passes;
+        for (const pass of passes) {
+          const error = compileError(pass.code);
+          if (error) return message.type === "shader" ? { type: "compile", id: message.id, error } : { type: "compile", id: message.id, error, pass: pass.name };
+        }
+        const digest = createHash("sha1").update(passes.map(pass => codeFingerprint(pass.code)).join("\n")).digest();
+        state.hue = digest[0] / 255;
+        state.streaming = true;
+        return { type: "compile", id: message.id, ok: true };
+      }
+      case "time":
+        state.time = Math.fround(Math.max(0, message.time));
+        return null;
+      case "playback":
+        if (typeof message.paused === "boolean") state.paused = message.paused;
+        if (typeof message.speed === "number") state.speed = Math.max(0, Math.min(16, message.speed));
+        return null;
+      case "step":
+        state.pendingSteps += Math.max(1, typeof message.frames === "number" ? message.frames : 1);
+        return null;
+      case "mousemove":
+      case "mousedown":
+      case "mouseup":
+      case "click":
+        state.mouse = [message.x / state.width, 1 - message.y / state.height];
+        return null;
+      case "ping":
+        return { type: "pong", pong: message.sent, serverTime: performance.now() };
+      default:
+        // params, channel, keyboard and wheel input are accepted and have no effect on the pattern
+        return null;
+    }
+  };
+
+  const server = http.createServer((request, response) => {
+    if (request.method === "GET" && request.url === "/health") {
+      response.writeHead(200, { "Content-Type": "text/plain", "Access-Control-Allow-Origin": "*" });
+      response.end("ok");
+      return;
+    }
+    response.writeHead(404);
+    response.end();
+  });
+
+  server.on("upgrade", (request, socket, head) => {
+    if (request.url !== "/ws") {
+      socket.end("HTTP/1.1 404 Not Found\r\n\r\n");
+      return;
+    }
+    const connection = acceptWebSocket(request, socket, head);
+    if (!connection) return;
+    const client: StandInClient = { socket: connection, maxInFlight: 2, inFlight: [] };
+    clients.add(client);
+    connection.onClose = () => clients.delete(client);
+    connection.onText = text => {
+      let value: unknown;
+      try {
+        value = JSON.parse(text);
+      } catch {
+        connection.sendText(JSON.stringify({ type: "error", error: "A message has to be JSON" } satisfies ServerMessage));
+        return;
+      }
+      const result = validateClientMessage(value);
+      if ("error" in result) {
+        connection.sendText(JSON.stringify({ type: "error", ...result } satisfies ServerMessage));
+        return;
+      }
+      const reply = handle(client, result.message);
+      if (reply) connection.sendText(JSON.stringify(reply));
+    };
+  });
+
+  return new Promise((resolve, reject) => {
+    server.once("error", reject);
+    server.listen(port, () => {
+      loop();
+      resolve({
+        port: (server.address() as AddressInfo).port,
+        close() {
+          if (timer) clearTimeout(timer);
+          clients.forEach(client => client.socket.close());
+          return new Promise(done => server.close(() => done()));
+        },
+      });
+    });
+  });
+}
+
+if (require.main === module) {
+  const { values } = parseArgs({ options: { port: { type: "string", default: process.env.PORT ?? "9000" } } });
+  startStandInServer(Number(values.port)).then(
+    server => console.log(`Stand-in renderer running on http://localhost:${server.port} (GET /health, WS /ws)`),
+    error => {
+      console.error("Stand-in server error:", error);
+      process.exit(1);
+    },
+  );
+}
@@ -0,0 +1,195 @@
+import { createHash, randomBytes } from "crypto";
+import http, { type IncomingMessage } from "http";
+import https from "https";
+import type { Duplex } from "stream";
+
+// Just enough of RFC 6455 for the renderer protocol, so the CLI and the stand-in server run on a plain
+// Node install: text and binary messages, fragmentation, ping/pong and close. No extensions.
+
+const HANDSHAKE_GUID = "258EAFA5-E914-47DA-95CA-C5AB0DC85B11";
+
+const OPCODE_CONTINUATION = 0x0;
+const OPCODE_TEXT = 0x1;
+const OPCODE_BINARY = 0x2;
+const OPCODE_CLOSE = 0x8;
+const OPCODE_PING = 0x9;
+const OPCODE_PONG = 0xa;
+
+function acceptKey(key: string): string {
+  return createHash("sha1").update(key + HANDSHAKE_GUID).digest("base64");
+}
+
+export class WebSocketConnection {
+  onText: (text: string) => void = () => {};
+  onBinary: (data: Buffer) => void = () => {};
+  onClose: () => void = () => {};
+
+  private pending = Buffer.alloc(0);
+  private fragments: Buffer[] = [];
+  private fragmentOpcode = 0;
+  private closed = false;
+
+  // Clients mask what they send, servers do not
+  constructor(private socket: Duplex, private masked: boolean, head?: Buffer) {
+    socket.on("data", (chunk: Buffer) => this.receive(chunk));
+    socket.on("close", () => this.finish());
+    socket.on("error", () => this.finish());
+    if (head && head.length > 0) this.receive(head);
+  }
+
+  get isOpen(): boolean {
+    return !this.closed;
+  }
+
+  sendText(text: string) {
+    this.sendFrame(OPCODE_TEXT, Buffer.from(text, "utf8"));
+  }
+
+  sendBinary(data: Buffer) {
+    this.sendFrame(OPCODE_BINARY, data);
+  }
+
+  close() {
+    if (this.closed) return;
+    this.sendFrame(OPCODE_CLOSE, Buffer.alloc(0));
+    this.socket.end();
+    this.finish();
+  }
+
+  private finish() {
+    if (this.closed) return;
+    this.closed = true;
+    this.onClose();
+  }
+
+  private sendFrame(opcode: number, payload: Buffer) {
+    if (this.closed || this.socket.destroyed) return;
+    const length = payload.length;
+    const lengthBytes = length < 126 ? 0 : length < 65536 ? 2 : 8;
+    const header = Buffer.alloc(2 + lengthBytes + (this.masked ? 4 : 0));
+    header[0] = 0x80 | opcode;
+    header[1] = (this.masked ? 0x80 : 0) | (lengthBytes === 0 ? length : lengthBytes === 2 ? 126 : 127);
+    if (lengthBytes === 2) header.writeUInt16BE(length, 2);
+    if (lengthBytes === 8) header.writeBigUInt64BE(BigInt(length), 2);
+
+    if (!this.masked) {
+      this.socket.write(Buffer.concat([header, payload]));
+      return;
+    }
+    const mask = randomBytes(4);
+    mask.copy(header, 2 + lengthBytes);
+    const body = Buffer.alloc(length);
+    for (let i = 0; i < length; i++) body[i] = payload[i] ^ mask[i & 3];
+    this.socket.write(Buffer.concat([header, body]));
+  }
+
+  private receive(chunk: Buffer) {
+    this.pending = Buffer.concat([this.pending, chunk]);
+
+    while (this.pending.length >= 2) {
+      const fin = (this.pending[0] & 0x80) !== 0;
+      const opcode = this.pending[0] & 0x0f;
+      const hasMask = (this.pending[1] & 0x80) !== 0;
+      let length = this.pending[1] & 0x7f;
+      let offset = 2;
+
+      if (length === 126) {
+        if (this.pending.length < 4) return;
+        length = this.pending.readUInt16BE(2);
+        offset = 4;
+      } else if (length === 127) {
+        if (this.pending.length < 10) return;
+        length = Number(this.pending.readBigUInt64BE(2));
+        offset = 10;
+      }
+      const maskOffset = offset;
+      if (hasMask) offset += 4;
+      if (this.pending.length < offset + length) return;
+
+      const payload = Buffer.from(this.pending.subarray(offset, offset + length));
+      if (hasMask) {
+        for (let i = 0; i < length; i++) payload[i] ^= this.pending[maskOffset + (i & 3)];
+      }
+      this.pending = this.pending.subarray(offset + length);
+      this.handleFrame(fin, opcode, payload);
+    }
+  }
+
+  private handleFrame(fin: boolean, opcode: number, payload: Buffer) {
+    switch (opcode) {
+      case OPCODE_PING:
+        this.sendFrame(OPCODE_PONG, payload);
+        return;
+      case OPCODE_PONG:
+        return;
+      case OPCODE_CLOSE:
+        this.close();
+        return;
+      case OPCODE_CONTINUATION:
+        this.fragments.push(payload);
+        break;
+      default:
+        this.fragmentOpcode = opcode;
+        this.fragments = [payload];
+    }
+    if (!fin) return;
+
+    const message = Buffer.concat(this.fragments);
+    this.fragments = [];
+    if (this.fragmentOpcode === OPCODE_TEXT) this.onText(message.toString("utf8"));
+    else if (this.fragmentOpcode === OPCODE_BINARY) this.onBinary(message);
+  }
+}
+
+export function connectWebSocket(url: string, timeoutMs = 5000): Promise<WebSocketConnection> {
+  const target = new URL(url);
+  const key = randomBytes(16).toString("base64");
+  const request = (target.protocol === "wss:" ? https : http).request({
+    host: target.hostname.replace(/^\[|\]$/g, ""),
+    port: target.port,
+    path: `${target.pathname}${target.search}`,
+    headers: {
+      Connection: "Upgrade",
+      Upgrade: "websocket",
+      "Sec-WebSocket-Key": key,
+      "Sec-WebSocket-Version": "13",
+    },
+    timeout: timeoutMs,
+  });
+
+  return new Promise((resolve, reject) => {
+    request.on("upgrade", (response: IncomingMessage, socket: Duplex, head: Buffer) => {
+      if (response.headers["sec-websocket-accept"] !== acceptKey(key)) {
+        socket.destroy();
+        reject(new Error(`${url} answered the WebSocket handshake with the wrong key`));
+        return;
+      }
+      resolve(new WebSocketConnection(socket, true, head));
+    });
+    request.on("response", response => {
+      response.resume();
+      reject(new Error(`${url} answered ${response.statusCode} instead of upgrading to a WebSocket`));
+    });
+    request.on("timeout", () => request.destroy(new Error(`${url} did not answer within ${timeoutMs / 1000}s`)));
+    request.on("error", reject);
+    request.end();
+  });
+}
+
+// Completes the handshake for an HTTP server's "upgrade" event; returns null after refusing it
+export function acceptWebSocket(request: IncomingMessage, socket: Duplex, head: Buffer): WebSocketConnection | null {
+  const key = request.headers["sec-websocket-key"];
+  if (typeof key !== "string" || request.headers.upgrade?.toLowerCase() !== "websocket") {
+    socket.end("HTTP/1.1 400 Bad Request\r\n\r\n");
+    return null;
+  }
+  socket.write([
+    "HTTP/1.1 101 Switching Protocols",
+    "Upgrade: websocket",
+    "Connection: Upgrade",
+    `Sec-WebSocket-Accept: ${acceptKey(key)}`,
+    "",
+    "",
+  ].join("\r\n"));
+  return new WebSocketConnection(socket, false, head);
+}
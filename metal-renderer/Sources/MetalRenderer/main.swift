@@ -8,6 +8,49 @@ import ImageIO
 
 // MARK: - Metal Renderer
 
+struct PassSpec {
+    let name: String
+    let code: String
+    let scale: Float
+}
+
+// A buffer pass renders into one of its two textures while the other holds its previous frame
+final class BufferPass {
+    let name: String
+    let pipelineState: MTLRenderPipelineState
+    let scale: Float
+    var textures: [MTLTexture] = []
+    // Index of the texture holding the latest output
+    var current = 0
+    var needsClear = true
+    
+    init(name: String, pipelineState: MTLRenderPipelineState, scale: Float) {
+        self.name = name
+        self.pipelineState = pipelineState
+        self.scale = scale
+    }
+}
+
+// How rendered frames are encoded; set with the "format" config field
+enum FrameFormat: String {
+    case jpeg
+    case png
+    // RGBA pixels behind a small header, for clients that want exact colors without decoding
+    case raw
+    
+    var typeIdentifier: String {
+        self == .jpeg ? "public.jpeg" : "public.png"
+    }
+    
+    var mimeType: String {
+        switch self {
+        case .jpeg: return "image/jpeg"
+        case .png: return "image/png"
+        case .raw: return "application/octet-stream"
+        }
+    }
+}
+
 class MetalShaderRenderer {
     let device: MTLDevice
     let commandQueue: MTLCommandQueue
@@ -17,16 +60,64 @@ class MetalShaderRenderer {
     private(set) var height: Int
     
     var time: Float = 0
+    // Time of the most recently rendered frame, reported back to clients
+    private(set) var renderedTime: Float = 0
+    var paused = false
+    var playbackSpeed: Float = 1
+    // Fixed time step per frame; nil advances by 1/targetFps
+    var fixedTimeStep: Float?
+    private var pendingSteps = 0
     var mouseX: Float = 0.5
     var mouseY: Float = 0.5
     var targetFps: Int = 60
+    var frameFormat = FrameFormat.jpeg
+    // JPEG quality, 0-1; set with the "quality" config field
+    var frameQuality: Float = 0.85
     
     var currentShaderCode: String = ""
     var compileError: String?
+    var compileWarnings: String?
+    // Warnings of a multi-pass pipeline, by pass name
+    private(set) var passWarnings: [String: String] = [:]
     
     private var timeBuffer: MTLBuffer
     private var mouseBuffer: MTLBuffer
     
+    // Extended mouse state and keyboard, laid out as MouseState and KeyboardState in shader-inputs.ts
+    static let mouseStateBufferIndex = 3
+    static let keyboardBufferIndex = 4
+    // float2 size in pixels of the texture a pass renders into
+    static let resolutionBufferIndex = 5
+    private var mouseStateBuffer: MTLBuffer
+    private var keyboardBuffer: MTLBuffer
+    private var clickX: Float = 0.5
+    private var clickY: Float = 0.5
+    private var wheelX: Float = 0
+    private var wheelY: Float = 0
+    private var buttons: UInt32 = 0
+    private var clicked = false
+    // Three rows of 256 keyCodes: held, pressed since the last frame, toggled
+    private var keys = [UInt8](repeating: 0, count: 768)
+    
+    // Packed uniform block generated from the shader's @param annotations
+    static let paramsBufferIndex = 2
+    private var paramsBuffer: MTLBuffer
+    
+    // Texture channels bound at texture(n) with their sampler at sampler(n); empty channels
+    // are bound to a 1x1 black texture so shaders can sample any of them
+    static let channelCount = 4
+    private var channelTextures: [MTLTexture?] = Array(repeating: nil, count: channelCount)
+    private var channelSamplers: [MTLSamplerState]
+    private var emptyChannel: MTLTexture
+    private let textureLoader: MTKTextureLoader
+    
+    // Buffer passes A, B and C render before the image pass into half-float textures. Every pass sees
+    // buffer n at [[texture(bufferTextureBase + n)]] with a linear clamping sampler at the same index.
+    static let bufferTextureBase = 4
+    static let bufferNames = ["A", "B", "C"]
+    private var bufferPasses: [BufferPass] = []
+    private let bufferSampler: MTLSamplerState
+    
     // Shared buffer for zero-copy readback on Apple Silicon
     private var readbackBuffer: MTLBuffer
     
@@ -82,6 +173,34 @@ class MetalShaderRenderer {
         self.timeBuffer = timeBuffer
         self.mouseBuffer = mouseBuffer
         
+        guard let paramsBuffer = device.makeBuffer(length: 16, options: .storageModeShared),
+              let mouseStateBuffer = device.makeBuffer(length: 48, options: .storageModeShared),
+              let keyboardBuffer = device.makeBuffer(length: 768, options: .storageModeShared) else {
+            throw MetalError.noBuffer
+        }
+        self.paramsBuffer = paramsBuffer
+        self.mouseStateBuffer = mouseStateBuffer
+        self.keyboardBuffer = keyboardBuffer
+        
+        let emptyDescriptor = MTLTextureDescriptor.texture2DDescriptor(pixelFormat: .rgba8Unorm, width: 1, height: 1, mipmapped: false)
+        emptyDescriptor.usage = .shaderRead
+        guard let emptyChannel = device.makeTexture(descriptor: emptyDescriptor) else {
+            throw MetalError.noTexture
+        }
+        let black: [UInt8] = [0, 0, 0, 255]
+        emptyChannel.replace(region: MTLRegionMake2D(0, 0, 1, 1), mipmapLevel: 0, withBytes: black, bytesPerRow: 4)
+        self.emptyChannel = emptyChannel
+        
+        self.textureLoader = MTKTextureLoader(device: device)
+        guard let defaultSampler = MetalShaderRenderer.makeSampler(device: device, filter: "linear", wrap: "repeat") else {
+            throw MetalError.noSampler
+        }
+        self.channelSamplers = Array(repeating: defaultSampler, count: MetalShaderRenderer.channelCount)
+        guard let bufferSampler = MetalShaderRenderer.makeSampler(device: device, filter: "linear", wrap: "clamp") else {
+            throw MetalError.noSampler
+        }
+        self.bufferSampler = bufferSampler
+        
         if hasUnifiedMemory {
             print("Apple Silicon detected - using zero-copy unified memory")
         }
@@ -92,8 +211,8 @@ class MetalShaderRenderer {
         defer { renderLock.unlock() }
         
         // Clamp to reasonable bounds
-        let w = max(100, min(4096, newWidth))
-        let h = max(100, min(4096, newHeight))
+        let w = max(100, min(maxRenderSize, newWidth))
+        let h = max(100, min(maxRenderSize, newHeight))
         
         guard w != width || h != height else { return true }
         
@@ -128,30 +247,283 @@ class MetalShaderRenderer {
     func compileShader(_ code: String) -> String? {
         currentShaderCode = code
         compileError = nil
+        compileWarnings = nil
+        passWarnings = [:]
         
         do {
-            let library = try device.makeLibrary(source: code, options: nil)
-            
-            guard let vertexFunction = library.makeFunction(name: "vertex_main"),
-                  let fragmentFunction = library.makeFunction(name: "fragment_main") else {
-                compileError = "Could not find vertex_main or fragment_main functions"
-                return compileError
-            }
-            
-            let pipelineDescriptor = MTLRenderPipelineDescriptor()
-            pipelineDescriptor.vertexFunction = vertexFunction
-            pipelineDescriptor.fragmentFunction = fragmentFunction
-            pipelineDescriptor.colorAttachments[0].pixelFormat = .rgba8Unorm
-            
-            pipelineState = try device.makeRenderPipelineState(descriptor: pipelineDescriptor)
+            let state = try makePipelineState(source: code, pixelFormat: .rgba8Unorm)
+            renderLock.lock()
+            pipelineState = state
+            bufferPasses = []
+            renderLock.unlock()
             return nil
-            
         } catch {
             compileError = error.localizedDescription
             return compileError
         }
     }
     
+    // Compiles every pass before swapping any in, so a failing pass leaves the running pipeline alone.
+    // Returns the name of the failing pass with its error.
+    func compilePipeline(_ specs: [PassSpec]) -> (pass: String, error: String)? {
+        compileError = nil
+        compileWarnings = nil
+        passWarnings = [:]
+        
+        var imageState: MTLRenderPipelineState?
+        var imageCode = ""
+        var passes: [BufferPass] = []
+        var warnings: [String: String] = [:]
+        
+        for spec in specs {
+            let isImage = spec.name == "image"
+            guard isImage || MetalShaderRenderer.bufferNames.contains(spec.name) else {
+                compileError = "Unknown pass \(spec.name)"
+                return (spec.name, "Unknown pass \(spec.name)")
+            }
+            do {
+                let state = try makePipelineState(source: spec.code, pixelFormat: isImage ? .rgba8Unorm : .rgba16Float)
+                if let passWarning = compileWarnings {
+                    warnings[spec.name] = passWarning
+                }
+                if isImage {
+                    imageState = state
+                    imageCode = spec.code
+                } else {
+                    passes.append(BufferPass(name: spec.name, pipelineState: state, scale: max(0.125, min(1, spec.scale))))
+                }
+            } catch {
+                compileError = error.localizedDescription
+                return (spec.name, error.localizedDescription)
+            }
+        }
+        
+        guard let imageState else {
+            compileError = "The pipeline has no image pass"
+            return ("image", "The pipeline has no image pass")
+        }
+        currentShaderCode = imageCode
+        compileWarnings = nil
+        passWarnings = warnings
+        
+        renderLock.lock()
+        defer { renderLock.unlock() }
+        // Editing a pass keeps the buffers' contents, so a running simulation carries on with the new code
+        for pass in passes {
+            if let previous = bufferPasses.first(where: { $0.name == pass.name }), previous.scale == pass.scale {
+                pass.textures = previous.textures
+                pass.current = previous.current
+                pass.needsClear = previous.needsClear
+            }
+        }
+        pipelineState = imageState
+        bufferPasses = passes.sorted {
+            MetalShaderRenderer.bufferNames.firstIndex(of: $0.name)! < MetalShaderRenderer.bufferNames.firstIndex(of: $1.name)!
+        }
+        return nil
+    }
+    
+    private func makePipelineState(source: String, pixelFormat: MTLPixelFormat) throws -> MTLRenderPipelineState {
+        let library = try makeLibrary(source: source)
+        
+        guard let vertexFunction = library.makeFunction(name: "vertex_main"),
+              let fragmentFunction = library.makeFunction(name: "fragment_main") else {
+            throw ShaderCompileError(message: "Could not find vertex_main or fragment_main functions")
+        }
+        
+        let pipelineDescriptor = MTLRenderPipelineDescriptor()
+        pipelineDescriptor.vertexFunction = vertexFunction
+        pipelineDescriptor.fragmentFunction = fragmentFunction
+        pipelineDescriptor.colorAttachments[0].pixelFormat = pixelFormat
+        
+        return try device.makeRenderPipelineState(descriptor: pipelineDescriptor)
+    }
+    
+    func setTime(_ newTime: Float) {
+        renderLock.lock()
+        defer { renderLock.unlock() }
+        time = max(0, newTime)
+        // Restarting from zero also restarts feedback effects
+        if time == 0 {
+            bufferPasses.forEach { $0.needsClear = true }
+        }
+    }
+    
+    func step(frames: Int) {
+        renderLock.lock()
+        defer { renderLock.unlock() }
+        pendingSteps += max(1, frames)
+    }
+    
+    func handleInput(_ event: InputEvent) {
+        renderLock.lock()
+        defer { renderLock.unlock() }
+        
+        if let x = event.x, let y = event.y {
+            mouseX = x / Float(width)
+            // Flip Y - web has origin top-left, Metal textures have origin bottom-left
+            mouseY = 1.0 - (y / Float(height))
+        }
+        
+        switch event.type {
+        case "mousedown":
+            guard let button = event.button, (0..<3).contains(button) else { break }
+            if buttons == 0 {
+                clickX = mouseX
+                clickY = mouseY
+            }
+            buttons |= 1 << UInt32(button)
+            clicked = true
+        case "mouseup":
+            guard let button = event.button, (0..<3).contains(button) else { break }
+            buttons &= ~(1 << UInt32(button))
+        case "click":
+            clickX = mouseX
+            clickY = mouseY
+            clicked = true
+        case "wheel":
+            wheelX += event.deltaX ?? 0
+            wheelY += event.deltaY ?? 0
+        case "keydown":
+            guard let code = event.keyCode, (0..<256).contains(code) else { break }
+            // Auto-repeat sends keydown again; only the first one counts as a press
+            if keys[code] == 0 {
+                keys[256 + code] = 1
+                keys[512 + code] ^= 1
+            }
+            keys[code] = 1
+        case "keyup":
+            guard let code = event.keyCode, (0..<256).contains(code) else { break }
+            keys[code] = 0
+        case "keyreset":
+            for code in 0..<256 {
+                keys[code] = 0
+            }
+            buttons = 0
+        default:
+            break
+        }
+    }
+    
+    private func writeInputBuffers() {
+        let mouseState = mouseStateBuffer.contents()
+        let drag = buttons != 0 ? SIMD2<Float>(mouseX - clickX, mouseY - clickY) : SIMD2<Float>(0, 0)
+        mouseState.storeBytes(of: SIMD2<Float>(mouseX, mouseY), toByteOffset: 0, as: SIMD2<Float>.self)
+        mouseState.storeBytes(of: SIMD2<Float>(clickX, clickY), toByteOffset: 8, as: SIMD2<Float>.self)
+        mouseState.storeBytes(of: drag, toByteOffset: 16, as: SIMD2<Float>.self)
+        mouseState.storeBytes(of: SIMD2<Float>(wheelX, wheelY), toByteOffset: 24, as: SIMD2<Float>.self)
+        mouseState.storeBytes(of: buttons, toByteOffset: 32, as: UInt32.self)
+        mouseState.storeBytes(of: UInt32(clicked ? 1 : 0), toByteOffset: 36, as: UInt32.self)
+        
+        keys.withUnsafeBytes { bytes in
+            if let base = bytes.baseAddress {
+                keyboardBuffer.contents().copyMemory(from: base, byteCount: keys.count)
+            }
+        }
+        
+        // "Just pressed" state lasts exactly one frame
+        clicked = false
+        for code in 256..<512 {
+            keys[code] = 0
+        }
+    }
+    
+    func setParams(_ data: Data) {
+        renderLock.lock()
+        defer { renderLock.unlock() }
+        
+        let length = max(16, data.count)
+        if paramsBuffer.length < length {
+            guard let newBuffer = device.makeBuffer(length: length, options: .storageModeShared) else { return }
+            paramsBuffer = newBuffer
+        }
+        memset(paramsBuffer.contents(), 0, paramsBuffer.length)
+        data.withUnsafeBytes { bytes in
+            if let base = bytes.baseAddress {
+                paramsBuffer.contents().copyMemory(from: base, byteCount: data.count)
+            }
+        }
+    }
+    
+    // filter is "nearest", "linear" or "mipmap" (linear with trilinear mip filtering);
+    // wrap is "repeat", "clamp" or "mirror"
+    static func makeSampler(device: MTLDevice, filter: String, wrap: String) -> MTLSamplerState? {
+        let descriptor = MTLSamplerDescriptor()
+        let minMag: MTLSamplerMinMagFilter = filter == "nearest" ? .nearest : .linear
+        descriptor.minFilter = minMag
+        descriptor.magFilter = minMag
+        descriptor.mipFilter = filter == "mipmap" ? .linear : .notMipmapped
+        let address: MTLSamplerAddressMode
+        switch wrap {
+        case "clamp":
+            address = .clampToEdge
+        case "mirror":
+            address = .mirrorRepeat
+        default:
+            address = .repeat
+        }
+        descriptor.sAddressMode = address
+        descriptor.tAddressMode = address
+        return device.makeSamplerState(descriptor: descriptor)
+    }
+    
+    // Replaces a channel's image (PNG/JPEG bytes, or nil to empty it) and/or its sampler.
+    // Returns an error message if the image could not be decoded.
+    func setChannel(_ index: Int, image: Data??, filter: String, wrap: String) -> String? {
+        guard (0..<MetalShaderRenderer.channelCount).contains(index) else {
+            return "Channel \(index) does not exist"
+        }
+        
+        // Decoding happens outside the render lock so a large upload does not stall frames
+        var texture: MTLTexture?
+        if case .some(.some(let data)) = image {
+            do {
+                // Bottom-left origin matches the uv convention, so sampling at in.uv shows the image upright
+                texture = try textureLoader.newTexture(data: data, options: [
+                    .SRGB: false,
+                    .origin: MTKTextureLoader.Origin.bottomLeft,
+                    .generateMipmaps: true,
+                    .textureUsage: MTLTextureUsage.shaderRead.rawValue,
+                    .textureStorageMode: MTLStorageMode.private.rawValue,
+                ])
+            } catch {
+                return "Channel \(index) image could not be decoded: \(error.localizedDescription)"
+            }
+        }
+        let sampler = MetalShaderRenderer.makeSampler(device: device, filter: filter, wrap: wrap)
+        
+        renderLock.lock()
+        defer { renderLock.unlock() }
+        if case .some(let replacement) = image {
+            channelTextures[index] = replacement == nil ? nil : texture
+        }
+        if let sampler {
+            channelSamplers[index] = sampler
+        }
+        return nil
+    }
+    
+    // The completion-handler variant reports warnings alongside a successfully built library,
+    // which the throwing variant discards
+    private func makeLibrary(source: String) throws -> MTLLibrary {
+        var result: MTLLibrary?
+        var resultError: Error?
+        let done = DispatchSemaphore(value: 0)
+        
+        device.makeLibrary(source: source, options: nil) { library, error in
+            result = library
+            resultError = error
+            done.signal()
+        }
+        done.wait()
+        
+        guard let library = result else {
+            throw resultError ?? MetalError.noLibrary
+        }
+        compileWarnings = resultError?.localizedDescription
+        return library
+    }
+    
     func render() -> Data? {
         // Prevent concurrent rendering
         renderLock.lock()
@@ -159,13 +531,49 @@ class MetalShaderRenderer {
         
         guard let pipelineState = pipelineState else { return nil }
         
-        // Update uniforms
-        time += 1.0 / Float(targetFps)
+        // Update uniforms - the frame shows the current time, then the clock advances,
+        // so a time set by a client is exactly the time of the next frame
         timeBuffer.contents().storeBytes(of: time, as: Float.self)
+        renderedTime = time
+        
+        let timeStep = (fixedTimeStep ?? 1.0 / Float(targetFps)) * playbackSpeed
+        // Buffer passes only run on frames that advance the clock, so pausing also pauses feedback effects
+        var advances = false
+        if !paused {
+            time += timeStep
+            advances = true
+        } else if pendingSteps > 0 {
+            time += timeStep
+            pendingSteps -= 1
+            advances = true
+        }
         mouseBuffer.contents().storeBytes(of: SIMD2<Float>(mouseX, mouseY), as: SIMD2<Float>.self)
+        writeInputBuffers()
         
         guard let commandBuffer = commandQueue.makeCommandBuffer() else { return nil }
         
+        for pass in bufferPasses {
+            guard prepareTextures(for: pass) else { continue }
+            if pass.needsClear {
+                pass.textures.forEach { encodeClear($0, commandBuffer: commandBuffer) }
+                pass.needsClear = false
+            }
+            guard advances else { continue }
+            
+            // Render into the older texture; the other one now holds the previous frame
+            pass.current = 1 - pass.current
+            let descriptor = MTLRenderPassDescriptor()
+            descriptor.colorAttachments[0].texture = pass.textures[pass.current]
+            descriptor.colorAttachments[0].loadAction = .dontCare
+            descriptor.colorAttachments[0].storeAction = .store
+            
+            guard let encoder = commandBuffer.makeRenderCommandEncoder(descriptor: descriptor) else { return nil }
+            encoder.setRenderPipelineState(pass.pipelineState)
+            bindInputs(encoder, rendering: pass)
+            encoder.drawPrimitives(type: .triangle, vertexStart: 0, vertexCount: 6)
+            encoder.endEncoding()
+        }
+        
         let renderPassDescriptor = MTLRenderPassDescriptor()
         renderPassDescriptor.colorAttachments[0].texture = texture
         renderPassDescriptor.colorAttachments[0].loadAction = .clear
@@ -175,8 +583,7 @@ class MetalShaderRenderer {
         guard let encoder = commandBuffer.makeRenderCommandEncoder(descriptor: renderPassDescriptor) else { return nil }
         
         encoder.setRenderPipelineState(pipelineState)
-        encoder.setFragmentBuffer(timeBuffer, offset: 0, index: 0)
-        encoder.setFragmentBuffer(mouseBuffer, offset: 0, index: 1)
+        bindInputs(encoder, rendering: nil)
         encoder.drawPrimitives(type: .triangle, vertexStart: 0, vertexCount: 6)
         encoder.endEncoding()
         
@@ -205,11 +612,67 @@ class MetalShaderRenderer {
         commandBuffer.commit()
         commandBuffer.waitUntilCompleted()
         
-        // Encode to JPEG directly from shared buffer (zero-copy on Apple Silicon)
-        return encodeToJPEG()
+        // Encode directly from shared buffer (zero-copy on Apple Silicon)
+        return encodeFrame()
+    }
+    
+    // The same inputs go to every pass. A buffer pass reads its own previous frame; other buffers give their
+    // latest output, which is this frame's for buffers that already ran.
+    private func bindInputs(_ encoder: MTLRenderCommandEncoder, rendering renderingPass: BufferPass?) {
+        encoder.setFragmentBuffer(timeBuffer, offset: 0, index: 0)
+        encoder.setFragmentBuffer(mouseBuffer, offset: 0, index: 1)
+        encoder.setFragmentBuffer(paramsBuffer, offset: 0, index: MetalShaderRenderer.paramsBufferIndex)
+        encoder.setFragmentBuffer(mouseStateBuffer, offset: 0, index: MetalShaderRenderer.mouseStateBufferIndex)
+        encoder.setFragmentBuffer(keyboardBuffer, offset: 0, index: MetalShaderRenderer.keyboardBufferIndex)
+        let target = renderingPass?.textures.first ?? texture
+        var resolution = SIMD2<Float>(Float(target.width), Float(target.height))
+        encoder.setFragmentBytes(&resolution, length: MemoryLayout<SIMD2<Float>>.stride, index: MetalShaderRenderer.resolutionBufferIndex)
+        for index in 0..<MetalShaderRenderer.channelCount {
+            encoder.setFragmentTexture(channelTextures[index] ?? emptyChannel, index: index)
+            encoder.setFragmentSamplerState(channelSamplers[index], index: index)
+        }
+        for (offset, name) in MetalShaderRenderer.bufferNames.enumerated() {
+            let index = MetalShaderRenderer.bufferTextureBase + offset
+            var texture: MTLTexture = emptyChannel
+            if let pass = bufferPasses.first(where: { $0.name == name }), pass.textures.count == 2 {
+                texture = pass === renderingPass ? pass.textures[1 - pass.current] : pass.textures[pass.current]
+            }
+            encoder.setFragmentTexture(texture, index: index)
+            encoder.setFragmentSamplerState(bufferSampler, index: index)
+        }
+    }
+    
+    // (Re)creates a buffer's textures when the render size changes; its contents start cleared
+    private func prepareTextures(for pass: BufferPass) -> Bool {
+        let w = max(1, Int((Float(width) * pass.scale).rounded()))
+        let h = max(1, Int((Float(height) * pass.scale).rounded()))
+        if let existing = pass.textures.first, existing.width == w, existing.height == h {
+            return true
+        }
+        
+        let descriptor = MTLTextureDescriptor.texture2DDescriptor(pixelFormat: .rgba16Float, width: w, height: h, mipmapped: false)
+        descriptor.usage = [.renderTarget, .shaderRead]
+        descriptor.storageMode = .private
+        guard let first = device.makeTexture(descriptor: descriptor),
+              let second = device.makeTexture(descriptor: descriptor) else {
+            return false
+        }
+        pass.textures = [first, second]
+        pass.current = 0
+        pass.needsClear = true
+        return true
+    }
+    
+    private func encodeClear(_ texture: MTLTexture, commandBuffer: MTLCommandBuffer) {
+        let descriptor = MTLRenderPassDescriptor()
+        descriptor.colorAttachments[0].texture = texture
+        descriptor.colorAttachments[0].loadAction = .clear
+        descriptor.colorAttachments[0].storeAction = .store
+        descriptor.colorAttachments[0].clearColor = MTLClearColor(red: 0, green: 0, blue: 0, alpha: 0)
+        commandBuffer.makeRenderCommandEncoder(descriptor: descriptor)?.endEncoding()
     }
     
-    private func encodeToJPEG() -> Data? {
+    private func encodeFrame() -> Data? {
         let bytesPerPixel = 4
         let bytesPerRow = width * bytesPerPixel
         let dataSize = width * height * bytesPerPixel
@@ -220,6 +683,10 @@ class MetalShaderRenderer {
                             count: dataSize,
                             deallocator: .none)
         
+        if frameFormat == .raw {
+            return rawFrame(pixelData)
+        }
+        
         // Create CGImage using CGDataProvider
         let colorSpace = CGColorSpaceCreateDeviceRGB()
         let bitmapInfo = CGBitmapInfo(rawValue: CGImageAlphaInfo.noneSkipLast.rawValue)
@@ -241,22 +708,39 @@ class MetalShaderRenderer {
             return nil
         }
         
-        // Encode to JPEG using ImageIO
-        let jpegData = NSMutableData()
-        guard let destination = CGImageDestinationCreateWithData(jpegData as CFMutableData, "public.jpeg" as CFString, 1, nil) else {
+        // Encode using ImageIO; PNG is lossless, for clients that compare frames exactly
+        let encodedData = NSMutableData()
+        guard let destination = CGImageDestinationCreateWithData(encodedData as CFMutableData, frameFormat.typeIdentifier as CFString, 1, nil) else {
             return nil
         }
         
-        let options: [CFString: Any] = [
-            kCGImageDestinationLossyCompressionQuality: 0.85
-        ]
+        let options: [CFString: Any] = frameFormat == .jpeg ? [kCGImageDestinationLossyCompressionQuality: frameQuality] : [:]
         CGImageDestinationAddImage(destination, cgImage, options as CFDictionary)
         
         guard CGImageDestinationFinalize(destination) else {
             return nil
         }
         
-        return jpegData as Data
+        return encodedData as Data
+    }
+    
+    // "RGBA", UInt32 width and UInt32 height (big-endian), then the pixels top row first. Alpha is set
+    // opaque, as the JPEG and PNG paths ignore it too.
+    private func rawFrame(_ pixels: Data) -> Data {
+        var frame = Data(capacity: 12 + pixels.count)
+        for value in [UInt32(0x52474241), UInt32(width), UInt32(height)] {
+            withUnsafeBytes(of: value.bigEndian) { frame.append(contentsOf: $0) }
+        }
+        let headerLength = frame.count
+        frame.append(pixels)
+        frame.withUnsafeMutableBytes { bytes in
+            var index = headerLength + 3
+            while index < bytes.count {
+                bytes[index] = 255
+                index += 4
+            }
+        }
+        return frame
     }
 }
 
@@ -265,21 +749,268 @@ enum MetalError: Error {
     case noCommandQueue
     case noTexture
     case noBuffer
+    case noLibrary
+    case noSampler
+}
+
+// Carries a message of our own through the same path as Metal's compile errors
+struct ShaderCompileError: LocalizedError {
+    let message: String
+    var errorDescription: String? { message }
+}
+
+// MARK: - Input Events
+
+struct InputEvent {
+    let type: String
+    var x: Float?
+    var y: Float?
+    var button: Int?
+    var deltaX: Float?
+    var deltaY: Float?
+    var keyCode: Int?
+}
+
+// Maps a DOM KeyboardEvent.key to the keyCode the keyboard buffer is indexed by
+func keyCode(for key: String) -> Int? {
+    let named: [String: Int] = [
+        "Backspace": 8, "Tab": 9, "Enter": 13, "Shift": 16, "Control": 17, "Alt": 18,
+        "Escape": 27, " ": 32, "ArrowLeft": 37, "ArrowUp": 38, "ArrowRight": 39, "ArrowDown": 40,
+    ]
+    if let code = named[key] {
+        return code
+    }
+    guard key.count == 1, let scalar = key.uppercased().unicodeScalars.first, scalar.value < 256 else {
+        return nil
+    }
+    return Int(scalar.value)
+}
+
+// Maps a DOM KeyboardEvent.code, the physical key, to the keyCode the US layout gives that key. The slot
+// a key fills then does not depend on the user's layout: WASD stays in the same place on AZERTY.
+func keyCode(forCode code: String) -> Int? {
+    let named: [String: Int] = [
+        "Backspace": 8, "Tab": 9, "Enter": 13, "NumpadEnter": 13, "ShiftLeft": 16, "ShiftRight": 16,
+        "ControlLeft": 17, "ControlRight": 17, "AltLeft": 18, "AltRight": 18, "Pause": 19, "CapsLock": 20,
+        "Escape": 27, "Space": 32, "PageUp": 33, "PageDown": 34, "End": 35, "Home": 36,
+        "ArrowLeft": 37, "ArrowUp": 38, "ArrowRight": 39, "ArrowDown": 40, "Insert": 45, "Delete": 46,
+        "MetaLeft": 91, "MetaRight": 92, "NumpadMultiply": 106, "NumpadAdd": 107, "NumpadSubtract": 109,
+        "NumpadDecimal": 110, "NumpadDivide": 111, "Semicolon": 186, "Equal": 187, "Comma": 188,
+        "Minus": 189, "Period": 190, "Slash": 191, "Backquote": 192, "BracketLeft": 219,
+        "Backslash": 220, "BracketRight": 221, "Quote": 222,
+    ]
+    if let value = named[code] {
+        return value
+    }
+    // KeyA-KeyZ, Digit0-Digit9, Numpad0-Numpad9 and F1-F12
+    let ranges: [(prefix: String, first: Int, base: Character, count: Int)] = [
+        ("Key", 65, "A", 26), ("Digit", 48, "0", 10), ("Numpad", 96, "0", 10),
+    ]
+    for range in ranges where code.hasPrefix(range.prefix) {
+        let rest = code.dropFirst(range.prefix.count)
+        guard rest.count == 1, let scalar = rest.unicodeScalars.first, let base = range.base.unicodeScalars.first else { continue }
+        let offset = Int(scalar.value) - Int(base.value)
+        if (0..<range.count).contains(offset) {
+            return range.first + offset
+        }
+    }
+    if code.hasPrefix("F"), let number = Int(code.dropFirst()), (1...12).contains(number) {
+        return 111 + number
+    }
+    return nil
+}
+
+// The physical code first; key and keyCode are for clients that predate it
+func keyCode(in json: [String: Any]) -> Int? {
+    (json["code"] as? String).flatMap(keyCode(forCode:))
+        ?? (json["key"] as? String).flatMap(keyCode(for:))
+        ?? json["keyCode"] as? Int
+}
+
+// MARK: - JSON Messages
+
+func jsonMessage(_ object: [String: Any]) -> String {
+    guard let data = try? JSONSerialization.data(withJSONObject: object),
+          let text = String(data: data, encoding: .utf8) else {
+        return "{}"
+    }
+    return text
+}
+
+// MARK: - Protocol
+
+// Bumped when a message changes in a way older clients cannot ignore; see app/renderer-protocol.ts
+let protocolVersion = 1
+let maxRenderSize = 4096
+
+// The reply to a client's hello: what this renderer can do, so clients only offer controls that work
+func helloReply() -> [String: Any] {
+    [
+        "type": "hello",
+        "version": protocolVersion,
+        "server": "metal-renderer",
+        "capabilities": [
+            "maxWidth": maxRenderSize,
+            "maxHeight": maxRenderSize,
+            "encodings": ["jpeg", "png", "raw"],
+            "features": ["pipeline", "channels", "params", "keyboard", "step", "timeStep"],
+        ] as [String: Any],
+    ]
+}
+
+enum FieldKind {
+    case number, integer, string, boolean, array, object
+}
+
+struct FieldRule {
+    let kind: FieldKind
+    var optional = false
+    var nullable = false
+    var values: [String]? = nil
+}
+
+private let pointerFields: [String: FieldRule] = [
+    "x": FieldRule(kind: .number), "y": FieldRule(kind: .number), "button": FieldRule(kind: .integer, optional: true),
+]
+private let keyFields: [String: FieldRule] = [
+    "code": FieldRule(kind: .string, optional: true), "key": FieldRule(kind: .string, optional: true),
+    "keyCode": FieldRule(kind: .integer, optional: true),
+]
+
+// Top-level fields of every client message; nested ones are checked where they are read
+let clientMessageFields: [String: [String: FieldRule]] = [
+    "hello": ["version": FieldRule(kind: .integer), "client": FieldRule(kind: .string)],
+    "config": [
+        "width": FieldRule(kind: .integer, optional: true),
+        "height": FieldRule(kind: .integer, optional: true),
+        "targetFps": FieldRule(kind: .integer, optional: true),
+        "timeStep": FieldRule(kind: .number, optional: true, nullable: true),
+        "maxInFlight": FieldRule(kind: .integer, optional: true),
+        "format": FieldRule(kind: .string, optional: true, values: ["jpeg", "png", "raw"]),
+        "quality": FieldRule(kind: .number, optional: true),
+    ],
+    "shader": ["id": FieldRule(kind: .integer, optional: true), "code": FieldRule(kind: .string)],
+    "pipeline": ["id": FieldRule(kind: .integer, optional: true), "passes": FieldRule(kind: .array)],
+    "params": ["index": FieldRule(kind: .integer), "data": FieldRule(kind: .string)],
+    "time": ["time": FieldRule(kind: .number)],
+    "playback": ["paused": FieldRule(kind: .boolean, optional: true), "speed": FieldRule(kind: .number, optional: true)],
+    "step": ["frames": FieldRule(kind: .integer, optional: true)],
+    "channel": [
+        "index": FieldRule(kind: .integer),
+        "filter": FieldRule(kind: .string, optional: true),
+        "wrap": FieldRule(kind: .string, optional: true),
+        "data": FieldRule(kind: .string, optional: true, nullable: true),
+    ],
+    "mousemove": pointerFields,
+    "mousedown": pointerFields,
+    "mouseup": pointerFields,
+    "click": pointerFields,
+    "wheel": ["deltaX": FieldRule(kind: .number), "deltaY": FieldRule(kind: .number)],
+    "keydown": keyFields,
+    "keyup": keyFields,
+    "keyreset": [:],
+    "ping": ["sent": FieldRule(kind: .number)],
+    "ack": ["sequence": FieldRule(kind: .integer)],
+]
+
+private func fieldError(_ value: Any, rule: FieldRule, name: String) -> String? {
+    if value is NSNull {
+        return rule.nullable ? nil : "\(name) has to be set"
+    }
+    // JSONSerialization decodes true and false as NSNumber too
+    let number = value as? NSNumber
+    let isBoolean = number.map { CFGetTypeID($0) == CFBooleanGetTypeID() } ?? false
+    switch rule.kind {
+    case .number:
+        guard let number, !isBoolean, number.doubleValue.isFinite else { return "\(name) has to be a number" }
+    case .integer:
+        guard let number, !isBoolean, number.doubleValue.rounded() == number.doubleValue else { return "\(name) has to be an integer" }
+    case .string:
+        guard let string = value as? String else { return "\(name) has to be a string" }
+        if let values = rule.values, !values.contains(string) {
+            return "\(name) has to be one of \(values.joined(separator: ", "))"
+        }
+    case .boolean:
+        guard isBoolean else { return "\(name) has to be true or false" }
+    case .array:
+        guard value is [Any] else { return "\(name) has to be an array" }
+    case .object:
+        guard value is [String: Any] else { return "\(name) has to be an object" }
+    }
+    return nil
+}
+
+// Returns the error reply for a message that does not match its type's fields, or nil when it does.
+// Fields not listed are allowed, so clients can send newer ones without a new version.
+func validateClientMessage(_ json: [String: Any]) -> [String: Any]? {
+    guard let type = json["type"] as? String else {
+        return ["type": "error", "error": "A message needs a type"]
+    }
+    guard let fields = clientMessageFields[type] else {
+        return ["type": "error", "error": "Unknown message type \(type)", "request": type]
+    }
+    for (name, rule) in fields.sorted(by: { $0.key < $1.key }) {
+        guard let value = json[name] else {
+            if rule.optional { continue }
+            return ["type": "error", "error": "\(type): \(name) is missing", "request": type]
+        }
+        if let error = fieldError(value, rule: rule, name: name) {
+            return ["type": "error", "error": "\(type): \(error)", "request": type]
+        }
+    }
+    return nil
 }
 
 // MARK: - Server State
 
+// Milliseconds on the server's monotonic clock; clients map it onto theirs with ping/pong
+func serverTimeMs() -> Double {
+    Double(DispatchTime.now().uptimeNanoseconds) / 1_000_000
+}
+
+struct EncodedFrame {
+    let data: Data
+    let sequence: UInt32
+    let renderedAt: Double
+    // Shader time the frame shows
+    let time: Float
+    let format: FrameFormat
+    
+    // Binary WebSocket frames: UInt32 header length, UInt32 sequence, Float64 renderedAt, Float64 shader
+    // time (all big-endian), then the image. Clients skip headerLength bytes, so fields can be appended later.
+    static let headerLength = 24
+    
+    func withHeader() -> ByteBuffer {
+        var buffer = ByteBufferAllocator().buffer(capacity: EncodedFrame.headerLength + data.count)
+        buffer.writeInteger(UInt32(EncodedFrame.headerLength))
+        buffer.writeInteger(sequence)
+        buffer.writeInteger(renderedAt.bitPattern)
+        buffer.writeInteger(Double(time).bitPattern)
+        buffer.writeBytes(data)
+        return buffer
+    }
+}
+
+struct WebSocketClient {
+    let ws: WebSocket
+    var maxInFlight = 2
+    // Sequences sent but not yet acknowledged
+    var inFlight: [UInt32] = []
+}
+
 actor ServerState {
     var renderer: MetalShaderRenderer?
     var isStreaming = false
-    var clients: [UUID: AsyncStream<Data>.Continuation] = [:]
-    var wsClients: [UUID: WebSocket] = [:]
+    var clients: [UUID: AsyncStream<EncodedFrame>.Continuation] = [:]
+    var wsClients: [UUID: WebSocketClient] = [:]
+    // Most recent frame from the render loop, served to GET /frame pollers
+    var latestFrame: EncodedFrame?
     
     func setRenderer(_ renderer: MetalShaderRenderer) {
         self.renderer = renderer
     }
     
-    func addClient(_ id: UUID, continuation: AsyncStream<Data>.Continuation) {
+    func addClient(_ id: UUID, continuation: AsyncStream<EncodedFrame>.Continuation) {
         clients[id] = continuation
     }
     
@@ -287,12 +1018,12 @@ actor ServerState {
         clients.removeValue(forKey: id)
     }
     
-    func getClients() -> [AsyncStream<Data>.Continuation] {
+    func getClients() -> [AsyncStream<EncodedFrame>.Continuation] {
         Array(clients.values)
     }
     
     func addWebSocket(_ id: UUID, ws: WebSocket) {
-        wsClients[id] = ws
+        wsClients[id] = WebSocketClient(ws: ws)
     }
     
     func removeWebSocket(_ id: UUID) {
@@ -300,7 +1031,26 @@ actor ServerState {
     }
     
     func getWebSockets() -> [WebSocket] {
-        Array(wsClients.values)
+        wsClients.values.map(\.ws)
+    }
+    
+    // WebSocket clients with room for another frame; the frame counts as in flight for each of them
+    func claimFrame(_ sequence: UInt32) -> [WebSocket] {
+        var ready: [WebSocket] = []
+        for (id, client) in wsClients where client.inFlight.count < client.maxInFlight {
+            wsClients[id]?.inFlight.append(sequence)
+            ready.append(client.ws)
+        }
+        return ready
+    }
+    
+    // Acknowledgements are cumulative: a client that skipped frames acks only the newest
+    func acknowledge(_ id: UUID, sequence: UInt32) {
+        wsClients[id]?.inFlight.removeAll { $0 <= sequence }
+    }
+    
+    func setMaxInFlight(_ id: UUID, _ maxInFlight: Int) {
+        wsClients[id]?.maxInFlight = max(1, min(8, maxInFlight))
     }
     
     func getRenderer() -> MetalShaderRenderer? {
@@ -314,6 +1064,14 @@ actor ServerState {
     func getStreaming() -> Bool {
         isStreaming
     }
+    
+    func setLatestFrame(_ frame: EncodedFrame) {
+        latestFrame = frame
+    }
+    
+    func getLatestFrame() -> EncodedFrame? {
+        latestFrame
+    }
 }
 
 let state = ServerState()
@@ -322,6 +1080,8 @@ let state = ServerState()
 
 func startRenderLoop() {
     Task {
+        var lastTimeReport: UInt64 = 0
+        var sequence: UInt32 = 0
         while true {
             guard let renderer = await state.getRenderer(),
                   await state.getStreaming() else {
@@ -332,19 +1092,42 @@ func startRenderLoop() {
             let frameTime = 1_000_000_000 / UInt64(renderer.targetFps)
             let startTime = DispatchTime.now().uptimeNanoseconds
             
+            // Report the playback clock to clients at most ten times a second
+            let reportTime = startTime - lastTimeReport >= 100_000_000
+            if reportTime {
+                lastTimeReport = startTime
+            }
+            
             if let frameData = renderer.render() {
+                sequence &+= 1
+                let frame = EncodedFrame(
+                    data: frameData,
+                    sequence: sequence,
+                    renderedAt: serverTimeMs(),
+                    time: renderer.renderedTime,
+                    format: renderer.frameFormat
+                )
+                await state.setLatestFrame(frame)
+                
                 // Push to MJPEG clients
                 let clients = await state.getClients()
                 for client in clients {
-                    client.yield(frameData)
+                    client.yield(frame)
                 }
                 
-                // Push to WebSocket clients
-                let wsClients = await state.getWebSockets()
-                for ws in wsClients {
-                    var buffer = ByteBufferAllocator().buffer(capacity: frameData.count)
-                    buffer.writeBytes(frameData)
-                    try? await ws.send(raw: buffer.readableBytesView, opcode: .binary)
+                // Push to WebSocket clients that are keeping up; the rest skip this frame
+                let readyClients = await state.claimFrame(sequence)
+                if !readyClients.isEmpty {
+                    let buffer = frame.withHeader()
+                    for ws in readyClients {
+                        try? await ws.send(raw: buffer.readableBytesView, opcode: .binary)
+                    }
+                }
+                
+                if reportTime {
+                    for ws in await state.getWebSockets() {
+                        try? await ws.send(jsonMessage(["type": "clock", "time": Double(renderer.renderedTime), "paused": renderer.paused]))
+                    }
                 }
             }
             
@@ -356,6 +1139,155 @@ func startRenderLoop() {
     }
 }
 
+// MARK: - Client Messages
+
+// Applies a JSON message from a client; shared by the WebSocket and POST /message.
+// Returns the reply to send back, if the message has one.
+func handleClientMessage(type: String, json: [String: Any], renderer: MetalShaderRenderer) async -> [String: Any]? {
+    switch type {
+    case "hello":
+        return helloReply()
+    case "mousemove", "click", "mousedown", "mouseup", "wheel", "keydown", "keyup", "keyreset":
+        renderer.handleInput(InputEvent(
+            type: type,
+            x: (json["x"] as? Double).map(Float.init),
+            y: (json["y"] as? Double).map(Float.init),
+            button: json["button"] as? Int,
+            deltaX: (json["deltaX"] as? Double).map(Float.init),
+            deltaY: (json["deltaY"] as? Double).map(Float.init),
+            keyCode: keyCode(in: json)
+        ))
+    case "shader":
+        guard let code = json["code"] as? String else { break }
+        // Echoing the message id lets clients time each compile
+        var reply: [String: Any] = ["type": "compile"]
+        if let id = json["id"] {
+            reply["id"] = id
+        }
+        if let error = renderer.compileShader(code) {
+            reply["error"] = error
+            return reply
+        }
+        await state.setStreaming(true)
+        reply["ok"] = true
+        if let warnings = renderer.compileWarnings {
+            reply["warnings"] = warnings
+        }
+        return reply
+    case "pipeline":
+        guard let passes = json["passes"] as? [[String: Any]] else { break }
+        var reply: [String: Any] = ["type": "compile"]
+        if let id = json["id"] {
+            reply["id"] = id
+        }
+        let specs = passes.compactMap { pass -> PassSpec? in
+            guard let name = pass["name"] as? String, let code = pass["code"] as? String else { return nil }
+            return PassSpec(name: name, code: code, scale: Float(pass["scale"] as? Double ?? 1))
+        }
+        if let failure = renderer.compilePipeline(specs) {
+            // The pass lets clients show the error in the right editor tab
+            reply["error"] = failure.error
+            reply["pass"] = failure.pass
+            return reply
+        }
+        await state.setStreaming(true)
+        reply["ok"] = true
+        if !renderer.passWarnings.isEmpty {
+            reply["passWarnings"] = renderer.passWarnings
+        }
+        return reply
+    case "params":
+        if let encoded = json["data"] as? String, let data = Data(base64Encoded: encoded) {
+            renderer.setParams(data)
+        }
+    case "time":
+        if let time = json["time"] as? Double {
+            renderer.setTime(Float(time))
+        }
+    case "playback":
+        if let paused = json["paused"] as? Bool {
+            renderer.paused = paused
+        }
+        if let speed = json["speed"] as? Double {
+            renderer.playbackSpeed = Float(max(0, min(16, speed)))
+        }
+    case "step":
+        renderer.step(frames: json["frames"] as? Int ?? 1)
+    case "channel":
+        guard let index = json["index"] as? Int else { break }
+        // "data" absent keeps the current image, null empties the channel
+        var image: Data?? = .none
+        if let encoded = json["data"] as? String {
+            guard let data = Data(base64Encoded: encoded) else {
+                return ["type": "channelError", "channel": index, "error": "Channel \(index) data is not valid base64"]
+            }
+            image = .some(data)
+        } else if json.keys.contains("data") {
+            image = .some(nil)
+        }
+        let filter = json["filter"] as? String ?? "linear"
+        let wrap = json["wrap"] as? String ?? "repeat"
+        if let error = renderer.setChannel(index, image: image, filter: filter, wrap: wrap) {
+            return ["type": "channelError", "channel": index, "error": error]
+        }
+    case "ping":
+        return ["type": "pong", "pong": json["sent"] ?? 0, "serverTime": serverTimeMs()]
+    case "config":
+        if let fps = json["targetFps"] as? Int {
+            renderer.targetFps = max(1, min(120, fps))
+        }
+        if json.keys.contains("timeStep") {
+            // A null or non-positive step falls back to 1/targetFps
+            if let step = json["timeStep"] as? Double, step > 0 {
+                renderer.fixedTimeStep = Float(step)
+            } else {
+                renderer.fixedTimeStep = nil
+            }
+        }
+        if let w = json["width"] as? Int, let h = json["height"] as? Int {
+            _ = renderer.resize(width: w, height: h)
+        }
+        if let format = (json["format"] as? String).flatMap(FrameFormat.init(rawValue:)) {
+            renderer.frameFormat = format
+        }
+        if let quality = json["quality"] as? Double {
+            renderer.frameQuality = Float(max(0, min(1, quality)))
+        }
+    default:
+        break
+    }
+    return nil
+}
+
+// One WebSocket text message, with the flow control that is per connection and so not in handleClientMessage
+func handleSocketText(_ text: String, clientId: UUID, ws: WebSocket) async {
+    guard let data = text.data(using: .utf8),
+          let json = try? JSONSerialization.jsonObject(with: data) as? [String: Any] else {
+        try? await ws.send(jsonMessage(["type": "error", "error": "A message has to be a JSON object"]))
+        return
+    }
+    // Malformed messages get an error reply instead of being half applied
+    if let error = validateClientMessage(json) {
+        try? await ws.send(jsonMessage(error))
+        return
+    }
+    guard let type = json["type"] as? String else { return }
+    
+    if type == "ack", let sequence = json["sequence"] as? Int {
+        await state.acknowledge(clientId, sequence: UInt32(truncatingIfNeeded: sequence))
+        return
+    }
+    if type == "config", let maxInFlight = json["maxInFlight"] as? Int {
+        await state.setMaxInFlight(clientId, maxInFlight)
+    }
+    
+    guard let renderer = await state.getRenderer() else { return }
+    
+    if let reply = await handleClientMessage(type: type, json: json, renderer: renderer) {
+        try? await ws.send(jsonMessage(reply))
+    }
+}
+
 // MARK: - Vapor Routes
 
 func routes(_ app: Application) throws {
@@ -365,7 +1297,7 @@ func routes(_ app: Application) throws {
         allowedMethods: [.GET, .POST, .PUT, .OPTIONS, .DELETE, .PATCH],
         allowedHeaders: [.accept, .authorization, .contentType, .origin, .xRequestedWith, .userAgent, .accessControlAllowOrigin],
         allowCredentials: true,
-        exposedHeaders: ["X-Width", "X-Height"]
+        exposedHeaders: ["X-Width", "X-Height", "X-Time", "X-Paused", "X-Sequence", "X-Rendered-At"]
     ))
     app.middleware.use(cors, at: .beginning)
     
@@ -394,6 +1326,27 @@ func routes(_ app: Application) throws {
         return Response(status: .ok, body: .init(string: "ok"))
     }
     
+    // Any WebSocket message over plain HTTP, for clients behind proxies that strip upgrades
+    // Large shaders outgrow the default 16KB body limit
+    app.on(.POST, "message", body: .collect(maxSize: "16mb")) { req -> Response in
+        var headers = HTTPHeaders()
+        headers.add(name: .contentType, value: "application/json")
+        guard let body = req.body.data,
+              let json = try? JSONSerialization.jsonObject(with: Data(body.readableBytesView)) as? [String: Any] else {
+            return Response(status: .badRequest, headers: headers, body: .init(string: jsonMessage(["type": "error", "error": "A message has to be a JSON object"])))
+        }
+        if let error = validateClientMessage(json) {
+            return Response(status: .badRequest, headers: headers, body: .init(string: jsonMessage(error)))
+        }
+        
+        guard let renderer = await state.getRenderer(), let type = json["type"] as? String else {
+            return Response(status: .serviceUnavailable)
+        }
+        
+        let reply = await handleClientMessage(type: type, json: json, renderer: renderer) ?? [:]
+        return Response(status: .ok, headers: headers, body: .init(string: jsonMessage(reply)))
+    }
+    
     // Update configuration
     app.post("config") { req -> Response in
         struct ConfigRequest: Content {
@@ -428,7 +1381,12 @@ func routes(_ app: Application) throws {
             let type: String
             let x: Float?
             let y: Float?
+            let button: Int?
+            let deltaX: Float?
+            let deltaY: Float?
+            let code: String?
             let key: String?
+            let keyCode: Int?
         }
         
         let eventReq = try req.content.decode(EventRequest.self)
@@ -437,16 +1395,15 @@ func routes(_ app: Application) throws {
             return Response(status: .serviceUnavailable)
         }
         
-        switch eventReq.type {
-        case "mousemove", "click":
-            if let x = eventReq.x, let y = eventReq.y {
-                renderer.mouseX = x / Float(renderer.width)
-                // Flip Y - web has origin top-left, Metal textures have origin bottom-left
-                renderer.mouseY = 1.0 - (y / Float(renderer.height))
-            }
-        default:
-            break
-        }
+        renderer.handleInput(InputEvent(
+            type: eventReq.type,
+            x: eventReq.x,
+            y: eventReq.y,
+            button: eventReq.button,
+            deltaX: eventReq.deltaX,
+            deltaY: eventReq.deltaY,
+            keyCode: eventReq.code.flatMap(keyCode(forCode:)) ?? eventReq.key.flatMap(keyCode(for:)) ?? eventReq.keyCode
+        ))
         
         return Response(status: .ok)
     }
@@ -455,7 +1412,8 @@ func routes(_ app: Application) throws {
     app.get("stream") { req -> Response in
         let clientId = UUID()
         
-        let stream = AsyncStream<Data> { continuation in
+        // A slow reader only ever has the two newest frames queued instead of an ever-growing backlog
+        let stream = AsyncStream<EncodedFrame>(bufferingPolicy: .bufferingNewest(2)) { continuation in
             Task {
                 await state.addClient(clientId, continuation: continuation)
             }
@@ -469,13 +1427,16 @@ func routes(_ app: Application) throws {
         
         let body = Response.Body(stream: { writer in
             Task {
-                for await frameData in stream {
-                    // MJPEG frame format
-                    let boundary = "--frame\r\nContent-Type: image/jpeg\r\nContent-Length: \(frameData.count)\r\n\r\n"
+                for await frame in stream {
+                    // MJPEG frame format; X-Time carries the playback clock for clients without a socket
+                    let renderer = await state.getRenderer()
+                    let clock = renderer.map { "X-Time: \($0.renderedTime)\r\nX-Paused: \($0.paused)\r\n" } ?? ""
+                    let boundary = "--frame\r\nContent-Type: \(frame.format.mimeType)\r\nContent-Length: \(frame.data.count)\r\n" +
+                        "X-Sequence: \(frame.sequence)\r\nX-Rendered-At: \(frame.renderedAt)\r\n\(clock)\r\n"
                     
                     do {
                         try await writer.write(.buffer(.init(string: boundary)))
-                        try await writer.write(.buffer(.init(data: frameData)))
+                        try await writer.write(.buffer(.init(data: frame.data)))
                         try await writer.write(.buffer(.init(string: "\r\n")))
                     } catch {
                         break
@@ -499,69 +1460,59 @@ func routes(_ app: Application) throws {
             return Response(status: .serviceUnavailable)
         }
         
-        guard let frameData = renderer.render() else {
+        // While the render loop runs, rendering here too would advance the clock twice per frame
+        var headers = HTTPHeaders()
+        let frameData: Data
+        var format = renderer.frameFormat
+        if await state.getStreaming(), let frame = await state.getLatestFrame() {
+            frameData = frame.data
+            format = frame.format
+            headers.add(name: "X-Sequence", value: String(frame.sequence))
+            headers.add(name: "X-Rendered-At", value: String(frame.renderedAt))
+        } else if let rendered = renderer.render() {
+            frameData = rendered
+        } else {
             return Response(status: .internalServerError)
         }
         
-        var headers = HTTPHeaders()
-        headers.add(name: .contentType, value: "image/jpeg")
+        headers.add(name: .contentType, value: format.mimeType)
+        headers.add(name: .cacheControl, value: "no-store")
         headers.add(name: "X-Width", value: String(renderer.width))
         headers.add(name: "X-Height", value: String(renderer.height))
+        headers.add(name: "X-Time", value: String(renderer.renderedTime))
+        headers.add(name: "X-Paused", value: String(renderer.paused))
         
         return Response(status: .ok, headers: headers, body: .init(data: frameData))
     }
     
     // WebSocket streaming endpoint
-    app.webSocket("ws") { req, ws in
+    // Channel images and webcam frames are far larger than the default 16KB frame limit
+    app.webSocket("ws", maxFrameSize: 1 << 24) { req, ws in
         let clientId = UUID()
         print("WebSocket client connected: \(clientId)")
         
+        // Messages are applied one at a time in the order they arrived, so "pause, set time, step" and
+        // acks land exactly as sent; a Task per message could run them in any order
+        let (messages, continuation) = AsyncStream.makeStream(of: String.self)
+        
+        // Registering, every message and unregistering run in this one task, so a socket that closes right
+        // away is removed after it was added, never before
         Task {
             await state.addWebSocket(clientId, ws: ws)
+            for await text in messages {
+                await handleSocketText(text, clientId: clientId, ws: ws)
+            }
+            await state.removeWebSocket(clientId)
         }
         
         // Handle incoming messages (for events like mouse/keyboard)
-        ws.onText { ws, text in
-            guard let data = text.data(using: .utf8),
-                  let json = try? JSONSerialization.jsonObject(with: data) as? [String: Any],
-                  let type = json["type"] as? String else { return }
-            
-            Task {
-                guard let renderer = await state.getRenderer() else { return }
-                
-                switch type {
-                case "mousemove", "click":
-                    if let x = json["x"] as? Double, let y = json["y"] as? Double {
-                        renderer.mouseX = Float(x) / Float(renderer.width)
-                        renderer.mouseY = 1.0 - (Float(y) / Float(renderer.height))
-                    }
-                case "shader":
-                    if let code = json["code"] as? String {
-                        if let error = renderer.compileShader(code) {
-                            try? await ws.send("{\"error\": \"\(error.replacingOccurrences(of: "\"", with: "\\\""))\"}")
-                        } else {
-                            await state.setStreaming(true)
-                            try? await ws.send("{\"ok\": true}")
-                        }
-                    }
-                case "config":
-                    if let fps = json["targetFps"] as? Int {
-                        renderer.targetFps = max(1, min(120, fps))
-                    }
-                    if let w = json["width"] as? Int, let h = json["height"] as? Int {
-                        _ = renderer.resize(width: w, height: h)
-                    }
-                default:
-                    break
-                }
-            }
+        ws.onText { _, text in
+            continuation.yield(text)
         }
         
         ws.onClose.whenComplete { _ in
             print("WebSocket client disconnected: \(clientId)")
-            Task {
-                await state.removeWebSocket(clientId)
-            }
+            continuation.finish()
         }
     }
 }
@@ -622,18 +1573,22 @@ struct MetalRendererApp {
         defer { app.shutdown() }
         
         app.http.server.configuration.hostname = "0.0.0.0"
-        app.http.server.configuration.port = 9000
+        // PORT lets a shared machine run the server somewhere other than 9000
+        let port = Environment.get("PORT").flatMap(Int.init) ?? 9000
+        app.http.server.configuration.port = port
         
         try routes(app)
         
-        print("Metal Shader Server running on http://localhost:9000")
+        print("Metal Shader Server running on http://0.0.0.0:\(port)")
         print("Endpoints:")
+        print("  GET  /health  - Health check")
         print("  WS   /ws      - WebSocket stream (recommended)")
         print("  GET  /stream  - MJPEG video stream")
-        print("  GET  /frame   - Single JPEG frame")
+        print("  GET  /frame   - Single frame (JPEG, or PNG when configured)")
         print("  POST /shader  - Upload shader code")
         print("  POST /config  - Update configuration")
         print("  POST /event   - Send mouse/keyboard events")
+        print("  POST /message - Any WebSocket message over HTTP")
         
         try app.run()
     }
@@ -0,0 +1,166 @@
+import assert from "node:assert/strict";
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { after, test } from "node:test";
+import { deflateSync } from "node:zlib";
+import { SHADER_EXAMPLES } from "../app/shader-examples";
+import { compareCase, goldenCaseId } from "../cli/golden";
+import type { GoldenCase } from "../cli/golden-backends";
+import { diffImages } from "../cli/image-diff";
+import { decodePng, encodePng, type DecodedImage } from "../cli/png";
+
+const SIZE = 10;
+
+// Vertical black and white stripes, `shift` pixels to the right
+function stripes(shift = 0, width = SIZE, height = SIZE): DecodedImage {
+  const pixels = new Uint8Array(width * height * 4);
+  for (let i = 0; i < width * height; i++) {
+    const value = ((i % width) + shift) % 2 === 0 ? 0 : 255;
+    pixels.set([value, value, value, 255], i * 4);
+  }
+  return { width, height, pixels };
+}
+
+function withPixel(image: DecodedImage, index: number, value: number): DecodedImage {
+  const pixels = image.pixels.slice();
+  pixels.set([value, value, value, 255], index * 4);
+  return { ...image, pixels };
+}
+
+function png(image: DecodedImage): Buffer {
+  return encodePng(image.pixels, image.width, image.height);
+}
+
+const dirs: string[] = [];
+after(() => dirs.forEach(dir => rmSync(dir, { recursive: true, force: true })));
+
+function goldensDir(): string {
+  const dir = mkdtempSync(join(tmpdir(), "golden-test-"));
+  dirs.push(dir);
+  return dir;
+}
+
+const EXAMPLE = SHADER_EXAMPLES[0];
+const CASE: GoldenCase = { id: goldenCaseId(EXAMPLE, SIZE, SIZE, 0), example: EXAMPLE, width: SIZE, height: SIZE, time: 0 };
+
+test("PNGs round-trip", () => {
+  const image = withPixel(stripes(), 7, 128);
+  image.pixels[3] = 64;
+  assert.deepEqual(decodePng(png(image)), image);
+});
+
+test("filtered RGB PNGs from other tools decode", () => {
+  // 2x2 RGB: the first row Sub-filtered, the second Up-filtered. The decoder does not check CRCs.
+  const chunk = (type: string, data: Buffer) => {
+    const length = Buffer.alloc(4);
+    length.writeUInt32BE(data.length);
+    return Buffer.concat([length, Buffer.from(type, "ascii"), data, Buffer.alloc(4)]);
+  };
+  const header = Buffer.from([0, 0, 0, 2, 0, 0, 0, 2, 8, 2, 0, 0, 0]);
+  const rows = Buffer.from([1, 10, 20, 30, 5, 5, 5, 2, 10, 0, 246, 240, 231, 221]);
+  const data = Buffer.concat([
+    Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+    chunk("IHDR", header),
+    chunk("IDAT", deflateSync(rows)),
+    chunk("IEND", Buffer.alloc(0)),
+  ]);
+
+  assert.deepEqual(decodePng(data), {
+    width: 2,
+    height: 2,
+    pixels: new Uint8Array([10, 20, 30, 255, 15, 25, 35, 255, 20, 20, 20, 255, 255, 0, 0, 255]),
+  });
+  assert.throws(() => decodePng(Buffer.from("GIF89a")), /^Error: Not a PNG$/);
+});
+
+test("identical images do not differ", () => {
+  const diff = diffImages(stripes(), stripes());
+  assert.equal(diff.differentPixels, 0);
+  assert.equal(diff.ratio, 0);
+});
+
+test("a one-pixel shift differs everywhere", () => {
+  const diff = diffImages(stripes(), stripes(1));
+  assert.equal(diff.differentPixels, SIZE * SIZE);
+  assert.equal(diff.ratio, 1);
+  assert.deepEqual([...diff.diff.pixels.subarray(0, 4)], [255, 0, 0, 255]);
+});
+
+test("the threshold decides whether slight colour changes count", () => {
+  const noisy = stripes();
+  noisy.pixels.forEach((value, i) => {
+    if (i % 4 !== 3) noisy.pixels[i] = value === 0 ? 3 : 252;
+  });
+  assert.equal(diffImages(stripes(), noisy).differentPixels, 0);
+  assert.equal(diffImages(stripes(), noisy, 0).differentPixels, SIZE * SIZE);
+});
+
+test("images of different sizes are not compared", () => {
+  assert.throws(() => diffImages(stripes(), stripes(0, SIZE, SIZE + 1)), /^Error: Sizes differ: 10x10 and 10x11$/);
+
+  const goldens = goldensDir();
+  writeFileSync(join(goldens, `${CASE.id}.png`), png(stripes()));
+  const result = compareCase(CASE, png(stripes(0, 12, 8)), { goldens, threshold: 0.1, tolerance: 0.001, update: false });
+  assert.equal(result.status, "fail");
+  assert.equal(result.message, "The reference is 10x10 and the frame 12x8");
+});
+
+test("a matching frame passes", () => {
+  const goldens = goldensDir();
+  writeFileSync(join(goldens, `${CASE.id}.png`), png(stripes()));
+  const result = compareCase(CASE, png(stripes()), { goldens, threshold: 0.1, tolerance: 0, update: false });
+  assert.equal(result.status, "pass");
+  assert.equal(result.message, "");
+});
+
+test("the tolerance lets a few anti-aliased pixels through", () => {
+  const goldens = goldensDir();
+  writeFileSync(join(goldens, `${CASE.id}.png`), png(stripes()));
+  const edge = png(withPixel(stripes(), 12, 128));
+
+  const tolerant = compareCase(CASE, edge, { goldens, threshold: 0.1, tolerance: 0.02, update: false });
+  assert.equal(tolerant.status, "pass");
+  assert.equal(tolerant.message, "1.00% of pixels differ (tolerance 2.00%)");
+
+  const strict = compareCase(CASE, edge, { goldens, threshold: 0.1, tolerance: 0.001, update: false });
+  assert.equal(strict.status, "fail");
+  assert.equal(strict.message, "1.00% of pixels differ (tolerance 0.10%)");
+  assert.equal(decodePng(strict.diff as Buffer).pixels[12 * 4 + 1], 0);
+});
+
+test("a shifted frame fails", () => {
+  const goldens = goldensDir();
+  writeFileSync(join(goldens, `${CASE.id}.png`), png(stripes()));
+  const result = compareCase(CASE, png(stripes(1)), { goldens, threshold: 0.1, tolerance: 0.001, update: false });
+  assert.equal(result.status, "fail");
+  assert.equal(result.message, "100.00% of pixels differ (tolerance 0.10%)");
+});
+
+test("a frame without a reference is missing", () => {
+  const goldens = goldensDir();
+  const result = compareCase(CASE, png(stripes()), { goldens, threshold: 0.1, tolerance: 0.001, update: false });
+  assert.equal(result.status, "missing");
+  assert.equal(result.message, `No reference at ${join(goldens, `${CASE.id}.png`)}; run with --update to create it`);
+});
+
+test("updating writes and replaces references", () => {
+  const goldens = goldensDir();
+  const path = join(goldens, `${CASE.id}.png`);
+  const options = { goldens, threshold: 0.1, tolerance: 0.001, update: true };
+
+  assert.deepEqual(
+    [compareCase(CASE, png(stripes()), options).status, compareCase(CASE, png(stripes()), options).status],
+    ["updated", "pass"],
+  );
+  const replaced = compareCase(CASE, png(stripes(1)), options);
+  assert.equal(replaced.status, "updated");
+  assert.equal(replaced.message, `Replaced ${path}`);
+  assert.deepEqual(readFileSync(path), png(stripes(1)));
+});
+
+test("frames that are not PNGs are an error", () => {
+  const result = compareCase(CASE, Buffer.from([0xff, 0xd8, 0xff, 0xe0]), { goldens: goldensDir(), threshold: 0.1, tolerance: 0.001, update: false });
+  assert.equal(result.status, "error");
+  assert.equal(result.message, "The backend sent JPEG instead of PNG; it predates the format option");
+});
@@ -0,0 +1,113 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { lintMsl, type LintCode, type LintFix, type LintIssue } from "../app/msl-lint";
+import { SHADER_EXAMPLES, SHADER_PRELUDE } from "../app/shader-examples";
+import { prepareShader } from "../cli/shader-source";
+
+const FRAGMENT = `fragment float4 fragment_main(VertexOut in [[stage_in]],
+                              constant float &time [[buffer(0)]]) {
+    return float4(in.uv, sin(time), 1.0);
+}
+`;
+
+const CLEAN = `${SHADER_PRELUDE}\n\n${FRAGMENT}`;
+
+function offsetOf(code: string, line: number, column: number): number {
+  const lines = code.split("\n");
+  return lines.slice(0, line - 1).reduce((offset, text) => offset + text.length + 1, 0) + column - 1;
+}
+
+// Edits apply from the end so earlier ranges stay valid
+function applyFix(code: string, fix: LintFix): string {
+  const edits = fix.edits
+    .map(edit => ({ ...edit, start: offsetOf(code, edit.range.line, edit.range.column), end: offsetOf(code, edit.range.endLine, edit.range.endColumn) }))
+    .sort((a, b) => b.start - a.start);
+  return edits.reduce((text, edit) => text.slice(0, edit.start) + edit.text + text.slice(edit.end), code);
+}
+
+function onlyIssue(code: string, expected: LintCode): LintIssue {
+  const issues = lintMsl(code);
+  assert.deepEqual(issues.map(issue => issue.code), [expected]);
+  return issues[0];
+}
+
+// The preferred fix has to leave nothing for the linter to report
+function assertFixClears(code: string, expected: LintCode, title: string) {
+  const issue = onlyIssue(code, expected);
+  assert.equal(issue.fixes[0]?.title, title);
+  assert.deepEqual(lintMsl(applyFix(code, issue.fixes[0])), []);
+}
+
+test("a complete shader has no issues", () => {
+  assert.deepEqual(lintMsl(CLEAN), []);
+});
+
+test("every bundled example has no issues", () => {
+  for (const example of SHADER_EXAMPLES) {
+    const shader = prepareShader({ code: example.code, passes: example.passes ?? [], files: example.files ?? [] });
+    assert.deepEqual(lintMsl(shader.code), [], example.name);
+  }
+});
+
+test("missing-include", () => {
+  assertFixClears(CLEAN.replace("#include <metal_stdlib>\nusing namespace metal;\n", ""), "missing-include", "Add #include <metal_stdlib>");
+  assertFixClears(CLEAN.replace("#include <metal_stdlib>\n", ""), "missing-include", "Add #include <metal_stdlib>");
+});
+
+test("missing-namespace", () => {
+  const issue = onlyIssue(CLEAN.replace("using namespace metal;\n", ""), "missing-namespace");
+  assert.equal(issue.severity, "warning");
+  assertFixClears(CLEAN.replace("using namespace metal;\n", ""), "missing-namespace", "Add using namespace metal;");
+});
+
+test("missing-entry-point", () => {
+  const withoutVertex = CLEAN.slice(0, CLEAN.indexOf("vertex VertexOut")) + FRAGMENT;
+  assertFixClears(withoutVertex, "missing-entry-point", "Insert the default vertex_main");
+
+  const issue = onlyIssue(SHADER_PRELUDE, "missing-entry-point");
+  assert.equal(issue.message, "No fragment function named fragment_main; the renderer needs one to build its pipeline.");
+  assert.deepEqual(issue.fixes, []);
+});
+
+test("misspelled-entry-point", () => {
+  const code = CLEAN.replace("fragment_main", "fragment_mian");
+  assert.match(onlyIssue(code, "misspelled-entry-point").message, /^Did you mean fragment_main\?/);
+  assertFixClears(code, "misspelled-entry-point", "Rename to fragment_main");
+});
+
+test("missing-stage-qualifier", () => {
+  assertFixClears(CLEAN.replace("fragment float4", "float4"), "missing-stage-qualifier", "Add the fragment qualifier");
+  assertFixClears(CLEAN.replace("fragment float4", "vertex float4"), "missing-stage-qualifier", "Change to fragment");
+});
+
+test("reserved-buffer", () => {
+  assertFixClears(CLEAN.replace("float &time [[buffer(0)]]", "float &speed [[buffer(1)]]"), "reserved-buffer", "Use buffer(0) for time");
+  assertFixClears(CLEAN.replace("float &time", "float2 &time"), "reserved-buffer", "Change the type to float");
+});
+
+test("duplicate-buffer", () => {
+  const code = CLEAN.replace("constant float &time [[buffer(0)]]", "constant float &time [[buffer(0)]], constant float &now [[buffer(0)]]");
+  const issue = onlyIssue(code, "duplicate-buffer");
+  assert.equal(issue.message, "buffer(0) is already bound to `time` in fragment_main.");
+  assert.deepEqual(issue.fixes, []);
+});
+
+test("unbound-buffer", () => {
+  const code = CLEAN.replace("constant float &time [[buffer(0)]]", "constant float2 &resolution [[buffer(7)]]");
+  const issue = onlyIssue(code, "unbound-buffer");
+  assert.equal(issue.severity, "warning");
+  assert.equal(issue.message, "Nothing is bound at buffer(7); the playground only supplies buffers 0-5. float2 `resolution` is supplied at buffer(5).");
+  assertFixClears(code, "unbound-buffer", "Use buffer(5) for resolution");
+
+  // mouse and resolution share a type, so only the name can pick one
+  assertFixClears(code.replace("&resolution", "&mouse"), "unbound-buffer", "Use buffer(1) for mouse");
+  assert.deepEqual(onlyIssue(code.replace("&resolution", "&size"), "unbound-buffer").fixes, []);
+});
+
+test("unbalanced-bracket", () => {
+  assertFixClears(`${CLEAN}}\n`, "unbalanced-bracket", "Remove '}'");
+  assertFixClears(CLEAN.slice(0, CLEAN.lastIndexOf("}")), "unbalanced-bracket", "Insert the missing '}' at the end");
+
+  const issue = onlyIssue(CLEAN.replace("sin(time)", "sin(time"), "unbalanced-bracket");
+  assert.match(issue.message, /^'\(' is not closed before the '}' at \d+:1\.$/);
+});
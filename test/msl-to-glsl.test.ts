@@ -0,0 +1,57 @@
+import assert from "node:assert/strict";
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+import { test } from "node:test";
+import type { TranslationIssue } from "../app/glsl-import";
+import { translateMslToGlsl } from "../app/msl-to-glsl";
+import { SHADER_EXAMPLES } from "../app/shader-examples";
+import { exampleSlug } from "../cli/golden";
+import { prepareShader } from "../cli/shader-source";
+
+// Every bundled example's translation is compared with test/msl-to-glsl/<example>.glsl.
+// UPDATE_GOLDENS=1 npm test rewrites those files.
+
+const EXPECTED_DIR = join(__dirname, "..", "..", "..", "test", "msl-to-glsl");
+const UPDATE = process.env.UPDATE_GOLDENS === "1";
+
+const TEXTURE_ISSUES = (line: number): TranslationIssue[] => [
+  {
+    line,
+    construct: "texture",
+    message: "Textures and buffer passes are not available in the WebGL preview; connect to the Metal renderer to sample them.",
+    severity: "error",
+  },
+  { line: line + 1, construct: "sampler", message: "Samplers are not available in the WebGL preview.", severity: "error" },
+];
+
+const INPUT_BUFFER_ISSUE = (line: number, index: number): TranslationIssue => ({
+  line,
+  construct: `buffer(${index})`,
+  message: `buffer(${index}) is not supplied by the WebGL preview, which binds time, mouse, params, mouse state and resolution only (buffer(0), buffer(1), buffer(2), buffer(3), buffer(5)).`,
+  severity: "error",
+});
+
+// Examples that need the Metal renderer; every other example translates without issues
+const EXPECTED_ISSUES: Record<string, TranslationIssue[]> = {
+  "Reaction Diffusion": TEXTURE_ISSUES(24),
+  "Input Explorer": [INPUT_BUFFER_ISSUE(35, 4)],
+  "Texture Channels": TEXTURE_ISSUES(28),
+};
+
+for (const example of SHADER_EXAMPLES) {
+  test(`translates ${example.name}`, () => {
+    // The WebGL preview is sent the image pass with its includes inlined, as the editor compiles it
+    const shader = prepareShader({ code: example.code, passes: example.passes ?? [], files: example.files ?? [] });
+    assert.deepEqual(shader.errors, []);
+    const translation = translateMslToGlsl(shader.code);
+    assert.deepEqual(translation.issues, EXPECTED_ISSUES[example.name] ?? []);
+    const path = join(EXPECTED_DIR, `${exampleSlug(example)}.glsl`);
+
+    if (UPDATE) {
+      mkdirSync(EXPECTED_DIR, { recursive: true });
+      writeFileSync(path, translation.code);
+    }
+    assert.ok(existsSync(path), `No expected output at ${path}; run UPDATE_GOLDENS=1 npm test`);
+    assert.equal(translation.code, readFileSync(path, "utf8"));
+  });
+}
@@ -0,0 +1,91 @@
+#version 300 es
+precision highp float;
+precision highp int;
+uniform float u_time;
+uniform vec2 u_mouse;
+uniform vec2 u_resolution;
+in vec2 v_uv;
+out vec4 playground_fragColor;
+struct VertexOut { vec4 position; vec2 uv; };
+#line 1
+                       
+                      
+
+                  
+                                 
+              
+  
+
+                                                           
+                                    
+                                                     
+                                                  
+      
+    
+                  
+                                                     
+                                             
+               
+ 
+
+float hash(vec2 p) {
+    return fract(sin(dot(p, vec2(127.1, 311.7))) * 43758.5453);
+}
+
+float noise(vec2 p) {
+    vec2 i = floor(p);
+    vec2 f = fract(p);
+    f = f * f * (3.0 - 2.0 * f);
+    
+    float a = hash(i);
+    float b = hash(i + vec2(1, 0));
+    float c = hash(i + vec2(0, 1));
+    float d = hash(i + vec2(1, 1));
+    
+    return mix(mix(a, b, f.x), mix(c, d, f.x), f.y);
+}
+
+float fbm(vec2 p) {
+    float v = 0.0;
+    float a = 0.5;
+    mat2 rot = mat2(cos(0.5), sin(0.5), -sin(0.5), cos(0.5));
+    
+    for (int i = 0; i < 6; i++) {
+        v += a * noise(p);
+        p = rot * p * 2.0;
+        a *= 0.5;
+    }
+    return v;
+}
+
+vec4 fragment_main(
+
+) { VertexOut in_ = VertexOut(vec4(gl_FragCoord.x, u_resolution.y - gl_FragCoord.y, gl_FragCoord.zw), v_uv); float time = u_time; vec2 mouse = u_mouse;
+    vec2 uv = in_.uv * 3.0;
+    
+                    
+    vec2 motion = vec2(time * 0.1, time * 0.05);
+    
+    float n1 = fbm(uv + motion);
+    float n2 = fbm(uv * 2.0 - motion * 0.5 + n1 * 2.0);
+    float n3 = fbm(uv * 0.5 + motion * 0.3 + n2);
+    
+                      
+    float mouseDist = length(in_.uv - mouse);
+    float mouseInfluence = smoothstep(0.5, 0.0, mouseDist) * 0.3;
+    
+    float n = mix(n1, n2 * n3, 0.5) + mouseInfluence;
+    
+                    
+    vec3 col1 = vec3(0.05, 0.05, 0.1);
+    vec3 col2 = vec3(0.2, 0.3, 0.5);
+    vec3 col3 = vec3(0.5, 0.4, 0.3);
+    
+    vec3 color = mix(col1, col2, smoothstep(0.2, 0.5, n));
+    color = mix(color, col3, smoothstep(0.5, 0.8, n));
+    
+    return vec4(color, 1.0);
+}
+void main() {
+    playground_fragColor = fragment_main();
+}
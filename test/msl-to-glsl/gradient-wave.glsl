@@ -0,0 +1,56 @@
+#version 300 es
+precision highp float;
+precision highp int;
+uniform float u_time;
+uniform vec2 u_mouse;
+uniform vec2 u_resolution;
+in vec2 v_uv;
+out vec4 playground_fragColor;
+struct VertexOut { vec4 position; vec2 uv; };
+#line 1
+                       
+                      
+
+                  
+                                 
+              
+  
+
+                                                           
+                                    
+                                                     
+                                                  
+      
+    
+                  
+                                                     
+                                             
+               
+ 
+
+vec4 fragment_main(
+
+) { VertexOut in_ = VertexOut(vec4(gl_FragCoord.x, u_resolution.y - gl_FragCoord.y, gl_FragCoord.zw), v_uv); float time = u_time; vec2 mouse = u_mouse;
+    vec2 uv = in_.uv;
+    
+                      
+    uv.x += sin(uv.y * 10.0 + time * 2.0) * 0.02;
+    uv.y += cos(uv.x * 10.0 + time * 2.0) * 0.02;
+    
+                      
+    vec3 col1 = vec3(0.1, 0.2, 0.4);
+    vec3 col2 = vec3(0.4, 0.1, 0.3);
+    vec3 col3 = vec3(0.1, 0.3, 0.2);
+    
+    float t = sin(time * 0.5) * 0.5 + 0.5;
+    vec3 color = mix(mix(col1, col2, uv.x), col3, uv.y * t);
+    
+                                      
+    float dist = length(uv - mouse);
+    color += vec3(0.1, 0.15, 0.2) * smoothstep(0.3, 0.0, dist);
+    
+    return vec4(color, 1.0);
+}
+void main() {
+    playground_fragColor = fragment_main();
+}
@@ -0,0 +1,85 @@
+#version 300 es
+precision highp float;
+precision highp int;
+uniform float u_time;
+uniform vec2 u_mouse;
+uniform vec2 u_resolution;
+in vec2 v_uv;
+out vec4 playground_fragColor;
+struct VertexOut { vec4 position; vec2 uv; };
+#line 1
+                       
+                       struct MouseState { vec2 position; vec2 clickPosition; vec2 drag; vec2 wheel; uint buttons; uint clicked; }; struct KeyboardState { uint held[256]; uint pressed[256]; uint toggled[256]; };
+
+                                                                        
+                                                                         
+                                                               
+
+                  
+                                 
+              
+  
+
+                                                           
+                                    
+                                                     
+                                                  
+      
+    
+                  
+                                                     
+                                             
+               
+ 
+
+float segment(vec2 p, vec2 a, vec2 b) {
+    vec2 pa = p - a;
+    vec2 ba = b - a;
+    float h = clamp(dot(pa, ba) / max(dot(ba, ba), 1e-6), 0.0, 1.0);
+    return length(pa - ba * h);
+}
+
+vec4 fragment_main(
+
+
+) { VertexOut in_ = VertexOut(vec4(gl_FragCoord.x, u_resolution.y - gl_FragCoord.y, gl_FragCoord.zw), v_uv); float time = u_time; MouseState mouseState = MouseState(u_mouse, u_mouse, vec2(0.0), vec2(0.0), 0u, 0u);
+    vec2 uv = in_.uv;
+    
+                                      
+    float zoom = exp2(clamp(mouseState.wheel.y * 0.25, -4.0, 4.0));
+    vec2 grid = abs(fract((uv - 0.5) * 10.0 * zoom) - 0.5);
+    float lines = smoothstep(0.46, 0.5, max(grid.x, grid.y));
+    
+                                
+    vec3 base = keyboard.toggled[32] ? vec3(0.12, 0.05, 0.1) : vec3(0.04, 0.06, 0.12);
+    vec3 color = base + lines * 0.08;
+    
+                                                                         
+    uint buttons = mouseState.buttons;
+    vec3 cursorColor = vec3(float(buttons & 1u), float((buttons >> 1) & 1u), float((buttons >> 2) & 1u));
+    cursorColor = buttons == 0u ? vec3(0.8) : cursorColor;
+    color = mix(color, cursorColor, smoothstep(0.02, 0.015, length(uv - mouseState.position)));
+    
+    if (mouseState.buttons != 0u) {
+        vec2 start = mouseState.position - mouseState.drag;
+        color = mix(color, vec3(1.0, 0.8, 0.3), smoothstep(0.004, 0.002, segment(uv, start, mouseState.position)));
+    }
+    color = mix(color, vec3(0.3, 0.8, 1.0), smoothstep(0.012, 0.008, abs(length(uv - mouseState.clickPosition) - 0.02)));
+    
+                                                          
+    color += mouseState.clicked ? 0.15 : 0.0;
+    
+                                                
+    vec2 pad = uv - vec2(0.12, 0.12);
+    vec2 arrows[4] = vec2[4]( vec2(-1, 0), vec2(0, 1), vec2(1, 0), vec2(0, -1) );
+    for (int i = 0; i < 4; i++) {
+        float held = keyboard.held[37 + i];
+        float d = length(pad - arrows[i] * 0.05);
+        color = mix(color, mix(vec3(0.2), vec3(0.3, 1.0, 0.5), held), smoothstep(0.022, 0.018, d));
+    }
+    
+    return vec4(color, 1.0);
+}
+void main() {
+    playground_fragColor = fragment_main();
+}
@@ -0,0 +1,243 @@
+#version 300 es
+precision highp float;
+precision highp int;
+uniform float u_time;
+uniform vec2 u_mouse;
+uniform vec2 u_resolution;
+in vec2 v_uv;
+out vec4 playground_fragColor;
+struct VertexOut { vec4 position; vec2 uv; };
+#line 1
+
+
+                       
+                      
+
+                                                                  
+                  
+                                 
+              
+  
+
+                                                           
+                                    
+                                                     
+                                                  
+      
+
+                  
+                                                     
+                                             
+               
+ 
+
+const float PI = 3.14159265;
+const float TAU = 6.28318531;
+
+                                                        
+mat2 rotate2d(float angle) {
+    float c = cos(angle);
+    float s = sin(angle);
+    return mat2(c, s, -s, c);
+}
+
+                                                                          
+vec2 centeredUV(vec2 uv, float aspect) {
+    vec2 p = uv * 2.0 - 1.0;
+    p.x *= aspect;
+    return p;
+}
+
+
+
+
+                                                                
+vec3 palette(float t, vec3 a, vec3 b, vec3 c, vec3 d) {
+    return a + b * cos(TAU * (c * t + d));
+}
+
+                                                  
+vec3 rainbow(float t) {
+    return palette(t, vec3(0.5), vec3(0.5), vec3(1.0), vec3(0.0, 0.33, 0.67));
+}
+
+vec3 hsv2rgb(vec3 hsv) {
+    vec3 rgb = clamp(abs(((hsv.x * 6.0 + vec3(0.0, 4.0, 2.0)) - ( 6.0) * trunc((hsv.x * 6.0 + vec3(0.0, 4.0, 2.0)) / ( 6.0))) - 3.0) - 1.0, 0.0, 1.0);
+    return hsv.z * mix(vec3(1.0), rgb, hsv.y);
+}
+
+                                                               
+vec3 acesTonemap(vec3 color) {
+    return clamp((color * (2.51 * color + 0.03)) / (color * (2.43 * color + 0.59) + 0.14), 0.0, 1.0);
+}
+
+vec3 linearToSrgb(vec3 color) {
+    return pow(clamp(color, 0.0, 1.0), vec3(1.0 / 2.2));
+}
+
+
+
+
+
+
+                                                                                     
+float map(vec3 p);
+
+const int MAX_STEPS = 128;
+const float SURFACE_DISTANCE = 0.001;
+
+                                                                                          
+vec3 cameraRay(vec2 uv, vec3 eye, vec3 target, float zoom) {
+    vec3 forward = normalize(target - eye);
+    vec3 right = normalize(cross(vec3(0, 1, 0), forward));
+    vec3 up = cross(forward, right);
+    return normalize(uv.x * right + uv.y * up + zoom * forward);
+}
+
+                                                                                          
+float raymarch(vec3 origin, vec3 direction, float maxDistance) {
+    float t = 0.0;
+    for (int i = 0; i < MAX_STEPS; i++) {
+        float d = map(origin + direction * t);
+        if (d < SURFACE_DISTANCE) return t;
+        t += d;
+        if (t > maxDistance) break;
+    }
+    return -1.0;
+}
+
+vec3 calcNormal(vec3 p) {
+    vec2 e = vec2(0.001, 0);
+    return normalize(vec3(
+        map(p + e.xyy) - map(p - e.xyy),
+        map(p + e.yxy) - map(p - e.yxy),
+        map(p + e.yyx) - map(p - e.yyx)
+    ));
+}
+
+                                                               
+float softShadow(vec3 origin, vec3 direction, float minT, float maxT, float k) {
+    float result = 1.0;
+    float t = minT;
+    for (int i = 0; i < 64 && t < maxT; i++) {
+        float d = map(origin + direction * t);
+        if (d < SURFACE_DISTANCE) return 0.0;
+        result = min(result, k * d / t);
+        t += d;
+    }
+    return clamp(result, 0.0, 1.0);
+}
+
+float ambientOcclusion(vec3 p, vec3 normal) {
+    float occlusion = 0.0;
+    float weight = 1.0;
+    for (int i = 1; i <= 5; i++) {
+        float offset = 0.03 * float(i);
+        occlusion += weight * (offset - map(p + normal * offset));
+        weight *= 0.6;
+    }
+    return clamp(1.0 - 2.0 * occlusion, 0.0, 1.0);
+}
+
+
+
+
+float sdCircle(vec2 p, float radius) {
+    return length(p) - radius;
+}
+
+float sdBox2d(vec2 p, vec2 halfSize) {
+    vec2 d = abs(p) - halfSize;
+    return length(max(d, 0.0)) + min(max(d.x, d.y), 0.0);
+}
+
+float sdSphere(vec3 p, float radius) {
+    return length(p) - radius;
+}
+
+float sdBox(vec3 p, vec3 halfSize) {
+    vec3 d = abs(p) - halfSize;
+    return length(max(d, 0.0)) + min(max(d.x, max(d.y, d.z)), 0.0);
+}
+
+                                                                                 
+float sdTorus(vec3 p, vec2 radii) {
+    vec2 q = vec2(length(p.xz) - radii.x, p.y);
+    return length(q) - radii.y;
+}
+
+float sdCapsule(vec3 p, vec3 a, vec3 b, float radius) {
+    vec3 pa = p - a;
+    vec3 ba = b - a;
+    float h = clamp(dot(pa, ba) / dot(ba, ba), 0.0, 1.0);
+    return length(pa - ba * h) - radius;
+}
+
+float opUnion(float a, float b) {
+    return min(a, b);
+}
+
+float opSubtract(float a, float b) {
+    return max(a, -b);
+}
+
+float opIntersect(float a, float b) {
+    return max(a, b);
+}
+
+                                         
+float opSmoothUnion(float a, float b, float k) {
+    float h = clamp(0.5 + 0.5 * (b - a) / k, 0.0, 1.0);
+    return mix(b, a, h) - k * h * (1.0 - h);
+}
+
+
+                                                                                
+float map(vec3 p) {
+    float ground = p.y + 1.0;
+    float ring = sdTorus(p, vec2(1.0, 0.25));
+    float core = sdSphere(p - vec3(0.0, 0.2, 0.0), 0.55);
+    float pillar = sdCapsule(p, vec3(0.0, -1.0, 0.0), vec3(0.0), 0.12);
+    float shape = opSmoothUnion(opSmoothUnion(ring, core, 0.25), pillar, 0.2);
+    return opUnion(shape, ground);
+}
+
+                                                                 
+vec3 sceneColor(vec3 p, float time) {
+    if (p.y < -0.99) {
+        float checker = abs(((floor(p.x) + floor(p.z)) - ( 2.0) * trunc((floor(p.x) + floor(p.z)) / ( 2.0))));
+        return vec3(0.25 + 0.2 * checker);
+    }
+    return rainbow(p.y * 0.3 + time * 0.1);
+}
+
+                                                                                                     
+                                                                                            
+
+vec4 fragment_main(
+
+) { VertexOut in_ = VertexOut(vec4(gl_FragCoord.x, u_resolution.y - gl_FragCoord.y, gl_FragCoord.zw), v_uv); float time = u_time; vec2 mouse = u_mouse;
+    vec2 p = centeredUV(in_.uv, 800.0 / 600.0);
+    
+                                                                 
+    float angle = time * 0.3 + (mouse.x - 0.5) * PI;
+    vec3 eye = vec3(4.0 * sin(angle), 0.5 + mouse.y * 2.0, 4.0 * cos(angle));
+    vec3 direction = cameraRay(p, eye, vec3(0.0), 1.8);
+    
+    vec3 sky = mix(vec3(0.6, 0.7, 0.9), vec3(0.1, 0.15, 0.3), clamp(direction.y * 2.0, 0.0, 1.0));
+    vec3 color = sky;
+    float t = raymarch(eye, direction, 30.0);
+    if (t > 0.0) {
+        vec3 hit = eye + direction * t;
+        vec3 normal = calcNormal(hit);
+        vec3 light = normalize(vec3(0.6, 0.8, 0.4));
+        float diffuse = max(dot(normal, light), 0.0) * softShadow(hit + normal * 0.01, light, 0.02, 10.0, 12.0);
+        color = sceneColor(hit, time) * (0.2 * ambientOcclusion(hit, normal) + diffuse);
+        color = mix(color, sky, 1.0 - exp(-0.01 * t * t));
+    }
+    
+    return vec4(linearToSrgb(acesTonemap(color * 1.5)), 1.0);
+}
+void main() {
+    playground_fragColor = fragment_main();
+}
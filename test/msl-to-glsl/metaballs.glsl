@@ -0,0 +1,68 @@
+#version 300 es
+precision highp float;
+precision highp int;
+uniform float u_time;
+uniform vec2 u_mouse;
+uniform vec2 u_resolution;
+in vec2 v_uv;
+out vec4 playground_fragColor;
+struct VertexOut { vec4 position; vec2 uv; };
+#line 1
+                       
+                      
+
+                  
+                                 
+              
+  
+
+                                                           
+                                    
+                                                     
+                                                  
+      
+    
+                  
+                                                     
+                                             
+               
+ 
+
+float metaball(vec2 uv, vec2 center, float radius) {
+    float d = length(uv - center);
+    return radius / (d * d + 0.0001);
+}
+
+vec4 fragment_main(
+
+) { VertexOut in_ = VertexOut(vec4(gl_FragCoord.x, u_resolution.y - gl_FragCoord.y, gl_FragCoord.zw), v_uv); float time = u_time; vec2 mouse = u_mouse;
+    vec2 uv = in_.uv;
+    float aspect = 800.0 / 600.0;
+    uv.x *= aspect;
+    
+    vec2 mousePos = mouse;
+    mousePos.x *= aspect;
+    
+    float v = 0.0;
+    
+                         
+    v += metaball(uv, vec2(0.3 * aspect, 0.3) + vec2(sin(time), cos(time * 0.7)) * 0.15, 0.03);
+    v += metaball(uv, vec2(0.7 * aspect, 0.7) + vec2(cos(time * 0.8), sin(time * 1.1)) * 0.15, 0.025);
+    v += metaball(uv, vec2(0.5 * aspect, 0.5) + vec2(sin(time * 1.2), cos(time * 0.9)) * 0.2, 0.035);
+    v += metaball(uv, vec2(0.4 * aspect, 0.6) + vec2(cos(time * 0.6), sin(time * 1.3)) * 0.12, 0.02);
+    
+                                
+    v += metaball(uv, mousePos, 0.04);
+    
+                          
+    float threshold = smoothstep(0.9, 1.1, v);
+    
+    vec3 color = vec3(0.05, 0.05, 0.08);
+    color = mix(color, vec3(0.2, 0.4, 0.8), threshold);
+    color = mix(color, vec3(0.4, 0.8, 1.0), smoothstep(1.1, 1.5, v));
+    
+    return vec4(color, 1.0);
+}
+void main() {
+    playground_fragColor = fragment_main();
+}
@@ -0,0 +1,59 @@
+#version 300 es
+precision highp float;
+precision highp int;
+uniform float u_time;
+uniform vec2 u_mouse;
+uniform vec2 u_resolution;
+in vec2 v_uv;
+out vec4 playground_fragColor;
+struct VertexOut { vec4 position; vec2 uv; };
+#line 1
+                       
+                      
+
+                  
+                                 
+              
+  
+
+                                                           
+                                    
+                                                     
+                                                  
+      
+    
+                  
+                                                     
+                                             
+               
+ 
+
+vec4 fragment_main(
+
+) { VertexOut in_ = VertexOut(vec4(gl_FragCoord.x, u_resolution.y - gl_FragCoord.y, gl_FragCoord.zw), v_uv); float time = u_time; vec2 mouse = u_mouse;
+    vec2 uv = in_.uv;
+    float t = time * 0.5;
+    
+    float v1 = sin(uv.x * 10.0 + t);
+    float v2 = sin(10.0 * (uv.x * sin(t / 2.0) + uv.y * cos(t / 3.0)) + t);
+    
+    float cx = uv.x + 0.5 * sin(t / 5.0);
+    float cy = uv.y + 0.5 * cos(t / 3.0);
+    float v3 = sin(sqrt(100.0 * (cx * cx + cy * cy) + 1.0) + t);
+    
+                      
+    vec2 mc = uv - mouse;
+    float v4 = sin(sqrt(50.0 * (mc.x * mc.x + mc.y * mc.y) + 1.0));
+    
+    float v = v1 + v2 + v3 + v4 * 0.5;
+    
+    vec3 color;
+    color.r = sin(v * 3.14159) * 0.3 + 0.2;
+    color.g = sin(v * 3.14159 + 2.094) * 0.2 + 0.15;
+    color.b = sin(v * 3.14159 + 4.188) * 0.3 + 0.35;
+    
+    return vec4(color, 1.0);
+}
+void main() {
+    playground_fragColor = fragment_main();
+}
@@ -0,0 +1,91 @@
+#version 300 es
+precision highp float;
+precision highp int;
+uniform float u_time;
+uniform vec2 u_mouse;
+uniform vec2 u_resolution;
+in vec2 v_uv;
+out vec4 playground_fragColor;
+struct VertexOut { vec4 position; vec2 uv; };
+#line 1
+                       
+                      
+
+                  
+                                 
+              
+  
+
+                                                           
+                                    
+                                                     
+                                                  
+      
+    
+                  
+                                                     
+                                 
+               
+ 
+
+float sdSphere(vec3 p, float r) {
+    return length(p) - r;
+}
+
+vec3 calcNormal(vec3 p) {
+    vec2 e = vec2(0.001, 0);
+    return normalize(vec3(
+        sdSphere(p + e.xyy, 1.0) - sdSphere(p - e.xyy, 1.0),
+        sdSphere(p + e.yxy, 1.0) - sdSphere(p - e.yxy, 1.0),
+        sdSphere(p + e.yyx, 1.0) - sdSphere(p - e.yyx, 1.0)
+    ));
+}
+
+vec4 fragment_main(
+
+) { VertexOut in_ = VertexOut(vec4(gl_FragCoord.x, u_resolution.y - gl_FragCoord.y, gl_FragCoord.zw), v_uv); float time = u_time; vec2 mouse = u_mouse;
+    vec2 uv = in_.uv;
+    uv.x *= 800.0 / 600.0;
+    
+             
+    vec3 ro = vec3(0, 0, -3);
+    vec3 rd = normalize(vec3(uv, 1.5));
+    
+                            
+    float angle = (mouse.x - 0.5) * 3.14159;
+    float c = cos(angle);
+    float s = sin(angle);
+    rd.xz = vec2(rd.x * c - rd.z * s, rd.x * s + rd.z * c);
+    
+               
+    float t = 0.0;
+    vec3 p;
+    for (int i = 0; i < 64; i++) {
+        p = ro + rd * t;
+        float d = sdSphere(p, 1.0);
+        if (d < 0.001) break;
+        t += d;
+        if (t > 20.0) break;
+    }
+    
+    vec3 color = vec3(0.02, 0.02, 0.04);
+    
+    if (t < 20.0) {
+        vec3 n = calcNormal(p);
+        
+                         
+        vec3 lightPos = vec3(sin(time) * 2.0, 1.5, cos(time) * 2.0 - 3.0);
+        vec3 l = normalize(lightPos - p);
+        
+        float diff = max(dot(n, l), 0.0);
+        float spec = pow(max(dot(reflect(-l, n), -rd), 0.0), 32.0);
+        
+        vec3 baseColor = vec3(0.3, 0.4, 0.6);
+        color = baseColor * (0.1 + diff * 0.7) + vec3(1.0) * spec * 0.5;
+    }
+    
+    return vec4(color, 1.0);
+}
+void main() {
+    playground_fragColor = fragment_main();
+}
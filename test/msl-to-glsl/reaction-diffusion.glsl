@@ -0,0 +1,53 @@
+#version 300 es
+precision highp float;
+precision highp int;
+uniform float u_time;
+uniform vec2 u_mouse;
+uniform vec2 u_resolution;
+in vec2 v_uv;
+out vec4 playground_fragColor;
+struct VertexOut { vec4 position; vec2 uv; };
+#line 1
+                       
+                      
+
+                                                                           
+
+                  
+                                 
+              
+  
+
+                                                           
+                                    
+                                                     
+                                                  
+      
+    
+                  
+                                                     
+                                             
+               
+ 
+
+vec4 fragment_main(
+
+) { VertexOut in_ = VertexOut(vec4(gl_FragCoord.x, u_resolution.y - gl_FragCoord.y, gl_FragCoord.zw), v_uv);
+    vec2 uv = in_.uv;
+    
+                                       
+    float v = bufferA.sample_(bufferASampler, vec2(uv.x, 1.0 - uv.y)).g;
+    
+                       
+    vec3 col1 = vec3(0.02, 0.05, 0.08);
+    vec3 col2 = vec3(0.1, 0.2, 0.3);
+    vec3 col3 = vec3(0.8, 0.85, 0.6);
+    
+    vec3 color = mix(col1, col2, smoothstep(0.05, 0.2, v));
+    color = mix(color, col3, smoothstep(0.2, 0.4, v));
+    
+    return vec4(color, 1.0);
+}
+void main() {
+    playground_fragColor = fragment_main();
+}
@@ -0,0 +1,59 @@
+#version 300 es
+precision highp float;
+precision highp int;
+uniform float u_time;
+uniform vec2 u_mouse;
+uniform vec2 u_resolution;
+in vec2 v_uv;
+out vec4 playground_fragColor;
+struct VertexOut { vec4 position; vec2 uv; };
+#line 1
+                       
+                      
+
+                                                                                             
+                                                                                           
+                               
+
+                  
+                                 
+              
+  
+
+                                                           
+                                    
+                                                     
+                                                  
+      
+    
+                  
+                                                     
+                                             
+               
+ 
+
+vec4 fragment_main(
+
+
+
+
+
+) { VertexOut in_ = VertexOut(vec4(gl_FragCoord.x, u_resolution.y - gl_FragCoord.y, gl_FragCoord.zw), v_uv); float time = u_time; vec2 mouse = u_mouse;
+    vec2 uv = in_.uv;
+    
+                                                                                 
+    vec2 offset = channel1.sample_(channel1Sampler, uv * 0.5 + time * 0.02).rg - 0.5;
+    
+                                                  
+    vec2 toMouse = uv - mouse;
+    float lens = smoothstep(0.25, 0.0, length(toMouse));
+    vec2 lookup = uv - toMouse * lens * 0.5 + offset * 0.03;
+    
+    vec3 color = channel0.sample_(channel0Sampler, lookup).rgb;
+    color += lens * 0.05;
+    
+    return vec4(color, 1.0);
+}
+void main() {
+    playground_fragColor = fragment_main();
+}
@@ -0,0 +1,54 @@
+#version 300 es
+precision highp float;
+precision highp int;
+uniform float u_time;
+uniform vec2 u_mouse;
+uniform vec2 u_resolution;
+in vec2 v_uv;
+out vec4 playground_fragColor;
+struct VertexOut { vec4 position; vec2 uv; };
+#line 1
+                       
+                       struct ShaderParams { float speed; float frequency; vec2 center; bool followMouse; vec3 inner; vec3 outer; };
+
+                                                                
+                                                                 
+                                   
+                                        
+                                    
+                                  
+                         
+                         
+
+                  
+                                 
+              
+  
+
+                                                           
+                                    
+                                                     
+                                                  
+      
+    
+                  
+                                                     
+                                             
+               
+ 
+
+uniform ShaderParams u_params; vec4 fragment_main(
+
+
+) { VertexOut in_ = VertexOut(vec4(gl_FragCoord.x, u_resolution.y - gl_FragCoord.y, gl_FragCoord.zw), v_uv); float time = u_time; vec2 mouse = u_mouse; ShaderParams params = u_params;
+    vec2 center = params.followMouse ? mouse : params.center;
+    float d = length(in_.uv - center);
+    
+    float rings = sin(d * params.frequency - time * params.speed) * 0.5 + 0.5;
+    vec3 color = mix(params.outer, params.inner, rings * smoothstep(0.8, 0.0, d));
+    
+    return vec4(color, 1.0);
+}
+void main() {
+    playground_fragColor = fragment_main();
+}
@@ -0,0 +1,76 @@
+#version 300 es
+precision highp float;
+precision highp int;
+uniform float u_time;
+uniform vec2 u_mouse;
+uniform vec2 u_resolution;
+in vec2 v_uv;
+out vec4 playground_fragColor;
+struct VertexOut { vec4 position; vec2 uv; };
+#line 1
+                       
+                      
+
+                  
+                                 
+              
+  
+
+                                                           
+                                    
+                                                     
+                                                  
+      
+    
+                  
+                                                     
+                                 
+               
+ 
+
+vec4 fragment_main(
+
+) { VertexOut in_ = VertexOut(vec4(gl_FragCoord.x, u_resolution.y - gl_FragCoord.y, gl_FragCoord.zw), v_uv); float time = u_time; vec2 mouse = u_mouse;
+    vec2 uv = in_.uv;
+    uv.x *= 800.0 / 600.0;
+    
+                   
+    vec2 center = (mouse - 0.5) * 0.5;
+    uv -= center;
+    
+                        
+    float r = length(uv);
+    float a = atan(uv.y, uv.x);
+    
+                     
+    float z = 1.0 / (r + 0.1);
+    float u = a / 3.14159;
+    float v = z + time * 0.5;
+    
+              
+    float pattern = sin(u * 8.0) * sin(v * 4.0);
+    pattern = smoothstep(-0.1, 0.1, pattern);
+    
+                
+    float rings = sin(z * 2.0 - time * 2.0) * 0.5 + 0.5;
+    
+                
+    float fog = exp(-r * 0.5);
+    
+            
+    vec3 col1 = vec3(0.1, 0.15, 0.25);
+    vec3 col2 = vec3(0.25, 0.2, 0.15);
+    
+    vec3 color = mix(col1, col2, pattern);
+    color += vec3(0.1, 0.12, 0.15) * rings;
+    color *= fog;
+    
+               
+    float vignette = 1.0 - r * 0.3;
+    color *= vignette;
+    
+    return vec4(color, 1.0);
+}
+void main() {
+    playground_fragColor = fragment_main();
+}
@@ -0,0 +1,104 @@
+#version 300 es
+precision highp float;
+precision highp int;
+uniform float u_time;
+uniform vec2 u_mouse;
+uniform vec2 u_resolution;
+in vec2 v_uv;
+out vec4 playground_fragColor;
+struct VertexOut { vec4 position; vec2 uv; };
+#line 1
+                       
+                      
+
+                  
+                                 
+              
+  
+
+                                                           
+                                    
+                                                     
+                                                  
+      
+    
+                  
+                                                     
+                                             
+               
+ 
+
+vec2 hash2(vec2 p) {
+    return fract(sin(vec2(dot(p, vec2(127.1, 311.7)),
+                            dot(p, vec2(269.5, 183.3)))) * 43758.5453);
+}
+
+vec4 fragment_main(
+
+) { VertexOut in_ = VertexOut(vec4(gl_FragCoord.x, u_resolution.y - gl_FragCoord.y, gl_FragCoord.zw), v_uv); float time = u_time; vec2 mouse = u_mouse;
+    vec2 uv = in_.uv * 5.0;
+    
+    vec2 i_uv = floor(uv);
+    vec2 f_uv = fract(uv);
+    
+    float minDist = 10.0;
+    vec2 minPoint;
+    vec2 minCell;
+    
+                                 
+    for (int y = -1; y <= 1; y++) {
+        for (int x = -1; x <= 1; x++) {
+            vec2 neighbor = vec2(x, y);
+            vec2 cell = i_uv + neighbor;
+            vec2 point = hash2(cell);
+            
+                             
+            point = 0.5 + 0.4 * sin(time * 0.5 + 6.2831 * point);
+            
+            vec2 diff = neighbor + point - f_uv;
+            float dist = length(diff);
+            
+            if (dist < minDist) {
+                minDist = dist;
+                minPoint = point;
+                minCell = cell;
+            }
+        }
+    }
+    
+                            
+    float edgeDist = 10.0;
+    for (int y = -1; y <= 1; y++) {
+        for (int x = -1; x <= 1; x++) {
+            vec2 neighbor = vec2(x, y);
+            vec2 cell = i_uv + neighbor;
+            vec2 point = hash2(cell);
+            point = 0.5 + 0.4 * sin(time * 0.5 + 6.2831 * point);
+            
+            vec2 diff = neighbor + point - f_uv;
+            
+            if (length(diff) > 0.001) {
+                vec2 toCenter = (minPoint - point + vec2(float(x), float(y))) * 0.5;
+                vec2 toPoint = diff - toCenter;
+                float d = dot(toPoint, normalize(toCenter));
+                edgeDist = min(edgeDist, d);
+            }
+        }
+    }
+    
+               
+    vec3 cellColor = vec3(hash2(minCell), hash2(minCell + 100.0).x) * 0.3 + 0.1;
+    
+                      
+    float mouseDist = length(in_.uv - mouse);
+    cellColor += vec3(0.1, 0.15, 0.2) * smoothstep(0.3, 0.0, mouseDist);
+    
+                     
+    float edge = smoothstep(0.02, 0.03, edgeDist);
+    vec3 color = mix(vec3(0.4, 0.5, 0.6), cellColor, edge);
+    
+    return vec4(color, 1.0);
+}
+void main() {
+    playground_fragColor = fragment_main();
+}
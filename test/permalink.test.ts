@@ -0,0 +1,61 @@
+import assert from "node:assert/strict";
+import { randomBytes } from "node:crypto";
+import { test } from "node:test";
+import { deflateRawSync } from "node:zlib";
+import { decodePermalink, encodePermalink, MAX_PERMALINK_LENGTH, PermalinkError, type SharedState } from "../app/permalink";
+
+const STATE: SharedState = {
+  code: "fragment float4 fragment_main() { return float4(1.0); }",
+  passes: [{ name: "A", code: "// feedback", scale: 0.5 }],
+  files: [{ name: "noise.metal", code: "float noise(float2 p) { return 0.0; }" }],
+  targetFps: 30,
+  example: "Plasma",
+  paramValues: { speed: 2, tint: [1, 0.5, 0] },
+};
+
+function link(payload: string | Buffer): string {
+  return `v1.${deflateRawSync(payload).toString("base64url")}`;
+}
+
+async function rejectsWith(hash: string, message: string) {
+  await assert.rejects(decodePermalink(hash), (error: unknown) => error instanceof PermalinkError && error.message === message);
+}
+
+test("a shared state round-trips", async () => {
+  const hash = await encodePermalink(STATE);
+  assert.match(hash, /^v1\.[A-Za-z0-9_-]+$/);
+  assert.deepEqual(await decodePermalink(`#${hash}`), STATE);
+});
+
+test("optional fields decode to their defaults", async () => {
+  const state = { ...STATE, passes: [], files: [], example: null, paramValues: {} };
+  assert.deepEqual(await decodePermalink(await encodePermalink(state)), state);
+  assert.deepEqual(await decodePermalink(link(JSON.stringify({ c: "code", f: 500 }))), { ...state, code: "code", targetFps: 120 });
+});
+
+test("a link from a newer format is refused", async () => {
+  await rejectsWith("#v2.AAAA", "This link was made by a newer version of the playground (format v2).");
+});
+
+test("something that is not a permalink is refused", async () => {
+  await rejectsWith("#v1.not base64", "This link is not a valid shader permalink.");
+});
+
+test("a cut-off or corrupt link is reported as corrupt", async () => {
+  const hash = await encodePermalink(STATE);
+  await rejectsWith(hash.slice(0, -12), "This link is corrupt and could not be decompressed. It may have been cut off when it was copied.");
+  await rejectsWith(link("{not json"), "This link is corrupt: its contents are not valid data.");
+  await rejectsWith(link(JSON.stringify({ f: 60 })), "This link does not contain any shader code.");
+});
+
+test("an oversized shader cannot be shared", async () => {
+  // Random hex barely compresses
+  const code = randomBytes(MAX_PERMALINK_LENGTH).toString("hex");
+  await assert.rejects(encodePermalink({ ...STATE, code }), (error: unknown) =>
+    error instanceof PermalinkError && /^This shader is too large to share as a link \(\d+k of 16k characters\)\.$/.test(error.message));
+});
+
+test("oversized links are refused before and while decompressing", async () => {
+  await rejectsWith(`v1.${"A".repeat(MAX_PERMALINK_LENGTH * 2)}`, "This link is too large to open.");
+  await rejectsWith(link(Buffer.alloc(2 * 1024 * 1024, " ")), "This link expands to more data than the playground will open.");
+});
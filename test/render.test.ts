@@ -0,0 +1,70 @@
+import assert from "node:assert/strict";
+import { execFile } from "node:child_process";
+import { mkdtempSync, readdirSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { after, before, test } from "node:test";
+import { promisify } from "node:util";
+import { SHADER_PRELUDE } from "../app/shader-examples";
+import { decodePng } from "../cli/png";
+import { frameFileName } from "../cli/render";
+import { startStandInServer, type StandInServer } from "../cli/stand-in-server";
+
+// Runs the render CLI as a separate process against a stand-in renderer in this one
+
+const RENDER = join(__dirname, "..", "cli", "render.js");
+
+const SHADER = `${SHADER_PRELUDE}
+
+fragment float4 fragment_main(VertexOut in [[stage_in]], constant float &time [[buffer(0)]]) {
+    return float4(in.uv, sin(time), 1.0);
+}
+`;
+
+let server: StandInServer;
+let dir: string;
+
+before(async () => {
+  server = await startStandInServer(0);
+  dir = mkdtempSync(join(tmpdir(), "render-test-"));
+});
+
+after(async () => {
+  await server.close();
+  rmSync(dir, { recursive: true, force: true });
+});
+
+async function render(shader: string, args: string[]): Promise<{ code: number; stdout: string; stderr: string }> {
+  const file = join(dir, "shader.metal");
+  writeFileSync(file, shader);
+  try {
+    const { stdout, stderr } = await promisify(execFile)(process.execPath, [RENDER, file, "--server", `127.0.0.1:${server.port}`, "--timeout", "20", ...args]);
+    return { code: 0, stdout, stderr };
+  } catch (error) {
+    const { code, stdout, stderr } = error as { code: number; stdout: string; stderr: string };
+    return { code, stdout, stderr };
+  }
+}
+
+test("renders frames of the requested size", async () => {
+  const out = join(dir, "frames");
+  const result = await render(SHADER, ["--out", out, "--size", "64x48", "--times", "0,1"]);
+
+  assert.equal(result.code, 0, result.stderr);
+  const options = { prefix: "frame", times: [0, 1] };
+  assert.deepEqual(readdirSync(out).sort(), [frameFileName(options, 0, "png"), frameFileName(options, 1, "png")]);
+  for (const file of readdirSync(out)) {
+    const image = decodePng(readFileSync(join(out, file)));
+    assert.equal(image.width, 64);
+    assert.equal(image.height, 48);
+  }
+});
+
+test("a shader that does not compile exits with the compiler's message", async () => {
+  const out = join(dir, "broken");
+  const result = await render(SHADER.replace("fragment float4", "#error needs more cowbell\nfragment float4"), ["--out", out]);
+
+  assert.equal(result.code, 1);
+  assert.match(result.stderr, /shader\.metal:\d+:\d+: error: needs more cowbell/);
+  assert.deepEqual(readdirSync(out), []);
+});
@@ -0,0 +1,110 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import {
+  helloMessage,
+  negotiateCapabilities,
+  parseServerMessage,
+  PROTOCOL_VERSION,
+  protocolMismatch,
+  supportsFeature,
+  validateClientMessage,
+  type HelloReply,
+} from "../app/renderer-protocol";
+
+const HELLO: HelloReply = {
+  type: "hello",
+  version: PROTOCOL_VERSION,
+  server: "Metal renderer",
+  capabilities: { maxWidth: 4096, maxHeight: 4096, encodings: ["jpeg", "png", "raw"], features: ["pipeline", "channels", "params"] },
+};
+
+test("valid client messages are accepted as they are", () => {
+  for (const message of [
+    helloMessage("test"),
+    { type: "config", width: 640, height: 480, timeStep: null, format: "png" },
+    { type: "pipeline", passes: [{ name: "A", code: "", scale: 0.5, inputs: ["A"] }, { name: "image", code: "", scale: 1, inputs: ["A"] }] },
+    { type: "keydown", code: "KeyA" },
+    { type: "keyreset" },
+  ]) {
+    assert.deepEqual(validateClientMessage(message), { message });
+  }
+});
+
+test("client messages without a known type are rejected", () => {
+  assert.deepEqual(validateClientMessage("ping"), { error: "A message has to be a JSON object" });
+  assert.deepEqual(validateClientMessage([{ type: "ping" }]), { error: "A message has to be a JSON object" });
+  assert.deepEqual(validateClientMessage({ sent: 1 }), { error: "A message needs a type" });
+  assert.deepEqual(validateClientMessage({ type: "teleport" }), { error: "Unknown message type teleport", request: "teleport" });
+  assert.deepEqual(validateClientMessage({ type: "toString" }), { error: "Unknown message type toString", request: "toString" });
+});
+
+test("missing and ill-typed client fields are named in the error", () => {
+  const cases: [unknown, string][] = [
+    [{ type: "hello", client: "test" }, "hello: version is missing"],
+    [{ type: "hello", version: 1.5, client: "test" }, "hello: version has to be an integer"],
+    [{ type: "ping", sent: "now" }, "ping: sent has to be a number"],
+    [{ type: "time", time: Infinity }, "time: time has to be a number"],
+    [{ type: "shader", code: 42 }, "shader: code has to be a string"],
+    [{ type: "playback", paused: "yes" }, "playback: paused has to be true or false"],
+    [{ type: "config", format: "webp" }, "config: format has to be one of jpeg, png, raw"],
+    [{ type: "config", width: null }, "config: width has to be an integer"],
+    [{ type: "pipeline", passes: {} }, "pipeline: passes has to be an array"],
+    [{ type: "pipeline", passes: [{ name: "D", code: "", scale: 1, inputs: [] }] }, "pipeline: passes[0].name has to be one of A, B, C, image"],
+    [{ type: "pipeline", passes: [{ name: "A", code: "", scale: 1, inputs: ["image"] }] }, "pipeline: passes[0].inputs[0] has to be one of A, B, C"],
+    [{ type: "pipeline", passes: ["A"] }, "pipeline: passes[0] has to be an object"],
+  ];
+  for (const [message, error] of cases) {
+    assert.deepEqual(validateClientMessage(message), { error, request: (message as { type: string }).type });
+  }
+});
+
+test("fields a schema does not name are allowed", () => {
+  const message = { type: "ping", sent: 1, trace: "abc" };
+  assert.deepEqual(validateClientMessage(message), { message });
+  assert.deepEqual(parseServerMessage({ type: "clock", time: 1, paused: false, frame: 60 }), { type: "clock", time: 1, paused: false, frame: 60 });
+});
+
+test("server messages that do not match their schema are dropped", () => {
+  assert.equal(parseServerMessage(null), null);
+  assert.equal(parseServerMessage({ type: "frame" }), null);
+  assert.equal(parseServerMessage({ type: "clock", time: "1", paused: false }), null);
+  assert.equal(parseServerMessage({ type: "pong", pong: 1 }), null);
+  assert.equal(parseServerMessage({ type: "compile", pass: "D" }), null);
+  assert.equal(parseServerMessage({ ...HELLO, capabilities: { ...HELLO.capabilities, maxWidth: undefined } }), null);
+  assert.equal(parseServerMessage({ unrelated: true }), null);
+});
+
+test("untyped messages from older renderers are recognised by shape", () => {
+  assert.deepEqual(parseServerMessage({ pong: 5, serverTime: 9 }), { type: "pong", pong: 5, serverTime: 9 });
+  assert.deepEqual(parseServerMessage({ channelError: "bad image", channel: 2 }), { type: "channelError", channel: 2, error: "bad image" });
+  assert.deepEqual(parseServerMessage({ ok: true }), { type: "compile", ok: true });
+  assert.deepEqual(parseServerMessage({ time: 3, paused: true }), { type: "clock", time: 3, paused: true });
+});
+
+test("unknown encodings and features in a hello reply are ignored", () => {
+  const hello = parseServerMessage({
+    ...HELLO,
+    capabilities: { ...HELLO.capabilities, encodings: ["webp", "png"], features: ["params", "holograms"], extra: 1 },
+  });
+  assert.deepEqual(hello, { ...HELLO, capabilities: { ...HELLO.capabilities, encodings: ["png"], features: ["params"], extra: 1 } });
+  assert.equal(supportsFeature(negotiateCapabilities(hello as HelloReply), "params"), true);
+  assert.equal(supportsFeature(negotiateCapabilities(hello as HelloReply), "keyboard"), false);
+});
+
+test("a renderer on the same version keeps its capabilities", () => {
+  assert.equal(protocolMismatch(HELLO), null);
+  assert.deepEqual(negotiateCapabilities(HELLO), HELLO.capabilities);
+});
+
+test("a renderer on another version gets the basics and a warning", () => {
+  const hello = { ...HELLO, version: PROTOCOL_VERSION + 1 };
+  assert.deepEqual(negotiateCapabilities(hello), { maxWidth: 4096, maxHeight: 4096, encodings: ["jpeg"], features: [] });
+  assert.equal(
+    protocolMismatch(hello),
+    `Metal renderer speaks protocol version ${PROTOCOL_VERSION + 1} and this page version ${PROTOCOL_VERSION}; optional features are turned off`,
+  );
+});
+
+test("a renderer that has not said hello is assumed to support everything", () => {
+  assert.equal(supportsFeature(null, "timeStep"), true);
+});
@@ -0,0 +1,96 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import type { MetalDiagnostic } from "../app/metal-diagnostics";
+import { includeDiagnostics, mapDiagnostics, resolveIncludes, uniqueProblems, type ShaderFile } from "../app/shader-includes";
+
+const FILES: ShaderFile[] = [
+  { name: "palette.h", code: "#pragma once\n#include \"math.h\"\nfloat3 palette(float t) {\n    return float3(t);\n}" },
+  { name: "math.h", code: "#include \"palette.h\"\nconstant float PI = 3.14159;" },
+];
+
+const IMAGE = "#include \"palette.h\"\n#include \"math.h\"\nfragment float4 fragment_main() {\n    return float4(palette(PI), 1.0);\n}";
+
+function diagnostic(line: number, notes: number[] = []): MetalDiagnostic {
+  return {
+    file: "program_source",
+    line,
+    column: 5,
+    severity: "error",
+    message: "use of undeclared identifier",
+    notes: notes.map(noteLine => ({ file: "program_source", line: noteLine, column: 1, message: "declared here" })),
+  };
+}
+
+test("every resolved line maps back to the file and line it came from", () => {
+  const resolved = resolveIncludes("image.metal", IMAGE, FILES);
+  const lines = resolved.code.split("\n");
+
+  assert.deepEqual(resolved.errors, []);
+  assert.equal(resolved.lineMap.length, lines.length);
+  assert.deepEqual(resolved.lineMap, [
+    { file: "image.metal", line: 1 },
+    { file: "palette.h", line: 1 },
+    { file: "palette.h", line: 2 },
+    { file: "math.h", line: 1 },
+    { file: "math.h", line: 2 },
+    { file: "palette.h", line: 3 },
+    { file: "palette.h", line: 4 },
+    { file: "palette.h", line: 5 },
+    { file: "image.metal", line: 2 },
+    { file: "image.metal", line: 3 },
+    { file: "image.metal", line: 4 },
+    { file: "image.metal", line: 5 },
+  ]);
+  assert.equal(lines[4], "constant float PI = 3.14159;");
+  assert.equal(lines[6], "    return float3(t);");
+});
+
+test("a diagnostic in an included file points at that file", () => {
+  const resolved = resolveIncludes("image.metal", IMAGE, FILES);
+  const [mapped] = mapDiagnostics([diagnostic(7, [5, 11])], resolved);
+
+  assert.equal(mapped.file, "palette.h");
+  assert.equal(mapped.line, 4);
+  assert.equal(mapped.column, 5);
+  assert.deepEqual(mapped.notes.map(note => [note.file, note.line]), [["math.h", 2], ["image.metal", 4]]);
+});
+
+test("library headers resolve like project files", () => {
+  const resolved = resolveIncludes("image.metal", "#include \"lib/common.h\"\n#include \"lib/common.h\"", []);
+  assert.deepEqual(resolved.errors, []);
+  assert.equal(resolved.lineMap[1].file, "lib/common.h");
+  assert.equal(resolved.lineMap.at(-1)?.file, "image.metal");
+});
+
+// Every file behaves as if it had #pragma once, so cycles and repeats are not errors
+test("include cycles and repeated includes inline each file once", () => {
+  const resolved = resolveIncludes("image.metal", IMAGE, FILES);
+  assert.equal(resolved.code.match(/float3 palette/g)?.length, 1);
+  assert.equal(resolved.code.match(/constant float PI/g)?.length, 1);
+
+  const self = resolveIncludes("image.metal", "#include \"image.metal\"\nfloat x;", [{ name: "image.metal", code: "float y;" }]);
+  assert.deepEqual(self, { code: "\nfloat x;", lineMap: [{ file: "image.metal", line: 1 }, { file: "image.metal", line: 2 }], errors: [] });
+});
+
+test("a missing include is reported where it is included", () => {
+  const files = [{ name: "scene.h", code: "// Scene\n  #include \"missing.h\"" }];
+  const resolved = resolveIncludes("buffer-a.metal", "#include \"scene.h\"", files);
+
+  assert.deepEqual(resolved.errors, [
+    { file: "scene.h", line: 2, column: 12, message: "Cannot find \"missing.h\". Include a file of this project or a lib/ header." },
+  ]);
+  assert.deepEqual(includeDiagnostics(resolved.errors), [{ ...resolved.errors[0], severity: "error", notes: [] }]);
+});
+
+test("includes inside comments are left alone", () => {
+  const resolved = resolveIncludes("image.metal", "/* #include \"missing.h\"\n#include \"missing.h\" */\n// #include \"missing.h\"", []);
+  assert.deepEqual(resolved.errors, []);
+});
+
+test("a header shared by several passes reports each problem once", () => {
+  const files = [{ name: "shared.h", code: "#include \"missing.h\"" }];
+  const errors = ["image.metal", "buffer-a.metal"].flatMap(name => resolveIncludes(name, "#include \"shared.h\"", files).errors);
+
+  assert.equal(errors.length, 2);
+  assert.deepEqual(uniqueProblems(errors), [errors[0]]);
+});
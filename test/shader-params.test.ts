@@ -0,0 +1,45 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { packParams, paramsLayout, parseShaderParams, resolveParamValues } from "../app/shader-params";
+
+// Offsets are those the Metal compiler gives the generated ShaderParams struct: float3 (a color) is 16 bytes
+// aligned to 16, bool 1 aligned to 1, and the struct rounds up to its widest member, 16 bytes at least.
+
+function params(annotations: string) {
+  const parsed = parseShaderParams(annotations);
+  assert.deepEqual(parsed.errors, []);
+  return parsed.params;
+}
+
+test("a float after a float3 starts at the float3's padded end", () => {
+  const layout = paramsLayout(params("// @color tint = #ff8000\n// @param float speed = 2.5"));
+  assert.deepEqual(layout, { offsets: [0, 16], size: 32 });
+});
+
+test("bools pack byte by byte and a float3 after them aligns to 16", () => {
+  const layout = paramsLayout(params("// @param bool a = true\n// @param bool b\n// @color tint"));
+  assert.deepEqual(layout, { offsets: [0, 1, 16], size: 32 });
+});
+
+test("a float2 after a float aligns to 8", () => {
+  const layout = paramsLayout(params("// @param float speed\n// @param float2 center = (0.5, 0.25)\n// @param int count = 3"));
+  assert.deepEqual(layout, { offsets: [0, 8, 16], size: 24 });
+});
+
+test("the struct size rounds up to its widest member", () => {
+  assert.deepEqual(paramsLayout(params("// @color tint\n// @param bool enabled")), { offsets: [0, 16], size: 32 });
+  assert.deepEqual(paramsLayout(params("// @param float2 center\n// @param float speed")), { offsets: [0, 8], size: 16 });
+  assert.deepEqual(paramsLayout(params("// @param bool enabled")), { offsets: [0], size: 16 });
+  assert.deepEqual(paramsLayout([]), { offsets: [], size: 16 });
+});
+
+test("packParams writes each value at its offset", () => {
+  const annotated = params("// @param bool enabled = true\n// @color tint = #ff0000\n// @param float speed = 2.5\n// @param int count = -3");
+  const view = new DataView(packParams(annotated, resolveParamValues(annotated, { speed: 0.75 })));
+
+  assert.equal(view.byteLength, 48);
+  assert.equal(view.getUint8(0), 1);
+  assert.deepEqual([0, 4, 8].map(offset => view.getFloat32(16 + offset, true)), [1, 0, 0]);
+  assert.equal(view.getFloat32(32, true), 0.75);
+  assert.equal(view.getInt32(36, true), -3);
+});